@@ -4,15 +4,21 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { TimeZoneProvider } from "@/contexts/TimeZoneContext";
 import ProtectedRoute from "@/components/ProtectedRoute";
 import Auth from "@/pages/Auth";
 import Dashboard from "@/pages/Dashboard";
 import Flights from "@/pages/Flights";
+import Schedules from "@/pages/Schedules";
+import Aircraft from "@/pages/Aircraft";
 import Runways from "@/pages/Runways";
+import Gates from "@/pages/Gates";
 import ATCPanel from "@/pages/ATCPanel";
 import Passengers from "@/pages/Passengers";
 import Alerts from "@/pages/Alerts";
 import ActivityLog from "@/pages/ActivityLog";
+import DelayAnalysis from "@/pages/DelayAnalysis";
+import Fids from "@/pages/Fids";
 import Admin from "@/pages/Admin";
 import NotFound from "@/pages/NotFound";
 
@@ -25,18 +31,26 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <AuthProvider>
-          <Routes>
-            <Route path="/auth" element={<Auth />} />
-            <Route path="/" element={<ProtectedRoute><Dashboard /></ProtectedRoute>} />
-            <Route path="/flights" element={<ProtectedRoute><Flights /></ProtectedRoute>} />
-            <Route path="/runways" element={<ProtectedRoute><Runways /></ProtectedRoute>} />
-            <Route path="/atc" element={<ProtectedRoute><ATCPanel /></ProtectedRoute>} />
-            <Route path="/passengers" element={<ProtectedRoute><Passengers /></ProtectedRoute>} />
-            <Route path="/alerts" element={<ProtectedRoute><Alerts /></ProtectedRoute>} />
-            <Route path="/activity" element={<ProtectedRoute><ActivityLog /></ProtectedRoute>} />
-            <Route path="/admin" element={<ProtectedRoute requireRole="admin"><Admin /></ProtectedRoute>} />
-            <Route path="*" element={<NotFound />} />
-          </Routes>
+          <TimeZoneProvider>
+            <Routes>
+              <Route path="/auth" element={<Auth />} />
+              <Route path="/fids/departures" element={<Fids board="departures" />} />
+              <Route path="/fids/arrivals" element={<Fids board="arrivals" />} />
+              <Route path="/" element={<ProtectedRoute><Dashboard /></ProtectedRoute>} />
+              <Route path="/flights" element={<ProtectedRoute><Flights /></ProtectedRoute>} />
+              <Route path="/schedules" element={<ProtectedRoute><Schedules /></ProtectedRoute>} />
+              <Route path="/aircraft" element={<ProtectedRoute><Aircraft /></ProtectedRoute>} />
+              <Route path="/runways" element={<ProtectedRoute><Runways /></ProtectedRoute>} />
+              <Route path="/gates" element={<ProtectedRoute><Gates /></ProtectedRoute>} />
+              <Route path="/atc" element={<ProtectedRoute><ATCPanel /></ProtectedRoute>} />
+              <Route path="/passengers" element={<ProtectedRoute><Passengers /></ProtectedRoute>} />
+              <Route path="/alerts" element={<ProtectedRoute><Alerts /></ProtectedRoute>} />
+              <Route path="/delays" element={<ProtectedRoute><DelayAnalysis /></ProtectedRoute>} />
+              <Route path="/activity" element={<ProtectedRoute><ActivityLog /></ProtectedRoute>} />
+              <Route path="/admin" element={<ProtectedRoute requireRole="admin"><Admin /></ProtectedRoute>} />
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </TimeZoneProvider>
         </AuthProvider>
       </BrowserRouter>
     </TooltipProvider>
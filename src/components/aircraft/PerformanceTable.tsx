@@ -0,0 +1,209 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { logActivity } from "@/lib/supabase";
+import { AircraftPerformance } from "@/lib/runwayPerformance";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Plus, Edit, Trash2, Ruler } from "lucide-react";
+
+const defaultForm = { aircraft_type: "", takeoff_distance_m: "", landing_distance_m: "", unpaved_ok: false, notes: "" };
+
+interface PerformanceTableProps {
+  canManage: boolean;
+}
+
+// The required field lengths runway assignments are checked against.
+export default function PerformanceTable({ canManage }: PerformanceTableProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [rows, setRows] = useState<AircraftPerformance[]>([]);
+  const [form, setForm] = useState(defaultForm);
+  const [editId, setEditId] = useState<string | null>(null);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const fetchRows = async () => {
+    const { data } = await supabase.from("aircraft_performance").select("*").order("aircraft_type");
+    setRows(data || []);
+  };
+
+  useEffect(() => {
+    fetchRows();
+    const channel = supabase.channel("aircraft-performance")
+      .on("postgres_changes", { event: "*", schema: "public", table: "aircraft_performance" }, fetchRows)
+      .subscribe();
+    return () => { supabase.removeChannel(channel); };
+  }, []);
+
+  const openAdd = () => { setForm(defaultForm); setEditId(null); setShowForm(true); };
+  const openEdit = (p: AircraftPerformance) => {
+    setForm({
+      aircraft_type: p.aircraft_type,
+      takeoff_distance_m: p.takeoff_distance_m.toString(),
+      landing_distance_m: p.landing_distance_m.toString(),
+      unpaved_ok: p.unpaved_ok,
+      notes: p.notes || "",
+    });
+    setEditId(p.id);
+    setShowForm(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.aircraft_type.trim() || !(Number(form.takeoff_distance_m) > 0) || !(Number(form.landing_distance_m) > 0)) {
+      toast({ title: "Validation Error", description: "Type and both distances are required.", variant: "destructive" });
+      return;
+    }
+    setSaving(true);
+    const payload = {
+      aircraft_type: form.aircraft_type.trim(),
+      takeoff_distance_m: Number(form.takeoff_distance_m),
+      landing_distance_m: Number(form.landing_distance_m),
+      unpaved_ok: form.unpaved_ok,
+      notes: form.notes || null,
+    };
+    const { error } = editId
+      ? await supabase.from("aircraft_performance").update(payload).eq("id", editId)
+      : await supabase.from("aircraft_performance").insert([payload]);
+    if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
+    else {
+      toast({ title: editId ? "Performance Updated" : "Performance Added", description: `${payload.aircraft_type} runway requirements saved.` });
+      await logActivity(user!.id, `${editId ? "Updated" : "Added"} performance data for ${payload.aircraft_type}`, "aircraft_performance", editId ?? undefined);
+      setShowForm(false);
+    }
+    setSaving(false);
+    fetchRows();
+  };
+
+  const handleDelete = async () => {
+    if (!deleteId) return;
+    const p = rows.find(p => p.id === deleteId);
+    const { error } = await supabase.from("aircraft_performance").delete().eq("id", deleteId);
+    if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
+    else {
+      toast({ title: "Performance Deleted", description: `${p?.aircraft_type} is no longer checked against runway length.` });
+      await logActivity(user!.id, `Deleted performance data for ${p?.aircraft_type}`, "aircraft_performance", deleteId);
+      fetchRows();
+    }
+    setDeleteId(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-sm font-semibold text-foreground">Runway Performance ({rows.length})</h2>
+          <p className="text-xs text-muted-foreground">Field length needed at maximum weight. Types match the longest entry they start with.</p>
+        </div>
+        {canManage && (
+          <Button variant="outline" onClick={openAdd} className="gap-2">
+            <Plus className="w-4 h-4" /> Add Type
+          </Button>
+        )}
+      </div>
+
+      <div className="glass-card rounded-xl overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-border bg-muted/30">
+                <th className="text-left px-4 py-3 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Type</th>
+                <th className="text-left px-4 py-3 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Take-off</th>
+                <th className="text-left px-4 py-3 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Landing</th>
+                <th className="text-left px-4 py-3 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Surfaces</th>
+                <th className="text-right px-4 py-3 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="text-center py-8">
+                    <Ruler className="w-8 h-8 text-muted-foreground mx-auto mb-2" />
+                    <p className="text-muted-foreground">No performance data. Runway assignments are not length-checked.</p>
+                  </td>
+                </tr>
+              ) : rows.map(p => (
+                <tr key={p.id} className="border-b border-border/50 hover:bg-muted/30 transition-colors">
+                  <td className="px-4 py-3">
+                    <p className="text-foreground font-medium">{p.aircraft_type}</p>
+                    {p.notes && <p className="text-xs text-muted-foreground">{p.notes}</p>}
+                  </td>
+                  <td className="px-4 py-3 text-xs font-mono text-foreground">{p.takeoff_distance_m.toLocaleString()} m</td>
+                  <td className="px-4 py-3 text-xs font-mono text-foreground">{p.landing_distance_m.toLocaleString()} m</td>
+                  <td className="px-4 py-3 text-xs text-muted-foreground">{p.unpaved_ok ? "Paved and unpaved" : "Paved only"}</td>
+                  <td className="px-4 py-3">
+                    {canManage && (
+                      <div className="flex items-center justify-end gap-1">
+                        <button onClick={() => openEdit(p)} className="p-1.5 rounded hover:bg-primary/10 text-muted-foreground hover:text-primary transition-colors">
+                          <Edit className="w-3.5 h-3.5" />
+                        </button>
+                        <button onClick={() => setDeleteId(p.id)} className="p-1.5 rounded hover:bg-destructive/10 text-muted-foreground hover:text-destructive transition-colors">
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent className="bg-card border-border max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editId ? "Edit Performance" : "Add Performance"}</DialogTitle>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4 py-2">
+            <div className="space-y-1.5 col-span-2">
+              <Label className="text-xs">Aircraft Type *</Label>
+              <Input value={form.aircraft_type} onChange={e => setForm(p => ({ ...p, aircraft_type: e.target.value }))} placeholder="737-800" className="bg-muted border-border" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Take-off Distance (m) *</Label>
+              <Input type="number" min={0} value={form.takeoff_distance_m} onChange={e => setForm(p => ({ ...p, takeoff_distance_m: e.target.value }))} className="bg-muted border-border" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Landing Distance (m) *</Label>
+              <Input type="number" min={0} value={form.landing_distance_m} onChange={e => setForm(p => ({ ...p, landing_distance_m: e.target.value }))} className="bg-muted border-border" />
+            </div>
+            <div className="col-span-2 flex items-center justify-between">
+              <Label className="text-xs">Can use gravel and grass runways</Label>
+              <Switch checked={form.unpaved_ok} onCheckedChange={v => setForm(p => ({ ...p, unpaved_ok: v }))} />
+            </div>
+            <div className="space-y-1.5 col-span-2">
+              <Label className="text-xs">Notes</Label>
+              <Input value={form.notes} onChange={e => setForm(p => ({ ...p, notes: e.target.value }))} placeholder="Source, conditions..." className="bg-muted border-border" />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowForm(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving} className="bg-primary text-primary-foreground">
+              {saving ? "Saving..." : (editId ? "Update" : "Add Type")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
+        <AlertDialogContent className="bg-card border-border">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Performance Data</AlertDialogTitle>
+            <AlertDialogDescription>Runway assignments for this type will no longer be checked against runway length.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground">Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,360 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useTimeZone } from "@/contexts/TimeZoneContext";
+import { useToast } from "@/hooks/use-toast";
+import { logActivity } from "@/lib/supabase";
+import { statusLabel } from "@/lib/flightStatus";
+import { formatDelay } from "@/lib/flightTimes";
+import {
+  AIRBORNE_STATUSES, ArrivalFlight, FuelState, HOLDING_LEVEL_STEP_FT, HoldingStack, SequencedArrival,
+  arrivalSequence, describeLevel, fuelRemainingMinutes, fuelState, holdingEnteredAt, nextFreeLevel, stackOccupants, suggestedApproachTime,
+} from "@/lib/arrivalSequence";
+import ZonedDateTimeInput from "@/components/flights/ZonedDateTimeInput";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PlaneLanding, RotateCw, Fuel, Plus, Trash2, LogOut } from "lucide-react";
+
+interface ArrivalManagerProps {
+  runways: { id: string; name: string }[];
+  flights: ArrivalFlight[];
+  home?: string;
+  canEdit: boolean;
+  onChange: () => void;
+}
+
+const MINUTE = 60000;
+
+const fuelStyle: Record<FuelState, string> = {
+  ok: "text-muted-foreground",
+  minimum: "text-[hsl(var(--status-delayed))] font-semibold",
+  emergency: "text-destructive font-semibold animate-pulse",
+};
+
+const fuelLabel: Record<FuelState, string> = {
+  ok: "",
+  minimum: "MINIMUM FUEL",
+  emergency: "MAYDAY FUEL",
+};
+
+const defaultStackForm = { name: "", fix: "", lowest_level_ft: "7000", highest_level_ft: "15000" };
+
+export default function ArrivalManager({ runways, flights, home, canEdit, onChange }: ArrivalManagerProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { formatTime, mode } = useTimeZone();
+  const [stacks, setStacks] = useState<HoldingStack[]>([]);
+  const [now, setNow] = useState(new Date());
+  const [holdFor, setHoldFor] = useState<SequencedArrival | null>(null);
+  const [hold, setHold] = useState({ stackId: "", level: "", approachAt: "", endurance: "" });
+  const [showStackForm, setShowStackForm] = useState(false);
+  const [stackForm, setStackForm] = useState(defaultStackForm);
+
+  const fetchStacks = async () => {
+    const { data } = await supabase.from("holding_stacks").select("*").order("name");
+    setStacks(data || []);
+  };
+
+  useEffect(() => {
+    fetchStacks();
+    const clock = setInterval(() => setNow(new Date()), 60000);
+    const channel = supabase.channel("holding-stacks")
+      .on("postgres_changes", { event: "*", schema: "public", table: "holding_stacks" }, fetchStacks)
+      .subscribe();
+    return () => {
+      clearInterval(clock);
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  const sequences = [...runways, { id: null, name: "No runway" }]
+    .map(r => ({ runway: r, sequence: arrivalSequence(flights, r.id, now, home) }))
+    .filter(s => s.runway.id !== null || s.sequence.length > 0);
+  const sequenced = sequences.flatMap(s => s.sequence);
+  const time = (ms: number) => formatTime(new Date(ms).toISOString(), home);
+
+  const openHold = (a: SequencedArrival) => {
+    const stack = stacks.find(s => nextFreeLevel(s, flights) !== null);
+    setHold({
+      stackId: stack?.id ?? "",
+      level: stack ? String(nextFreeLevel(stack, flights)) : "",
+      approachAt: suggestedApproachTime(a, now),
+      endurance: "",
+    });
+    setHoldFor(a);
+  };
+
+  const changeStack = (stackId: string) => {
+    const stack = stacks.find(s => s.id === stackId);
+    const level = stack ? nextFreeLevel(stack, flights) : null;
+    setHold(h => ({ ...h, stackId, level: level === null ? "" : String(level) }));
+  };
+
+  const handleHold = async () => {
+    if (!holdFor) return;
+    const f = holdFor.flight;
+    const stack = stacks.find(s => s.id === hold.stackId);
+    const level = Number(hold.level);
+    const endurance = hold.endurance.trim() ? Number(hold.endurance) : null;
+    if (!stack || !hold.approachAt) {
+      toast({ title: "Validation Error", description: "Choose a stack and an expected approach time.", variant: "destructive" });
+      return;
+    }
+    if (!Number.isInteger(level) || level < stack.lowest_level_ft || level > stack.highest_level_ft || (level - stack.lowest_level_ft) % HOLDING_LEVEL_STEP_FT !== 0) {
+      toast({ title: "Validation Error", description: `${stack.name} is flown from ${describeLevel(stack.lowest_level_ft)} to ${describeLevel(stack.highest_level_ft)} in ${HOLDING_LEVEL_STEP_FT} ft steps.`, variant: "destructive" });
+      return;
+    }
+    const occupant = stackOccupants(flights, stack.id).find(o => o.holding_level_ft === level && o.id !== f.id);
+    if (occupant) {
+      toast({ title: "Validation Error", description: `${occupant.flight_number} is already holding at ${describeLevel(level)} over ${stack.name}.`, variant: "destructive" });
+      return;
+    }
+    if (endurance !== null && (!Number.isInteger(endurance) || endurance < 0)) {
+      toast({ title: "Validation Error", description: "Endurance must be a whole number of minutes.", variant: "destructive" });
+      return;
+    }
+    // A blank endurance keeps the last fuel report.
+    const reportedAt = new Date();
+    const { error } = await supabase.from("flights").update({
+      holding_stack_id: stack.id,
+      holding_level_ft: level,
+      holding_entered_at: holdingEnteredAt(f, reportedAt),
+      expected_approach_at: hold.approachAt,
+      ...(endurance !== null && { fuel_endurance_minutes: endurance, fuel_reported_at: reportedAt.toISOString() }),
+    }).eq("id", f.id);
+    if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
+    else {
+      toast({ title: "Holding", description: `${f.flight_number} holding over ${stack.name} at ${describeLevel(level)}, expect approach ${formatTime(hold.approachAt, home)}.` });
+      await logActivity(user!.id, `ATC: ${f.flight_number} holding over ${stack.name}`, "flight", f.id, { stack: stack.name, level, expected_approach_at: hold.approachAt, fuel_endurance_minutes: endurance });
+    }
+    setHoldFor(null);
+    onChange();
+  };
+
+  const leaveHold = async (f: ArrivalFlight) => {
+    const stack = stacks.find(s => s.id === f.holding_stack_id);
+    const { error } = await supabase.from("flights").update({
+      holding_stack_id: null, holding_level_ft: null, holding_entered_at: null, expected_approach_at: null,
+    }).eq("id", f.id);
+    if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
+    else {
+      toast({ title: "Cleared for Approach", description: `${f.flight_number} left ${stack?.name ?? "the stack"}.` });
+      await logActivity(user!.id, `ATC: ${f.flight_number} left ${stack?.name ?? "holding"} for the approach`, "flight", f.id, { stack: stack?.name });
+    }
+    onChange();
+  };
+
+  const handleAddStack = async () => {
+    const lowest = Number(stackForm.lowest_level_ft);
+    const highest = Number(stackForm.highest_level_ft);
+    if (!stackForm.name.trim() || !Number.isInteger(lowest) || !Number.isInteger(highest) || lowest <= 0 || highest < lowest) {
+      toast({ title: "Validation Error", description: "A stack needs a name and a lowest level no higher than its highest.", variant: "destructive" });
+      return;
+    }
+    const { error } = await supabase.from("holding_stacks").insert([{
+      name: stackForm.name.trim().toUpperCase(),
+      fix: stackForm.fix.trim().toUpperCase() || null,
+      lowest_level_ft: lowest,
+      highest_level_ft: highest,
+    }]);
+    if (error) { toast({ title: "Error", description: error.message, variant: "destructive" }); return; }
+    await logActivity(user!.id, `Created holding stack ${stackForm.name.trim().toUpperCase()}`, "holding_stack");
+    setStackForm(defaultStackForm);
+    setShowStackForm(false);
+    fetchStacks();
+  };
+
+  const deleteStack = async (stack: HoldingStack) => {
+    const { error } = await supabase.from("holding_stacks").delete().eq("id", stack.id);
+    if (error) { toast({ title: "Error", description: error.message, variant: "destructive" }); return; }
+    await logActivity(user!.id, `Deleted holding stack ${stack.name}`, "holding_stack", stack.id);
+    fetchStacks();
+  };
+
+  return (
+    <div className="glass-card rounded-xl overflow-hidden">
+      <div className="px-4 py-3 border-b border-border flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">
+          <PlaneLanding className="w-4 h-4 text-primary" />
+          Arrival Manager
+        </h3>
+        <span className="text-xs text-muted-foreground">Spacing by wake category · emergencies first</span>
+      </div>
+
+      {/* Landing sequence per runway */}
+      <div className="grid lg:grid-cols-2 gap-px bg-border/50">
+        {sequences.map(({ runway, sequence }) => (
+          <div key={runway.id ?? "none"} className="bg-card p-3">
+            <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-2">
+              {runway.name} <span className="normal-case font-normal">· {sequence.length} arrival{sequence.length === 1 ? "" : "s"}</span>
+            </p>
+            {sequence.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No arrivals sequenced.</p>
+            ) : (
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-muted-foreground">
+                    <th className="font-medium py-1 w-6">#</th>
+                    <th className="font-medium py-1">Flight</th>
+                    <th className="font-medium py-1">ETA</th>
+                    <th className="font-medium py-1">Landing</th>
+                    <th className="font-medium py-1">Delay</th>
+                    {canEdit && <th />}
+                  </tr>
+                </thead>
+                <tbody>
+                  {sequence.map((a, i) => (
+                    <tr key={a.flight.id} className="border-t border-border/50">
+                      <td className="py-1.5 font-mono text-muted-foreground">{i + 1}</td>
+                      <td className="py-1.5">
+                        <span className="font-mono font-bold text-primary">{a.flight.flight_number}</span>
+                        <span className="text-muted-foreground"> · {a.wake} · <span className="capitalize">{statusLabel(a.flight.status)}</span></span>
+                        {a.holding && <span className="text-[hsl(var(--status-delayed))]"> · holding</span>}
+                        {a.fuel && a.fuel !== "ok" && <span className={fuelStyle[a.fuel]}> · {fuelLabel[a.fuel]}</span>}
+                      </td>
+                      <td className="py-1.5 font-mono">{time(a.eta)}</td>
+                      <td className="py-1.5 font-mono font-semibold">{time(a.targetLanding)}</td>
+                      <td className={`py-1.5 ${a.delayMinutes > 0 ? "text-[hsl(var(--status-delayed))] font-semibold" : "text-muted-foreground"}`}>
+                        {formatDelay(Math.max(0, a.delayMinutes))}
+                        {a.holdAdvised && <span className="block text-[10px] font-normal">hold advised</span>}
+                      </td>
+                      {canEdit && (
+                        <td className="py-1.5 text-right">
+                          {a.holding ? (
+                            <button onClick={() => leaveHold(a.flight)} className="inline-flex items-center gap-1 px-2 py-1 rounded-lg border border-primary/30 bg-primary/10 text-primary font-semibold hover:bg-primary/20">
+                              <LogOut className="w-3 h-3" /> Approach
+                            </button>
+                          ) : AIRBORNE_STATUSES.includes(a.flight.status) && (
+                            <button onClick={() => openHold(a)} disabled={stacks.length === 0} className="inline-flex items-center gap-1 px-2 py-1 rounded-lg border border-border hover:bg-muted font-semibold disabled:opacity-30 disabled:cursor-not-allowed">
+                              <RotateCw className="w-3 h-3" /> Hold
+                            </button>
+                          )}
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Holding stacks */}
+      <div className="border-t border-border p-3 space-y-2">
+        <div className="flex items-center justify-between">
+          <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Holding Stacks</p>
+          {canEdit && (
+            <Button size="sm" variant="outline" onClick={() => setShowStackForm(v => !v)} className="h-7 text-xs border-border">
+              <Plus className="w-3 h-3 mr-1" /> Stack
+            </Button>
+          )}
+        </div>
+        {showStackForm && (
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-2 items-end">
+            <div className="space-y-1"><Label className="text-xs">Name *</Label><Input value={stackForm.name} onChange={e => setStackForm(p => ({ ...p, name: e.target.value }))} placeholder="BNN" className="h-8 bg-muted border-border" /></div>
+            <div className="space-y-1"><Label className="text-xs">Fix</Label><Input value={stackForm.fix} onChange={e => setStackForm(p => ({ ...p, fix: e.target.value }))} placeholder="BOVINGDON" className="h-8 bg-muted border-border" /></div>
+            <div className="space-y-1"><Label className="text-xs">Lowest (ft)</Label><Input type="number" step={HOLDING_LEVEL_STEP_FT} value={stackForm.lowest_level_ft} onChange={e => setStackForm(p => ({ ...p, lowest_level_ft: e.target.value }))} className="h-8 bg-muted border-border" /></div>
+            <div className="space-y-1"><Label className="text-xs">Highest (ft)</Label><Input type="number" step={HOLDING_LEVEL_STEP_FT} value={stackForm.highest_level_ft} onChange={e => setStackForm(p => ({ ...p, highest_level_ft: e.target.value }))} className="h-8 bg-muted border-border" /></div>
+            <Button size="sm" onClick={handleAddStack} className="h-8 bg-primary text-primary-foreground">Add Stack</Button>
+          </div>
+        )}
+        {stacks.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No holding stacks defined.</p>
+        ) : (
+          <div className="grid md:grid-cols-2 xl:grid-cols-3 gap-2">
+            {stacks.map(s => {
+              const occupants = stackOccupants(flights, s.id);
+              return (
+                <div key={s.id} className="rounded-lg border border-border p-2.5">
+                  <div className="flex items-center justify-between mb-1">
+                    <p className="text-xs font-bold text-foreground">
+                      {s.name}{s.fix && s.fix !== s.name && <span className="font-normal text-muted-foreground"> · {s.fix}</span>}
+                      <span className="font-normal text-muted-foreground"> · {describeLevel(s.lowest_level_ft)}–{describeLevel(s.highest_level_ft)}</span>
+                    </p>
+                    {canEdit && occupants.length === 0 && (
+                      <button onClick={() => deleteStack(s)} aria-label={`Delete ${s.name}`} className="p-1 rounded hover:bg-destructive/10 text-muted-foreground hover:text-destructive">
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    )}
+                  </div>
+                  {occupants.length === 0 ? (
+                    <p className="text-[10px] text-muted-foreground">Empty</p>
+                  ) : [...occupants].reverse().map(f => {
+                    const remaining = fuelRemainingMinutes(f, now.getTime());
+                    const state = sequenced.find(a => a.flight.id === f.id)?.fuel ?? (remaining === null ? null : fuelState(remaining));
+                    return (
+                      <div key={f.id} className="flex items-center justify-between gap-2 py-0.5 text-xs">
+                        <span className="font-mono text-muted-foreground w-12 shrink-0">{describeLevel(f.holding_level_ft!)}</span>
+                        <span className="font-mono font-bold text-primary flex-1">{f.flight_number}</span>
+                        <span className="text-muted-foreground" title="Entered the hold · expected approach time">
+                          {formatTime(f.holding_entered_at!, home)} · {Math.round((now.getTime() - Date.parse(f.holding_entered_at!)) / MINUTE)} min
+                          {f.expected_approach_at && <> · EAT {formatTime(f.expected_approach_at, home)}</>}
+                        </span>
+                        {remaining !== null && (
+                          <span className={`flex items-center gap-0.5 ${state ? fuelStyle[state] : ""}`} title="Endurance remaining; the warning is for the expected landing time">
+                            <Fuel className="w-3 h-3" /> {remaining} min
+                          </span>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Hold dialog */}
+      <Dialog open={!!holdFor} onOpenChange={() => setHoldFor(null)}>
+        <DialogContent className="bg-card border-border max-w-md">
+          <DialogHeader>
+            <DialogTitle>Hold {holdFor?.flight.flight_number}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3 py-2">
+            {holdFor && (
+              <p className="text-xs text-muted-foreground">
+                ETA {time(holdFor.eta)} · landing slot {time(holdFor.targetLanding)} ({formatDelay(Math.max(0, holdFor.delayMinutes))})
+              </p>
+            )}
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label className="text-xs">Stack *</Label>
+                <Select value={hold.stackId} onValueChange={changeStack}>
+                  <SelectTrigger className="bg-muted border-border"><SelectValue placeholder="Select stack" /></SelectTrigger>
+                  <SelectContent>
+                    {stacks.map(s => (
+                      <SelectItem key={s.id} value={s.id} disabled={nextFreeLevel(s, flights) === null}>
+                        {s.name}{nextFreeLevel(s, flights) === null && " · full"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs">Level (ft) *</Label>
+                <Input type="number" step={HOLDING_LEVEL_STEP_FT} value={hold.level} onChange={e => setHold(h => ({ ...h, level: e.target.value }))} className="bg-muted border-border" />
+              </div>
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Expected Approach Time *</Label>
+              <ZonedDateTimeInput value={hold.approachAt} onChange={v => setHold(h => ({ ...h, approachAt: v }))} airport={home} mode={mode} />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Fuel Endurance (min)</Label>
+              <Input type="number" min={0} value={hold.endurance} onChange={e => setHold(h => ({ ...h, endurance: e.target.value }))} placeholder="As reported by the crew" className="bg-muted border-border" />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setHoldFor(null)}>Cancel</Button>
+            <Button onClick={handleHold} className="bg-primary text-primary-foreground">Confirm Hold</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
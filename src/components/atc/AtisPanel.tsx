@@ -0,0 +1,176 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useTimeZone } from "@/contexts/TimeZoneContext";
+import { useAirports } from "@/hooks/use-airports";
+import { useToast } from "@/hooks/use-toast";
+import { logActivity } from "@/lib/supabase";
+import { Metar } from "@/lib/metar";
+import { WindRunway } from "@/lib/runwayWind";
+import { RunwayClosure } from "@/lib/runwayClosures";
+import { AtisBroadcast, AtisReason, atisContent, atisText, phonetic, spokenAtis } from "@/lib/atis";
+import { Button } from "@/components/ui/button";
+import { Megaphone, Volume2, Square, RefreshCw } from "lucide-react";
+
+interface AtisPanelProps {
+  runways: WindRunway[];
+  closures: RunwayClosure[];
+  metar: Metar | null;
+  observationId: string | null;
+  // False until the runways, closures and METAR have been fetched, so a
+  // half-loaded picture is never issued.
+  loaded: boolean;
+  canEdit: boolean;
+}
+
+const HISTORY_SIZE = 10;
+
+const reasonLabel: Record<AtisReason, string> = {
+  weather: "Weather",
+  runway: "Runways",
+  manual: "Manual",
+};
+
+export default function AtisPanel({ runways, closures, metar, observationId, loaded, canEdit }: AtisPanelProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { home } = useAirports();
+  const { formatDateTime } = useTimeZone();
+  const [broadcasts, setBroadcasts] = useState<AtisBroadcast[]>([]);
+  const [fetched, setFetched] = useState(false);
+  const [issuing, setIssuing] = useState(false);
+  // Content the last automatic issue failed on, so it is not retried every render.
+  const [failed, setFailed] = useState<string | null>(null);
+  const [speaking, setSpeaking] = useState(false);
+  const [now, setNow] = useState(new Date());
+
+  const fetchBroadcasts = async () => {
+    const { data } = await supabase.from("atis_broadcasts").select("*").order("issued_at", { ascending: false }).limit(HISTORY_SIZE);
+    setBroadcasts((data || []) as AtisBroadcast[]);
+    setFetched(true);
+  };
+
+  useEffect(() => {
+    fetchBroadcasts();
+    // Closures enter the remarks as they come within range.
+    const clock = setInterval(() => setNow(new Date()), 60000);
+    const channel = supabase.channel("atis-broadcasts")
+      .on("postgres_changes", { event: "*", schema: "public", table: "atis_broadcasts" }, fetchBroadcasts)
+      .subscribe();
+    return () => {
+      clearInterval(clock);
+      supabase.removeChannel(channel);
+      window.speechSynthesis?.cancel();
+    };
+  }, []);
+
+  const station = home?.icao || home?.iata || "";
+  const current = broadcasts[0] ?? null;
+  const generated = atisContent({ metar, runways, closures, now });
+  const text = current ? atisText(current.station, current.letter, current.content) : null;
+
+  const issue = async (reason: AtisReason, force: boolean) => {
+    setIssuing(true);
+    const { data, error } = await supabase.rpc("issue_atis", {
+      _station: station,
+      _content: generated.content,
+      _runways: generated.runways,
+      _observation_id: observationId,
+      _reason: reason,
+      _force: force,
+    });
+    setFailed(error ? generated.content : null);
+    if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
+    else if (data && data.id !== current?.id) {
+      toast({ title: `Information ${phonetic(data.letter)}`, description: `ATIS issued for ${data.station}.` });
+      await logActivity(user!.id, `ATC: Issued ATIS information ${phonetic(data.letter)}`, "atis", data.id, { reason });
+    }
+    await fetchBroadcasts();
+    setIssuing(false);
+  };
+
+  // The letter advances whenever runways or weather change what the broadcast
+  // says. Checked on every render; issue_atis() ignores unchanged content.
+  useEffect(() => {
+    if (!canEdit || !loaded || !fetched || issuing || !station || failed === generated.content) return;
+    if (current && current.station === station && current.content === generated.content) return;
+    issue(current && current.observation_id !== observationId ? "weather" : current ? "runway" : "manual", false);
+  });
+
+  const toggleSpeech = () => {
+    const synth = window.speechSynthesis;
+    if (speaking) {
+      synth.cancel();
+      setSpeaking(false);
+      return;
+    }
+    if (!text) return;
+    const utterance = new SpeechSynthesisUtterance(spokenAtis(text));
+    utterance.lang = "en-GB";
+    utterance.rate = 0.9;
+    utterance.onend = () => setSpeaking(false);
+    utterance.onerror = () => setSpeaking(false);
+    synth.cancel();
+    synth.speak(utterance);
+    setSpeaking(true);
+  };
+
+  return (
+    <div className="glass-card rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">
+          <Megaphone className="w-4 h-4 text-primary" />
+          ATIS{current && ` — Information ${phonetic(current.letter)}`}
+        </h3>
+        <div className="flex items-center gap-2">
+          {"speechSynthesis" in window && (
+            <Button size="sm" variant="outline" onClick={toggleSpeech} disabled={!text} className="border-border">
+              {speaking ? <Square className="w-3.5 h-3.5 mr-1" /> : <Volume2 className="w-3.5 h-3.5 mr-1" />}
+              {speaking ? "Stop" : "Play"}
+            </Button>
+          )}
+          {canEdit && (
+            <Button size="sm" onClick={() => issue("manual", true)} disabled={issuing || !loaded || !station} className="bg-primary text-primary-foreground">
+              <RefreshCw className="w-3.5 h-3.5 mr-1" /> Issue Next
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {current ? (
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <span className="text-2xl font-bold font-mono text-primary">{current.letter}</span>
+            <span className="text-xs text-muted-foreground">
+              {formatDateTime(current.issued_at, home?.iata)} · {reasonLabel[current.reason]}
+              {current.runways.length > 0 && ` · ${current.runways.join(", ")}`}
+            </span>
+          </div>
+          <p className="text-sm text-foreground leading-relaxed">{text}</p>
+          {current.content !== generated.content && (
+            <p className="text-xs text-[hsl(var(--status-delayed))]">Conditions have changed since this information was issued.</p>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">No ATIS issued yet.</p>
+      )}
+
+      {broadcasts.length > 1 && (
+        <div>
+          <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-1">History</p>
+          <div className="max-h-40 overflow-y-auto divide-y divide-border/50">
+            {broadcasts.slice(1).map(b => (
+              <div key={b.id} className="py-1.5 flex items-start gap-2">
+                <span className="text-xs font-bold font-mono text-muted-foreground w-4 shrink-0">{b.letter}</span>
+                <div className="min-w-0">
+                  <p className="text-xs text-foreground break-words">{b.content}</p>
+                  <p className="text-[10px] text-muted-foreground">{formatDateTime(b.issued_at, home?.iata)} · {reasonLabel[b.reason]}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
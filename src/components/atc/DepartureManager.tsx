@@ -0,0 +1,165 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useTimeZone } from "@/contexts/TimeZoneContext";
+import { useToast } from "@/hooks/use-toast";
+import { logActivity } from "@/lib/supabase";
+import { statusLabel } from "@/lib/flightStatus";
+import { formatDelay } from "@/lib/flightTimes";
+import { DepartureFlight, QueuedDeparture, departureQueue, moveInQueue } from "@/lib/departureSequence";
+import { ChevronUp, ChevronDown, PlaneTakeoff, ArrowRightToLine, CheckCircle } from "lucide-react";
+
+interface DepartureManagerProps {
+  runways: { id: string; name: string; status: string }[];
+  flights: DepartureFlight[];
+  home?: string;
+  canEdit: boolean;
+  onChange: () => void;
+}
+
+type Clearance = "line_up" | "clear_for_takeoff" | "approve_takeoff";
+
+// The clearance that moves each queued status on, towards departed.
+const lineUp = { rpc: "line_up" as Clearance, label: "Line Up", done: "lined up", icon: ArrowRightToLine };
+const nextClearance: Record<string, { rpc: Clearance; label: string; done: string; icon: typeof PlaneTakeoff }> = {
+  scheduled: lineUp,
+  boarding: lineUp,
+  delayed: lineUp,
+  lined_up: { rpc: "clear_for_takeoff", label: "Clear for Takeoff", done: "cleared for takeoff", icon: CheckCircle },
+  cleared_for_takeoff: { rpc: "approve_takeoff", label: "Departed", done: "departed", icon: PlaneTakeoff },
+};
+
+const rowStyle: Record<string, string> = {
+  lined_up: "bg-[hsl(var(--status-lined-up)/0.08)]",
+  cleared_for_takeoff: "bg-[hsl(var(--status-cleared)/0.1)]",
+};
+
+export default function DepartureManager({ runways, flights, home, canEdit, onChange }: DepartureManagerProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { formatTime } = useTimeZone();
+  const [now, setNow] = useState(new Date());
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    const clock = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(clock);
+  }, []);
+
+  const queues = runways
+    .map(r => ({ runway: r, queue: departureQueue(flights, r.id, now, home) }))
+    .filter(q => q.queue.length > 0 || !["maintenance", "closed"].includes(q.runway.status));
+  const time = (ms: number | null) => (ms === null ? "—" : formatTime(new Date(ms).toISOString(), home));
+
+  const move = async (runway: { id: string; name: string }, queue: QueuedDeparture[], q: QueuedDeparture, offset: number) => {
+    const ids = moveInQueue(queue, q.flight.id, offset);
+    if (!ids) return;
+    setBusy(true);
+    const { error } = await supabase.rpc("sequence_departures", { _runway_id: runway.id, _flight_ids: ids });
+    if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
+    else await logActivity(user!.id, `ATC: Moved ${q.flight.flight_number} ${offset < 0 ? "up" : "down"} the ${runway.name} departure queue`, "flight", q.flight.id, { runway_id: runway.id, sequence: ids });
+    setBusy(false);
+    onChange();
+  };
+
+  const clear = async (q: QueuedDeparture) => {
+    const next = nextClearance[q.flight.status];
+    setBusy(true);
+    const { error } = await supabase.rpc(next.rpc, { _flight_id: q.flight.id });
+    if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
+    else {
+      toast({ title: next.label, description: `${q.flight.flight_number} ${next.done}.` });
+      await logActivity(user!.id, `ATC: ${next.label} for ${q.flight.flight_number}`, "flight", q.flight.id, { action: next.rpc });
+    }
+    setBusy(false);
+    onChange();
+  };
+
+  return (
+    <div className="glass-card rounded-xl overflow-hidden">
+      <div className="px-4 py-3 border-b border-border flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">
+          <PlaneTakeoff className="w-4 h-4 text-primary" />
+          Departure Manager
+        </h3>
+        <span className="text-xs text-muted-foreground">TSAT = start-up approval · TTOT = take-off</span>
+      </div>
+      {queues.length === 0 ? (
+        <p className="p-4 text-sm text-muted-foreground">No runways open for departures.</p>
+      ) : (
+        <div className="grid lg:grid-cols-2 gap-px bg-border/50">
+          {queues.map(({ runway, queue }) => (
+            <div key={runway.id} className="bg-card p-3">
+              <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-2">
+                {runway.name} <span className="normal-case font-normal">· {queue.length} departure{queue.length === 1 ? "" : "s"}</span>
+              </p>
+              {queue.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No departures queued.</p>
+              ) : (
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-left text-muted-foreground">
+                      <th className="font-medium py-1 w-6">#</th>
+                      <th className="font-medium py-1">Flight</th>
+                      <th className="font-medium py-1">TSAT</th>
+                      <th className="font-medium py-1">TTOT</th>
+                      <th className="font-medium py-1">Delay</th>
+                      {canEdit && <th />}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {queue.map((q, i) => {
+                      const next = nextClearance[q.flight.status];
+                      const movable = canEdit && !q.onRunway;
+                      return (
+                        <tr key={q.flight.id} className={`border-t border-border/50 ${rowStyle[q.flight.status] ?? ""}`}>
+                          <td className="py-1.5 font-mono text-muted-foreground">{i + 1}</td>
+                          <td className="py-1.5">
+                            <span className="font-mono font-bold text-primary">{q.flight.flight_number}</span>
+                            <span className="text-muted-foreground"> · {q.wake} · <span className="capitalize">{statusLabel(q.flight.status)}</span></span>
+                            {q.flight.departure_sequence === null && !q.onRunway && <span className="text-muted-foreground" title="Placed by departure time"> · auto</span>}
+                          </td>
+                          <td className="py-1.5 font-mono">{time(q.targetStartup)}</td>
+                          <td className="py-1.5 font-mono font-semibold">{time(q.targetTakeoff)}</td>
+                          <td className={`py-1.5 ${q.delayMinutes > 0 ? "text-[hsl(var(--status-delayed))] font-semibold" : "text-muted-foreground"}`}>
+                            {formatDelay(Math.max(0, q.delayMinutes))}
+                          </td>
+                          {canEdit && (
+                            <td className="py-1.5">
+                              <div className="flex items-center justify-end gap-1">
+                                {movable && (
+                                  <>
+                                    <button onClick={() => move(runway, queue, q, -1)} disabled={busy || i === 0 || queue[i - 1].onRunway} aria-label="Move up" className="p-1 rounded hover:bg-muted disabled:opacity-30">
+                                      <ChevronUp className="w-3.5 h-3.5" />
+                                    </button>
+                                    <button onClick={() => move(runway, queue, q, 1)} disabled={busy || i === queue.length - 1} aria-label="Move down" className="p-1 rounded hover:bg-muted disabled:opacity-30">
+                                      <ChevronDown className="w-3.5 h-3.5" />
+                                    </button>
+                                  </>
+                                )}
+                                {next && (
+                                  <button
+                                    onClick={() => clear(q)}
+                                    disabled={busy || (!q.onRunway && queue.some(o => o.onRunway))}
+                                    className="flex items-center gap-1 px-2 py-1 rounded-lg border border-primary/30 bg-primary/10 text-primary font-semibold hover:bg-primary/20 disabled:opacity-30 disabled:cursor-not-allowed"
+                                  >
+                                    <next.icon className="w-3 h-3" />
+                                    {next.label}
+                                  </button>
+                                )}
+                              </div>
+                            </td>
+                          )}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
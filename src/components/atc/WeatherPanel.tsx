@@ -0,0 +1,248 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useTimeZone } from "@/contexts/TimeZoneContext";
+import { useAirports } from "@/hooks/use-airports";
+import { useToast } from "@/hooks/use-toast";
+import { logActivity } from "@/lib/supabase";
+import {
+  FlightCategory, Metar, Taf, WeatherObservation, WeatherReport,
+  describeClouds, describeRvr, describeVisibility, describeWeather, describeWind, flightCategory, observationColumns, parseWeatherReport, splitReports, uniqueReports,
+} from "@/lib/metar";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { CloudSun, FileUp, AlertTriangle } from "lucide-react";
+
+interface WeatherPanelProps {
+  canEdit: boolean;
+}
+
+const HISTORY_SIZE = 20;
+// A METAR older than this is flagged; stations report at least half-hourly.
+const STALE_MINUTES = 60;
+
+const categoryStyle: Record<FlightCategory, string> = {
+  VFR: "bg-[hsl(var(--status-landed)/0.15)] text-[hsl(var(--status-landed))] border-[hsl(var(--status-landed)/0.3)]",
+  MVFR: "bg-[hsl(var(--status-scheduled)/0.15)] text-[hsl(var(--status-scheduled))] border-[hsl(var(--status-scheduled)/0.3)]",
+  IFR: "bg-[hsl(var(--status-cancelled)/0.15)] text-[hsl(var(--status-cancelled))] border-[hsl(var(--status-cancelled)/0.3)]",
+  LIFR: "bg-[hsl(var(--status-diverted)/0.15)] text-[hsl(var(--status-diverted))] border-[hsl(var(--status-diverted)/0.3)]",
+};
+
+// Reports are decoded against their own observation time, so day-of-month
+// groups resolve the same way however old the row is.
+const decode = (o: WeatherObservation) => parseWeatherReport(o.raw_text, new Date(o.observed_at));
+
+export default function WeatherPanel({ canEdit }: WeatherPanelProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { home } = useAirports();
+  const { formatDateTime, formatTime } = useTimeZone();
+  const [history, setHistory] = useState<WeatherObservation[]>([]);
+  const [latest, setLatest] = useState<{ metar?: WeatherObservation; taf?: WeatherObservation }>({});
+  const [raw, setRaw] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [dragging, setDragging] = useState(false);
+
+  const [reloadToken, setReloadToken] = useState(0);
+  const reload = () => setReloadToken(t => t + 1);
+
+  // The current observation is the home station's; the history lists every
+  // station, since a dropped file may hold reports for other airports.
+  const homeIcao = home?.icao ?? null;
+  useEffect(() => {
+    const latestOf = async (kind: string) => {
+      if (!homeIcao) return { data: null };
+      return supabase.from("weather_observations").select("*")
+        .eq("kind", kind).eq("station", homeIcao)
+        .order("observed_at", { ascending: false }).limit(1).maybeSingle();
+    };
+    Promise.all([
+      supabase.from("weather_observations").select("*").order("observed_at", { ascending: false }).limit(HISTORY_SIZE),
+      latestOf("metar"),
+      latestOf("taf"),
+    ]).then(([hRes, mRes, tRes]) => {
+      setHistory((hRes.data || []) as WeatherObservation[]);
+      setLatest({ metar: (mRes.data ?? undefined) as WeatherObservation | undefined, taf: (tRes.data ?? undefined) as WeatherObservation | undefined });
+    });
+  }, [homeIcao, reloadToken]);
+
+  useEffect(() => {
+    const channel = supabase.channel("weather-observations")
+      .on("postgres_changes", { event: "*", schema: "public", table: "weather_observations" }, reload)
+      .subscribe();
+    return () => { supabase.removeChannel(channel); };
+  }, []);
+
+  const metar = latest.metar ? decode(latest.metar) as Metar | null : null;
+  const taf = latest.taf ? decode(latest.taf) as Taf | null : null;
+  const ageMinutes = latest.metar ? Math.round((Date.now() - Date.parse(latest.metar.observed_at)) / 60000) : null;
+
+  const preview = raw.trim() ? parseWeatherReport(raw) : null;
+  const otherStation = (r: WeatherReport) => !!home?.icao && r.station !== home.icao;
+
+  // Upserts on kind, station and time, so a corrected report replaces the original.
+  const record = (reports: WeatherReport[], source: "manual" | "file") =>
+    supabase.from("weather_observations").upsert(
+      reports.map(r => ({ ...observationColumns(r), source, created_by: user?.id })),
+      { onConflict: "kind,station,observed_at" },
+    );
+
+  const handleRecord = async () => {
+    if (!preview) {
+      toast({ title: "Validation Error", description: "Enter a METAR or TAF with a station and issue time.", variant: "destructive" });
+      return;
+    }
+    setSaving(true);
+    const { error } = await record([preview], "manual");
+    if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
+    else {
+      toast({ title: `${preview.kind.toUpperCase()} Recorded`, description: `${preview.station} ${formatDateTime(observationColumns(preview).observed_at, home?.iata)}.` });
+      await logActivity(user!.id, `Recorded ${preview.kind.toUpperCase()} for ${preview.station}`, "weather", undefined, { raw: preview.raw });
+      setRaw("");
+    }
+    setSaving(false);
+    reload();
+  };
+
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragging(false);
+    const files = Array.from(e.dataTransfer.files);
+    if (!files.length) return;
+    const texts = await Promise.all(files.map(f => f.text()));
+    const chunks = texts.flatMap(splitReports);
+    const reports = uniqueReports(chunks.map(c => parseWeatherReport(c)).filter((r): r is WeatherReport => r !== null));
+    if (!reports.length) {
+      toast({ title: "No Reports Found", description: `${files.map(f => f.name).join(", ")} held no METAR or TAF.`, variant: "destructive" });
+      return;
+    }
+    setSaving(true);
+    const { error } = await record(reports, "file");
+    if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
+    else {
+      const skipped = chunks.length - reports.length;
+      toast({ title: "Weather Imported", description: `${reports.length} report${reports.length > 1 ? "s" : ""} recorded${skipped ? `, ${skipped} skipped` : ""}.` });
+      await logActivity(user!.id, `Imported weather from ${files.map(f => f.name).join(", ")}`, "weather", undefined, { recorded: reports.length, skipped });
+    }
+    setSaving(false);
+    reload();
+  };
+
+  return (
+    <div className="glass-card rounded-xl p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">
+          <CloudSun className="w-4 h-4 text-primary" />
+          Weather{home?.icao && ` — ${home.icao}`}
+        </h3>
+        {ageMinutes !== null && (
+          <span className={`text-xs ${ageMinutes > STALE_MINUTES ? "text-[hsl(var(--status-delayed))] font-semibold" : "text-muted-foreground"}`}>
+            METAR {ageMinutes} min old
+          </span>
+        )}
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-4">
+        {/* Current observation */}
+        <div className="space-y-2">
+          {metar ? (
+            <>
+              <div className="flex items-center gap-2">
+                <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Current</p>
+                {flightCategory(metar) && (
+                  <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded border ${categoryStyle[flightCategory(metar)!]}`}>{flightCategory(metar)}</span>
+                )}
+                <span className="text-xs text-muted-foreground">{formatTime(metar.observedAt, home?.iata)}{metar.auto && " · auto"}</span>
+              </div>
+              <p className="text-xs font-mono text-foreground break-words">{metar.raw}</p>
+              <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+                <dt className="text-muted-foreground">Wind</dt><dd className="text-foreground">{describeWind(metar.wind)}</dd>
+                <dt className="text-muted-foreground">Visibility</dt><dd className="text-foreground">{describeVisibility(metar)}</dd>
+                {metar.rvr.length > 0 && <><dt className="text-muted-foreground">RVR</dt><dd className="text-foreground">{metar.rvr.map(describeRvr).join("; ")}</dd></>}
+                {metar.weather.length > 0 && <><dt className="text-muted-foreground">Weather</dt><dd className="text-foreground">{metar.weather.map(describeWeather).join(", ")}</dd></>}
+                <dt className="text-muted-foreground">Cloud</dt><dd className="text-foreground">{describeClouds(metar)}</dd>
+                <dt className="text-muted-foreground">Temp / Dew</dt>
+                <dd className="text-foreground">{metar.temperature !== null ? `${metar.temperature}°C / ${metar.dewpoint ?? "—"}°C` : "Not reported"}</dd>
+                <dt className="text-muted-foreground">QNH</dt><dd className="text-foreground">{metar.qnhHpa !== null ? `${metar.qnhHpa} hPa` : "Not reported"}</dd>
+                {(metar.nosig || metar.trends.length > 0) && (
+                  <><dt className="text-muted-foreground">Trend</dt><dd className="text-foreground">{metar.nosig ? "No significant change" : metar.trends.map(t => t.text).join(" · ")}</dd></>
+                )}
+              </dl>
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">No METAR recorded.</p>
+          )}
+
+          {taf && (
+            <div className="pt-2 border-t border-border/50 space-y-1">
+              <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+                Forecast <span className="normal-case font-normal">{formatDateTime(taf.validFrom, home?.iata)} – {formatDateTime(taf.validTo, home?.iata)}</span>
+              </p>
+              <p className="text-xs text-foreground">{describeWind(taf.conditions.wind)} · {describeVisibility(taf.conditions)} · {describeClouds(taf.conditions)}</p>
+              {taf.changes.map((c, i) => (
+                <p key={i} className="text-xs font-mono text-muted-foreground">{c.text}</p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Entry and history */}
+        <div className="space-y-3">
+          {canEdit && (
+            <div
+              className={`rounded-lg border border-dashed p-3 space-y-2 transition-colors ${dragging ? "border-primary bg-primary/5" : "border-border"}`}
+              onDragOver={e => { e.preventDefault(); setDragging(true); }}
+              onDragLeave={() => setDragging(false)}
+              onDrop={handleDrop}
+            >
+              <Textarea
+                value={raw}
+                onChange={e => setRaw(e.target.value)}
+                placeholder="Paste a METAR or TAF, or drop a text file here"
+                className="bg-muted border-border font-mono text-xs min-h-[64px]"
+              />
+              {preview === null && raw.trim() && <p className="text-xs text-destructive">Not a METAR or TAF: it needs a station and issue time.</p>}
+              {preview && (
+                <p className="text-xs text-muted-foreground">
+                  {preview.kind.toUpperCase()} {preview.station} · {describeWind(preview.kind === "metar" ? preview.wind : preview.conditions.wind)}
+                  {preview.unparsed.length > 0 && <span className="text-[hsl(var(--status-delayed))]"> · not decoded: {preview.unparsed.join(" ")}</span>}
+                </p>
+              )}
+              {preview && otherStation(preview) && (
+                <p className="text-xs text-[hsl(var(--status-delayed))] flex items-center gap-1.5">
+                  <AlertTriangle className="w-3 h-3" /> {preview.station} is not the home airport ({home?.icao}).
+                </p>
+              )}
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] text-muted-foreground flex items-center gap-1"><FileUp className="w-3 h-3" /> One report per line or ending in "="</span>
+                <Button size="sm" onClick={handleRecord} disabled={saving || !preview} className="bg-primary text-primary-foreground">
+                  {saving ? "Saving..." : "Record"}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-1">History</p>
+            <div className="max-h-48 overflow-y-auto divide-y divide-border/50">
+              {history.length === 0 ? (
+                <p className="text-xs text-muted-foreground py-2">No observations yet.</p>
+              ) : history.map(o => (
+                <div key={o.id} className="py-1.5 flex items-start gap-2">
+                  <span className="text-[10px] font-bold px-1.5 py-0.5 rounded border border-border text-muted-foreground uppercase shrink-0">{o.kind}</span>
+                  {o.flight_category && (
+                    <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded border shrink-0 ${categoryStyle[o.flight_category]}`}>{o.flight_category}</span>
+                  )}
+                  <div className="min-w-0">
+                    <p className="text-xs font-mono text-foreground break-words">{o.raw_text}</p>
+                    <p className="text-[10px] text-muted-foreground">{formatDateTime(o.observed_at, home?.iata)} · {o.source}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { useState } from "react";
+import { Airport, findAirport, searchAirports } from "@/lib/airports";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Command, CommandEmpty, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Check, ChevronsUpDown } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface AirportComboboxProps {
+  airports: Airport[];
+  value: string;
+  onChange: (iata: string) => void;
+  placeholder?: string;
+}
+
+export default function AirportCombobox({ airports, value, onChange, placeholder = "Select airport" }: AirportComboboxProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const selected = findAirport(airports, value);
+  const results = searchAirports(airports, query);
+
+  return (
+    <Popover open={open} onOpenChange={o => { setOpen(o); if (!o) setQuery(""); }}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" role="combobox" aria-expanded={open} className="w-full justify-between bg-muted border-border font-normal">
+          {selected ? (
+            <span className="truncate"><span className="font-mono font-semibold">{selected.iata}</span> <span className="text-muted-foreground">· {selected.city}</span></span>
+          ) : value ? (
+            <span className="font-mono text-destructive">{value} · unknown</span>
+          ) : (
+            <span className="text-muted-foreground">{placeholder}</span>
+          )}
+          <ChevronsUpDown className="w-3.5 h-3.5 opacity-50 shrink-0" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="p-0 w-[--radix-popover-trigger-width] min-w-[280px]" align="start">
+        {/* Ranking is done by searchAirports, so cmdk's own filter is off. */}
+        <Command shouldFilter={false}>
+          <CommandInput placeholder="IATA, ICAO, city or name..." value={query} onValueChange={setQuery} />
+          <CommandList>
+            <CommandEmpty>No airport found.</CommandEmpty>
+            {results.map(a => (
+              <CommandItem
+                key={a.iata}
+                value={a.iata}
+                onSelect={() => { onChange(a.iata); setOpen(false); setQuery(""); }}
+              >
+                <Check className={cn("w-3.5 h-3.5 mr-2", selected?.iata === a.iata ? "opacity-100" : "opacity-0")} />
+                <span className="font-mono font-semibold w-10">{a.iata}</span>
+                <span className="flex-1 truncate">{a.name}</span>
+                <span className="text-xs text-muted-foreground ml-2">{a.icao} · {a.country}</span>
+              </CommandItem>
+            ))}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,248 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useTimeZone } from "@/contexts/TimeZoneContext";
+import type { Json } from "@/integrations/supabase/types";
+import { ColumnMapping, IMPORT_FIELDS, ImportField, ImportRow, guessMapping, validateRows } from "@/lib/flightImport";
+import { readSpreadsheet } from "@/lib/spreadsheet";
+import { Airport } from "@/lib/airports";
+import { flightKey } from "@/lib/ssim";
+import { TIME_DISPLAY_MODES, TimeDisplayMode } from "@/lib/timeZones";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileSpreadsheet, CheckCircle, XCircle } from "lucide-react";
+
+interface FlightImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  runways: { id: string; name: string; status: string }[];
+  airports: Airport[];
+}
+
+type Step = "upload" | "map" | "review";
+
+// PostgREST returns at most 1000 rows per request.
+const PAGE_SIZE = 1000;
+
+const steps: { key: Step; label: string }[] = [
+  { key: "upload", label: "Upload" },
+  { key: "map", label: "Map Columns" },
+  { key: "review", label: "Review" },
+];
+
+export default function FlightImportDialog({ open, onOpenChange, runways, airports }: FlightImportDialogProps) {
+  const { toast } = useToast();
+  const { formatDateTime, mode, homeAirport } = useTimeZone();
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [entryMode, setEntryMode] = useState<TimeDisplayMode>(mode);
+  const [results, setResults] = useState<ImportRow[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const close = () => {
+    setStep("upload");
+    setFileName("");
+    setHeaders([]);
+    setRows([]);
+    setResults([]);
+    onOpenChange(false);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const [header, ...data] = await readSpreadsheet(file);
+      if (!header || data.length === 0) throw new Error("The file has no data rows below the header.");
+      setFileName(file.name);
+      setHeaders(header);
+      setRows(data);
+      setMapping(guessMapping(header));
+      setStep("map");
+    } catch (e) {
+      toast({ title: "Unreadable File", description: (e as Error).message, variant: "destructive" });
+    }
+  };
+
+  const setColumn = (field: ImportField, value: string) => setMapping(p => {
+    const next = { ...p };
+    if (value === "none") delete next[field];
+    else next[field] = Number(value);
+    return next;
+  });
+
+  const missingRequired = IMPORT_FIELDS.filter(f => f.required && mapping[f.key] === undefined);
+
+  const handleValidate = async () => {
+    setBusy(true);
+    const context = { runways, airports, entryMode, homeZone: homeAirport?.timezone ?? null };
+    // A first pass reads the times, so the duplicate lookup covers only the file's dates.
+    const parsed = validateRows(rows, mapping, { ...context, existingKeys: new Set() }).flatMap(r => (r.flight ? [r.flight] : []));
+    const departures = parsed.map(f => f.scheduled_departure).sort();
+    const numbers = Array.from(new Set(parsed.map(f => f.flight_number)));
+    const existing: { flight_number: string; scheduled_departure: string }[] = [];
+    for (let from = 0; departures.length > 0; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from("flights")
+        .select("flight_number, scheduled_departure")
+        .in("flight_number", numbers)
+        .gte("scheduled_departure", `${departures[0].slice(0, 10)}T00:00:00Z`)
+        .lte("scheduled_departure", `${departures[departures.length - 1].slice(0, 10)}T23:59:59Z`)
+        .order("id")
+        .range(from, from + PAGE_SIZE - 1);
+      if (error) {
+        toast({ title: "Error", description: error.message, variant: "destructive" });
+        setBusy(false);
+        return;
+      }
+      existing.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+    setBusy(false);
+    const existingKeys = new Set(existing.map(f => flightKey(f.flight_number, f.scheduled_departure)));
+    setResults(validateRows(rows, mapping, { ...context, existingKeys }));
+    setStep("review");
+  };
+
+  const valid = results.filter(r => r.flight);
+  const invalid = results.filter(r => !r.flight);
+
+  const handleImport = async () => {
+    setBusy(true);
+    const { data, error } = await supabase.rpc("import_flights", {
+      _flights: valid.map(r => r.flight) as unknown as Json,
+      _source: fileName,
+    });
+    setBusy(false);
+    if (error) { toast({ title: "Import Failed", description: error.message, variant: "destructive" }); return; }
+    toast({ title: "Flights Imported", description: `${data} flights imported from ${fileName}.` });
+    close();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={o => { if (!o) close(); }}>
+      <DialogContent className="bg-card border-border max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Flights</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2 text-xs">
+          {steps.map((s, i) => (
+            <div key={s.key} className="flex items-center gap-2">
+              {i > 0 && <div className="w-6 h-px bg-border" />}
+              <span className={`px-2.5 py-1 rounded-full border ${step === s.key ? "bg-primary/15 text-primary border-primary/30" : "text-muted-foreground border-border"}`}>
+                {i + 1}. {s.label}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {step === "upload" && (
+          <div className="py-6 space-y-3 text-center">
+            <FileSpreadsheet className="w-10 h-10 text-muted-foreground mx-auto" />
+            <p className="text-sm text-muted-foreground">Choose a CSV or Excel (.xlsx) file. The first row must contain column headers.</p>
+            <Input type="file" accept=".csv,.txt,.xlsx" onChange={e => handleFile(e.target.files?.[0])} className="bg-muted border-border max-w-sm mx-auto" />
+          </div>
+        )}
+
+        {step === "map" && (
+          <div className="space-y-3 py-2">
+            <p className="text-xs text-muted-foreground">{fileName}: {rows.length} rows. Match each flight field to a column in your file.</p>
+            <div className="grid grid-cols-2 gap-3">
+              {IMPORT_FIELDS.map(field => (
+                <div key={field.key} className="space-y-1.5">
+                  <Label className="text-xs">{field.label}{field.required && " *"}</Label>
+                  <Select value={mapping[field.key] !== undefined ? String(mapping[field.key]) : "none"} onValueChange={v => setColumn(field.key, v)}>
+                    <SelectTrigger className="bg-muted border-border"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">— Not mapped —</SelectItem>
+                      {headers.map((h, i) => (
+                        <SelectItem key={i} value={String(i)}>{h || `Column ${i + 1}`}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Times Without an Offset Are In</Label>
+              <Select value={entryMode} onValueChange={v => setEntryMode(v as TimeDisplayMode)}>
+                <SelectTrigger className="bg-muted border-border"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {TIME_DISPLAY_MODES.map(m => (
+                    <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {missingRequired.length > 0 && (
+              <p className="text-xs text-destructive">Required fields not mapped: {missingRequired.map(f => f.label).join(", ")}</p>
+            )}
+          </div>
+        )}
+
+        {step === "review" && (
+          <div className="space-y-3 py-2">
+            <div className="flex items-center gap-4 text-sm">
+              <span className="flex items-center gap-1.5 text-[hsl(var(--status-landed))]"><CheckCircle className="w-4 h-4" /> {valid.length} valid</span>
+              <span className="flex items-center gap-1.5 text-destructive"><XCircle className="w-4 h-4" /> {invalid.length} with errors</span>
+            </div>
+            <div className="rounded-lg border border-border overflow-hidden">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b border-border bg-muted/30">
+                    <th className="text-left px-3 py-2 font-semibold text-muted-foreground uppercase tracking-wider">Row</th>
+                    <th className="text-left px-3 py-2 font-semibold text-muted-foreground uppercase tracking-wider">Flight</th>
+                    <th className="text-left px-3 py-2 font-semibold text-muted-foreground uppercase tracking-wider">Route</th>
+                    <th className="text-left px-3 py-2 font-semibold text-muted-foreground uppercase tracking-wider">Departure</th>
+                    <th className="text-left px-3 py-2 font-semibold text-muted-foreground uppercase tracking-wider">Result</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...invalid, ...valid].map(r => (
+                    <tr key={r.row} className="border-b border-border/50">
+                      <td className="px-3 py-1.5 font-mono text-muted-foreground">{r.row}</td>
+                      <td className="px-3 py-1.5 font-mono font-bold text-primary">{r.flight?.flight_number ?? rows[r.row - 2][mapping.flight_number!]}</td>
+                      <td className="px-3 py-1.5 text-foreground">{r.flight ? `${r.flight.origin} → ${r.flight.destination}` : "—"}</td>
+                      <td className="px-3 py-1.5 font-mono text-foreground">{r.flight ? formatDateTime(r.flight.scheduled_departure, r.flight.origin) : "—"}</td>
+                      <td className="px-3 py-1.5">
+                        {r.flight
+                          ? <span className="text-[hsl(var(--status-landed))]">Ready</span>
+                          : <span className="text-destructive">{r.errors.join("; ")}</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {invalid.length > 0 && (
+              <p className="text-xs text-muted-foreground">Rows with errors are skipped. Fix them in the file and import it again to add them.</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>Cancel</Button>
+          {step === "map" && (
+            <Button onClick={handleValidate} disabled={busy || missingRequired.length > 0} className="bg-primary text-primary-foreground">
+              {busy ? "Validating..." : "Validate"}
+            </Button>
+          )}
+          {step === "review" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("map")}>Back</Button>
+              <Button onClick={handleImport} disabled={busy || valid.length === 0} className="bg-primary text-primary-foreground">
+                {busy ? "Importing..." : `Import ${valid.length} Flights`}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
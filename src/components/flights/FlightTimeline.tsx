@@ -0,0 +1,115 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { useTimeZone } from "@/contexts/TimeZoneContext";
+import { History, PlusCircle, RefreshCw, Clock, CalendarClock, Wind, DoorOpen } from "lucide-react";
+
+type FlightEventType = Database["public"]["Enums"]["flight_event_type"];
+
+interface FlightEvent {
+  id: string;
+  event_type: FlightEventType;
+  field: string | null;
+  old_value: string | null;
+  new_value: string | null;
+  actor_id: string | null;
+  created_at: string;
+}
+
+const eventConfig: Record<FlightEventType, { icon: React.FC<{className?: string}>, label: string, color: string }> = {
+  created: { icon: PlusCircle, label: "Created", color: "text-primary bg-primary/10" },
+  status_change: { icon: RefreshCw, label: "Status", color: "text-[hsl(var(--status-scheduled))] bg-[hsl(var(--status-scheduled)/0.1)]" },
+  delay: { icon: Clock, label: "Delay", color: "text-[hsl(var(--status-delayed))] bg-[hsl(var(--status-delayed)/0.1)]" },
+  schedule_change: { icon: CalendarClock, label: "Schedule", color: "text-[hsl(var(--status-boarding))] bg-[hsl(var(--status-boarding)/0.1)]" },
+  runway_change: { icon: Wind, label: "Runway", color: "text-[hsl(var(--runway-available))] bg-[hsl(var(--runway-available)/0.1)]" },
+  gate_change: { icon: DoorOpen, label: "Gate", color: "text-[hsl(var(--runway-maintenance))] bg-[hsl(var(--runway-maintenance)/0.1)]" },
+};
+
+interface FlightTimelineProps {
+  flightId: string;
+  runwayName: (id: string | null) => string;
+  origin: string;
+  destination: string;
+}
+
+export default function FlightTimeline({ flightId, runwayName, origin, destination }: FlightTimelineProps) {
+  const { formatDateTime } = useTimeZone();
+  const [events, setEvents] = useState<FlightEvent[]>([]);
+  const [actors, setActors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchEvents = async () => {
+      const { data } = await supabase
+        .from("flight_events")
+        .select("*")
+        .eq("flight_id", flightId)
+        .order("created_at");
+      const rows = (data || []) as FlightEvent[];
+      setEvents(rows);
+
+      const actorIds = Array.from(new Set(rows.map(e => e.actor_id).filter(Boolean)));
+      if (actorIds.length) {
+        const { data: profiles } = await supabase.from("profiles").select("id, full_name").in("id", actorIds);
+        const map: Record<string, string> = {};
+        (profiles || []).forEach(p => { map[p.id] = p.full_name; });
+        setActors(map);
+      }
+      setLoading(false);
+    };
+
+    fetchEvents();
+    const channel = supabase.channel(`flight-events-${flightId}`)
+      .on("postgres_changes", { event: "INSERT", schema: "public", table: "flight_events", filter: `flight_id=eq.${flightId}` }, fetchEvents)
+      .subscribe();
+    return () => { supabase.removeChannel(channel); };
+  }, [flightId]);
+
+  const formatValue = (e: FlightEvent, value: string | null) => {
+    if (value === null) return "—";
+    if (e.field === "runway_id") return runwayName(value);
+    if (e.field?.startsWith("scheduled_") || e.field?.startsWith("estimated_")) {
+      return formatDateTime(value, e.field.endsWith("_departure") ? origin : destination);
+    }
+    return value;
+  };
+
+  const describe = (e: FlightEvent) => {
+    if (e.event_type === "created") return `Flight created as ${e.new_value}`;
+    const label = e.field?.replace("_id", "").replace("_", " ");
+    return `${label}: ${formatValue(e, e.old_value)} → ${formatValue(e, e.new_value)}`;
+  };
+
+  return (
+    <div className="col-span-2">
+      <p className="text-xs text-muted-foreground mb-2 flex items-center gap-1.5">
+        <History className="w-3.5 h-3.5" /> History
+      </p>
+      {loading ? (
+        <p className="text-xs text-muted-foreground py-2">Loading history...</p>
+      ) : events.length === 0 ? (
+        <p className="text-xs text-muted-foreground py-2">No recorded events.</p>
+      ) : (
+        <div className="max-h-56 overflow-y-auto scrollbar-custom space-y-1">
+          {events.map(e => {
+            const cfg = eventConfig[e.event_type];
+            return (
+              <div key={e.id} className="flex items-start gap-3 bg-muted/50 rounded-lg p-2.5">
+                <div className={`p-1.5 rounded-lg shrink-0 ${cfg.color}`}>
+                  <cfg.icon className="w-3.5 h-3.5" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-foreground first-letter:uppercase">{describe(e)}</p>
+                  <p className="text-xs text-muted-foreground font-mono">
+                    {cfg.label} · {formatDateTime(e.created_at, null, true)}
+                    {" · "}{e.actor_id ? actors[e.actor_id] || "Unknown user" : "System"}
+                  </p>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
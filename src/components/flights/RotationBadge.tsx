@@ -0,0 +1,29 @@
+import { FlightTimes } from "@/lib/flightTimes";
+import { formatTurnaround, rotationState, turnaroundMinutes } from "@/lib/aircraft";
+import { Link2 } from "lucide-react";
+
+interface RotationBadgeProps {
+  inbound: FlightTimes & { flight_number: string };
+  outbound: FlightTimes;
+  compact?: boolean;
+}
+
+const stateClass = {
+  ok: "bg-[hsl(var(--status-landed)/0.1)] text-[hsl(var(--status-landed))] border-[hsl(var(--status-landed)/0.3)]",
+  tight: "bg-[hsl(var(--status-delayed)/0.1)] text-[hsl(var(--status-delayed))] border-[hsl(var(--status-delayed)/0.3)]",
+  conflict: "bg-destructive/10 text-destructive border-destructive/30",
+};
+
+export default function RotationBadge({ inbound, outbound, compact }: RotationBadgeProps) {
+  const minutes = turnaroundMinutes(inbound, outbound);
+  const text = `From ${inbound.flight_number} · ${formatTurnaround(minutes)}`;
+  return (
+    <span
+      title={text}
+      className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded border text-[10px] font-semibold font-mono ${stateClass[rotationState(minutes)]}`}
+    >
+      <Link2 className="w-3 h-3" />
+      {compact ? `${minutes}m` : text}
+    </span>
+  );
+}
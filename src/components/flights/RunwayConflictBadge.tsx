@@ -0,0 +1,26 @@
+import { SlotConflict, describeConflict } from "@/lib/runwaySlots";
+import { AlertTriangle } from "lucide-react";
+
+interface RunwayConflictBadgeProps {
+  conflicts: SlotConflict[];
+  flightId: string;
+  // Compact badges show only the kind; the details move to the tooltip.
+  compact?: boolean;
+}
+
+export default function RunwayConflictBadge({ conflicts, flightId, compact }: RunwayConflictBadgeProps) {
+  if (conflicts.length === 0) return null;
+  const overlap = conflicts.some(c => c.kind === "overlap");
+  const details = conflicts.map(c => describeConflict(c, flightId));
+  const cls = overlap
+    ? "bg-destructive/10 text-destructive border-destructive/30"
+    : "bg-[hsl(var(--status-delayed)/0.1)] text-[hsl(var(--status-delayed))] border-[hsl(var(--status-delayed)/0.3)]";
+
+  return (
+    <span title={details.join("\n")} className={`inline-flex items-center gap-1 text-[10px] font-semibold px-1.5 py-0.5 rounded border ${cls}`}>
+      <AlertTriangle className="w-3 h-3 shrink-0" />
+      {compact ? (overlap ? "Slot overlap" : "Wake separation") : details[0]}
+      {!compact && details.length > 1 && ` +${details.length - 1}`}
+    </span>
+  );
+}
@@ -0,0 +1,37 @@
+import { useTimeZone } from "@/contexts/TimeZoneContext";
+import { formatDelay } from "@/lib/flightTimes";
+
+interface ScheduleTimesProps {
+  scheduled: string;
+  estimated: string | null;
+  actual: string | null;
+  delayMinutes: number;
+  airport?: string;
+}
+
+function delayClass(minutes: number) {
+  if (minutes >= 15) return "text-[hsl(var(--status-delayed))] bg-[hsl(var(--status-delayed)/0.1)] border-[hsl(var(--status-delayed)/0.3)]";
+  if (minutes > 0) return "text-[hsl(var(--status-boarding))] bg-[hsl(var(--status-boarding)/0.1)] border-[hsl(var(--status-boarding)/0.3)]";
+  return "text-[hsl(var(--status-departed))] bg-[hsl(var(--status-departed)/0.1)] border-[hsl(var(--status-departed)/0.3)]";
+}
+
+// Scheduled, estimated and actual times side by side with the resulting delay.
+export default function ScheduleTimes({ scheduled, estimated, actual, delayMinutes, airport }: ScheduleTimesProps) {
+  const { formatTime } = useTimeZone();
+  const fmt = (iso: string | null) => (iso ? formatTime(iso, airport) : "—");
+  return (
+    <div className="flex items-center gap-3 font-mono text-xs">
+      {[["S", scheduled], ["E", estimated], ["A", actual]].map(([l, v]) => (
+        <div key={l} className="leading-tight">
+          <p className="text-[10px] text-muted-foreground/70">{l}</p>
+          <p className={v ? "text-foreground" : "text-muted-foreground"}>{fmt(v)}</p>
+        </div>
+      ))}
+      {(estimated || actual) && (
+        <span className={`px-1.5 py-0.5 rounded border text-[10px] font-semibold ${delayClass(delayMinutes)}`}>
+          {formatDelay(delayMinutes)}
+        </span>
+      )}
+    </div>
+  );
+}
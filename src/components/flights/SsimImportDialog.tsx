@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { Airport, findAirport } from "@/lib/airports";
+import { ExistingFlight, SsimDiff, SsimDiffKind, SsimIssue, diffFlights, parseSsim, ssimFlights } from "@/lib/ssim";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { FileUp, AlertTriangle } from "lucide-react";
+
+interface SsimImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  airports: Airport[];
+}
+
+const kindConfig: Record<SsimDiffKind, { label: string; className: string }> = {
+  create: { label: "New", className: "bg-[hsl(var(--status-landed)/0.1)] text-[hsl(var(--status-landed))] border-[hsl(var(--status-landed)/0.3)]" },
+  update: { label: "Changed", className: "bg-[hsl(var(--status-delayed)/0.1)] text-[hsl(var(--status-delayed))] border-[hsl(var(--status-delayed)/0.3)]" },
+  locked: { label: "Locked", className: "bg-[hsl(var(--status-cancelled)/0.1)] text-[hsl(var(--status-cancelled))] border-[hsl(var(--status-cancelled)/0.3)]" },
+  unchanged: { label: "Unchanged", className: "bg-muted text-muted-foreground border-border" },
+};
+
+const PREVIEW_ROWS = 200;
+// PostgREST returns at most 1000 rows per request.
+const PAGE_SIZE = 1000;
+
+const fmt = (iso: string) => new Date(iso).toLocaleString("en-US", { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit", timeZone: "UTC", hour12: false });
+
+export default function SsimImportDialog({ open, onOpenChange, airports }: SsimImportDialogProps) {
+  const { toast } = useToast();
+  const [fileName, setFileName] = useState("");
+  const [diff, setDiff] = useState<SsimDiff[]>([]);
+  const [issues, setIssues] = useState<SsimIssue[]>([]);
+  const [analysing, setAnalysing] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  const reset = () => { setFileName(""); setDiff([]); setIssues([]); };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    reset();
+    setFileName(file.name);
+    setAnalysing(true);
+    const { legs, errors } = parseSsim(await file.text());
+    const unknown = legs.filter(l => !findAirport(airports, l.origin) || !findAirport(airports, l.destination));
+    unknown.forEach(l => errors.push({ line: l.line, message: `Unknown airport in ${l.origin}-${l.destination}, leg skipped` }));
+    const { flights, warnings } = ssimFlights(legs.filter(l => !unknown.includes(l)));
+    setIssues([...errors, ...warnings].sort((a, b) => a.line - b.line));
+
+    if (flights.length > 0) {
+      const departures = flights.map(f => f.scheduled_departure).sort();
+      const numbers = Array.from(new Set(flights.map(f => f.flight_number)));
+      const existing: ExistingFlight[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("flights")
+          .select("id, flight_number, status, airline, origin, destination, scheduled_departure, scheduled_arrival, aircraft_type, capacity, schedule_id")
+          .in("flight_number", numbers)
+          .gte("scheduled_departure", `${departures[0].slice(0, 10)}T00:00:00Z`)
+          .lte("scheduled_departure", `${departures[departures.length - 1].slice(0, 10)}T23:59:59Z`)
+          .order("id")
+          .range(from, from + PAGE_SIZE - 1);
+        if (error) {
+          toast({ title: "Error", description: error.message, variant: "destructive" });
+          setAnalysing(false);
+          return;
+        }
+        existing.push(...((data || []) as ExistingFlight[]));
+        if (!data || data.length < PAGE_SIZE) break;
+      }
+      setDiff(diffFlights(flights, existing));
+    }
+    setAnalysing(false);
+  };
+
+  const count = (kind: SsimDiffKind) => diff.filter(d => d.kind === kind).length;
+  const pending = diff.filter(d => d.kind === "create" || d.kind === "update");
+
+  // One transaction for the whole file; new flights get the airline name
+  // for their designator on the server.
+  const handleApply = async () => {
+    setApplying(true);
+    const creates = diff.filter(d => d.kind === "create").map(({ flight }) => flight);
+    const updates = diff.filter(d => d.kind === "update").map(({ flight, existing }) => ({
+      id: existing!.id,
+      origin: flight.origin,
+      destination: flight.destination,
+      scheduled_departure: flight.scheduled_departure,
+      scheduled_arrival: flight.scheduled_arrival,
+      aircraft_type: flight.aircraft_type,
+      capacity: flight.capacity,
+    }));
+    const { error } = await supabase.rpc("import_ssim", {
+      _creates: creates as unknown as Json,
+      _updates: updates as unknown as Json,
+      _source: fileName,
+      _details: { locked: count("locked"), issues: issues.length },
+    });
+    setApplying(false);
+    if (error) { toast({ title: "Import Failed", description: `${error.message}. Nothing was imported.`, variant: "destructive" }); return; }
+
+    toast({ title: "SSIM Imported", description: `${creates.length} flights created, ${updates.length} updated.` });
+    reset();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={o => { if (!o) reset(); onOpenChange(o); }}>
+      <DialogContent className="bg-card border-border max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import SSIM Schedule</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="flex items-center gap-3">
+            <FileUp className="w-5 h-5 text-muted-foreground" />
+            <Input type="file" accept=".ssim,.txt,.dat" onChange={e => handleFile(e.target.files?.[0])} className="bg-muted border-border" />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Type 3 flight legs are expanded into one flight per operating day and compared with existing flights by flight number and UTC date.
+            Nothing is written until you apply the import.
+          </p>
+
+          {analysing && <p className="text-sm text-muted-foreground">Analysing {fileName}...</p>}
+
+          {!analysing && (diff.length > 0 || issues.length > 0) && (
+            <>
+              <div className="grid grid-cols-4 gap-2">
+                {(["create", "update", "unchanged", "locked"] as SsimDiffKind[]).map(kind => (
+                  <div key={kind} className={`rounded-lg border px-3 py-2 ${kindConfig[kind].className}`}>
+                    <p className="text-xs font-medium">{kindConfig[kind].label}</p>
+                    <p className="text-2xl font-bold">{count(kind)}</p>
+                  </div>
+                ))}
+              </div>
+
+              {issues.length > 0 && (
+                <div className="rounded-lg border border-[hsl(var(--status-delayed)/0.3)] bg-[hsl(var(--status-delayed)/0.05)] p-3 space-y-1 max-h-32 overflow-y-auto">
+                  {issues.map((issue, i) => (
+                    <p key={i} className="text-xs text-[hsl(var(--status-delayed))] flex items-center gap-1.5">
+                      <AlertTriangle className="w-3 h-3 shrink-0" /> Line {issue.line}: {issue.message}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              {diff.some(d => d.kind !== "unchanged") && (
+                <div className="rounded-lg border border-border overflow-hidden">
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="border-b border-border bg-muted/30">
+                        <th className="text-left px-3 py-2 font-semibold text-muted-foreground uppercase tracking-wider">Action</th>
+                        <th className="text-left px-3 py-2 font-semibold text-muted-foreground uppercase tracking-wider">Flight</th>
+                        <th className="text-left px-3 py-2 font-semibold text-muted-foreground uppercase tracking-wider">Route</th>
+                        <th className="text-left px-3 py-2 font-semibold text-muted-foreground uppercase tracking-wider">Departure (UTC)</th>
+                        <th className="text-left px-3 py-2 font-semibold text-muted-foreground uppercase tracking-wider">Changes</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {diff.filter(d => d.kind !== "unchanged").slice(0, PREVIEW_ROWS).map(d => (
+                        <tr key={`${d.flight.flight_number}-${d.flight.scheduled_departure}`} className="border-b border-border/50">
+                          <td className="px-3 py-1.5">
+                            <span className={`inline-flex px-2 py-0.5 rounded-full border text-[10px] font-semibold ${kindConfig[d.kind].className}`}>{kindConfig[d.kind].label}</span>
+                          </td>
+                          <td className="px-3 py-1.5 font-mono font-bold text-primary">{d.flight.flight_number}</td>
+                          <td className="px-3 py-1.5 text-foreground">{d.flight.origin} → {d.flight.destination}</td>
+                          <td className="px-3 py-1.5 font-mono text-foreground">
+                            {d.existing && d.changes.includes("scheduled_departure") && (
+                              <span className="line-through text-muted-foreground mr-1.5">{fmt(d.existing.scheduled_departure)}</span>
+                            )}
+                            {fmt(d.flight.scheduled_departure)}
+                          </td>
+                          <td className="px-3 py-1.5 text-muted-foreground">
+                            {d.kind === "locked" ? `${d.changes.join(", ")} (flight is ${d.existing!.status})` : d.changes.join(", ") || "—"}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {pending.length + count("locked") > PREVIEW_ROWS && (
+                    <p className="text-xs text-muted-foreground text-center py-2">
+                      and {pending.length + count("locked") - PREVIEW_ROWS} more...
+                    </p>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => { reset(); onOpenChange(false); }}>Cancel</Button>
+          <Button onClick={handleApply} disabled={applying || analysing || pending.length === 0} className="bg-primary text-primary-foreground">
+            {applying ? "Importing..." : `Apply ${pending.length} Changes`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
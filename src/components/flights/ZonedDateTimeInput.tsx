@@ -0,0 +1,29 @@
+import { useTimeZone } from "@/contexts/TimeZoneContext";
+import { TimeDisplayMode } from "@/lib/timeZones";
+import { Input } from "@/components/ui/input";
+
+interface ZonedDateTimeInputProps {
+  value: string;
+  onChange: (iso: string) => void;
+  airport?: string | null;
+  mode: TimeDisplayMode;
+}
+
+// A datetime-local input whose wall clock is in the chosen zone rather than the
+// browser's. The value in and out is a UTC ISO string, or "" when empty.
+export default function ZonedDateTimeInput({ value, onChange, airport, mode }: ZonedDateTimeInputProps) {
+  const { toInput, fromInput, zoneLabel } = useTimeZone();
+  return (
+    <div className="relative">
+      <Input
+        type="datetime-local"
+        value={toInput(value || null, airport, mode)}
+        onChange={e => onChange(e.target.value ? fromInput(e.target.value, airport, mode) ?? "" : "")}
+        className="bg-muted border-border pr-14"
+      />
+      <span className="absolute right-9 top-1/2 -translate-y-1/2 text-[10px] font-mono text-muted-foreground pointer-events-none">
+        {zoneLabel(airport, mode)}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useTimeZone } from "@/contexts/TimeZoneContext";
+import { logActivity } from "@/lib/supabase";
+import { effectiveDeparture } from "@/lib/flightTimes";
+import { aircraftSizeClass, GateFlight } from "@/lib/gates";
+import { AllocationFlight, AllocationGate, GateSuggestion, suggestAllocation } from "@/lib/gateAllocation";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { ArrowRight, Star, Wand2 } from "lucide-react";
+
+interface GateAllocationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  dayStart: number;
+  gates: AllocationGate[];
+  assigned: GateFlight[];
+}
+
+const DAY = 86400000;
+
+export default function GateAllocationDialog({ open, onOpenChange, dayStart, gates, assigned }: GateAllocationDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { formatTime } = useTimeZone();
+  const [unassigned, setUnassigned] = useState<AllocationFlight[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    const load = async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("flights")
+        .select("id, flight_number, airline, aircraft_type, gate_id, status, scheduled_departure, scheduled_arrival, estimated_departure, estimated_arrival, actual_departure, actual_arrival")
+        .is("gate_id", null)
+        .in("status", ["scheduled", "delayed", "boarding"])
+        .gte("scheduled_departure", new Date(dayStart).toISOString())
+        .lt("scheduled_departure", new Date(dayStart + DAY).toISOString());
+      setLoading(false);
+      if (error) { toast({ title: "Error", description: error.message, variant: "destructive" }); return; }
+      setUnassigned((data || []) as AllocationFlight[]);
+    };
+    load();
+  }, [open, dayStart, toast]);
+
+  // Recomputed as the page's gates and assignments change under the dialog.
+  const suggestions = suggestAllocation(unassigned, gates, assigned);
+  const accepted = suggestions.filter(s => s.gate);
+
+  const handleAccept = async () => {
+    setApplying(true);
+    const applied: GateSuggestion[] = [];
+    const failed: string[] = [];
+    for (const s of accepted) {
+      const { error } = await supabase.from("flights").update({ gate_id: s.gate!.id }).eq("id", s.flight.id);
+      if (error) failed.push(`${s.flight.flight_number}: ${error.message}`);
+      else applied.push(s);
+    }
+    setApplying(false);
+
+    if (failed.length > 0) toast({ title: "Some Assignments Failed", description: failed.join("\n"), variant: "destructive" });
+    else toast({ title: "Gates Assigned", description: `${applied.length} flights assigned to gates.` });
+    if (applied.length > 0) {
+      await logActivity(user!.id, `Auto-assigned gates to ${applied.length} flights`, "gate", undefined, {
+        day: new Date(dayStart).toISOString().slice(0, 10),
+        assignments: applied.map(s => ({ flight: s.flight.flight_number, gate: s.gate!.name })),
+        failed: failed.length,
+      });
+    }
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2"><Wand2 className="w-4 h-4 text-primary" /> Suggested Gate Allocation</DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">Computing allocation...</p>
+        ) : suggestions.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">Every active flight on this day already has a gate.</p>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-xs text-muted-foreground">
+              {accepted.length} of {suggestions.length} unassigned flights can be placed. Nothing changes until you accept.
+            </p>
+            <div className="rounded-lg border border-border overflow-hidden">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b border-border bg-muted/30">
+                    <th className="text-left px-3 py-2 font-semibold text-muted-foreground uppercase tracking-wider">Flight</th>
+                    <th className="text-left px-3 py-2 font-semibold text-muted-foreground uppercase tracking-wider">Departure</th>
+                    <th className="text-left px-3 py-2 font-semibold text-muted-foreground uppercase tracking-wider">Aircraft</th>
+                    <th className="text-left px-3 py-2 font-semibold text-muted-foreground uppercase tracking-wider">Before → After</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {suggestions.map(s => (
+                    <tr key={s.flight.id} className="border-b border-border/50">
+                      <td className="px-3 py-1.5">
+                        <p className="font-mono font-bold text-primary">{s.flight.flight_number}</p>
+                        <p className="text-muted-foreground">{s.flight.airline}</p>
+                      </td>
+                      <td className="px-3 py-1.5 font-mono text-foreground">{formatTime(effectiveDeparture(s.flight))}</td>
+                      <td className="px-3 py-1.5 text-muted-foreground">{s.flight.aircraft_type} · Code {aircraftSizeClass(s.flight.aircraft_type)}</td>
+                      <td className="px-3 py-1.5">
+                        <span className="inline-flex items-center gap-2">
+                          <span className="text-muted-foreground">—</span>
+                          <ArrowRight className="w-3 h-3 text-muted-foreground" />
+                          {s.gate ? (
+                            <span className="font-mono font-bold text-[hsl(var(--status-landed))] flex items-center gap-1">
+                              {s.gate.name}
+                              {s.preferred && <Star className="w-3 h-3 fill-current" aria-label="Preferred airline gate" />}
+                            </span>
+                          ) : (
+                            <span className="text-destructive">{s.reason}</span>
+                          )}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleAccept} disabled={applying || loading || accepted.length === 0} className="bg-primary text-primary-foreground">
+            {applying ? "Assigning..." : `Accept ${accepted.length} Assignments`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
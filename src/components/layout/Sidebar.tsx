@@ -3,7 +3,7 @@ import { useAuth } from "@/contexts/AuthContext";
 import {
   LayoutDashboard, Plane, Wind, Radio, Users,
   Bell, LogOut, ChevronLeft, ChevronRight, Shield,
-  Activity
+  Activity, BarChart3, CalendarRange, DoorOpen, PlaneTakeoff
 } from "lucide-react";
 import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
@@ -12,10 +12,14 @@ import { cn } from "@/lib/utils";
 const navItems = [
   { to: "/", icon: LayoutDashboard, label: "Dashboard", exact: true },
   { to: "/flights", icon: Plane, label: "Flights" },
+  { to: "/schedules", icon: CalendarRange, label: "Schedules" },
+  { to: "/aircraft", icon: PlaneTakeoff, label: "Aircraft" },
   { to: "/runways", icon: Wind, label: "Runways" },
+  { to: "/gates", icon: DoorOpen, label: "Gates" },
   { to: "/atc", icon: Radio, label: "ATC Panel" },
   { to: "/passengers", icon: Users, label: "Passengers" },
   { to: "/alerts", icon: Bell, label: "Alerts" },
+  { to: "/delays", icon: BarChart3, label: "Delay Analysis" },
   { to: "/activity", icon: Activity, label: "Activity Log" },
 ];
 
@@ -1,4 +1,6 @@
 import { useAuth } from "@/contexts/AuthContext";
+import { useTimeZone } from "@/contexts/TimeZoneContext";
+import { TIME_DISPLAY_MODES } from "@/lib/timeZones";
 import { Bell, Wifi } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { useEffect, useState } from "react";
@@ -6,6 +8,7 @@ import { supabase } from "@/integrations/supabase/client";
 
 export default function TopBar({ title }: { title: string }) {
   const { role } = useAuth();
+  const { mode, setMode, homeAirport, formatTime, zoneLabel } = useTimeZone();
   const navigate = useNavigate();
   const [activeAlerts, setActiveAlerts] = useState(0);
   const [time, setTime] = useState(new Date());
@@ -58,7 +61,26 @@ export default function TopBar({ title }: { title: string }) {
       <div className="flex items-center gap-4">
         <div className="flex items-center gap-1.5 text-muted-foreground text-xs">
           <Wifi className="w-3.5 h-3.5 text-[hsl(var(--status-departed))]" />
-          <span className="font-mono">{time.toUTCString().slice(17, 25)} UTC</span>
+          <span className="font-mono">
+            {formatTime(time.toISOString())}:{String(time.getUTCSeconds()).padStart(2, "0")} {zoneLabel()}
+            {mode !== "utc" && homeAirport && <span className="text-muted-foreground/70"> {homeAirport.iata}</span>}
+          </span>
+        </div>
+
+        {/* Display zone for every time on every page */}
+        <div className="flex rounded-md border border-border overflow-hidden" role="group" aria-label="Time display">
+          {TIME_DISPLAY_MODES.map(m => (
+            <button
+              key={m.value}
+              onClick={() => setMode(m.value)}
+              title={m.label}
+              className={`px-2 py-1 text-[10px] font-mono font-semibold transition-colors ${
+                mode === m.value ? "bg-primary/15 text-primary" : "text-muted-foreground hover:bg-muted"
+              }`}
+            >
+              {m.short}
+            </button>
+          ))}
         </div>
 
         <button
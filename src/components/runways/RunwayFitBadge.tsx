@@ -0,0 +1,20 @@
+import { RunwayFit } from "@/lib/runwayPerformance";
+import { Ruler } from "lucide-react";
+
+interface RunwayFitBadgeProps {
+  fit: RunwayFit | null;
+}
+
+// Shown on assigned slots whose aircraft is marginal for, or too big for, the runway.
+export default function RunwayFitBadge({ fit }: RunwayFitBadgeProps) {
+  if (!fit || fit.level === "ok") return null;
+  const cls = fit.level === "block"
+    ? "bg-destructive/10 text-destructive border-destructive/30"
+    : "bg-[hsl(var(--status-delayed)/0.1)] text-[hsl(var(--status-delayed))] border-[hsl(var(--status-delayed)/0.3)]";
+  return (
+    <span title={fit.message} className={`inline-flex items-center gap-1 text-[10px] font-semibold px-1.5 py-0.5 rounded border ${cls}`}>
+      <Ruler className="w-3 h-3 shrink-0" />
+      {fit.level === "block" ? "Unsuitable" : "Short margin"}
+    </span>
+  );
+}
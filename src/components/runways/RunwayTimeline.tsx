@@ -0,0 +1,146 @@
+import { useEffect, useState } from "react";
+import { useTimeZone } from "@/contexts/TimeZoneContext";
+import { RunwaySlot, SlotFlight, conflictingRunwayFlightIds, describeConflict, runwayConflicts, runwaySlot } from "@/lib/runwaySlots";
+import { timelineHours, timelinePosition, timelineStart, timelineTime } from "@/lib/runwayTimeline";
+import { RunwayClosure, activeClosure } from "@/lib/runwayClosures";
+import { PlaneLanding, PlaneTakeoff } from "lucide-react";
+
+interface TimelineRunway {
+  id: string;
+  name: string;
+  status: string;
+  notes: string | null;
+}
+
+interface RunwayTimelineProps {
+  runways: TimelineRunway[];
+  flights: SlotFlight[];
+  closures: RunwayClosure[];
+  home?: string;
+  canEdit: boolean;
+  onMove: (slot: RunwaySlot, runwayId: string, start: number) => void;
+}
+
+const blockedStyle: Record<string, string> = {
+  maintenance: "bg-[repeating-linear-gradient(45deg,hsl(var(--runway-maintenance)/0.15)_0,hsl(var(--runway-maintenance)/0.15)_6px,transparent_6px,transparent_12px)] text-[hsl(var(--runway-maintenance))]",
+  closed: "bg-[repeating-linear-gradient(45deg,hsl(var(--runway-closed)/0.15)_0,hsl(var(--runway-closed)/0.15)_6px,transparent_6px,transparent_12px)] text-[hsl(var(--runway-closed))]",
+};
+
+export default function RunwayTimeline({ runways, flights, closures, home, canEdit, onMove }: RunwayTimelineProps) {
+  const { formatTime } = useTimeZone();
+  const [now, setNow] = useState(new Date());
+  // The slot being dragged and where it was grabbed, in pixels from its left edge.
+  const [drag, setDrag] = useState<{ slot: RunwaySlot; grabX: number } | null>(null);
+
+  useEffect(() => {
+    const clock = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(clock);
+  }, []);
+
+  const start = timelineStart(now);
+  const hours = timelineHours(start);
+  const conflicted = conflictingRunwayFlightIds(flights, home);
+  const slotTime = (s: RunwaySlot) => formatTime(new Date(s.start).toISOString(), s.kind === "departure" ? s.flight.origin : s.flight.destination);
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>, runwayId: string) => {
+    e.preventDefault();
+    if (!drag) return;
+    const track = e.currentTarget.getBoundingClientRect();
+    const fraction = (e.clientX - drag.grabX - track.left) / track.width;
+    onMove(drag.slot, runwayId, timelineTime(fraction, start));
+    setDrag(null);
+  };
+
+  return (
+    <div className="glass-card rounded-xl border border-border p-4 overflow-x-auto">
+      <div className="min-w-[720px]">
+        {/* Hour axis */}
+        <div className="flex">
+          <div className="w-24 shrink-0" />
+          <div className="relative flex-1 h-5">
+            {hours.map((h, i) => i % 2 === 0 && (
+              <span key={h} className="absolute text-[10px] font-mono text-muted-foreground -translate-x-1/2" style={{ left: `${timelinePosition(h, start)}%` }}>
+                {formatTime(new Date(h).toISOString(), home)}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {runways.map(r => {
+          // A status set by hand holds the runway until it is changed; windows show their own span.
+          const blocked = activeClosure(r.id, closures, now) ? undefined : blockedStyle[r.status];
+          const windows = closures.filter(c => c.runway_id === r.id && timelinePosition(Date.parse(c.ends_at), start) > 0 && timelinePosition(Date.parse(c.starts_at), start) < 100);
+          const slots = flights
+            .filter(f => f.runway_id === r.id)
+            .map(f => runwaySlot(f, r.id, home))
+            .filter((s): s is RunwaySlot => s !== null && timelinePosition(s.start, start) >= 0 && timelinePosition(s.start, start) < 100);
+          return (
+            <div key={r.id} className="flex items-stretch border-t border-border/50">
+              <div className="w-24 shrink-0 py-2 pr-2">
+                <p className="text-sm font-semibold text-foreground truncate">{r.name}</p>
+                <p className="text-[10px] text-muted-foreground capitalize">{r.status}</p>
+              </div>
+              <div
+                className={`relative flex-1 h-12 ${drag && !blocked ? "bg-primary/5" : ""}`}
+                onDragOver={e => { if (drag && !blocked) e.preventDefault(); }}
+                onDrop={e => handleDrop(e, r.id)}
+              >
+                {hours.map(h => (
+                  <div key={h} className="absolute top-0 bottom-0 border-l border-border/30" style={{ left: `${timelinePosition(h, start)}%` }} />
+                ))}
+
+                {windows.map(c => {
+                  const left = Math.max(timelinePosition(Date.parse(c.starts_at), start), 0);
+                  const right = Math.min(timelinePosition(Date.parse(c.ends_at), start), 100);
+                  return (
+                    <div
+                      key={c.id}
+                      className={`absolute inset-y-1 rounded flex items-center px-2 overflow-hidden text-[10px] font-semibold uppercase tracking-wide ${blockedStyle[c.kind]}`}
+                      style={{ left: `${left}%`, width: `${right - left}%` }}
+                      title={[c.reference, c.reason].filter(Boolean).join(" · ")}
+                    >
+                      <span className="truncate">{c.kind}{c.reference && ` · ${c.reference}`}</span>
+                    </div>
+                  );
+                })}
+
+                {blocked && (
+                  <div className={`absolute inset-y-1 left-0 right-0 rounded flex items-center px-2 text-[10px] font-semibold uppercase tracking-wide ${blocked}`} title={r.notes ?? undefined}>
+                    {r.status}{r.notes && <span className="ml-2 normal-case font-normal truncate">{r.notes}</span>}
+                  </div>
+                )}
+
+                <div className="absolute top-0 bottom-0 border-l-2 border-destructive/70" style={{ left: `${timelinePosition(now.getTime(), start)}%` }} />
+
+                {slots.map(s => {
+                  const f = s.flight;
+                  const MovementIcon = s.kind === "departure" ? PlaneTakeoff : PlaneLanding;
+                  const details = runwayConflicts(f, r.id, flights, home).map(c => describeConflict(c, f.id));
+                  const cls = conflicted.has(f.id)
+                    ? "bg-destructive/15 border-destructive/50 text-destructive"
+                    : s.kind === "departure"
+                      ? "bg-primary/15 border-primary/40 text-primary"
+                      : "bg-[hsl(var(--status-boarding)/0.15)] border-[hsl(var(--status-boarding)/0.4)] text-[hsl(var(--status-boarding))]";
+                  return (
+                    <div
+                      key={f.id}
+                      draggable={canEdit}
+                      onDragStart={e => setDrag({ slot: s, grabX: e.clientX - e.currentTarget.getBoundingClientRect().left })}
+                      onDragEnd={() => setDrag(null)}
+                      title={[`${f.flight_number} · ${s.kind} ${slotTime(s)} · wake ${s.wake}`, ...details].join("\n")}
+                      className={`absolute top-2 h-8 min-w-[4.5rem] flex items-center gap-1 px-1.5 rounded border text-[10px] font-mono font-bold ${cls} ${canEdit ? "cursor-grab active:cursor-grabbing" : ""}`}
+                      style={{ left: `${timelinePosition(s.start, start)}%` }}
+                    >
+                      <MovementIcon className="w-3 h-3 shrink-0" />
+                      {f.flight_number}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
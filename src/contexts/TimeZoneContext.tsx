@@ -0,0 +1,68 @@
+import { createContext, useContext, useState, ReactNode } from "react";
+import { useAirports } from "@/hooks/use-airports";
+import { Airport } from "@/lib/airports";
+import {
+  TimeDisplayMode, formatZonedDate, formatZonedDateTime, formatZonedLongDate, formatZonedTime,
+  fromZonedInput, toZonedInput, zoneAbbreviation, zoneFor, zonedHour,
+} from "@/lib/timeZones";
+
+interface TimeZoneContextType {
+  mode: TimeDisplayMode;
+  setMode: (mode: TimeDisplayMode) => void;
+  homeAirport: Airport | undefined;
+  // `airport` is the IATA code the time belongs to; `as` overrides the display mode.
+  zone: (airport?: string | null, as?: TimeDisplayMode) => string;
+  zoneLabel: (airport?: string | null, as?: TimeDisplayMode) => string;
+  formatTime: (iso: string, airport?: string | null) => string;
+  formatDate: (iso: string, airport?: string | null) => string;
+  formatDateTime: (iso: string, airport?: string | null, seconds?: boolean) => string;
+  formatLongDate: (iso: string, airport?: string | null) => string;
+  hourOf: (iso: string, airport?: string | null) => number;
+  toInput: (iso: string | null, airport?: string | null, as?: TimeDisplayMode) => string;
+  fromInput: (value: string, airport?: string | null, as?: TimeDisplayMode) => string | null;
+}
+
+const STORAGE_KEY = "time-display-mode";
+
+const TimeZoneContext = createContext<TimeZoneContextType | undefined>(undefined);
+
+export function TimeZoneProvider({ children }: { children: ReactNode }) {
+  const { airport, home } = useAirports();
+  const [mode, setModeState] = useState<TimeDisplayMode>(() => {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored === "airport" || stored === "local" ? stored : "utc";
+  });
+
+  const setMode = (m: TimeDisplayMode) => {
+    localStorage.setItem(STORAGE_KEY, m);
+    setModeState(m);
+  };
+
+  const zone = (code?: string | null, as: TimeDisplayMode = mode) =>
+    zoneFor(as, home?.timezone ?? null, code ? airport(code)?.timezone : null);
+
+  return (
+    <TimeZoneContext.Provider value={{
+      mode,
+      setMode,
+      homeAirport: home,
+      zone,
+      zoneLabel: (code, as) => zoneAbbreviation(zone(code, as)),
+      formatTime: (iso, code) => formatZonedTime(iso, zone(code)),
+      formatDate: (iso, code) => formatZonedDate(iso, zone(code)),
+      formatDateTime: (iso, code, seconds) => formatZonedDateTime(iso, zone(code), seconds),
+      formatLongDate: (iso, code) => formatZonedLongDate(iso, zone(code)),
+      hourOf: (iso, code) => zonedHour(iso, zone(code)),
+      toInput: (iso, code, as) => toZonedInput(iso, zone(code, as)),
+      fromInput: (value, code, as) => fromZonedInput(value, zone(code, as)),
+    }}>
+      {children}
+    </TimeZoneContext.Provider>
+  );
+}
+
+export function useTimeZone() {
+  const ctx = useContext(TimeZoneContext);
+  if (!ctx) throw new Error("useTimeZone must be used within TimeZoneProvider");
+  return ctx;
+}
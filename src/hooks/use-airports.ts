@@ -0,0 +1,42 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Airport, findAirport } from "@/lib/airports";
+
+// The reference table rarely changes, so every page shares a single fetch.
+// It is publicly readable, so public pages (FIDS) load it without signing in.
+let cache: Promise<Airport[]> | null = null;
+const listeners = new Set<(airports: Airport[]) => void>();
+
+function loadAirports() {
+  if (!cache) {
+    cache = Promise.resolve(
+      supabase.from("airports").select("iata, icao, name, city, country, timezone, latitude, longitude, is_home").order("iata"),
+    ).then(({ data, error }) => {
+      if (error || !data?.length) cache = null;
+      return (data || []) as Airport[];
+    });
+  }
+  return cache;
+}
+
+export function refreshAirports() {
+  cache = null;
+  return loadAirports().then(list => listeners.forEach(l => l(list)));
+}
+
+export function useAirports() {
+  const [airports, setAirports] = useState<Airport[]>([]);
+
+  useEffect(() => {
+    let active = true;
+    listeners.add(setAirports);
+    loadAirports().then(list => { if (active) setAirports(list); });
+    return () => { active = false; listeners.delete(setAirports); };
+  }, []);
+
+  const airport = (code: string) => findAirport(airports, code);
+  const city = (code: string) => airport(code)?.city ?? code;
+  const home = airports.find(a => a.is_home);
+
+  return { airports, airport, city, home };
+}
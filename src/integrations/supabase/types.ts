@@ -44,6 +44,132 @@ export type Database = {
         }
         Relationships: []
       }
+      aircraft: {
+        Row: {
+          aircraft_type: string
+          airline: string | null
+          capacity: number
+          created_at: string
+          id: string
+          mtow_kg: number | null
+          notes: string | null
+          registration: string
+          seats_business: number
+          seats_economy: number
+          seats_first: number
+          updated_at: string
+          wake_category: Database["public"]["Enums"]["wake_category"]
+        }
+        Insert: {
+          aircraft_type: string
+          airline?: string | null
+          capacity?: never
+          created_at?: string
+          id?: string
+          mtow_kg?: number | null
+          notes?: string | null
+          registration: string
+          seats_business?: number
+          seats_economy?: number
+          seats_first?: number
+          updated_at?: string
+          wake_category?: Database["public"]["Enums"]["wake_category"]
+        }
+        Update: {
+          aircraft_type?: string
+          airline?: string | null
+          capacity?: never
+          created_at?: string
+          id?: string
+          mtow_kg?: number | null
+          notes?: string | null
+          registration?: string
+          seats_business?: number
+          seats_economy?: number
+          seats_first?: number
+          updated_at?: string
+          wake_category?: Database["public"]["Enums"]["wake_category"]
+        }
+        Relationships: []
+      }
+      aircraft_performance: {
+        Row: {
+          aircraft_type: string
+          created_at: string
+          id: string
+          landing_distance_m: number
+          notes: string | null
+          takeoff_distance_m: number
+          unpaved_ok: boolean
+          updated_at: string
+        }
+        Insert: {
+          aircraft_type: string
+          created_at?: string
+          id?: string
+          landing_distance_m: number
+          notes?: string | null
+          takeoff_distance_m: number
+          unpaved_ok?: boolean
+          updated_at?: string
+        }
+        Update: {
+          aircraft_type?: string
+          created_at?: string
+          id?: string
+          landing_distance_m?: number
+          notes?: string | null
+          takeoff_distance_m?: number
+          unpaved_ok?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      airports: {
+        Row: {
+          city: string
+          country: string
+          created_at: string
+          iata: string
+          icao: string | null
+          id: string
+          is_home: boolean
+          latitude: number
+          longitude: number
+          name: string
+          timezone: string
+          updated_at: string
+        }
+        Insert: {
+          city: string
+          country: string
+          created_at?: string
+          iata: string
+          icao?: string | null
+          id?: string
+          is_home?: boolean
+          latitude: number
+          longitude: number
+          name: string
+          timezone: string
+          updated_at?: string
+        }
+        Update: {
+          city?: string
+          country?: string
+          created_at?: string
+          iata?: string
+          icao?: string | null
+          id?: string
+          is_home?: boolean
+          latitude?: number
+          longitude?: number
+          name?: string
+          timezone?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       alerts: {
         Row: {
           acknowledged_at: string | null
@@ -104,22 +230,294 @@ export type Database = {
           },
         ]
       }
+      atis_broadcasts: {
+        Row: {
+          content: string
+          id: string
+          issued_at: string
+          issued_by: string | null
+          letter: string
+          observation_id: string | null
+          reason: string
+          runways: string[]
+          station: string
+        }
+        Insert: {
+          content: string
+          id?: string
+          issued_at?: string
+          issued_by?: string | null
+          letter: string
+          observation_id?: string | null
+          reason: string
+          runways?: string[]
+          station: string
+        }
+        Update: {
+          content?: string
+          id?: string
+          issued_at?: string
+          issued_by?: string | null
+          letter?: string
+          observation_id?: string | null
+          reason?: string
+          runways?: string[]
+          station?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "atis_broadcasts_observation_id_fkey"
+            columns: ["observation_id"]
+            isOneToOne: false
+            referencedRelation: "weather_observations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      delay_codes: {
+        Row: {
+          category: string
+          code: string
+          description: string
+        }
+        Insert: {
+          category: string
+          code: string
+          description: string
+        }
+        Update: {
+          category?: string
+          code?: string
+          description?: string
+        }
+        Relationships: []
+      }
+      flight_delays: {
+        Row: {
+          code: string
+          created_at: string
+          created_by: string | null
+          flight_id: string
+          id: string
+          minutes: number
+          remarks: string | null
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          created_by?: string | null
+          flight_id: string
+          id?: string
+          minutes: number
+          remarks?: string | null
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          created_by?: string | null
+          flight_id?: string
+          id?: string
+          minutes?: number
+          remarks?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "flight_delays_code_fkey"
+            columns: ["code"]
+            isOneToOne: false
+            referencedRelation: "delay_codes"
+            referencedColumns: ["code"]
+          },
+          {
+            foreignKeyName: "flight_delays_flight_id_fkey"
+            columns: ["flight_id"]
+            isOneToOne: false
+            referencedRelation: "flights"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      flight_events: {
+        Row: {
+          actor_id: string | null
+          created_at: string
+          event_type: Database["public"]["Enums"]["flight_event_type"]
+          field: string | null
+          flight_id: string
+          id: string
+          new_value: string | null
+          old_value: string | null
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string
+          event_type: Database["public"]["Enums"]["flight_event_type"]
+          field?: string | null
+          flight_id: string
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string
+          event_type?: Database["public"]["Enums"]["flight_event_type"]
+          field?: string | null
+          flight_id?: string
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "flight_events_flight_id_fkey"
+            columns: ["flight_id"]
+            isOneToOne: false
+            referencedRelation: "flights"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      flight_schedules: {
+        Row: {
+          aircraft_type: string
+          airline: string
+          arrival_day_offset: number
+          arrival_time: string
+          capacity: number
+          created_at: string
+          created_by: string | null
+          days_of_week: number[]
+          departure_time: string
+          destination: string
+          flight_number: string
+          gate: string | null
+          id: string
+          is_active: boolean
+          notes: string | null
+          origin: string
+          runway_id: string | null
+          updated_at: string
+          valid_from: string
+          valid_to: string
+        }
+        Insert: {
+          aircraft_type?: string
+          airline: string
+          arrival_day_offset?: number
+          arrival_time: string
+          capacity?: number
+          created_at?: string
+          created_by?: string | null
+          days_of_week: number[]
+          departure_time: string
+          destination: string
+          flight_number: string
+          gate?: string | null
+          id?: string
+          is_active?: boolean
+          notes?: string | null
+          origin: string
+          runway_id?: string | null
+          updated_at?: string
+          valid_from: string
+          valid_to: string
+        }
+        Update: {
+          aircraft_type?: string
+          airline?: string
+          arrival_day_offset?: number
+          arrival_time?: string
+          capacity?: number
+          created_at?: string
+          created_by?: string | null
+          days_of_week?: number[]
+          departure_time?: string
+          destination?: string
+          flight_number?: string
+          gate?: string | null
+          id?: string
+          is_active?: boolean
+          notes?: string | null
+          origin?: string
+          runway_id?: string | null
+          updated_at?: string
+          valid_from?: string
+          valid_to?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "flight_schedules_destination_fkey"
+            columns: ["destination"]
+            isOneToOne: false
+            referencedRelation: "airports"
+            referencedColumns: ["iata"]
+          },
+          {
+            foreignKeyName: "flight_schedules_origin_fkey"
+            columns: ["origin"]
+            isOneToOne: false
+            referencedRelation: "airports"
+            referencedColumns: ["iata"]
+          },
+          {
+            foreignKeyName: "flight_schedules_runway_id_fkey"
+            columns: ["runway_id"]
+            isOneToOne: false
+            referencedRelation: "runways"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      flight_status_transitions: {
+        Row: {
+          from_status: Database["public"]["Enums"]["flight_status"]
+          to_status: Database["public"]["Enums"]["flight_status"]
+        }
+        Insert: {
+          from_status: Database["public"]["Enums"]["flight_status"]
+          to_status: Database["public"]["Enums"]["flight_status"]
+        }
+        Update: {
+          from_status?: Database["public"]["Enums"]["flight_status"]
+          to_status?: Database["public"]["Enums"]["flight_status"]
+        }
+        Relationships: []
+      }
       flights: {
         Row: {
           actual_arrival: string | null
           actual_departure: string | null
+          aircraft_id: string | null
           aircraft_type: string
           airline: string
           capacity: number
           created_at: string
           created_by: string | null
+          departure_sequence: number | null
           destination: string
+          diversion_airport: string | null
+          diversion_reason: string | null
+          diverted_at: string | null
+          estimated_arrival: string | null
+          estimated_departure: string | null
+          expected_approach_at: string | null
           flight_number: string
+          fuel_endurance_minutes: number | null
+          fuel_reported_at: string | null
           gate: string | null
+          gate_id: string | null
+          holding_entered_at: string | null
+          holding_level_ft: number | null
+          holding_stack_id: string | null
           id: string
+          inbound_flight_id: string | null
+          is_schedule_override: boolean
           notes: string | null
           origin: string
           runway_id: string | null
+          schedule_date: string | null
+          schedule_id: string | null
           scheduled_arrival: string
           scheduled_departure: string
           status: Database["public"]["Enums"]["flight_status"]
@@ -128,18 +526,36 @@ export type Database = {
         Insert: {
           actual_arrival?: string | null
           actual_departure?: string | null
+          aircraft_id?: string | null
           aircraft_type?: string
           airline: string
           capacity?: number
           created_at?: string
           created_by?: string | null
+          departure_sequence?: number | null
           destination: string
+          diversion_airport?: string | null
+          diversion_reason?: string | null
+          diverted_at?: string | null
+          estimated_arrival?: string | null
+          estimated_departure?: string | null
+          expected_approach_at?: string | null
           flight_number: string
+          fuel_endurance_minutes?: number | null
+          fuel_reported_at?: string | null
           gate?: string | null
+          gate_id?: string | null
+          holding_entered_at?: string | null
+          holding_level_ft?: number | null
+          holding_stack_id?: string | null
           id?: string
+          inbound_flight_id?: string | null
+          is_schedule_override?: boolean
           notes?: string | null
           origin: string
           runway_id?: string | null
+          schedule_date?: string | null
+          schedule_id?: string | null
           scheduled_arrival: string
           scheduled_departure: string
           status?: Database["public"]["Enums"]["flight_status"]
@@ -148,24 +564,91 @@ export type Database = {
         Update: {
           actual_arrival?: string | null
           actual_departure?: string | null
+          aircraft_id?: string | null
           aircraft_type?: string
           airline?: string
           capacity?: number
           created_at?: string
           created_by?: string | null
+          departure_sequence?: number | null
           destination?: string
+          diversion_airport?: string | null
+          diversion_reason?: string | null
+          diverted_at?: string | null
+          estimated_arrival?: string | null
+          estimated_departure?: string | null
+          expected_approach_at?: string | null
           flight_number?: string
+          fuel_endurance_minutes?: number | null
+          fuel_reported_at?: string | null
           gate?: string | null
+          gate_id?: string | null
+          holding_entered_at?: string | null
+          holding_level_ft?: number | null
+          holding_stack_id?: string | null
           id?: string
+          inbound_flight_id?: string | null
+          is_schedule_override?: boolean
           notes?: string | null
           origin?: string
           runway_id?: string | null
+          schedule_date?: string | null
+          schedule_id?: string | null
           scheduled_arrival?: string
           scheduled_departure?: string
           status?: Database["public"]["Enums"]["flight_status"]
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "flights_aircraft_id_fkey"
+            columns: ["aircraft_id"]
+            isOneToOne: false
+            referencedRelation: "aircraft"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "flights_destination_fkey"
+            columns: ["destination"]
+            isOneToOne: false
+            referencedRelation: "airports"
+            referencedColumns: ["iata"]
+          },
+          {
+            foreignKeyName: "flights_diversion_airport_fkey"
+            columns: ["diversion_airport"]
+            isOneToOne: false
+            referencedRelation: "airports"
+            referencedColumns: ["iata"]
+          },
+          {
+            foreignKeyName: "flights_gate_id_fkey"
+            columns: ["gate_id"]
+            isOneToOne: false
+            referencedRelation: "gates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "flights_holding_stack_id_fkey"
+            columns: ["holding_stack_id"]
+            isOneToOne: false
+            referencedRelation: "holding_stacks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "flights_inbound_flight_id_fkey"
+            columns: ["inbound_flight_id"]
+            isOneToOne: true
+            referencedRelation: "flights"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "flights_origin_fkey"
+            columns: ["origin"]
+            isOneToOne: false
+            referencedRelation: "airports"
+            referencedColumns: ["iata"]
+          },
           {
             foreignKeyName: "flights_runway_id_fkey"
             columns: ["runway_id"]
@@ -173,8 +656,81 @@ export type Database = {
             referencedRelation: "runways"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "flights_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "flight_schedules"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      gates: {
+        Row: {
+          created_at: string
+          gate_type: Database["public"]["Enums"]["gate_type"]
+          id: string
+          name: string
+          notes: string | null
+          preferred_airlines: string[]
+          size_class: Database["public"]["Enums"]["gate_size_class"]
+          status: Database["public"]["Enums"]["gate_status"]
+          terminal: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          gate_type?: Database["public"]["Enums"]["gate_type"]
+          id?: string
+          name: string
+          notes?: string | null
+          preferred_airlines?: string[]
+          size_class?: Database["public"]["Enums"]["gate_size_class"]
+          status?: Database["public"]["Enums"]["gate_status"]
+          terminal: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          gate_type?: Database["public"]["Enums"]["gate_type"]
+          id?: string
+          name?: string
+          notes?: string | null
+          preferred_airlines?: string[]
+          size_class?: Database["public"]["Enums"]["gate_size_class"]
+          status?: Database["public"]["Enums"]["gate_status"]
+          terminal?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      holding_stacks: {
+        Row: {
+          created_at: string
+          fix: string | null
+          highest_level_ft: number
+          id: string
+          lowest_level_ft: number
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          fix?: string | null
+          highest_level_ft?: number
+          id?: string
+          lowest_level_ft?: number
+          name: string
+        }
+        Update: {
+          created_at?: string
+          fix?: string | null
+          highest_level_ft?: number
+          id?: string
+          lowest_level_ft?: number
+          name?: string
+        }
+        Relationships: []
+      }
       passengers: {
         Row: {
           boarding_status: Database["public"]["Enums"]["passenger_boarding_status"]
@@ -184,6 +740,7 @@ export type Database = {
           id: string
           last_name: string
           nationality: string
+          needs_rebooking: boolean
           passport_number: string
           seat_number: string | null
           ticket_id: string
@@ -197,6 +754,7 @@ export type Database = {
           id?: string
           last_name: string
           nationality?: string
+          needs_rebooking?: boolean
           passport_number: string
           seat_number?: string | null
           ticket_id?: string
@@ -210,6 +768,7 @@ export type Database = {
           id?: string
           last_name?: string
           nationality?: string
+          needs_rebooking?: boolean
           passport_number?: string
           seat_number?: string | null
           ticket_id?: string
@@ -249,35 +808,91 @@ export type Database = {
         }
         Relationships: []
       }
+      runway_closures: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          ends_at: string
+          id: string
+          kind: Database["public"]["Enums"]["runway_status"]
+          reason: string
+          reference: string | null
+          runway_id: string
+          starts_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          ends_at: string
+          id?: string
+          kind?: Database["public"]["Enums"]["runway_status"]
+          reason: string
+          reference?: string | null
+          runway_id: string
+          starts_at: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          ends_at?: string
+          id?: string
+          kind?: Database["public"]["Enums"]["runway_status"]
+          reason?: string
+          reference?: string | null
+          runway_id?: string
+          starts_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "runway_closures_runway_id_fkey"
+            columns: ["runway_id"]
+            isOneToOne: false
+            referencedRelation: "runways"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       runways: {
         Row: {
           created_at: string
+          crosswind_limit_kt: number
+          heading_degrees: number | null
           id: string
           length_meters: number
           name: string
           notes: string | null
           status: Database["public"]["Enums"]["runway_status"]
+          status_from_closure: boolean
           surface_type: string
+          tailwind_limit_kt: number
           updated_at: string
         }
         Insert: {
           created_at?: string
+          crosswind_limit_kt?: number
+          heading_degrees?: number | null
           id?: string
           length_meters?: number
           name: string
           notes?: string | null
           status?: Database["public"]["Enums"]["runway_status"]
+          status_from_closure?: boolean
           surface_type?: string
+          tailwind_limit_kt?: number
           updated_at?: string
         }
         Update: {
           created_at?: string
+          crosswind_limit_kt?: number
+          heading_degrees?: number | null
           id?: string
           length_meters?: number
           name?: string
           notes?: string | null
           status?: Database["public"]["Enums"]["runway_status"]
+          status_from_closure?: boolean
           surface_type?: string
+          tailwind_limit_kt?: number
           updated_at?: string
         }
         Relationships: []
@@ -303,11 +918,114 @@ export type Database = {
         }
         Relationships: []
       }
+      weather_observations: {
+        Row: {
+          ceiling_ft: number | null
+          created_at: string
+          created_by: string | null
+          dewpoint_c: number | null
+          flight_category: string | null
+          id: string
+          kind: string
+          observed_at: string
+          qnh_hpa: number | null
+          raw_text: string
+          source: string
+          station: string
+          temperature_c: number | null
+          visibility_m: number | null
+          wind_direction: number | null
+          wind_gust_kt: number | null
+          wind_speed_kt: number | null
+        }
+        Insert: {
+          ceiling_ft?: number | null
+          created_at?: string
+          created_by?: string | null
+          dewpoint_c?: number | null
+          flight_category?: string | null
+          id?: string
+          kind: string
+          observed_at: string
+          qnh_hpa?: number | null
+          raw_text: string
+          source?: string
+          station: string
+          temperature_c?: number | null
+          visibility_m?: number | null
+          wind_direction?: number | null
+          wind_gust_kt?: number | null
+          wind_speed_kt?: number | null
+        }
+        Update: {
+          ceiling_ft?: number | null
+          created_at?: string
+          created_by?: string | null
+          dewpoint_c?: number | null
+          flight_category?: string | null
+          id?: string
+          kind?: string
+          observed_at?: string
+          qnh_hpa?: number | null
+          raw_text?: string
+          source?: string
+          station?: string
+          temperature_c?: number | null
+          visibility_m?: number | null
+          wind_direction?: number | null
+          wind_gust_kt?: number | null
+          wind_speed_kt?: number | null
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      aircraft_performance_for: {
+        Args: { _type: string }
+        Returns: {
+          aircraft_type: string
+          created_at: string
+          id: string
+          landing_distance_m: number
+          notes: string | null
+          takeoff_distance_m: number
+          unpaved_ok: boolean
+          updated_at: string
+        }
+      }
+      airline_name: { Args: { _designator: string }; Returns: string }
+      apply_runway_closures: { Args: never; Returns: undefined }
+      approve_landing: { Args: { _flight_id: string }; Returns: undefined }
+      approve_takeoff: { Args: { _flight_id: string }; Returns: undefined }
+      assign_runway: {
+        Args: {
+          _estimated_arrival?: string
+          _estimated_departure?: string
+          _flight_id: string
+          _runway_id: string | null
+        }
+        Returns: undefined
+      }
+      cancel_flight: {
+        Args: { _flight_id: string; _note?: string }
+        Returns: undefined
+      }
+      clear_for_takeoff: { Args: { _flight_id: string }; Returns: undefined }
+      delay_flight: {
+        Args: { _delays: Json; _flight_id: string; _remarks?: string }
+        Returns: number
+      }
+      divert_flight: {
+        Args: { _airport: string; _flight_id: string; _reason: string }
+        Returns: undefined
+      }
+      gate_conflict: {
+        Args: { _departure: string; _flight_id: string; _gate_id: string }
+        Returns: string
+      }
       get_user_role: { Args: { _user_id: string }; Returns: string }
       has_role: {
         Args: {
@@ -316,24 +1034,115 @@ export type Database = {
         }
         Returns: boolean
       }
+      import_flights: {
+        Args: { _flights: Json; _source: string }
+        Returns: number
+      }
+      import_ssim: {
+        Args: { _creates: Json; _details?: Json; _source: string; _updates: Json }
+        Returns: Json
+      }
+      issue_atis: {
+        Args: {
+          _content: string
+          _force?: boolean
+          _observation_id: string | null
+          _reason: string
+          _runways: string[]
+          _station: string
+        }
+        Returns: {
+          content: string
+          id: string
+          issued_at: string
+          issued_by: string | null
+          letter: string
+          observation_id: string | null
+          reason: string
+          runways: string[]
+          station: string
+        }
+      }
+      line_up: { Args: { _flight_id: string }; Returns: undefined }
+      normalize_aircraft_type: { Args: { _type: string }; Returns: string }
+      refresh_runway_occupancy: {
+        Args: { _runway_id: string }
+        Returns: undefined
+      }
+      release_runway_alerts: {
+        Args: { _flight_id: string; _runway_id: string }
+        Returns: undefined
+      }
+      return_to_stand: {
+        Args: { _flight_id: string; _reason?: string }
+        Returns: undefined
+      }
+      runway_has_traffic: { Args: { _runway_id: string }; Returns: boolean }
+      runway_movement_kind: {
+        Args: { _f: Database["public"]["Tables"]["flights"]["Row"] }
+        Returns: string
+      }
+      runway_movement_time: {
+        Args: { _f: Database["public"]["Tables"]["flights"]["Row"] }
+        Returns: string
+      }
+      sequence_departures: {
+        Args: { _flight_ids: string[]; _runway_id: string }
+        Returns: undefined
+      }
+      set_home_airport: { Args: { _iata: string }; Returns: undefined }
+      sync_all_schedule_flights: {
+        Args: { _window_days?: number }
+        Returns: {
+          created: number
+          removed: number
+          updated: number
+        }[]
+      }
+      sync_schedule_flights: {
+        Args: { _schedule_id: string; _window_days?: number }
+        Returns: {
+          created: number
+          removed: number
+          updated: number
+        }[]
+      }
+      update_flight: {
+        Args: { _changes: Json; _flight_id: string; _runway_id: string | null }
+        Returns: undefined
+      }
     }
     Enums: {
       alert_severity: "info" | "warning" | "critical" | "emergency"
       app_role: "admin" | "atc" | "staff"
+      flight_event_type:
+        | "created"
+        | "status_change"
+        | "delay"
+        | "schedule_change"
+        | "runway_change"
+        | "gate_change"
       flight_status:
         | "scheduled"
         | "boarding"
         | "delayed"
+        | "lined_up"
+        | "cleared_for_takeoff"
         | "departed"
         | "landed"
         | "cancelled"
+        | "diverted"
         | "emergency"
+      gate_size_class: "A" | "B" | "C" | "D" | "E" | "F"
+      gate_status: "available" | "maintenance" | "closed"
+      gate_type: "contact" | "remote"
       passenger_boarding_status:
         | "checked_in"
         | "boarding"
         | "boarded"
         | "no_show"
       runway_status: "available" | "occupied" | "maintenance" | "closed"
+      wake_category: "L" | "M" | "H" | "J"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -463,15 +1272,29 @@ export const Constants = {
     Enums: {
       alert_severity: ["info", "warning", "critical", "emergency"],
       app_role: ["admin", "atc", "staff"],
+      flight_event_type: [
+        "created",
+        "status_change",
+        "delay",
+        "schedule_change",
+        "runway_change",
+        "gate_change",
+      ],
       flight_status: [
         "scheduled",
         "boarding",
         "delayed",
+        "lined_up",
+        "cleared_for_takeoff",
         "departed",
         "landed",
         "cancelled",
+        "diverted",
         "emergency",
       ],
+      gate_size_class: ["A", "B", "C", "D", "E", "F"],
+      gate_status: ["available", "maintenance", "closed"],
+      gate_type: ["contact", "remote"],
       passenger_boarding_status: [
         "checked_in",
         "boarding",
@@ -479,6 +1302,7 @@ export const Constants = {
         "no_show",
       ],
       runway_status: ["available", "occupied", "maintenance", "closed"],
+      wake_category: ["L", "M", "H", "J"],
     },
   },
 } as const
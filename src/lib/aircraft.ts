@@ -0,0 +1,83 @@
+import type { Database } from "@/integrations/supabase/types";
+import { FlightTimes, effectiveArrival, effectiveDeparture } from "@/lib/flightTimes";
+
+export type WakeCategory = Database["public"]["Enums"]["wake_category"];
+
+export const WAKE_CATEGORIES: { value: WakeCategory; label: string }[] = [
+  { value: "L", label: "Light — up to 7,000 kg" },
+  { value: "M", label: "Medium — 7,000 to 136,000 kg" },
+  { value: "H", label: "Heavy — 136,000 kg and above" },
+  { value: "J", label: "Super — A380" },
+];
+
+// ICAO thresholds on maximum take-off mass. Super is a type designation, not a
+// weight band, so it is only suggested for the A380.
+export function wakeCategoryForMtow(mtowKg: number, aircraftType = ""): WakeCategory {
+  if (/A?380/i.test(aircraftType.replace(/[\s-]/g, ""))) return "J";
+  if (mtowKg >= 136000) return "H";
+  if (mtowKg > 7000) return "M";
+  return "L";
+}
+
+export interface SeatConfig {
+  seats_first: number;
+  seats_business: number;
+  seats_economy: number;
+}
+
+// Mirrors the generated aircraft.capacity column.
+export function seatCapacity(c: SeatConfig) {
+  return c.seats_first + c.seats_business + c.seats_economy;
+}
+
+// Compact cabin layout as printed in fleet lists, e.g. "F8 C42 Y250".
+export function formatSeatConfig(c: SeatConfig) {
+  const parts = [["F", c.seats_first], ["C", c.seats_business], ["Y", c.seats_economy]] as const;
+  const text = parts.filter(([, n]) => n > 0).map(([cls, n]) => `${cls}${n}`).join(" ");
+  return text || "No seats";
+}
+
+// Below this the ground handlers cannot turn the aircraft around.
+export const MIN_TURNAROUND_MINUTES = 30;
+
+export type RotationState = "ok" | "tight" | "conflict";
+
+const MINUTE = 60000;
+
+// Ground time between the inbound landing and the outbound leaving, using the
+// best known times so delays on either leg show up immediately.
+export function turnaroundMinutes(inbound: FlightTimes, outbound: FlightTimes) {
+  return Math.round((new Date(effectiveDeparture(outbound)).getTime() - new Date(effectiveArrival(inbound)).getTime()) / MINUTE);
+}
+
+export function rotationState(minutes: number): RotationState {
+  if (minutes < 0) return "conflict";
+  if (minutes < MIN_TURNAROUND_MINUTES) return "tight";
+  return "ok";
+}
+
+export function formatTurnaround(minutes: number) {
+  const abs = Math.abs(minutes);
+  const text = abs >= 60 ? `${Math.floor(abs / 60)}h ${abs % 60}m` : `${abs}m`;
+  return minutes < 0 ? `departs ${text} before inbound lands` : `${text} turnaround`;
+}
+
+// Flights on the same tail that can bring the aircraft in for this outbound:
+// arriving at the outbound's origin, not already feeding another rotation, and
+// scheduled to land before the outbound is scheduled to leave.
+export function inboundCandidates<T extends FlightTimes & { id: string; aircraft_id: string | null; destination: string; status: string }>(
+  outbound: { id?: string; aircraft_id: string | null; origin: string; scheduled_departure: string },
+  flights: T[],
+  linked: Set<string>,
+) {
+  if (!outbound.aircraft_id) return [];
+  return flights
+    .filter(f =>
+      f.id !== outbound.id &&
+      f.aircraft_id === outbound.aircraft_id &&
+      f.status !== "cancelled" &&
+      f.destination.toUpperCase() === outbound.origin.toUpperCase() &&
+      !linked.has(f.id) &&
+      new Date(f.scheduled_arrival).getTime() <= new Date(outbound.scheduled_departure).getTime())
+    .sort((a, b) => new Date(b.scheduled_arrival).getTime() - new Date(a.scheduled_arrival).getTime());
+}
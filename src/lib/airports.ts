@@ -0,0 +1,51 @@
+export interface Airport {
+  iata: string;
+  icao: string | null;
+  name: string;
+  city: string;
+  country: string;
+  timezone: string;
+  latitude: number;
+  longitude: number;
+  is_home: boolean;
+}
+
+// Flights store the IATA code; ICAO codes typed by the user resolve to the same airport.
+export function findAirport(airports: Airport[], code: string) {
+  const c = code.trim().toUpperCase();
+  if (!c) return undefined;
+  return airports.find(a => a.iata === c) ?? airports.find(a => a.icao === c);
+}
+
+// Exact codes first, then city and name prefixes, then substring matches.
+export function searchAirports(airports: Airport[], query: string, limit = 50) {
+  const q = query.trim().toLowerCase();
+  if (!q) return airports.slice(0, limit);
+  const rank = (a: Airport) => {
+    if (a.iata.toLowerCase() === q || a.icao?.toLowerCase() === q) return 0;
+    if (a.city.toLowerCase().startsWith(q) || a.name.toLowerCase().startsWith(q)) return 1;
+    if (a.iata.toLowerCase().startsWith(q) || a.icao?.toLowerCase().startsWith(q)) return 2;
+    if (`${a.city} ${a.name} ${a.country}`.toLowerCase().includes(q)) return 3;
+    return -1;
+  };
+  return airports
+    .map(a => ({ a, r: rank(a) }))
+    .filter(x => x.r >= 0)
+    .sort((x, y) => x.r - y.r || x.a.iata.localeCompare(y.a.iata))
+    .slice(0, limit)
+    .map(x => x.a);
+}
+
+export function airportLabel(a: Airport) {
+  return `${a.city} (${a.iata})`;
+}
+
+// Returns an error message, or null when both ends of the route are valid.
+export function routeError(airports: Airport[], origin: string, destination: string) {
+  const from = findAirport(airports, origin);
+  const to = findAirport(airports, destination);
+  if (!from) return `Unknown origin airport "${origin.toUpperCase()}".`;
+  if (!to) return `Unknown destination airport "${destination.toUpperCase()}".`;
+  if (from.iata === to.iata) return "Origin and destination must be different airports.";
+  return null;
+}
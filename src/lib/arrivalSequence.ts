@@ -0,0 +1,147 @@
+import { WakeCategory } from "@/lib/aircraft";
+import { effectiveArrival } from "@/lib/flightTimes";
+import { SlotFlight, WAKE_SEPARATION_MINUTES, movementKind, wakeCategoryForType } from "@/lib/runwaySlots";
+
+// Minutes from leaving the stack at the expected approach time to touchdown.
+export const HOLD_TO_TOUCHDOWN_MINUTES = 15;
+// Fuel a turbine aircraft must still have on landing (ICAO final reserve).
+export const FINAL_RESERVE_MINUTES = 30;
+// Landing with less than this above the final reserve calls for MINIMUM FUEL.
+export const MINIMUM_FUEL_MARGIN_MINUTES = 15;
+// A flight delayed this long against its ETA is better off in a stack.
+export const HOLD_ADVISORY_MINUTES = 5;
+export const HOLDING_LEVEL_STEP_FT = 1000;
+
+// Arrivals still to land; terminal and diverted flights are out of the sequence.
+export const INBOUND_STATUSES = ["scheduled", "boarding", "delayed", "lined_up", "cleared_for_takeoff", "departed", "emergency"];
+// Only flights in the air can be sent to a stack.
+export const AIRBORNE_STATUSES = ["departed", "emergency"];
+
+const MINUTE = 60000;
+
+export interface HoldingStack {
+  id: string;
+  name: string;
+  fix: string | null;
+  lowest_level_ft: number;
+  highest_level_ft: number;
+}
+
+export interface ArrivalFlight extends SlotFlight {
+  holding_stack_id: string | null;
+  holding_level_ft: number | null;
+  holding_entered_at: string | null;
+  expected_approach_at: string | null;
+  fuel_endurance_minutes: number | null;
+  fuel_reported_at: string | null;
+}
+
+export type FuelState = "ok" | "minimum" | "emergency";
+
+export interface SequencedArrival {
+  flight: ArrivalFlight;
+  wake: WakeCategory;
+  // In ms: the flight's own estimate, and when it can land given the traffic ahead.
+  eta: number;
+  targetLanding: number;
+  delayMinutes: number;
+  holding: boolean;
+  holdAdvised: boolean;
+  // Endurance left at the target landing time; null without a fuel report.
+  fuelAtLanding: number | null;
+  fuel: FuelState | null;
+}
+
+const ceilMinute = (t: number) => Math.ceil(t / MINUTE) * MINUTE;
+export const isHolding = (f: ArrivalFlight) => f.holding_stack_id !== null;
+
+// Endurance left at `at`, counting down from the crew's last report. The report
+// outlives the hold, so the warning follows the flight onto the approach.
+export function fuelRemainingMinutes(f: ArrivalFlight, at: number) {
+  if (f.fuel_endurance_minutes === null || !f.fuel_reported_at) return null;
+  return Math.floor(f.fuel_endurance_minutes - (at - Date.parse(f.fuel_reported_at)) / MINUTE);
+}
+
+export function fuelState(remainingMinutes: number): FuelState {
+  if (remainingMinutes < FINAL_RESERVE_MINUTES) return "emergency";
+  if (remainingMinutes < FINAL_RESERVE_MINUTES + MINIMUM_FUEL_MARGIN_MINUTES) return "minimum";
+  return "ok";
+}
+
+// The earliest the flight could land: a holding flight once it leaves the stack
+// at its expected approach time, any other at its ETA; never in the past.
+export function earliestLanding(f: ArrivalFlight, now: Date) {
+  const t = now.getTime();
+  if (isHolding(f)) {
+    const approach = f.expected_approach_at ? Date.parse(f.expected_approach_at) : t;
+    return ceilMinute(Math.max(approach, t) + HOLD_TO_TOUCHDOWN_MINUTES * MINUTE);
+  }
+  return ceilMinute(Math.max(Date.parse(effectiveArrival(f)), t));
+}
+
+// Landing order for a runway: emergencies first, then by earliest landing time,
+// each flight at least the wake separation behind the one ahead.
+export function arrivalSequence(flights: ArrivalFlight[], runwayId: string | null, now: Date, home?: string): SequencedArrival[] {
+  const earliest = (f: ArrivalFlight) => earliestLanding(f, now);
+  const candidates = flights
+    .filter(f => f.runway_id === runwayId && INBOUND_STATUSES.includes(f.status) && movementKind(f, home) === "arrival")
+    .sort((a, b) =>
+      Number(b.status === "emergency") - Number(a.status === "emergency")
+      || earliest(a) - earliest(b)
+      || a.flight_number.localeCompare(b.flight_number));
+
+  const sequence: SequencedArrival[] = [];
+  candidates.forEach(f => {
+    const wake = f.wake_category ?? wakeCategoryForType(f.aircraft_type);
+    const ahead = sequence[sequence.length - 1];
+    const separated = ahead ? ahead.targetLanding + WAKE_SEPARATION_MINUTES[ahead.wake][wake] * MINUTE : 0;
+    const targetLanding = Math.max(earliest(f), separated);
+    const eta = Date.parse(effectiveArrival(f));
+    const delayMinutes = Math.round((targetLanding - eta) / MINUTE);
+    const fuelAtLanding = fuelRemainingMinutes(f, targetLanding);
+    sequence.push({
+      flight: f,
+      wake,
+      eta,
+      targetLanding,
+      delayMinutes,
+      holding: isHolding(f),
+      holdAdvised: !isHolding(f) && AIRBORNE_STATUSES.includes(f.status) && delayMinutes >= HOLD_ADVISORY_MINUTES,
+      fuelAtLanding,
+      fuel: fuelAtLanding === null ? null : fuelState(fuelAtLanding),
+    });
+  });
+  return sequence;
+}
+
+// Flights in the stack, lowest first: the lowest leaves for the approach first.
+export function stackOccupants(flights: ArrivalFlight[], stackId: string) {
+  return flights
+    .filter(f => f.holding_stack_id === stackId)
+    .sort((a, b) => a.holding_level_ft! - b.holding_level_ft!);
+}
+
+// The lowest free level in the stack, or null when every level is taken.
+export function nextFreeLevel(stack: HoldingStack, flights: ArrivalFlight[]) {
+  const taken = new Set(stackOccupants(flights, stack.id).map(f => f.holding_level_ft));
+  for (let level = stack.lowest_level_ft; level <= stack.highest_level_ft; level += HOLDING_LEVEL_STEP_FT) {
+    if (!taken.has(level)) return level;
+  }
+  return null;
+}
+
+// A flight already in a stack keeps its entry time when its level or expected
+// approach time is revised, so its time in the hold keeps counting.
+export function holdingEnteredAt(f: ArrivalFlight, now: Date) {
+  return isHolding(f) && f.holding_entered_at ? f.holding_entered_at : now.toISOString();
+}
+
+// Levels of 6000 ft and above are read as flight levels.
+export function describeLevel(feet: number) {
+  return feet >= 6000 ? `FL${Math.round(feet / 100).toString().padStart(3, "0")}` : `${feet} ft`;
+}
+
+// The approach time that keeps the flight's place in the sequence.
+export function suggestedApproachTime(a: SequencedArrival, now: Date) {
+  return new Date(Math.max(a.targetLanding - HOLD_TO_TOUCHDOWN_MINUTES * MINUTE, ceilMinute(now.getTime()))).toISOString();
+}
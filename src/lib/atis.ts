@@ -0,0 +1,162 @@
+import { CLOUD_COVER_NAMES, Metar, WeatherChange, WeatherConditions, describeWeather } from "@/lib/metar";
+import { WindRunway, runwayEnds, suggestConfiguration, surfaceWind } from "@/lib/runwayWind";
+import { RunwayClosure, activeClosure } from "@/lib/runwayClosures";
+
+export const PHONETIC = [
+  "Alfa", "Bravo", "Charlie", "Delta", "Echo", "Foxtrot", "Golf", "Hotel", "India", "Juliett", "Kilo", "Lima", "Mike",
+  "November", "Oscar", "Papa", "Quebec", "Romeo", "Sierra", "Tango", "Uniform", "Victor", "Whiskey", "X-ray", "Yankee", "Zulu",
+];
+
+// Closures starting within this many hours are announced as remarks.
+export const ATIS_REMARK_HOURS = 12;
+
+export type AtisReason = "weather" | "runway" | "manual";
+
+// A row of the atis_broadcasts table.
+export interface AtisBroadcast {
+  id: string;
+  letter: string;
+  station: string;
+  content: string;
+  runways: string[];
+  observation_id: string | null;
+  reason: AtisReason;
+  issued_at: string;
+}
+
+export interface AtisInput {
+  metar: Metar | null;
+  runways: WindRunway[];
+  closures: RunwayClosure[];
+  now: Date;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+// Mirrors the letter sequence in public.issue_atis(): A to Z, then A again.
+export function nextLetter(letter: string | null) {
+  if (!letter) return "A";
+  return String.fromCharCode(((letter.charCodeAt(0) - 65 + 1) % 26) + 65);
+}
+
+export function phonetic(letter: string) {
+  return PHONETIC[letter.charCodeAt(0) - 65] ?? letter;
+}
+
+const zulu = (iso: string) => `${iso.slice(11, 13)}${iso.slice(14, 16)} Zulu`;
+const runwayLabel = (name: string) => (/^runway\b/i.test(name) ? name : `Runway ${name}`);
+const sentence = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+const degrees = (d: number) => d.toString().padStart(3, "0");
+
+function windPhrase(c: WeatherConditions) {
+  const w = c.wind;
+  if (!w) return null;
+  const unit = w.unit === "KT" ? "knots" : w.unit === "MPS" ? "metres per second" : "kilometres per hour";
+  if (w.speed === 0) return "Wind calm";
+  const from = w.direction === null ? "variable" : `${degrees(w.direction)} degrees`;
+  const gust = w.gust ? ` gusting ${w.gust}` : "";
+  const varying = w.variableFrom !== null ? `, varying between ${degrees(w.variableFrom)} and ${degrees(w.variableTo!)} degrees` : "";
+  return `Wind ${from} ${w.speed} ${unit}${gust}${varying}`;
+}
+
+function conditionsPhrases(c: WeatherConditions) {
+  const parts: string[] = [];
+  const wind = windPhrase(c);
+  if (wind) parts.push(wind);
+  if (c.cavok) {
+    parts.push("CAVOK");
+    return parts;
+  }
+  if (c.visibilityM !== null) {
+    parts.push(c.visibilityM >= 9999 ? "Visibility 10 kilometres or more" : `Visibility ${c.visibilityM} metres`);
+  }
+  c.rvr.forEach(r => parts.push(`RVR ${runwayLabel(r.runway)} ${r.qualifier === "P" ? "above " : r.qualifier === "M" ? "below " : ""}${r.meters} metres`));
+  if (c.weather.length) parts.push(sentence(c.weather.map(describeWeather).join(", ")));
+  if (c.verticalVisibilityFt !== null) parts.push(`Vertical visibility ${c.verticalVisibilityFt} feet`);
+  else if (c.clouds.length) {
+    parts.push(`Cloud ${c.clouds.map(l => `${CLOUD_COVER_NAMES[l.cover]} ${l.baseFt ?? "unknown"} feet${l.type === "CB" ? " cumulonimbus" : l.type === "TCU" ? " towering cumulus" : ""}`).join(", ")}`);
+  } else if (c.noCloud) parts.push("No significant cloud");
+  return parts;
+}
+
+function trendPhrase(t: WeatherChange) {
+  const kind = t.kind === "TEMPO" ? "temporarily" : "becoming";
+  const timing = [t.from && `from ${zulu(t.from)}`, t.until && `until ${zulu(t.until)}`, t.at && `at ${zulu(t.at)}`].filter(Boolean).join(" ");
+  const conditions = conditionsPhrases(t.conditions).map(p => p.charAt(0).toLowerCase() + p.slice(1)).join(", ");
+  return `Trend ${kind}${timing ? ` ${timing}` : ""}${conditions ? ` ${conditions}` : ""}`;
+}
+
+// Runways in use: the ends the wind favours, or every usable runway when
+// there is no wind report to choose by.
+export function atisRunways(input: Pick<AtisInput, "metar" | "runways">) {
+  const usable = input.runways.filter(r => r.status !== "maintenance" && r.status !== "closed");
+  if (input.metar?.wind) {
+    const config = suggestConfiguration(usable, surfaceWind(input.metar.wind));
+    if (config) return config.ends.map(e => e.end.designator);
+  }
+  return usable.flatMap(r => runwayEnds(r).slice(0, 1).map(e => e.designator));
+}
+
+// Closures under way or starting soon, and runways taken out of use by hand.
+export function atisRemarks({ runways, closures, now }: Pick<AtisInput, "runways" | "closures" | "now">) {
+  const horizon = now.getTime() + ATIS_REMARK_HOURS * HOUR;
+  const remarks = closures
+    .filter(c => Date.parse(c.ends_at) > now.getTime() && Date.parse(c.starts_at) < horizon)
+    .sort((a, b) => Date.parse(a.starts_at) - Date.parse(b.starts_at))
+    .flatMap(c => {
+      const r = runways.find(r => r.id === c.runway_id);
+      if (!r) return [];
+      const what = c.kind === "closed" ? "closed" : "under maintenance";
+      const when = Date.parse(c.starts_at) <= now.getTime() ? `until ${zulu(c.ends_at)}` : `from ${zulu(c.starts_at)} until ${zulu(c.ends_at)}`;
+      return [`${runwayLabel(r.name)} ${what} ${when}${c.reference ? `, NOTAM ${c.reference}` : ""}: ${c.reason}`];
+    });
+  runways
+    .filter(r => (r.status === "maintenance" || r.status === "closed") && !activeClosure(r.id, closures, now))
+    .forEach(r => remarks.push(`${runwayLabel(r.name)} ${r.status === "closed" ? "closed" : "under maintenance"}`));
+  return remarks;
+}
+
+// Everything after the letter. A broadcast is reissued under the next letter
+// when this changes, so the only time given is the observation's.
+export function atisContent(input: AtisInput) {
+  const { metar } = input;
+  const runways = atisRunways(input);
+  const lines: string[] = metar ? [`Time ${zulu(metar.observedAt)}.`] : [];
+  lines.push(runways.length
+    ? `${runways.length > 1 ? "Runways" : "Runway"} in use ${runways.join(" and ")}.`
+    : "No runway in use.");
+  if (metar) {
+    lines.push(...conditionsPhrases(metar).map(p => `${p}.`));
+    if (metar.temperature !== null) {
+      const signed = (t: number) => (t < 0 ? `minus ${-t}` : `${t}`);
+      lines.push(`Temperature ${signed(metar.temperature)}${metar.dewpoint !== null ? `, dew point ${signed(metar.dewpoint)}` : ""}.`);
+    }
+    if (metar.qnhHpa !== null) lines.push(`QNH ${metar.qnhHpa}.`);
+    if (metar.nosig) lines.push("No significant change.");
+    metar.trends.forEach(t => lines.push(`${trendPhrase(t)}.`));
+  } else {
+    lines.push("Weather not available.");
+  }
+  const remarks = atisRemarks(input);
+  if (remarks.length) lines.push(`Remarks. ${remarks.map(r => `${r}.`).join(" ")}`);
+  return { content: lines.join(" "), runways };
+}
+
+export function atisText(station: string, letter: string, content: string) {
+  return `${station} information ${phonetic(letter)}. ${content} Advise on initial contact you have information ${phonetic(letter)}.`;
+}
+
+const DIGITS = ["zero", "one", "two", "three", "four", "five", "six", "seven", "eight", "niner"];
+const SIDES: Record<string, string> = { L: "left", C: "center", R: "right" };
+
+// Radiotelephony reading for speech synthesis: numbers digit by digit and
+// runway sides in words.
+export function spokenAtis(text: string) {
+  return text
+    .replace(/\b(\d{2})([LCR])\b/g, (_, n: string, side: string) => `${n} ${SIDES[side]}`)
+    .replace(/\d+/g, n => n.split("").map(d => DIGITS[Number(d)]).join(" "))
+    .replace(/\bQNH\b/g, "Q N H")
+    .replace(/\bRVR\b/g, "R V R")
+    .replace(/\bCAVOK\b/g, "cav okay")
+    .replace(/\bNOTAM\b/g, "notam");
+}
@@ -0,0 +1,61 @@
+import { zonedHour } from "@/lib/timeZones";
+
+export interface DelayCode {
+  code: string;
+  category: string;
+  description: string;
+}
+
+export interface DelayEntry {
+  code: string;
+  minutes: number;
+  airline: string;
+  scheduled_departure: string;
+}
+
+export interface DelayBucket {
+  key: string;
+  minutes: number;
+  count: number;
+}
+
+function aggregate(entries: DelayEntry[], keyOf: (e: DelayEntry) => string) {
+  const map = new Map<string, DelayBucket>();
+  entries.forEach(e => {
+    const key = keyOf(e);
+    const bucket = map.get(key) || { key, minutes: 0, count: 0 };
+    bucket.minutes += e.minutes;
+    bucket.count += 1;
+    map.set(key, bucket);
+  });
+  return Array.from(map.values()).sort((a, b) => b.minutes - a.minutes);
+}
+
+export function minutesByCode(entries: DelayEntry[]) {
+  return aggregate(entries, e => e.code);
+}
+
+export function minutesByAirline(entries: DelayEntry[]) {
+  return aggregate(entries, e => e.airline);
+}
+
+export function minutesByCategory(entries: DelayEntry[], codes: DelayCode[]) {
+  const category = new Map(codes.map(c => [c.code, c.category]));
+  return aggregate(entries, e => category.get(e.code) || "Unknown");
+}
+
+// Always returns all 24 hours so the chart keeps a stable x-axis. Hours are
+// counted on the wall clock of the given zone.
+export function minutesByHour(entries: DelayEntry[], timeZone: string) {
+  const hours: DelayBucket[] = Array.from({ length: 24 }, (_, h) => ({ key: String(h).padStart(2, "0"), minutes: 0, count: 0 }));
+  entries.forEach(e => {
+    const bucket = hours[zonedHour(e.scheduled_departure, timeZone)];
+    bucket.minutes += e.minutes;
+    bucket.count += 1;
+  });
+  return hours;
+}
+
+export function totalMinutes(entries: { minutes: number }[]) {
+  return entries.reduce((sum, e) => sum + e.minutes, 0);
+}
@@ -0,0 +1,95 @@
+import { FlightStatus, ON_RUNWAY_STATUSES } from "@/lib/flightStatus";
+import { effectiveDeparture } from "@/lib/flightTimes";
+import { SlotFlight, WAKE_SEPARATION_MINUTES, movementKind, wakeCategoryForType } from "@/lib/runwaySlots";
+import { WakeCategory } from "@/lib/aircraft";
+
+// Minutes from start-up approval to reaching the holding point: push-back,
+// engine start and taxi.
+export const STARTUP_TAXI_MINUTES = 10;
+
+// Departures still to use their runway.
+export const QUEUE_STATUSES: FlightStatus[] = ["scheduled", "boarding", "delayed", "lined_up", "cleared_for_takeoff"];
+
+const MINUTE = 60000;
+
+export interface DepartureFlight extends SlotFlight {
+  // The controller's order on the runway; null until the queue is reordered,
+  // and again once the flight is delayed.
+  departure_sequence: number | null;
+}
+
+export interface QueuedDeparture {
+  flight: DepartureFlight;
+  wake: WakeCategory;
+  // Target take-off time (TTOT) and start-up approval time (TSAT), in ms. A
+  // flight already on the runway has no start-up time.
+  targetTakeoff: number;
+  targetStartup: number | null;
+  // Minutes the target take-off is behind the flight's own departure time.
+  delayMinutes: number;
+  onRunway: boolean;
+}
+
+const onRunway = (f: DepartureFlight) => ON_RUNWAY_STATUSES.includes(f.status as FlightStatus);
+const ceilMinute = (t: number) => Math.ceil(t / MINUTE) * MINUTE;
+
+// The earliest the flight could take off: now for a flight on the runway, else
+// its departure time but not before it can start up and taxi.
+export function earliestTakeoff(f: DepartureFlight, now: Date) {
+  if (onRunway(f)) return ceilMinute(now.getTime());
+  return ceilMinute(Math.max(new Date(effectiveDeparture(f)).getTime(), now.getTime() + STARTUP_TAXI_MINUTES * MINUTE));
+}
+
+// Flights on the runway go first, the one cleared for take-off ahead. The rest
+// keep the controller's order, with unsequenced flights merged in by their
+// earliest take-off time.
+export function queueOrder(flights: DepartureFlight[], now: Date) {
+  const earliest = (f: DepartureFlight) => earliestTakeoff(f, now);
+  const byTime = (a: DepartureFlight, b: DepartureFlight) => earliest(a) - earliest(b) || a.flight_number.localeCompare(b.flight_number);
+  const holding = flights.filter(onRunway)
+    .sort((a, b) => Number(b.status === "cleared_for_takeoff") - Number(a.status === "cleared_for_takeoff") || byTime(a, b));
+  const sequenced = flights.filter(f => !onRunway(f) && f.departure_sequence !== null)
+    .sort((a, b) => a.departure_sequence! - b.departure_sequence!);
+  const unsequenced = flights.filter(f => !onRunway(f) && f.departure_sequence === null).sort(byTime);
+
+  const merged: DepartureFlight[] = [];
+  while (sequenced.length || unsequenced.length) {
+    const takeUnsequenced = unsequenced.length && (!sequenced.length || earliest(unsequenced[0]) < earliest(sequenced[0]));
+    merged.push((takeUnsequenced ? unsequenced : sequenced).shift()!);
+  }
+  return [...holding, ...merged];
+}
+
+// The runway's departure queue with target times: each flight takes off at its
+// earliest time or once wake separation behind the one ahead allows.
+export function departureQueue(flights: DepartureFlight[], runwayId: string, now: Date, home?: string): QueuedDeparture[] {
+  const candidates = flights.filter(f =>
+    f.runway_id === runwayId && QUEUE_STATUSES.includes(f.status as FlightStatus) && movementKind(f, home) === "departure");
+  const queue: QueuedDeparture[] = [];
+  queueOrder(candidates, now).forEach(f => {
+    const wake = f.wake_category ?? wakeCategoryForType(f.aircraft_type);
+    const ahead = queue[queue.length - 1];
+    const separated = ahead ? ahead.targetTakeoff + WAKE_SEPARATION_MINUTES[ahead.wake][wake] * MINUTE : 0;
+    const targetTakeoff = Math.max(earliestTakeoff(f, now), separated);
+    queue.push({
+      flight: f,
+      wake,
+      targetTakeoff,
+      targetStartup: onRunway(f) ? null : targetTakeoff - STARTUP_TAXI_MINUTES * MINUTE,
+      delayMinutes: Math.round((targetTakeoff - new Date(effectiveDeparture(f)).getTime()) / MINUTE),
+      onRunway: onRunway(f),
+    });
+  });
+  return queue;
+}
+
+// The queue's flight ids with one flight moved by `offset` places. Flights on
+// the runway keep their place at the front.
+export function moveInQueue(queue: QueuedDeparture[], flightId: string, offset: number) {
+  const ids = queue.filter(q => !q.onRunway).map(q => q.flight.id);
+  const from = ids.indexOf(flightId);
+  const to = Math.min(Math.max(from + offset, 0), ids.length - 1);
+  if (from < 0 || from === to) return null;
+  ids.splice(to, 0, ids.splice(from, 1)[0]);
+  return ids;
+}
@@ -0,0 +1,135 @@
+import { FlightStatus } from "@/lib/flightStatus";
+import { RowChange, applyRowChange } from "@/lib/flightQuery";
+import { FlightTimes, arrivalDelayMinutes, departureDelayMinutes } from "@/lib/flightTimes";
+
+export type FidsBoard = "departures" | "arrivals";
+
+export interface FidsFlight extends FlightTimes {
+  id: string;
+  flight_number: string;
+  airline: string;
+  origin: string;
+  destination: string;
+  status: FlightStatus;
+  gate: string | null;
+  gate_id: string | null;
+  diversion_airport: string | null;
+}
+
+// The columns the anon role may read; selecting anything else fails for kiosks.
+export const FIDS_COLUMNS = "id, flight_number, airline, origin, destination, status, gate, gate_id, diversion_airport, scheduled_departure, scheduled_arrival, estimated_departure, estimated_arrival, actual_departure, actual_arrival";
+
+// Flights stay up briefly after they leave or land, and appear a while before.
+export const FIDS_LINGER_MINUTES = 15;
+export const FIDS_LOOKAHEAD_HOURS = 12;
+// The board refetches this often; realtime changes are applied in between.
+export const FIDS_REFRESH_MINUTES = 15;
+// Unfinished flights this far past their time are treated as stale data.
+const STALE_HOURS = 6;
+// Smaller slips are still shown as on time.
+const DELAY_THRESHOLD_MINUTES = 5;
+
+const MINUTE = 60000;
+
+export function boardTime(f: FidsFlight, board: FidsBoard) {
+  return board === "departures"
+    ? f.estimated_departure ?? f.scheduled_departure
+    : f.estimated_arrival ?? f.scheduled_arrival;
+}
+
+export interface BoardFilter {
+  home?: string;
+  // Gate ids of the terminal being shown; flights without a gate appear on every terminal.
+  terminalGates?: Set<string> | null;
+  now?: Date;
+}
+
+// PostgREST filter for every flight boardFlights could show until the next
+// refresh: a board, estimated or actual time inside the stale and linger
+// windows, and a board time no further ahead than the lookahead.
+export function boardWindowFilter(board: FidsBoard, now = new Date()) {
+  const t = now.getTime();
+  const at = (ms: number) => new Date(ms).toISOString();
+  const kind = board === "departures" ? "departure" : "arrival";
+  const from = at(t - STALE_HOURS * 60 * MINUTE);
+  const lingered = at(t - FIDS_LINGER_MINUTES * MINUTE);
+  const to = at(t + (FIDS_LOOKAHEAD_HOURS * 60 + FIDS_REFRESH_MINUTES) * MINUTE);
+  const started = `or(scheduled_${kind}.gte.${from},estimated_${kind}.gte.${from},actual_${kind}.gte.${lingered})`;
+  const due = `or(scheduled_${kind}.lte.${to},estimated_${kind}.lte.${to})`;
+  return `and(${started},${due})`;
+}
+
+// Realtime changes between refreshes. Inserts and flights that were outside the
+// window are added; boardFlights decides whether they show.
+export function applyBoardChange(rows: FidsFlight[], change: RowChange<FidsFlight>) {
+  if (change.eventType !== "DELETE" && !rows.some(r => r.id === change.new.id)) {
+    return [...rows, change.new as FidsFlight];
+  }
+  return applyRowChange(rows, change);
+}
+
+export function boardFlights(flights: FidsFlight[], board: FidsBoard, { home, terminalGates, now = new Date() }: BoardFilter = {}) {
+  const t = now.getTime();
+  const visible = flights.filter(f => {
+    if (home && (board === "departures" ? f.origin : f.destination) !== home) return false;
+    if (terminalGates && f.gate_id && !terminalGates.has(f.gate_id)) return false;
+
+    const time = new Date(boardTime(f, board)).getTime();
+    if (time > t + FIDS_LOOKAHEAD_HOURS * 60 * MINUTE) return false;
+
+    const finished = board === "departures" ? f.actual_departure : f.actual_arrival;
+    if (finished && ["departed", "landed"].includes(f.status)) {
+      return new Date(finished).getTime() >= t - FIDS_LINGER_MINUTES * MINUTE;
+    }
+    if (["cancelled", "diverted", "landed"].includes(f.status)) return time >= t - FIDS_LINGER_MINUTES * MINUTE;
+    return time >= t - STALE_HOURS * 60 * MINUTE;
+  });
+  const scheduled = (f: FidsFlight) => (board === "departures" ? f.scheduled_departure : f.scheduled_arrival);
+  return visible.sort((a, b) => scheduled(a).localeCompare(scheduled(b)) || a.flight_number.localeCompare(b.flight_number));
+}
+
+export type RemarkTone = "normal" | "good" | "warn" | "bad";
+
+export interface Remark {
+  text: string;
+  tone: RemarkTone;
+}
+
+// Passenger-facing wording; emergencies are not announced on public screens.
+export function fidsRemark(f: FidsFlight, board: FidsBoard, formatTime: (iso: string) => string, city: (code: string) => string): Remark {
+  if (f.status === "cancelled") return { text: "Cancelled", tone: "bad" };
+  if (f.status === "diverted") {
+    return { text: f.diversion_airport ? `Diverted to ${city(f.diversion_airport)}` : "Diverted", tone: "bad" };
+  }
+
+  if (board === "departures") {
+    if (f.status === "departed" || f.status === "landed") {
+      return { text: f.actual_departure ? `Departed ${formatTime(f.actual_departure)}` : "Departed", tone: "normal" };
+    }
+    if (f.status === "emergency") return { text: "See Agent", tone: "warn" };
+    if (f.status === "boarding") return { text: "Boarding", tone: "good" };
+    if (f.status === "lined_up" || f.status === "cleared_for_takeoff") return { text: "Gate Closed", tone: "normal" };
+    if (f.status === "delayed" || departureDelayMinutes(f) >= DELAY_THRESHOLD_MINUTES) {
+      return { text: f.estimated_departure ? `Delayed ${formatTime(f.estimated_departure)}` : "Delayed", tone: "warn" };
+    }
+    return { text: "On Time", tone: "normal" };
+  }
+
+  if (f.status === "landed") {
+    return { text: f.actual_arrival ? `Landed ${formatTime(f.actual_arrival)}` : "Landed", tone: "good" };
+  }
+  if (arrivalDelayMinutes(f) >= DELAY_THRESHOLD_MINUTES) {
+    return { text: `Expected ${formatTime(f.estimated_arrival ?? f.scheduled_arrival)}`, tone: "warn" };
+  }
+  if (f.status === "delayed") return { text: "Delayed", tone: "warn" };
+  if (f.status === "departed" || f.status === "emergency") return { text: "En Route", tone: "normal" };
+  return { text: "On Time", tone: "normal" };
+}
+
+// Splits rows into screen-sized pages; an empty board is still one (empty) page.
+export function paginate<T>(rows: T[], perPage: number): T[][] {
+  const size = Math.max(1, Math.floor(perPage));
+  const pages: T[][] = [];
+  for (let i = 0; i < rows.length; i += size) pages.push(rows.slice(i, i + size));
+  return pages.length ? pages : [[]];
+}
@@ -0,0 +1,157 @@
+import { ACTION_ONLY_STATUSES, FLIGHT_STATUSES, FlightStatus, statusLabel } from "@/lib/flightStatus";
+import { flightKey } from "@/lib/ssim";
+import { Airport, findAirport } from "@/lib/airports";
+import { TimeDisplayMode, fromZonedInput, zoneFor } from "@/lib/timeZones";
+
+export type ImportField =
+  | "flight_number" | "airline" | "origin" | "destination"
+  | "scheduled_departure" | "scheduled_arrival" | "status" | "runway"
+  | "gate" | "aircraft_type" | "capacity" | "notes";
+
+export const IMPORT_FIELDS: { key: ImportField; label: string; required: boolean; aliases: string[] }[] = [
+  { key: "flight_number", label: "Flight Number", required: true, aliases: ["flight", "flightno", "number"] },
+  { key: "airline", label: "Airline", required: true, aliases: ["carrier", "operator"] },
+  { key: "origin", label: "Origin", required: true, aliases: ["from", "departureairport", "dep"] },
+  { key: "destination", label: "Destination", required: true, aliases: ["to", "arrivalairport", "arr", "dest"] },
+  { key: "scheduled_departure", label: "Scheduled Departure", required: true, aliases: ["departure", "std", "departuretime"] },
+  { key: "scheduled_arrival", label: "Scheduled Arrival", required: true, aliases: ["arrival", "sta", "arrivaltime"] },
+  { key: "status", label: "Status", required: false, aliases: [] },
+  { key: "runway", label: "Runway", required: false, aliases: ["rwy", "runwayname"] },
+  { key: "gate", label: "Gate", required: false, aliases: ["stand"] },
+  { key: "aircraft_type", label: "Aircraft Type", required: false, aliases: ["aircraft", "equipment", "type"] },
+  { key: "capacity", label: "Capacity", required: false, aliases: ["seats"] },
+  { key: "notes", label: "Notes", required: false, aliases: ["remarks", "comments"] },
+];
+
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface ImportedFlight {
+  flight_number: string;
+  airline: string;
+  origin: string;
+  destination: string;
+  status: FlightStatus;
+  scheduled_departure: string;
+  scheduled_arrival: string;
+  runway_id: string | null;
+  gate: string | null;
+  aircraft_type: string;
+  capacity: number;
+  notes: string | null;
+}
+
+export interface ImportRow {
+  row: number;
+  flight: ImportedFlight | null;
+  errors: string[];
+}
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export function guessMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const names = headers.map(normalize);
+  IMPORT_FIELDS.forEach(field => {
+    const candidates = [field.key, field.label, ...field.aliases].map(normalize);
+    const index = names.findIndex(name => candidates.includes(name));
+    if (index >= 0 && !Object.values(mapping).includes(index)) mapping[field.key] = index;
+  });
+  return mapping;
+}
+
+// Accepts anything Date can parse (ISO, "2026-03-01 14:30") and Excel serial
+// numbers. Values without an offset are wall-clock times in `timeZone`, like
+// the flight form's entry zone.
+export function parseDateTime(value: string, timeZone: string) {
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    const serial = new Date(Math.round((Number(value) - 25569) * 86400000));
+    return fromZonedInput(serial.toISOString().slice(0, 16), timeZone);
+  }
+  const iso = /^(\d{4}-\d{2}-\d{2})(?:[T ](\d{2}:\d{2})(?::\d{2}(?:\.\d+)?)?)?$/.exec(value);
+  if (iso) {
+    const wall = `${iso[1]}T${iso[2] ?? "00:00"}`;
+    return isNaN(new Date(wall).getTime()) ? null : fromZonedInput(wall, timeZone);
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return null;
+  if (/(Z|GMT|UTC|[+-]\d{2}:?\d{2})$/i.test(value)) return date.toISOString();
+  // Date read the wall clock in the browser's zone; move it to the entry zone.
+  return fromZonedInput(new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16), timeZone);
+}
+
+interface ValidationContext {
+  runways: { id: string; name: string; status: string }[];
+  airports: Airport[];
+  existingKeys: Set<string>;
+  // Zone for times without an offset: departures at the origin, arrivals at the destination.
+  entryMode: TimeDisplayMode;
+  homeZone: string | null;
+}
+
+// Rows are numbered as in the spreadsheet: the header is row 1.
+export function validateRows(rows: string[][], mapping: ColumnMapping, { runways, airports, existingKeys, entryMode, homeZone }: ValidationContext): ImportRow[] {
+  const seen = new Map<string, number>();
+  return rows.map((cells, i) => {
+    const row = i + 2;
+    const errors: string[] = [];
+    const get = (field: ImportField) => (mapping[field] !== undefined ? cells[mapping[field]!] ?? "" : "").trim();
+
+    IMPORT_FIELDS.filter(f => f.required && !get(f.key)).forEach(f => errors.push(`${f.label} is required`));
+
+    // ICAO codes are accepted and stored as the airport's IATA code.
+    const origin = findAirport(airports, get("origin"));
+    const destination = findAirport(airports, get("destination"));
+
+    const departure = get("scheduled_departure")
+      ? parseDateTime(get("scheduled_departure"), zoneFor(entryMode, homeZone, origin?.timezone)) : null;
+    const arrival = get("scheduled_arrival")
+      ? parseDateTime(get("scheduled_arrival"), zoneFor(entryMode, homeZone, destination?.timezone)) : null;
+    if (get("scheduled_departure") && !departure) errors.push(`Invalid departure time "${get("scheduled_departure")}"`);
+    if (get("scheduled_arrival") && !arrival) errors.push(`Invalid arrival time "${get("scheduled_arrival")}"`);
+    if (departure && arrival && arrival <= departure) errors.push("Arrival must be after departure");
+
+    if (get("origin") && !origin) errors.push(`Unknown origin airport "${get("origin")}"`);
+    if (get("destination") && !destination) errors.push(`Unknown destination airport "${get("destination")}"`);
+    if (origin && destination && origin.iata === destination.iata) errors.push("Origin and destination must be different airports");
+
+    const runwayName = get("runway");
+    const runway = runways.find(r => normalize(r.name) === normalize(runwayName));
+    if (runwayName && !runway) errors.push(`Unknown runway "${runwayName}"`);
+    else if (runway && ["maintenance", "closed"].includes(runway.status)) errors.push(`Runway ${runway.name} is ${runway.status}`);
+
+    const status = get("status").toLowerCase() as FlightStatus;
+    if (status && !FLIGHT_STATUSES.includes(status)) errors.push(`Unknown status "${get("status")}"`);
+    else if (ACTION_ONLY_STATUSES.includes(status)) errors.push(`A flight is ${statusLabel(status)} only through an ATC clearance`);
+
+    const capacity = get("capacity");
+    if (capacity && !/^[1-9]\d*$/.test(capacity)) errors.push("Capacity must be a positive whole number");
+
+    const flightNumber = get("flight_number").toUpperCase();
+    if (flightNumber && departure) {
+      const key = flightKey(flightNumber, departure);
+      if (existingKeys.has(key)) errors.push(`${flightNumber} already exists on ${departure.slice(0, 10)}`);
+      else if (seen.has(key)) errors.push(`Duplicate of row ${seen.get(key)}`);
+      else seen.set(key, row);
+    }
+
+    if (errors.length > 0) return { row, flight: null, errors };
+    return {
+      row,
+      errors,
+      flight: {
+        flight_number: flightNumber,
+        airline: get("airline"),
+        origin: origin!.iata,
+        destination: destination!.iata,
+        status: status || "scheduled",
+        scheduled_departure: departure!,
+        scheduled_arrival: arrival!,
+        runway_id: runway?.id ?? null,
+        gate: get("gate") || null,
+        aircraft_type: get("aircraft_type") || "Boeing 737",
+        capacity: capacity ? Number(capacity) : 180,
+        notes: get("notes") || null,
+      },
+    };
+  });
+}
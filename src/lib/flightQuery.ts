@@ -0,0 +1,74 @@
+// Server-side paging, sorting and searching for the Flights table.
+
+export const FLIGHT_PAGE_SIZES = [25, 50, 100];
+
+export type FlightSortColumn = "flight_number" | "origin" | "status" | "scheduled_departure" | "scheduled_arrival" | "gate";
+
+export interface FlightSort {
+  column: FlightSortColumn;
+  ascending: boolean;
+}
+
+export const DEFAULT_FLIGHT_SORT: FlightSort = { column: "scheduled_departure", ascending: true };
+
+// Clicking the sorted column flips its direction; any other column starts ascending.
+export function toggleSort(current: FlightSort, column: FlightSortColumn): FlightSort {
+  return current.column === column ? { column, ascending: !current.ascending } : { column, ascending: true };
+}
+
+// Inclusive row indexes for supabase's range().
+export function pageRange(page: number, size: number): [number, number] {
+  return [page * size, page * size + size - 1];
+}
+
+export function pageCount(total: number, size: number) {
+  return Math.max(1, Math.ceil(total / size));
+}
+
+// PostgREST `or` filter for the search box. Characters that carry meaning in the
+// filter syntax are dropped; city matches arrive as IATA codes resolved client-side.
+export function searchFilter(term: string, cityCodes: string[] = []) {
+  const t = term.replace(/[,()%*\\"]/g, "").trim();
+  if (!t) return null;
+  const parts = ["flight_number", "airline", "origin", "destination"].map(c => `${c}.ilike.%${t}%`);
+  if (cityCodes.length) {
+    const list = cityCodes.join(",");
+    parts.push(`origin.in.(${list})`, `destination.in.(${list})`);
+  }
+  return parts.join(",");
+}
+
+export interface FlightFilter {
+  status: string;
+  // ISO bounds on the scheduled departure; null when no date range is set.
+  from: string | null;
+  to: string | null;
+}
+
+// Whether a row still belongs on a page fetched with these filters. Realtime
+// updates can move a flight out of them, e.g. a status change.
+export function matchesFlightFilter(f: { status: string; scheduled_departure: string }, { status, from, to }: FlightFilter) {
+  if (status !== "all" && f.status !== status) return false;
+  const t = Date.parse(f.scheduled_departure);
+  if (from && t < Date.parse(from)) return false;
+  if (to && t >= Date.parse(to)) return false;
+  return true;
+}
+
+export interface RowChange<T> {
+  eventType: "INSERT" | "UPDATE" | "DELETE";
+  new: Partial<T>;
+  old: Partial<T>;
+}
+
+// Applies a realtime change to rows already on screen. Inserts are left to the
+// caller, since only the server knows where a new row falls in the current page.
+export function applyRowChange<T extends { id: string }>(rows: T[], change: RowChange<T>): T[] {
+  if (change.eventType === "UPDATE") {
+    return rows.map(r => (r.id === change.new.id ? { ...r, ...change.new } : r));
+  }
+  if (change.eventType === "DELETE") {
+    return rows.filter(r => r.id !== change.old.id);
+  }
+  return rows;
+}
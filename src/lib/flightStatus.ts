@@ -0,0 +1,59 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type FlightStatus = Database["public"]["Enums"]["flight_status"];
+
+export const FLIGHT_STATUSES: FlightStatus[] = [
+  "scheduled", "boarding", "delayed", "lined_up", "cleared_for_takeoff", "departed", "landed", "cancelled", "diverted", "emergency",
+];
+
+// Allowed status transitions. Mirrors public.flight_status_transitions, which
+// the enforce_flights_status_transition trigger checks on every update.
+export const FLIGHT_STATUS_TRANSITIONS: Record<FlightStatus, FlightStatus[]> = {
+  scheduled: ["boarding", "delayed", "lined_up", "landed", "cancelled", "emergency"],
+  boarding: ["delayed", "lined_up", "cancelled", "emergency"],
+  delayed: ["scheduled", "boarding", "lined_up", "landed", "cancelled", "emergency"],
+  lined_up: ["cleared_for_takeoff", "delayed", "cancelled", "emergency"],
+  cleared_for_takeoff: ["lined_up", "delayed", "departed", "emergency"],
+  departed: ["landed", "diverted", "emergency"],
+  landed: [],
+  cancelled: [],
+  diverted: ["landed", "cancelled", "emergency"],
+  emergency: ["landed", "cancelled", "diverted"],
+};
+
+// Statuses set through a dedicated ATC clearance rather than a plain status
+// picker: they hold or release the runway along with the status change, and a
+// diversion also needs an airport. The database rejects them on plain updates.
+export const ACTION_ONLY_STATUSES: FlightStatus[] = [
+  "lined_up", "cleared_for_takeoff", "departed", "landed", "cancelled", "diverted",
+];
+
+// Departures holding their runway, waiting for or cleared for take-off.
+export const ON_RUNWAY_STATUSES: FlightStatus[] = ["lined_up", "cleared_for_takeoff"];
+
+// Departures that may still return to the stand: taxiing out or on the runway.
+// Mirrors public.return_to_stand(); a flight that has departed cannot.
+export const RETURN_TO_STAND_STATUSES: FlightStatus[] = ["boarding", ...ON_RUNWAY_STATUSES];
+
+export function canTransition(from: FlightStatus, to: FlightStatus) {
+  return from === to || FLIGHT_STATUS_TRANSITIONS[from].includes(to);
+}
+
+// Options for a status picker, in FLIGHT_STATUSES order: the current status and
+// every status it may move to, less those set only through an ATC clearance.
+export function statusOptions(current: FlightStatus) {
+  return FLIGHT_STATUSES.filter(s =>
+    s === current || (FLIGHT_STATUS_TRANSITIONS[current].includes(s) && !ACTION_ONLY_STATUSES.includes(s)));
+}
+
+export function isTerminalStatus(status: FlightStatus) {
+  return FLIGHT_STATUS_TRANSITIONS[status].length === 0;
+}
+
+export function statusLabel(status: string) {
+  return status.replace(/_/g, " ");
+}
+
+export function transitionError(from: FlightStatus, to: FlightStatus) {
+  return `A ${statusLabel(from)} flight cannot be changed to ${statusLabel(to)}.`;
+}
@@ -0,0 +1,50 @@
+// Scheduled times are the published plan and are never shifted by delays;
+// estimates carry the current expectation and actuals what really happened.
+export interface FlightTimes {
+  scheduled_departure: string;
+  scheduled_arrival: string;
+  estimated_departure: string | null;
+  estimated_arrival: string | null;
+  actual_departure: string | null;
+  actual_arrival: string | null;
+}
+
+const MINUTE = 60000;
+
+export function effectiveDeparture(f: FlightTimes) {
+  return f.actual_departure ?? f.estimated_departure ?? f.scheduled_departure;
+}
+
+export function effectiveArrival(f: FlightTimes) {
+  return f.actual_arrival ?? f.estimated_arrival ?? f.scheduled_arrival;
+}
+
+function minutesBetween(from: string, to: string) {
+  return Math.round((new Date(to).getTime() - new Date(from).getTime()) / MINUTE);
+}
+
+// Positive when late, negative when early, based on the best known time.
+export function departureDelayMinutes(f: FlightTimes) {
+  return minutesBetween(f.scheduled_departure, effectiveDeparture(f));
+}
+
+export function arrivalDelayMinutes(f: FlightTimes) {
+  return minutesBetween(f.scheduled_arrival, effectiveArrival(f));
+}
+
+// Shifts both estimates by the given minutes, starting from the current estimate
+// so repeated delays accumulate instead of resetting to the schedule.
+export function delayEstimates(f: FlightTimes, minutes: number) {
+  const shift = (iso: string) => new Date(new Date(iso).getTime() + minutes * MINUTE).toISOString();
+  return {
+    estimated_departure: shift(f.estimated_departure ?? f.scheduled_departure),
+    estimated_arrival: shift(f.estimated_arrival ?? f.scheduled_arrival),
+  };
+}
+
+export function formatDelay(minutes: number) {
+  if (minutes === 0) return "On time";
+  const abs = Math.abs(minutes);
+  const text = abs >= 60 ? `${Math.floor(abs / 60)}h ${abs % 60}m` : `${abs}m`;
+  return minutes > 0 ? `+${text}` : `-${text}`;
+}
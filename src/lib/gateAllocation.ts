@@ -0,0 +1,73 @@
+import { GateFlight, GateSizeClass, GateStatus, GateType, aircraftSizeClass, fitsGate, gateConflicts, gateOccupancy } from "@/lib/gates";
+import { splitFlightNumber } from "@/lib/ssim";
+
+export interface AllocationGate {
+  id: string;
+  name: string;
+  gate_type: GateType;
+  size_class: GateSizeClass;
+  status: GateStatus;
+  preferred_airlines: string[];
+}
+
+export interface AllocationFlight extends GateFlight {
+  airline: string;
+  aircraft_type: string;
+}
+
+export interface GateSuggestion {
+  flight: AllocationFlight;
+  gate: AllocationGate | null;
+  preferred: boolean;
+  reason: string | null;
+}
+
+// Preferred airlines may be listed by name or by designator.
+export function isPreferredGate(gate: AllocationGate, flight: AllocationFlight) {
+  const designator = splitFlightNumber(flight.flight_number)?.airline;
+  return gate.preferred_airlines.some(a => {
+    const airline = a.trim().toUpperCase();
+    return airline === flight.airline.toUpperCase() || airline === designator;
+  });
+}
+
+// Greedy, in departure order. Among the gates that fit and are free, prefer the
+// airline's own gates, then contact over remote stands, then the smallest gate
+// that fits (keeping large gates for large aircraft), then the tightest gap
+// after the gate's previous occupant.
+export function suggestAllocation(unassigned: AllocationFlight[], gates: AllocationGate[], assigned: GateFlight[]): GateSuggestion[] {
+  const placed: GateFlight[] = [...assigned];
+  const usable = gates.filter(g => g.status === "available");
+
+  return [...unassigned]
+    .sort((a, b) => gateOccupancy(a).start - gateOccupancy(b).start)
+    .map(flight => {
+      const size = aircraftSizeClass(flight.aircraft_type);
+      const fitting = usable.filter(g => fitsGate(size, g.size_class));
+      if (fitting.length === 0) return { flight, gate: null, preferred: false, reason: `No available gate for Code ${size} aircraft` };
+
+      const start = gateOccupancy(flight).start;
+      const candidates = fitting
+        .filter(g => gateConflicts(flight, g.id, placed).length === 0)
+        .map(gate => {
+          const preferred = isPreferredGate(gate, flight);
+          const previousEnd = Math.max(-Infinity, ...placed.filter(p => p.gate_id === gate.id && gateOccupancy(p).end <= start).map(p => gateOccupancy(p).end));
+          return {
+            gate,
+            preferred,
+            score: [
+              preferred ? 0 : 1,
+              gate.gate_type === "contact" ? 0 : 1,
+              gate.size_class.charCodeAt(0) - size.charCodeAt(0),
+              isFinite(previousEnd) ? start - previousEnd : Number.MAX_SAFE_INTEGER,
+            ],
+          };
+        })
+        .sort((a, b) => a.score.reduce((d, v, i) => d || v - b.score[i], 0) || a.gate.name.localeCompare(b.gate.name));
+
+      const best = candidates[0];
+      if (!best) return { flight, gate: null, preferred: false, reason: "All compatible gates are occupied at that time" };
+      placed.push({ ...flight, gate_id: best.gate.id });
+      return { flight, gate: best.gate, preferred: best.preferred, reason: null };
+    });
+}
@@ -0,0 +1,76 @@
+import type { Database } from "@/integrations/supabase/types";
+import { FlightTimes, effectiveDeparture } from "@/lib/flightTimes";
+
+export type GateType = Database["public"]["Enums"]["gate_type"];
+export type GateSizeClass = Database["public"]["Enums"]["gate_size_class"];
+export type GateStatus = Database["public"]["Enums"]["gate_status"];
+
+export const GATE_SIZE_CLASSES: { value: GateSizeClass; label: string }[] = [
+  { value: "A", label: "Code A — light aircraft" },
+  { value: "B", label: "Code B — regional (CRJ, E145)" },
+  { value: "C", label: "Code C — narrow-body (A320, 737)" },
+  { value: "D", label: "Code D — mid wide-body (767, A310)" },
+  { value: "E", label: "Code E — wide-body (777, 787, A350)" },
+  { value: "F", label: "Code F — jumbo (A380, 747-8)" },
+];
+
+// Matched against the start of the model with manufacturer names, spaces and
+// hyphens removed ("Boeing 737-800" → "737800"). Unrecognised types count as Code C.
+const AIRCRAFT_SIZE_PATTERNS: [RegExp, GateSizeClass][] = [
+  [/^(A?38\d|7478|748)/, "F"],
+  [/^(A?3[345]\d|74\d|77\d|77W|78\d)/, "E"],
+  [/^(75\d|76\d|A30[06]|A310|MD11)/, "D"],
+  [/^(A?3[12]\d|73\d|7M\d|E1[79]\d|E[79]\d|ATR72|AT7|Q400|DH8D|A22\d|CS\d)/, "C"],
+  [/^(CRJ|CR\d|ERJ|E1[34]5|E[34]5|ATR42|AT4|DH8[A-C]|SAAB|SF3)/, "B"],
+  [/^(CESSNA|C1[5-8]\d|PIPER|PA\d\d|BE\d\d)/, "A"],
+];
+
+export function normalizeAircraftType(aircraftType: string) {
+  return aircraftType.toUpperCase().replace(/BOEING|AIRBUS|EMBRAER|BOMBARDIER|[\s-]/g, "");
+}
+
+export function aircraftSizeClass(aircraftType: string): GateSizeClass {
+  const type = normalizeAircraftType(aircraftType);
+  return AIRCRAFT_SIZE_PATTERNS.find(([pattern]) => pattern.test(type))?.[1] ?? "C";
+}
+
+export function fitsGate(aircraft: GateSizeClass, gate: GateSizeClass) {
+  return aircraft <= gate;
+}
+
+// Mirrors public.gate_conflict(): a flight holds its gate for the boarding
+// period before its best known departure, plus a buffer between occupants.
+export const GATE_BOARDING_MINUTES = 45;
+export const GATE_BUFFER_MINUTES = 15;
+
+const MINUTE = 60000;
+
+export interface GateFlight extends FlightTimes {
+  id: string;
+  flight_number: string;
+  gate_id: string | null;
+  status: string;
+}
+
+export function gateOccupancy(f: FlightTimes) {
+  const end = new Date(effectiveDeparture(f)).getTime();
+  return { start: end - GATE_BOARDING_MINUTES * MINUTE, end };
+}
+
+// Other flights on the same gate whose occupancy comes within the buffer of this one.
+export function gateConflicts<T extends GateFlight>(flight: FlightTimes & { id?: string }, gateId: string, others: T[]) {
+  const a = gateOccupancy(flight);
+  return others.filter(o => {
+    if (o.id === flight.id || o.gate_id !== gateId || o.status === "cancelled") return false;
+    const b = gateOccupancy(o);
+    return a.start < b.end + GATE_BUFFER_MINUTES * MINUTE && b.start < a.end + GATE_BUFFER_MINUTES * MINUTE;
+  });
+}
+
+export function conflictingFlightIds(flights: GateFlight[]) {
+  const ids = new Set<string>();
+  flights.forEach(f => {
+    if (f.gate_id && f.status !== "cancelled" && gateConflicts(f, f.gate_id, flights).length > 0) ids.add(f.id);
+  });
+  return ids;
+}
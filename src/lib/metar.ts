@@ -0,0 +1,546 @@
+// METAR and TAF decoding (WMO FM 15 / FM 51, with the US SM and inHg variants).
+// Groups that are not recognised are kept in `unparsed` rather than rejected, so
+// a report with a local extension still decodes.
+
+export type WeatherReportKind = "metar" | "taf";
+export type SpeedUnit = "KT" | "MPS" | "KMH";
+export type CloudCover = "FEW" | "SCT" | "BKN" | "OVC";
+export type FlightCategory = "VFR" | "MVFR" | "IFR" | "LIFR";
+export type ChangeKind = "BECMG" | "TEMPO" | "FM" | "PROB";
+
+export interface Wind {
+  // Null for variable (VRB) wind.
+  direction: number | null;
+  speed: number;
+  gust: number | null;
+  unit: SpeedUnit;
+  variableFrom: number | null;
+  variableTo: number | null;
+}
+
+export interface RunwayVisualRange {
+  runway: string;
+  meters: number;
+  // P: more than, M: less than the reported value.
+  qualifier: "P" | "M" | null;
+  variableMeters: number | null;
+  tendency: "U" | "D" | "N" | null;
+}
+
+export interface CloudLayer {
+  cover: CloudCover;
+  baseFt: number | null;
+  type: "CB" | "TCU" | null;
+}
+
+export interface WeatherConditions {
+  wind: Wind | null;
+  // 9999 means 10 km or more.
+  visibilityM: number | null;
+  cavok: boolean;
+  rvr: RunwayVisualRange[];
+  // Present weather groups as reported, e.g. "-RA", "+TSRA", "BR".
+  weather: string[];
+  clouds: CloudLayer[];
+  verticalVisibilityFt: number | null;
+  // NSC, SKC, CLR or NCD.
+  noCloud: boolean;
+}
+
+export interface WeatherChange {
+  kind: ChangeKind;
+  probability: number | null;
+  // TEMPO follows PROB in "PROB30 TEMPO".
+  temporary: boolean;
+  from: string | null;
+  until: string | null;
+  at: string | null;
+  conditions: WeatherConditions;
+  text: string;
+}
+
+export interface Metar extends WeatherConditions {
+  kind: "metar";
+  station: string;
+  observedAt: string;
+  auto: boolean;
+  correction: boolean;
+  temperature: number | null;
+  dewpoint: number | null;
+  qnhHpa: number | null;
+  recentWeather: string[];
+  nosig: boolean;
+  trends: WeatherChange[];
+  remarks: string | null;
+  unparsed: string[];
+  raw: string;
+}
+
+export interface Taf {
+  kind: "taf";
+  station: string;
+  issuedAt: string;
+  validFrom: string;
+  validTo: string;
+  amended: boolean;
+  conditions: WeatherConditions;
+  changes: WeatherChange[];
+  unparsed: string[];
+  raw: string;
+}
+
+export type WeatherReport = Metar | Taf;
+
+const DAY = 24 * 60 * 60 * 1000;
+const METERS_PER_SM = 1609.344;
+const HPA_PER_INHG = 33.8639;
+
+const WIND = /^(\d{3}|VRB)(\d{2,3})(?:G(\d{2,3}))?(KT|MPS|KMH)$/;
+const WIND_VARIATION = /^(\d{3})V(\d{3})$/;
+const VISIBILITY = /^(\d{4})(NDV|[NSEW]{1,2})?$/;
+const VISIBILITY_SM = /^(P|M)?(\d+)(?:\/(\d+))?SM$/;
+const RVR = /^R(\d{2}[LCR]?)\/([PM])?(\d{4})(?:V([PM])?(\d{4}))?(FT)?\/?([UDN])?$/;
+const WEATHER = /^(RE)?(\+|-|VC)?(MI|PR|BC|DR|BL|SH|TS|FZ)?((?:DZ|RA|SN|SG|IC|PL|GR|GS|UP|BR|FG|FU|VA|DU|SA|HZ|PY|PO|SQ|FC|SS|DS)*)$/;
+const CLOUD = /^(FEW|SCT|BKN|OVC)(\d{3}|\/\/\/)(CB|TCU|\/\/\/)?$/;
+const VERTICAL_VISIBILITY = /^VV(\d{3}|\/\/\/)$/;
+const TEMPERATURE = /^(M?\d{2})\/(M?\d{2})?$/;
+const QNH = /^([QA])(\d{4})$/;
+const TAF_TEMPERATURE = /^T[XN]M?\d{2}\/\d{4}Z$/;
+const DAY_TIME = /^(\d{2})(\d{2})(\d{2})Z$/;
+const PERIOD = /^(\d{2})(\d{2})\/(\d{2})(\d{2})$/;
+const STATION = /^[A-Z][A-Z0-9]{3}$/;
+const CHANGE = /^(BECMG|TEMPO|FM\d{6}|PROB\d{2})$/;
+const TREND_TIME = /^(FM|TL|AT)(\d{2})(\d{2})$/;
+
+const tokenize = (raw: string) => raw.toUpperCase().replace(/=+\s*$/, "").trim().split(/\s+/).filter(Boolean);
+
+const signed = (value: string) => (value.startsWith("M") ? -Number(value.slice(1)) : Number(value));
+
+// Reports give only day of month and time. The candidate month closest to the
+// reference wins, so a report from the 31st read on the 1st lands last month.
+export function resolveDayTime(day: number, hour: number, minute: number, reference: Date) {
+  const y = reference.getUTCFullYear();
+  const m = reference.getUTCMonth();
+  return [m - 1, m, m + 1]
+    .map(month => Date.UTC(y, month, day, hour, minute))
+    .filter(t => new Date(t - hour * 60 * 60 * 1000 - minute * 60 * 1000).getUTCDate() === day)
+    .sort((a, b) => Math.abs(a - reference.getTime()) - Math.abs(b - reference.getTime()))
+    .map(t => new Date(t).toISOString())[0] ?? null;
+}
+
+// A time of day on or after the reference, for METAR trend FM/TL/AT groups.
+function timeAfter(hour: number, minute: number, reference: Date) {
+  const t = Date.UTC(reference.getUTCFullYear(), reference.getUTCMonth(), reference.getUTCDate(), hour, minute);
+  return new Date(t < reference.getTime() ? t + DAY : t).toISOString();
+}
+
+export function emptyConditions(): WeatherConditions {
+  return { wind: null, visibilityM: null, cavok: false, rvr: [], weather: [], clouds: [], verticalVisibilityFt: null, noCloud: false };
+}
+
+// Reads the condition group at tokens[i] into `c` and returns how many tokens it
+// used, or 0 when the token is not a condition group.
+function readCondition(tokens: string[], i: number, c: WeatherConditions, recent: string[]) {
+  const t = tokens[i];
+  let m: RegExpMatchArray | null;
+  if ((m = t.match(WIND))) {
+    c.wind = {
+      direction: m[1] === "VRB" ? null : Number(m[1]),
+      speed: Number(m[2]),
+      gust: m[3] ? Number(m[3]) : null,
+      unit: m[4] as SpeedUnit,
+      variableFrom: null,
+      variableTo: null,
+    };
+    return 1;
+  }
+  if ((m = t.match(WIND_VARIATION)) && c.wind) {
+    c.wind.variableFrom = Number(m[1]);
+    c.wind.variableTo = Number(m[2]);
+    return 1;
+  }
+  if (t === "CAVOK") {
+    c.cavok = true;
+    c.visibilityM = 9999;
+    return 1;
+  }
+  if ((m = t.match(VISIBILITY))) {
+    // A second group is the minimum visibility in one direction.
+    if (c.visibilityM === null) c.visibilityM = Number(m[1]);
+    return 1;
+  }
+  // "1 1/2SM" spreads over two tokens.
+  if (/^\d$/.test(t) && tokens[i + 1]?.match(/^\d\/\dSM$/)) {
+    const [n, d] = tokens[i + 1].replace("SM", "").split("/").map(Number);
+    c.visibilityM = Math.round((Number(t) + n / d) * METERS_PER_SM);
+    return 2;
+  }
+  if ((m = t.match(VISIBILITY_SM))) {
+    const miles = m[3] ? Number(m[2]) / Number(m[3]) : Number(m[2]);
+    c.visibilityM = m[1] === "P" && miles >= 6 ? 9999 : Math.round(miles * METERS_PER_SM);
+    return 1;
+  }
+  if ((m = t.match(RVR))) {
+    const meters = (v: string) => (m![6] ? Math.round(Number(v) * 0.3048) : Number(v));
+    c.rvr.push({
+      runway: m[1],
+      meters: meters(m[3]),
+      qualifier: (m[2] as "P" | "M") ?? null,
+      variableMeters: m[5] ? meters(m[5]) : null,
+      tendency: (m[7] as "U" | "D" | "N") ?? null,
+    });
+    return 1;
+  }
+  if ((m = t.match(CLOUD))) {
+    c.clouds.push({
+      cover: m[1] as CloudCover,
+      baseFt: m[2] === "///" ? null : Number(m[2]) * 100,
+      type: m[3] === "CB" || m[3] === "TCU" ? m[3] : null,
+    });
+    return 1;
+  }
+  if ((m = t.match(VERTICAL_VISIBILITY))) {
+    c.verticalVisibilityFt = m[1] === "///" ? null : Number(m[1]) * 100;
+    return 1;
+  }
+  if (["NSC", "SKC", "CLR", "NCD"].includes(t)) {
+    c.noCloud = true;
+    return 1;
+  }
+  if (t === "NSW") return 1;
+  if ((m = t.match(WEATHER)) && (m[3] || m[4])) {
+    (m[1] ? recent : c.weather).push(t.replace(/^RE/, ""));
+    return 1;
+  }
+  return 0;
+}
+
+// Splits "TEMPO FM1200 TL1400 -RA" style trend and change groups.
+function readChange(tokens: string[], i: number, reference: Date, taf: boolean) {
+  const start = i;
+  const head = tokens[i++];
+  const change: WeatherChange = {
+    kind: head.startsWith("FM") ? "FM" : head.startsWith("PROB") ? "PROB" : head as ChangeKind,
+    probability: head.startsWith("PROB") ? Number(head.slice(4)) : null,
+    temporary: head === "TEMPO",
+    from: null,
+    until: null,
+    at: null,
+    conditions: emptyConditions(),
+    text: "",
+  };
+  if (change.kind === "FM") {
+    change.from = resolveDayTime(Number(head.slice(2, 4)), Number(head.slice(4, 6)), Number(head.slice(6, 8)), reference);
+  }
+  if (change.kind === "PROB" && tokens[i] === "TEMPO") {
+    change.temporary = true;
+    i++;
+  }
+
+  let m: RegExpMatchArray | null;
+  if (taf && tokens[i] && (m = tokens[i].match(PERIOD))) {
+    change.from = resolveDayTime(Number(m[1]), Number(m[2]), 0, reference);
+    change.until = resolveDayTime(Number(m[3]), Number(m[4]), 0, reference);
+    i++;
+  }
+  while (!taf && tokens[i] && (m = tokens[i].match(TREND_TIME))) {
+    const when = timeAfter(Number(m[2]), Number(m[3]), reference);
+    if (m[1] === "FM") change.from = when;
+    else if (m[1] === "TL") change.until = when;
+    else change.at = when;
+    i++;
+  }
+
+  const unparsed: string[] = [];
+  while (i < tokens.length && !CHANGE.test(tokens[i]) && tokens[i] !== "RMK" && tokens[i] !== "NOSIG") {
+    if (taf && TAF_TEMPERATURE.test(tokens[i])) { i++; continue; }
+    const used = readCondition(tokens, i, change.conditions, []);
+    if (!used) unparsed.push(tokens[i]);
+    i += used || 1;
+  }
+  change.text = tokens.slice(start, i).join(" ");
+  return { change, next: i, unparsed };
+}
+
+export function parseMetar(raw: string, reference = new Date()): Metar | null {
+  const tokens = tokenize(raw);
+  let i = 0;
+  if (tokens[i] === "METAR" || tokens[i] === "SPECI") i++;
+  let correction = false;
+  if (tokens[i] === "COR") { correction = true; i++; }
+  if (!tokens[i] || !STATION.test(tokens[i])) return null;
+  const station = tokens[i++];
+  const time = tokens[i]?.match(DAY_TIME);
+  const observedAt = time ? resolveDayTime(Number(time[1]), Number(time[2]), Number(time[3]), reference) : null;
+  if (!observedAt) return null;
+  i++;
+
+  const metar: Metar = {
+    kind: "metar",
+    station,
+    observedAt,
+    auto: false,
+    correction,
+    ...emptyConditions(),
+    temperature: null,
+    dewpoint: null,
+    qnhHpa: null,
+    recentWeather: [],
+    nosig: false,
+    trends: [],
+    remarks: null,
+    unparsed: [],
+    raw: tokens.join(" "),
+  };
+
+  while (i < tokens.length) {
+    const t = tokens[i];
+    let m: RegExpMatchArray | null;
+    if (t === "RMK") {
+      metar.remarks = tokens.slice(i + 1).join(" ") || null;
+      break;
+    }
+    if (t === "AUTO") { metar.auto = true; i++; continue; }
+    if (t === "COR") { metar.correction = true; i++; continue; }
+    if (t === "NOSIG") { metar.nosig = true; i++; continue; }
+    if (t === "BECMG" || t === "TEMPO") {
+      const { change, next, unparsed } = readChange(tokens, i, new Date(observedAt), false);
+      metar.trends.push(change);
+      metar.unparsed.push(...unparsed);
+      i = next;
+      continue;
+    }
+    if ((m = t.match(TEMPERATURE))) {
+      metar.temperature = signed(m[1]);
+      metar.dewpoint = m[2] ? signed(m[2]) : null;
+      i++;
+      continue;
+    }
+    if ((m = t.match(QNH))) {
+      metar.qnhHpa = m[1] === "Q" ? Number(m[2]) : Math.round((Number(m[2]) / 100) * HPA_PER_INHG);
+      i++;
+      continue;
+    }
+    const used = readCondition(tokens, i, metar, metar.recentWeather);
+    if (!used) metar.unparsed.push(t);
+    i += used || 1;
+  }
+  return metar;
+}
+
+export function parseTaf(raw: string, reference = new Date()): Taf | null {
+  const tokens = tokenize(raw);
+  let i = 0;
+  if (tokens[i] !== "TAF") return null;
+  i++;
+  let amended = false;
+  while (tokens[i] === "AMD" || tokens[i] === "COR") { amended = amended || tokens[i] === "AMD"; i++; }
+  if (!tokens[i] || !STATION.test(tokens[i])) return null;
+  const station = tokens[i++];
+  const time = tokens[i]?.match(DAY_TIME);
+  const issuedAt = time ? resolveDayTime(Number(time[1]), Number(time[2]), Number(time[3]), reference) : null;
+  if (!issuedAt) return null;
+  i++;
+  const period = tokens[i]?.match(PERIOD);
+  if (!period) return null;
+  i++;
+  const issued = new Date(issuedAt);
+  const validFrom = resolveDayTime(Number(period[1]), Number(period[2]), 0, issued);
+  const validTo = resolveDayTime(Number(period[3]), Number(period[4]), 0, issued);
+  if (!validFrom || !validTo) return null;
+
+  const taf: Taf = {
+    kind: "taf",
+    station,
+    issuedAt,
+    validFrom,
+    validTo,
+    amended,
+    conditions: emptyConditions(),
+    changes: [],
+    unparsed: [],
+    raw: tokens.join(" "),
+  };
+
+  while (i < tokens.length) {
+    const t = tokens[i];
+    if (t === "RMK") break;
+    if (CHANGE.test(t)) {
+      const { change, next, unparsed } = readChange(tokens, i, issued, true);
+      taf.changes.push(change);
+      taf.unparsed.push(...unparsed);
+      i = next;
+      continue;
+    }
+    if (TAF_TEMPERATURE.test(t)) { i++; continue; }
+    const used = readCondition(tokens, i, taf.conditions, []);
+    if (!used) taf.unparsed.push(t);
+    i += used || 1;
+  }
+  return taf;
+}
+
+export function parseWeatherReport(raw: string, reference = new Date()): WeatherReport | null {
+  return tokenize(raw)[0] === "TAF" ? parseTaf(raw, reference) : parseMetar(raw, reference);
+}
+
+// Reports in a file end with "=", or sit one per line with TAF change groups
+// indented or starting their own line. Date lines as in NOAA text files are skipped.
+export function splitReports(text: string) {
+  if (text.includes("=")) {
+    return text.split("=").map(r => r.replace(/\s+/g, " ").trim()).filter(Boolean);
+  }
+  const reports: string[] = [];
+  let current = "";
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || /^\d{4}\/\d{2}\/\d{2}/.test(trimmed)) {
+      if (current) reports.push(current);
+      current = "";
+    } else if (current && (/^\s/.test(line) || /^(FM\d|BECMG|TEMPO|PROB\d|RMK|NOSIG)/.test(trimmed))) {
+      current += ` ${trimmed}`;
+    } else {
+      if (current) reports.push(current);
+      current = trimmed;
+    }
+  }
+  if (current) reports.push(current);
+  return reports.map(r => r.replace(/\s+/g, " "));
+}
+
+export function toKnots(speed: number, unit: SpeedUnit) {
+  if (unit === "MPS") return Math.round(speed * 1.94384);
+  if (unit === "KMH") return Math.round(speed / 1.852);
+  return speed;
+}
+
+// The lowest broken or overcast layer, or the vertical visibility into fog.
+export function ceilingFt(c: WeatherConditions) {
+  const bases = c.clouds.filter(l => (l.cover === "BKN" || l.cover === "OVC") && l.baseFt !== null).map(l => l.baseFt!);
+  if (c.verticalVisibilityFt !== null) bases.push(c.verticalVisibilityFt);
+  return bases.length ? Math.min(...bases) : null;
+}
+
+// FAA categories, with 1, 3 and 5 SM taken as 1600, 4800 and 8000 m. The worse
+// of ceiling and visibility decides.
+export function flightCategory(c: WeatherConditions): FlightCategory | null {
+  const ceiling = ceilingFt(c);
+  const visibility = c.visibilityM;
+  if (ceiling === null && visibility === null) return null;
+  const below = (ft: number, m: number) => (ceiling !== null && ceiling < ft) || (visibility !== null && visibility < m);
+  if (below(500, 1600)) return "LIFR";
+  if (below(1000, 4800)) return "IFR";
+  if (below(3001, 8001)) return "MVFR";
+  return "VFR";
+}
+
+const INTENSITY: Record<string, string> = { "-": "light", "+": "heavy", VC: "in the vicinity" };
+const DESCRIPTORS: Record<string, string> = {
+  MI: "shallow", PR: "partial", BC: "patches of", DR: "low drifting", BL: "blowing", SH: "showers of", TS: "thunderstorm with", FZ: "freezing",
+};
+const PHENOMENA: Record<string, string> = {
+  DZ: "drizzle", RA: "rain", SN: "snow", SG: "snow grains", IC: "ice crystals", PL: "ice pellets", GR: "hail", GS: "small hail",
+  UP: "unknown precipitation", BR: "mist", FG: "fog", FU: "smoke", VA: "volcanic ash", DU: "dust", SA: "sand", HZ: "haze",
+  PY: "spray", PO: "dust whirls", SQ: "squalls", FC: "funnel cloud", SS: "sandstorm", DS: "duststorm",
+};
+export const CLOUD_COVER_NAMES: Record<CloudCover, string> = { FEW: "few", SCT: "scattered", BKN: "broken", OVC: "overcast" };
+
+// "+TSRA" → "heavy thunderstorm with rain"; "VCSH" → "showers in the vicinity".
+export function describeWeather(code: string) {
+  const m = code.match(WEATHER);
+  if (!m) return code;
+  const phenomena = (m[4].match(/.{2}/g) ?? []).map(p => PHENOMENA[p]).join(" and ");
+  const descriptor = m[3] ? DESCRIPTORS[m[3]] : "";
+  const core = phenomena
+    ? [descriptor, phenomena].filter(Boolean).join(" ")
+    : { SH: "showers", TS: "thunderstorm" }[m[3] ?? ""] ?? descriptor;
+  if (m[2] === "VC") return `${core} in the vicinity`;
+  return [m[2] ? INTENSITY[m[2]] : "", core].filter(Boolean).join(" ");
+}
+
+export function describeWind(w: Wind | null) {
+  if (!w) return "Not reported";
+  const unit = w.unit === "KT" ? "kt" : w.unit === "MPS" ? "m/s" : "km/h";
+  if (w.speed === 0) return "Calm";
+  const from = w.direction === null ? "Variable" : `${w.direction.toString().padStart(3, "0")}°`;
+  const gust = w.gust ? ` gusting ${w.gust}` : "";
+  const varying = w.variableFrom !== null ? `, varying ${w.variableFrom}°–${w.variableTo}°` : "";
+  return `${from} ${w.speed}${gust} ${unit}${varying}`;
+}
+
+export function describeVisibility(c: WeatherConditions) {
+  if (c.cavok) return "CAVOK";
+  if (c.visibilityM === null) return "Not reported";
+  if (c.visibilityM >= 9999) return "10 km or more";
+  return c.visibilityM >= 5000 ? `${c.visibilityM / 1000} km` : `${c.visibilityM} m`;
+}
+
+export function describeClouds(c: WeatherConditions) {
+  if (c.cavok) return "No cloud below 5000 ft";
+  if (c.verticalVisibilityFt !== null) return `Sky obscured, vertical visibility ${c.verticalVisibilityFt} ft`;
+  if (c.clouds.length === 0) return c.noCloud ? "No significant cloud" : "Not reported";
+  return c.clouds
+    .map(l => `${CLOUD_COVER_NAMES[l.cover]} ${l.baseFt !== null ? `${l.baseFt} ft` : "(base unknown)"}${l.type === "CB" ? " cumulonimbus" : l.type === "TCU" ? " towering cumulus" : ""}`)
+    .join(", ");
+}
+
+export function describeRvr(r: RunwayVisualRange) {
+  const qualifier = r.qualifier === "P" ? "above " : r.qualifier === "M" ? "below " : "";
+  const range = r.variableMeters !== null ? `${r.meters}–${r.variableMeters} m` : `${r.meters} m`;
+  const tendency = { U: ", improving", D: ", deteriorating", N: ", no change" }[r.tendency ?? ""] ?? "";
+  return `RWY ${r.runway} ${qualifier}${range}${tendency}`;
+}
+
+// A row of the weather_observations table.
+export interface WeatherObservation {
+  id: string;
+  kind: WeatherReportKind;
+  station: string;
+  observed_at: string;
+  raw_text: string;
+  wind_direction: number | null;
+  wind_speed_kt: number | null;
+  wind_gust_kt: number | null;
+  visibility_m: number | null;
+  ceiling_ft: number | null;
+  temperature_c: number | null;
+  dewpoint_c: number | null;
+  qnh_hpa: number | null;
+  flight_category: FlightCategory | null;
+  source: "manual" | "file";
+  created_at: string;
+}
+
+// The stored columns for a decoded report; a TAF contributes its base forecast.
+export function observationColumns(report: WeatherReport) {
+  const c = report.kind === "metar" ? report : report.conditions;
+  const w = c.wind;
+  return {
+    kind: report.kind,
+    station: report.station,
+    observed_at: report.kind === "metar" ? report.observedAt : report.issuedAt,
+    raw_text: report.raw,
+    wind_direction: w?.direction ?? null,
+    wind_speed_kt: w ? toKnots(w.speed, w.unit) : null,
+    wind_gust_kt: w?.gust ? toKnots(w.gust, w.unit) : null,
+    visibility_m: c.visibilityM,
+    ceiling_ft: ceilingFt(c),
+    temperature_c: report.kind === "metar" ? report.temperature : null,
+    dewpoint_c: report.kind === "metar" ? report.dewpoint : null,
+    qnh_hpa: report.kind === "metar" ? report.qnhHpa : null,
+    flight_category: flightCategory(c),
+  };
+}
+
+// One report per kind, station and time, the last in the file winning as a
+// correction would. The upsert rejects a batch that hits the same key twice.
+export function uniqueReports(reports: WeatherReport[]) {
+  const byKey = new Map<string, WeatherReport>();
+  reports.forEach(r => {
+    const { kind, station, observed_at } = observationColumns(r);
+    const key = `${kind}|${station}|${observed_at}`;
+    byKey.delete(key);
+    byKey.set(key, r);
+  });
+  return Array.from(byKey.values());
+}
@@ -0,0 +1,41 @@
+import { RunwaySlot, SlotFlight, runwaySlot } from "@/lib/runwaySlots";
+
+export type ClosureKind = "maintenance" | "closed";
+
+// A planned window during which the runway takes the closure's status.
+export interface RunwayClosure {
+  id: string;
+  runway_id: string;
+  kind: ClosureKind;
+  starts_at: string;
+  ends_at: string;
+  reason: string;
+  reference: string | null;
+}
+
+// Mirrors public.check_runway_closure(): no part of the slot may fall inside a window.
+export function slotClosure(slot: RunwaySlot, closures: RunwayClosure[]) {
+  return closures.find(c =>
+    c.runway_id === slot.runwayId && slot.start < Date.parse(c.ends_at) && slot.end > Date.parse(c.starts_at),
+  ) ?? null;
+}
+
+export function flightClosure(f: SlotFlight, runwayId: string, closures: RunwayClosure[], home?: string) {
+  const slot = runwaySlot(f, runwayId, home);
+  return slot ? slotClosure(slot, closures) : null;
+}
+
+// The window holding the runway now. A full closure outranks maintenance, as
+// in public.apply_runway_closures().
+export function activeClosure(runwayId: string, closures: RunwayClosure[], now: Date) {
+  const t = now.getTime();
+  const open = closures
+    .filter(c => c.runway_id === runwayId && Date.parse(c.starts_at) <= t && Date.parse(c.ends_at) > t)
+    .sort((a, b) => Date.parse(a.starts_at) - Date.parse(b.starts_at));
+  return open.find(c => c.kind === "closed") ?? open[0] ?? null;
+}
+
+export function describeClosure(c: RunwayClosure, formatWhen: (iso: string) => string) {
+  const label = c.kind === "closed" ? "Closed" : "Maintenance";
+  return `${label} ${formatWhen(c.starts_at)}–${formatWhen(c.ends_at)}${c.reference ? ` (${c.reference})` : ""}`;
+}
@@ -0,0 +1,64 @@
+import { normalizeAircraftType } from "@/lib/gates";
+import { MovementKind } from "@/lib/runwaySlots";
+
+// Field lengths an aircraft type needs at maximum weight, as kept in the
+// aircraft_performance table.
+export interface AircraftPerformance {
+  id: string;
+  aircraft_type: string;
+  takeoff_distance_m: number;
+  landing_distance_m: number;
+  unpaved_ok: boolean;
+  notes: string | null;
+}
+
+export interface RunwayDimensions {
+  name: string;
+  length_meters: number;
+  surface_type: string;
+}
+
+export const UNPAVED_SURFACES = ["gravel", "grass"];
+
+// Less spare length than this share of the requirement is allowed, with a warning.
+export const RUNWAY_LENGTH_MARGIN = 0.1;
+
+export type RunwayFitLevel = "ok" | "warn" | "block";
+
+export interface RunwayFit {
+  level: RunwayFitLevel;
+  message: string;
+}
+
+// The entry whose type is the longest match for the start of the given type, so
+// "A320" covers "A320neo" while "737-800" and "737 MAX 8" stay apart.
+// Mirrors public.aircraft_performance_for().
+export function performanceFor(aircraftType: string, table: AircraftPerformance[]) {
+  const type = normalizeAircraftType(aircraftType);
+  return table
+    .map(p => ({ p, key: normalizeAircraftType(p.aircraft_type) }))
+    .filter(({ key }) => key && type.startsWith(key))
+    .sort((a, b) => b.key.length - a.key.length)[0]?.p ?? null;
+}
+
+// Mirrors public.check_runway_performance(), which rejects what is blocked here.
+export function runwayFit(perf: AircraftPerformance, runway: RunwayDimensions, kind: MovementKind): RunwayFit {
+  if (UNPAVED_SURFACES.includes(runway.surface_type) && !perf.unpaved_ok) {
+    return { level: "block", message: `${perf.aircraft_type} needs a paved runway; ${runway.name} is ${runway.surface_type}` };
+  }
+  const required = kind === "departure" ? perf.takeoff_distance_m : perf.landing_distance_m;
+  const verb = kind === "departure" ? "take off" : "land";
+  if (runway.length_meters < required) {
+    return { level: "block", message: `${runway.name} is ${runway.length_meters.toLocaleString()} m; ${perf.aircraft_type} needs ${required.toLocaleString()} m to ${verb}` };
+  }
+  if (runway.length_meters < required * (1 + RUNWAY_LENGTH_MARGIN)) {
+    return { level: "warn", message: `${runway.name} leaves ${(runway.length_meters - required).toLocaleString()} m spare over the ${required.toLocaleString()} m ${perf.aircraft_type} needs to ${verb}` };
+  }
+  return { level: "ok", message: `${runway.name} is long enough for ${perf.aircraft_type} to ${verb}` };
+}
+
+// Null when the type has no performance entry and cannot be checked.
+export function aircraftRunwayFit(aircraftType: string, table: AircraftPerformance[], runway: RunwayDimensions, kind: MovementKind) {
+  const perf = performanceFor(aircraftType, table);
+  return perf ? runwayFit(perf, runway, kind) : null;
+}
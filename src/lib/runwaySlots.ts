@@ -0,0 +1,117 @@
+import { WakeCategory } from "@/lib/aircraft";
+import { aircraftSizeClass } from "@/lib/gates";
+import { FlightTimes, effectiveArrival, effectiveDeparture } from "@/lib/flightTimes";
+
+export type MovementKind = "departure" | "arrival";
+
+// Minutes a movement holds the runway: line-up and take-off roll, or short
+// final and vacating. No two movements on one runway may be closer than this.
+export const RUNWAY_OCCUPANCY_MINUTES = 2;
+
+// Time-based wake turbulence minima between successive movements on one
+// runway, as [leader][follower] in minutes (ICAO Doc 4444 §5.8, simplified to
+// one table for departures and arrivals). Never below the occupancy time.
+export const WAKE_SEPARATION_MINUTES: Record<WakeCategory, Record<WakeCategory, number>> = {
+  J: { J: 2, H: 2, M: 3, L: 4 },
+  H: { J: 2, H: 2, M: 2, L: 3 },
+  M: { J: 2, H: 2, M: 2, L: 3 },
+  L: { J: 2, H: 2, M: 2, L: 2 },
+};
+
+const MINUTE = 60000;
+
+export interface SlotFlight extends FlightTimes {
+  id: string;
+  flight_number: string;
+  origin: string;
+  destination: string;
+  status: string;
+  runway_id: string | null;
+  aircraft_type: string;
+  // From the assigned aircraft; guessed from the type when there is none.
+  wake_category?: WakeCategory | null;
+}
+
+export interface RunwaySlot {
+  flight: SlotFlight;
+  runwayId: string;
+  kind: MovementKind;
+  start: number;
+  end: number;
+  wake: WakeCategory;
+}
+
+export interface SlotConflict {
+  kind: "overlap" | "wake";
+  leader: RunwaySlot;
+  follower: RunwaySlot;
+  gapMinutes: number;
+  requiredMinutes: number;
+}
+
+// Without a registered aircraft the gate size class is the best hint: Code D and
+// up count as Heavy, the A380 as Super, Code A as Light and the rest as Medium.
+export function wakeCategoryForType(aircraftType: string): WakeCategory {
+  if (/A?380/i.test(aircraftType.replace(/[\s-]/g, ""))) return "J";
+  const size = aircraftSizeClass(aircraftType);
+  if (size === "D" || size === "E" || size === "F") return "H";
+  return size === "A" ? "L" : "M";
+}
+
+// A flight uses the home airport's runway to depart from it or to land at it.
+// Without a home airport, airborne flights are arriving and the rest departing.
+export function movementKind(f: Pick<SlotFlight, "origin" | "destination" | "status">, home?: string): MovementKind {
+  if (home && f.origin === home) return "departure";
+  if (home && f.destination === home) return "arrival";
+  return ["departed", "emergency", "diverted"].includes(f.status) ? "arrival" : "departure";
+}
+
+export function runwaySlot(f: SlotFlight, runwayId = f.runway_id, home?: string): RunwaySlot | null {
+  if (!runwayId || f.status === "cancelled" || f.status === "diverted") return null;
+  const kind = movementKind(f, home);
+  const start = new Date(kind === "departure" ? effectiveDeparture(f) : effectiveArrival(f)).getTime();
+  return {
+    flight: f,
+    runwayId,
+    kind,
+    start,
+    end: start + RUNWAY_OCCUPANCY_MINUTES * MINUTE,
+    wake: f.wake_category ?? wakeCategoryForType(f.aircraft_type),
+  };
+}
+
+function pairConflict(a: RunwaySlot, b: RunwaySlot): SlotConflict | null {
+  const [leader, follower] = a.start <= b.start ? [a, b] : [b, a];
+  const gapMinutes = (follower.start - leader.start) / MINUTE;
+  const requiredMinutes = WAKE_SEPARATION_MINUTES[leader.wake][follower.wake];
+  if (gapMinutes >= requiredMinutes) return null;
+  return { kind: gapMinutes < RUNWAY_OCCUPANCY_MINUTES ? "overlap" : "wake", leader, follower, gapMinutes, requiredMinutes };
+}
+
+// Conflicts the flight would have if it used the given runway, against the other flights' slots.
+export function runwayConflicts(flight: SlotFlight, runwayId: string, others: SlotFlight[], home?: string) {
+  const slot = runwaySlot(flight, runwayId, home);
+  if (!slot) return [];
+  return others
+    .filter(o => o.id !== flight.id && o.runway_id === runwayId)
+    .map(o => runwaySlot(o, o.runway_id, home))
+    .map(o => (o ? pairConflict(slot, o) : null))
+    .filter((c): c is SlotConflict => c !== null);
+}
+
+export function conflictingRunwayFlightIds(flights: SlotFlight[], home?: string) {
+  const ids = new Set<string>();
+  flights.forEach(f => {
+    if (f.runway_id && runwayConflicts(f, f.runway_id, flights, home).length > 0) ids.add(f.id);
+  });
+  return ids;
+}
+
+// Worded from the point of view of the given flight.
+export function describeConflict(c: SlotConflict, flightId: string) {
+  const other = c.leader.flight.id === flightId ? c.follower : c.leader;
+  const gap = Math.round(c.gapMinutes * 10) / 10;
+  if (c.kind === "overlap") return `Overlaps ${other.flight.flight_number} (${gap} min apart)`;
+  const position = other === c.leader ? "behind" : "ahead of";
+  return `${gap} min ${position} ${other.flight.flight_number} (${c.leader.wake}→${c.follower.wake} needs ${c.requiredMinutes} min)`;
+}
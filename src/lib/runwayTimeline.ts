@@ -0,0 +1,38 @@
+import { delayEstimates } from "@/lib/flightTimes";
+import { RunwaySlot } from "@/lib/runwaySlots";
+
+// Geometry for the runway occupancy timeline on the Runways page.
+
+export const TIMELINE_HOURS = 24;
+export const TIMELINE_SNAP_MINUTES = 5;
+
+const MINUTE = 60000;
+const HOUR = 60 * MINUTE;
+
+// The timeline opens at the start of the current hour.
+export function timelineStart(now: Date) {
+  return Math.floor(now.getTime() / HOUR) * HOUR;
+}
+
+export function timelineHours(start: number, hours = TIMELINE_HOURS) {
+  return Array.from({ length: hours }, (_, i) => start + i * HOUR);
+}
+
+// Percentage across the timeline; outside 0–100 when the time is off the chart.
+export function timelinePosition(time: number, start: number, hours = TIMELINE_HOURS) {
+  return ((time - start) / (hours * HOUR)) * 100;
+}
+
+// Time under a point dropped at the given fraction of the width, snapped to the grid.
+export function timelineTime(fraction: number, start: number, hours = TIMELINE_HOURS) {
+  const snap = TIMELINE_SNAP_MINUTES * MINUTE;
+  const clamped = Math.min(Math.max(fraction, 0), 1);
+  return start + Math.round((clamped * hours * HOUR) / snap) * snap;
+}
+
+// Estimates that move the slot to a new start, shifting the other end of the
+// flight with it. Null when the slot stays put.
+export function retimeSlot(slot: RunwaySlot, start: number) {
+  const minutes = Math.round((start - slot.start) / MINUTE);
+  return minutes === 0 ? null : delayEstimates(slot.flight, minutes);
+}
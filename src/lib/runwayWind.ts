@@ -0,0 +1,134 @@
+import { Wind, toKnots } from "@/lib/metar";
+
+export interface WindRunway {
+  id: string;
+  name: string;
+  status: string;
+  heading_degrees: number | null;
+  crosswind_limit_kt: number;
+  tailwind_limit_kt: number;
+}
+
+export interface RunwayEnd {
+  runwayId: string;
+  designator: string;
+  heading: number;
+}
+
+// Wind in knots. A null direction is variable (VRB) wind.
+export interface SurfaceWind {
+  direction: number | null;
+  speedKt: number;
+  gustKt: number | null;
+  variableFrom: number | null;
+  variableTo: number | null;
+}
+
+export interface EndWind {
+  end: RunwayEnd;
+  // Steady-wind components; a negative headwind is a tailwind.
+  headwind: number;
+  crosswind: number;
+  side: "left" | "right" | null;
+  // Worst case over the gust and the reported variation, for the limit checks.
+  maxCrosswind: number;
+  maxTailwind: number;
+  crosswindExceeded: boolean;
+  tailwindExceeded: boolean;
+}
+
+const DESIGNATOR = /\b(\d{2}[LCR]?)\b/g;
+
+const normalizeHeading = (h: number) => ((Math.round(h) % 360) + 360) % 360 || 360;
+
+export function surfaceWind(w: Wind): SurfaceWind {
+  return {
+    direction: w.direction,
+    speedKt: toKnots(w.speed, w.unit),
+    gustKt: w.gust !== null ? toKnots(w.gust, w.unit) : null,
+    variableFrom: w.variableFrom,
+    variableTo: w.variableTo,
+  };
+}
+
+// The thresholds named by the runway, e.g. "09L/27R" or "Runway 01L". The first
+// takes heading_degrees, or the designator times ten; later ones are reciprocals.
+export function runwayEnds(r: Pick<WindRunway, "id" | "name" | "heading_degrees">): RunwayEnd[] {
+  const designators = Array.from(r.name.toUpperCase().matchAll(DESIGNATOR), m => m[1])
+    .filter(d => Number(d.slice(0, 2)) >= 1 && Number(d.slice(0, 2)) <= 36);
+  if (!designators.length) return [];
+  const first = r.heading_degrees ?? Number(designators[0].slice(0, 2)) * 10;
+  return designators.slice(0, 2).map((designator, i) => ({
+    runwayId: r.id,
+    designator,
+    heading: normalizeHeading(first + i * 180),
+  }));
+}
+
+// Headwind and crosswind for wind from `direction` on a runway heading; a
+// positive crosswind blows from the right.
+export function windComponents(direction: number, speed: number, heading: number) {
+  const angle = ((direction - heading) * Math.PI) / 180;
+  return { headwind: speed * Math.cos(angle), crosswind: speed * Math.sin(angle) };
+}
+
+// Directions the wind may come from: the reported one and every 10° of its
+// variation, or all round for VRB.
+function windDirections(w: SurfaceWind) {
+  if (w.direction === null) return Array.from({ length: 36 }, (_, i) => (i + 1) * 10);
+  if (w.variableFrom === null || w.variableTo === null) return [w.direction];
+  const span = (w.variableTo - w.variableFrom + 360) % 360;
+  return [w.direction, ...Array.from({ length: Math.floor(span / 10) + 1 }, (_, i) => w.variableFrom! + i * 10), w.variableTo];
+}
+
+export function endWind(end: RunwayEnd, w: SurfaceWind, limits: Pick<WindRunway, "crosswind_limit_kt" | "tailwind_limit_kt">): EndWind {
+  const steady = w.direction !== null ? windComponents(w.direction, w.speedKt, end.heading) : { headwind: 0, crosswind: w.speedKt };
+  const peak = Math.max(w.speedKt, w.gustKt ?? 0);
+  const worst = windDirections(w).map(d => windComponents(d, peak, end.heading));
+  const maxCrosswind = Math.round(Math.max(...worst.map(c => Math.abs(c.crosswind))));
+  const maxTailwind = Math.round(Math.max(0, ...worst.map(c => -c.headwind)));
+  const crosswind = Math.round(Math.abs(steady.crosswind));
+  return {
+    end,
+    headwind: Math.round(steady.headwind),
+    crosswind,
+    side: w.direction === null || crosswind === 0 ? null : steady.crosswind > 0 ? "right" : "left",
+    maxCrosswind,
+    maxTailwind,
+    crosswindExceeded: maxCrosswind > limits.crosswind_limit_kt,
+    tailwindExceeded: maxTailwind > limits.tailwind_limit_kt,
+  };
+}
+
+export function runwayWinds(runways: WindRunway[], w: SurfaceWind) {
+  return runways.flatMap(r => runwayEnds(r).map(end => endWind(end, w, r)));
+}
+
+export interface RunwayConfiguration {
+  ends: EndWind[];
+  headwind: number;
+}
+
+// Ends on usable runways that face the same way (within 30°) and are within
+// limits, grouped; the group with the most headwind is suggested, then the
+// largest group. Null when no end is within limits.
+export function suggestConfiguration(runways: WindRunway[], w: SurfaceWind): RunwayConfiguration | null {
+  const usable = runwayWinds(runways.filter(r => r.status !== "maintenance" && r.status !== "closed"), w)
+    .filter(e => !e.crosswindExceeded && !e.tailwindExceeded);
+  const groups: EndWind[][] = [];
+  usable.forEach(e => {
+    const group = groups.find(g => Math.abs(((g[0].end.heading - e.end.heading + 540) % 360) - 180) <= 30);
+    if (group) group.push(e);
+    else groups.push([e]);
+  });
+  const best = groups
+    .map(ends => ({ ends, headwind: Math.min(...ends.map(e => e.headwind)) }))
+    .sort((a, b) => b.headwind - a.headwind || b.ends.length - a.ends.length)[0];
+  return best ?? null;
+}
+
+export function describeEndWind(e: EndWind) {
+  const along = e.headwind >= 0 ? `head ${e.headwind}` : `tail ${-e.headwind}`;
+  const cross = e.crosswind ? `, cross ${e.crosswind}${e.side ? ` from the ${e.side}` : ""}` : "";
+  return `${along}${cross} kt`;
+}
@@ -0,0 +1,42 @@
+// Days use ISO numbering, matching flight_schedules.days_of_week: 1 = Monday … 7 = Sunday.
+export const WEEK_DAYS = [
+  { value: 1, short: "Mo", label: "Monday" },
+  { value: 2, short: "Tu", label: "Tuesday" },
+  { value: 3, short: "We", label: "Wednesday" },
+  { value: 4, short: "Th", label: "Thursday" },
+  { value: 5, short: "Fr", label: "Friday" },
+  { value: 6, short: "Sa", label: "Saturday" },
+  { value: 7, short: "Su", label: "Sunday" },
+];
+
+export interface SchedulePattern {
+  days_of_week: number[];
+  valid_from: string;
+  valid_to: string;
+}
+
+// "1.3.5.7"-style frequency string, as used on airline timetables.
+export function formatDays(days: number[]) {
+  return WEEK_DAYS.map(d => (days.includes(d.value) ? String(d.value) : ".")).join("");
+}
+
+export function isoWeekday(date: Date) {
+  return date.getUTCDay() === 0 ? 7 : date.getUTCDay();
+}
+
+// UTC calendar dates ("YYYY-MM-DD") the pattern operates on within [from, to].
+export function scheduleDates(pattern: SchedulePattern, from: string, to: string) {
+  const start = new Date(`${from > pattern.valid_from ? from : pattern.valid_from}T00:00:00Z`);
+  const end = new Date(`${to < pattern.valid_to ? to : pattern.valid_to}T00:00:00Z`);
+  const dates: string[] = [];
+  for (const d = start; d <= end; d.setUTCDate(d.getUTCDate() + 1)) {
+    if (pattern.days_of_week.includes(isoWeekday(d))) dates.push(d.toISOString().slice(0, 10));
+  }
+  return dates;
+}
+
+export function addDays(date: string, days: number) {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
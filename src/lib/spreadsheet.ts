@@ -0,0 +1,120 @@
+// Minimal CSV and XLSX readers for the import wizards. Both return the first
+// sheet as rows of trimmed cell strings; empty rows are dropped.
+
+function detectDelimiter(text: string) {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  return [",", ";", "\t"].reduce((best, d) => (firstLine.split(d).length > firstLine.split(best).length ? d : best), ",");
+}
+
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(source);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const c = source[i];
+    if (quoted) {
+      if (c === '"' && source[i + 1] === '"') { cell += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else cell += c;
+    } else if (c === '"' && cell === "") {
+      quoted = true;
+    } else if (c === delimiter) {
+      row.push(cell.trim());
+      cell = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && source[i + 1] === "\n") i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += c;
+    }
+  }
+  row.push(cell.trim());
+  rows.push(row);
+  return rows.filter(r => r.some(c => c !== ""));
+}
+
+async function inflate(data: Uint8Array, method: number) {
+  if (method === 0) return new TextDecoder().decode(data);
+  if (method !== 8) throw new Error(`Unsupported ZIP compression method ${method}`);
+  const stream = new Response(data).body!.pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Response(stream).text();
+}
+
+// Reads the ZIP central directory and returns the named entries as text.
+async function unzip(buffer: ArrayBuffer, wanted: (name: string) => boolean) {
+  const view = new DataView(buffer);
+  let eocd = buffer.byteLength - 22;
+  while (eocd >= 0 && view.getUint32(eocd, true) !== 0x06054b50) eocd--;
+  if (eocd < 0) throw new Error("Not a valid .xlsx file");
+
+  const entries = new Map<string, string>();
+  let offset = view.getUint32(eocd + 16, true);
+  for (let i = 0; i < view.getUint16(eocd + 10, true); i++) {
+    const method = view.getUint16(offset + 10, true);
+    const size = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const local = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(new Uint8Array(buffer, offset + 46, nameLength));
+    if (wanted(name)) {
+      const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+      entries.set(name, await inflate(new Uint8Array(buffer, start, size), method));
+    }
+    offset += 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true);
+  }
+  return entries;
+}
+
+// "BC12" → 54 (zero-based column index)
+function columnIndex(ref: string) {
+  return ref.replace(/\d+$/, "").split("").reduce((n, c) => n * 26 + c.charCodeAt(0) - 64, 0) - 1;
+}
+
+// Only the first worksheet is read. Dates come back as Excel serial numbers,
+// since telling them apart requires the workbook's number formats.
+export async function readXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+  const entries = await unzip(buffer, name => name === "xl/sharedStrings.xml" || /^xl\/worksheets\/sheet\d+\.xml$/.test(name));
+  const sheetName = Array.from(entries.keys())
+    .filter(name => name.startsWith("xl/worksheets/"))
+    .sort((a, b) => Number(a.match(/\d+/)![0]) - Number(b.match(/\d+/)![0]))[0];
+  if (!sheetName) throw new Error("The workbook has no worksheets");
+
+  const parser = new DOMParser();
+  const sharedXml = entries.get("xl/sharedStrings.xml");
+  const shared = sharedXml
+    ? Array.from(parser.parseFromString(sharedXml, "application/xml").getElementsByTagName("si"))
+      .map(si => Array.from(si.getElementsByTagName("t")).map(t => t.textContent).join(""))
+    : [];
+
+  const sheet = parser.parseFromString(entries.get(sheetName)!, "application/xml");
+  const rows = Array.from(sheet.getElementsByTagName("row")).map(rowEl => {
+    const row: string[] = [];
+    Array.from(rowEl.getElementsByTagName("c")).forEach((c, i) => {
+      const ref = c.getAttribute("r");
+      const index = ref ? columnIndex(ref) : i;
+      const type = c.getAttribute("t");
+      const value = c.getElementsByTagName("v")[0]?.textContent ?? "";
+      let text = value;
+      if (type === "s") text = shared[Number(value)] ?? "";
+      else if (type === "inlineStr") text = Array.from(c.getElementsByTagName("t")).map(t => t.textContent).join("");
+      else if (type === "b") text = value === "1" ? "TRUE" : "FALSE";
+      while (row.length < index) row.push("");
+      row[index] = text.trim();
+    });
+    return row;
+  });
+  return rows.filter(r => r.some(c => c !== ""));
+}
+
+export async function readSpreadsheet(file: File) {
+  const name = file.name.toLowerCase();
+  if (name.endsWith(".xlsx")) return readXlsx(await file.arrayBuffer());
+  if (name.endsWith(".xls")) throw new Error("Legacy .xls files are not supported. Save the sheet as .xlsx or CSV.");
+  return parseCsv(await file.text());
+}
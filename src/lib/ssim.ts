@@ -0,0 +1,318 @@
+import { addDays, isoWeekday } from "@/lib/schedules";
+
+// IATA SSIM Chapter 7: fixed-width 200-character records. Type 1 opens the data
+// set, type 2 opens a carrier, type 3 is a flight leg, type 5 closes the carrier.
+// Blocks are padded to multiples of five records with all-zero lines.
+const RECORD_LENGTH = 200;
+const MONTHS = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+
+export interface SsimLeg {
+  line: number;
+  airline: string;
+  flightNumber: string;
+  periodFrom: string;
+  periodTo: string;
+  days: number[];
+  frequencyRate: number;
+  origin: string;
+  destination: string;
+  departureTime: string;
+  departureOffset: number;
+  arrivalTime: string;
+  arrivalOffset: number;
+  departureDayVariation: number;
+  arrivalDayVariation: number;
+  aircraftType: string;
+  capacity: number | null;
+}
+
+export interface SsimFlight {
+  flight_number: string;
+  // The designator; import_ssim() stores the airline name for it.
+  airline: string;
+  origin: string;
+  destination: string;
+  scheduled_departure: string;
+  scheduled_arrival: string;
+  aircraft_type: string;
+  capacity: number | null;
+}
+
+export interface SsimIssue {
+  line: number;
+  message: string;
+}
+
+export interface SsimParseResult {
+  legs: SsimLeg[];
+  errors: SsimIssue[];
+}
+
+const slice = (record: string, start: number, end: number) => record.slice(start - 1, end).trim();
+
+// DDMMMYY, e.g. "29MAR26" → "2026-03-29".
+export function parseSsimDate(value: string) {
+  const m = value.toUpperCase().match(/^(\d{2})([A-Z]{3})(\d{2})$/);
+  const month = m ? MONTHS.indexOf(m[2]) : -1;
+  if (!m || month < 0) return null;
+  const d = new Date(Date.UTC(2000 + Number(m[3]), month, Number(m[1])));
+  if (d.getUTCMonth() !== month) return null;
+  return d.toISOString().slice(0, 10);
+}
+
+export function formatSsimDate(date: string) {
+  const [y, m, d] = date.split("-");
+  return `${d}${MONTHS[Number(m) - 1]}${y.slice(2)}`;
+}
+
+// "+0130" / "-0500" → minutes east of UTC.
+function parseUtcVariation(value: string) {
+  const m = value.match(/^([+-])(\d{2})(\d{2})$/);
+  if (!m) return null;
+  return (m[1] === "-" ? -1 : 1) * (Number(m[2]) * 60 + Number(m[3]));
+}
+
+// Date variation digits shift a leg by whole days; "A" means the day before.
+function parseDayVariation(value: string) {
+  if (value === "" || value === "0") return 0;
+  if (value === "A") return -1;
+  return /^\d$/.test(value) ? Number(value) : null;
+}
+
+function parseTime(value: string) {
+  return /^([01]\d|2[0-3])[0-5]\d$/.test(value) ? value : null;
+}
+
+export function parseSsim(text: string): SsimParseResult {
+  const legs: SsimLeg[] = [];
+  const errors: SsimIssue[] = [];
+  let utcTimes = false;
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = i + 1;
+    const record = raw.padEnd(RECORD_LENGTH, " ");
+    if (record[0] === "2") utcTimes = record[1] === "U";
+    if (record[0] !== "3") return;
+
+    const fail = (message: string) => errors.push({ line, message });
+    const airline = slice(record, 3, 5);
+    const number = slice(record, 6, 9);
+    const periodFrom = parseSsimDate(slice(record, 15, 21));
+    const periodTo = parseSsimDate(slice(record, 22, 28));
+    const departureTime = parseTime(slice(record, 44, 47));
+    const arrivalTime = parseTime(slice(record, 58, 61));
+    const departureOffset = utcTimes ? 0 : parseUtcVariation(slice(record, 48, 52));
+    const arrivalOffset = utcTimes ? 0 : parseUtcVariation(slice(record, 66, 70));
+    const departureDayVariation = parseDayVariation(record[192].trim());
+    const arrivalDayVariation = parseDayVariation(record[193].trim());
+    const days = record.slice(28, 35).split("").map(Number).filter(d => d >= 1 && d <= 7);
+
+    if (!airline || !/^\d+$/.test(number)) return fail("Missing airline designator or flight number");
+    if (!periodFrom || !periodTo) return fail("Invalid or open-ended period of operation");
+    if (periodTo < periodFrom) return fail("Period of operation ends before it starts");
+    if (days.length === 0) return fail("No days of operation");
+    if (!departureTime || !arrivalTime) return fail("Invalid departure or arrival time");
+    if (departureOffset === null || arrivalOffset === null) return fail("Invalid UTC/local time variation");
+    if (departureDayVariation === null || arrivalDayVariation === null) return fail("Invalid date variation");
+
+    const origin = slice(record, 37, 39);
+    const destination = slice(record, 55, 57);
+    if (!origin || !destination) return fail("Missing departure or arrival station");
+
+    const seats = slice(record, 173, 192).match(/\d+/g);
+    legs.push({
+      line,
+      airline,
+      flightNumber: `${airline}${Number(number)}${slice(record, 2, 2)}`,
+      periodFrom,
+      periodTo,
+      days,
+      frequencyRate: Number(slice(record, 36, 36)) || 1,
+      origin,
+      destination,
+      departureTime,
+      departureOffset,
+      arrivalTime,
+      arrivalOffset,
+      departureDayVariation,
+      arrivalDayVariation,
+      aircraftType: slice(record, 73, 75),
+      capacity: seats ? seats.reduce((sum, n) => sum + Number(n), 0) : null,
+    });
+  });
+
+  return { legs, errors };
+}
+
+function toUtc(date: string, hhmm: string, offsetMinutes: number) {
+  const local = Date.parse(`${date}T${hhmm.slice(0, 2)}:${hhmm.slice(2)}:00Z`);
+  return new Date(local - offsetMinutes * 60000).toISOString();
+}
+
+// One flight per operating date. Frequency rate 2 means every other week,
+// counted from the first week of the period.
+export function expandLeg(leg: SsimLeg): SsimFlight[] {
+  const flights: SsimFlight[] = [];
+  const first = Date.parse(`${leg.periodFrom}T00:00:00Z`);
+  for (let date = leg.periodFrom; date <= leg.periodTo; date = addDays(date, 1)) {
+    const week = Math.floor((Date.parse(`${date}T00:00:00Z`) - first) / (7 * 86400000));
+    if (!leg.days.includes(isoWeekday(new Date(`${date}T00:00:00Z`))) || week % leg.frequencyRate !== 0) continue;
+    flights.push({
+      flight_number: leg.flightNumber,
+      airline: leg.airline,
+      origin: leg.origin,
+      destination: leg.destination,
+      scheduled_departure: toUtc(addDays(date, leg.departureDayVariation), leg.departureTime, leg.departureOffset),
+      scheduled_arrival: toUtc(addDays(date, leg.arrivalDayVariation), leg.arrivalTime, leg.arrivalOffset),
+      aircraft_type: leg.aircraftType,
+      capacity: leg.capacity,
+    });
+  }
+  return flights;
+}
+
+export const flightKey = (flightNumber: string, departure: string) =>
+  `${flightNumber}|${new Date(departure).toISOString().slice(0, 10)}`;
+
+// Flight numbers are unique per UTC day, so later legs of a multi-leg flight
+// (same number, same day) are reported instead of imported.
+export function ssimFlights(legs: SsimLeg[]) {
+  const flights = new Map<string, SsimFlight>();
+  const warnings: SsimIssue[] = [];
+  legs.forEach(leg => {
+    let skipped = 0;
+    expandLeg(leg).forEach(f => {
+      const key = flightKey(f.flight_number, f.scheduled_departure);
+      if (flights.has(key)) skipped++;
+      else flights.set(key, f);
+    });
+    if (skipped) warnings.push({ line: leg.line, message: `${skipped} duplicate ${leg.flightNumber} departure(s) skipped (multi-leg or overlapping periods)` });
+  });
+  return { flights: Array.from(flights.values()), warnings };
+}
+
+// Best-effort IATA type code from names like "Boeing 737" or "Airbus A320".
+export function aircraftCode(type: string) {
+  if (/^[A-Z0-9]{3}$/.test(type)) return type;
+  return type.match(/\d{3}/)?.[0] ?? type.replace(/\s+/g, "").slice(0, 3).toUpperCase();
+}
+
+export interface ExistingFlight {
+  id: string;
+  flight_number: string;
+  status: string;
+  airline: string;
+  origin: string;
+  destination: string;
+  scheduled_departure: string;
+  scheduled_arrival: string;
+  aircraft_type: string;
+  capacity: number;
+  schedule_id: string | null;
+}
+
+export type SsimDiffKind = "create" | "update" | "unchanged" | "locked";
+
+export interface SsimDiff {
+  kind: SsimDiffKind;
+  flight: SsimFlight;
+  existing: ExistingFlight | null;
+  changes: string[];
+}
+
+// Only flights that have not started operating can be rescheduled by an import.
+const EDITABLE_STATUSES = ["scheduled", "delayed"];
+
+// Airline is left out: SSIM only carries the designator, we store the name.
+export function diffFlights(incoming: SsimFlight[], existing: ExistingFlight[]): SsimDiff[] {
+  const byKey = new Map(existing.map(f => [flightKey(f.flight_number, f.scheduled_departure), f]));
+  return incoming.map(flight => {
+    const current = byKey.get(flightKey(flight.flight_number, flight.scheduled_departure));
+    if (!current) return { kind: "create", flight, existing: null, changes: [] };
+
+    const changes: string[] = [];
+    if (current.origin !== flight.origin) changes.push("origin");
+    if (current.destination !== flight.destination) changes.push("destination");
+    if (Date.parse(current.scheduled_departure) !== Date.parse(flight.scheduled_departure)) changes.push("scheduled_departure");
+    if (Date.parse(current.scheduled_arrival) !== Date.parse(flight.scheduled_arrival)) changes.push("scheduled_arrival");
+    if (aircraftCode(current.aircraft_type) !== flight.aircraft_type) changes.push("aircraft_type");
+    if (flight.capacity !== null && current.capacity !== flight.capacity) changes.push("capacity");
+
+    const kind: SsimDiffKind = changes.length === 0 ? "unchanged" : EDITABLE_STATUSES.includes(current.status) ? "update" : "locked";
+    return { kind, flight, existing: current, changes };
+  });
+}
+
+export interface SsimSchedule {
+  flight_number: string;
+  origin: string;
+  destination: string;
+  days_of_week: number[];
+  valid_from: string;
+  valid_to: string;
+  departure_time: string;
+  arrival_time: string;
+  arrival_day_offset: number;
+  aircraft_type: string;
+  capacity: number;
+}
+
+// "AA1234" → { airline: "AA", number: "1234", suffix: "" }
+export function splitFlightNumber(flightNumber: string) {
+  const m = flightNumber.toUpperCase().match(/^([A-Z]{3}|[A-Z0-9]{2})(\d{1,4})([A-Z]?)$/);
+  return m ? { airline: m[1], number: m[2], suffix: m[3] } : null;
+}
+
+function record(fields: [number, string][]) {
+  const chars = Array<string>(RECORD_LENGTH).fill(" ");
+  fields.forEach(([start, value]) => value.split("").forEach((c, i) => { chars[start - 1 + i] = c; }));
+  return chars.join("");
+}
+
+const serial = (n: number) => String(n).padStart(6, "0");
+const hhmm = (time: string) => time.slice(0, 5).replace(":", "");
+
+// Times are exported in UTC (time mode "U"). Schedules whose flight number has
+// no recognisable airline designator are returned in `skipped`.
+export function buildSsim(schedules: SsimSchedule[], created: Date) {
+  const lines: string[] = [];
+  const pad = () => { while (lines.length % 5 !== 0) lines.push("0".repeat(RECORD_LENGTH)); };
+  const today = formatSsimDate(created.toISOString().slice(0, 10));
+  const skipped: string[] = [];
+  const carriers = new Map<string, { schedule: SsimSchedule; number: string; suffix: string }[]>();
+
+  schedules.forEach(schedule => {
+    const parts = splitFlightNumber(schedule.flight_number);
+    if (!parts) { skipped.push(schedule.flight_number); return; }
+    carriers.set(parts.airline, [...(carriers.get(parts.airline) || []), { schedule, number: parts.number, suffix: parts.suffix }]);
+  });
+
+  let n = 1;
+  lines.push(record([[1, "1AIRLINE STANDARD SCHEDULE DATA SET"], [192, "001"], [195, serial(n++)]]));
+  pad();
+
+  carriers.forEach((legs, airline) => {
+    const from = legs.reduce((min, l) => (l.schedule.valid_from < min ? l.schedule.valid_from : min), legs[0].schedule.valid_from);
+    const to = legs.reduce((max, l) => (l.schedule.valid_to > max ? l.schedule.valid_to : max), legs[0].schedule.valid_to);
+    lines.push(record([[1, "2U"], [3, airline], [15, formatSsimDate(from)], [22, formatSsimDate(to)], [29, today], [72, "P"], [195, serial(n++)]]));
+    pad();
+
+    legs.forEach(({ schedule: s, number, suffix }) => {
+      lines.push(record([
+        [1, "3"], [2, suffix], [3, airline], [6, number.padStart(4, " ")], [10, "01"], [12, "01"], [14, "J"],
+        [15, formatSsimDate(s.valid_from)], [22, formatSsimDate(s.valid_to)],
+        [29, [1, 2, 3, 4, 5, 6, 7].map(d => (s.days_of_week.includes(d) ? String(d) : " ")).join("")],
+        [37, s.origin], [40, hhmm(s.departure_time)], [44, hhmm(s.departure_time)], [48, "+0000"],
+        [55, s.destination], [58, hhmm(s.arrival_time)], [62, hhmm(s.arrival_time)], [66, "+0000"],
+        [73, aircraftCode(s.aircraft_type)], [173, `Y${s.capacity}`], [193, `0${s.arrival_day_offset}`],
+        [195, serial(n++)],
+      ]));
+    });
+    pad();
+
+    lines.push(record([[1, "5"], [3, airline], [6, today], [188, serial(n - 1)], [194, "E"], [195, serial(n++)]]));
+    pad();
+  });
+
+  return { text: lines.join("\n") + "\n", skipped };
+}
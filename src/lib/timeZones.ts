@@ -0,0 +1,95 @@
+// All times are stored in UTC. Display and entry happen in one of three zones:
+// UTC, the home airport's zone, or the zone of the airport a time belongs to
+// (the origin for departures, the destination for arrivals).
+export type TimeDisplayMode = "utc" | "airport" | "local";
+
+export const TIME_DISPLAY_MODES: { value: TimeDisplayMode; label: string; short: string }[] = [
+  { value: "utc", label: "UTC", short: "UTC" },
+  { value: "airport", label: "Home airport time", short: "APT" },
+  { value: "local", label: "Origin / destination local", short: "LCL" },
+];
+
+// `airportZone` is the zone of the airport the time belongs to, when known.
+export function zoneFor(mode: TimeDisplayMode, homeZone: string | null, airportZone?: string | null) {
+  if (mode === "utc") return "UTC";
+  if (mode === "local" && airportZone) return airportZone;
+  return homeZone ?? "UTC";
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(timeZone: string, options: Intl.DateTimeFormatOptions) {
+  const key = `${timeZone}|${JSON.stringify(options)}`;
+  if (!formatters.has(key)) formatters.set(key, new Intl.DateTimeFormat("en-US", { ...options, timeZone }));
+  return formatters.get(key)!;
+}
+
+// Wall-clock fields of an instant in the given zone.
+export function zonedParts(date: Date, timeZone: string) {
+  const parts = formatter(timeZone, {
+    year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit", second: "2-digit", hourCycle: "h23",
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find(p => p.type === type)!.value);
+  return { year: get("year"), month: get("month"), day: get("day"), hour: get("hour"), minute: get("minute"), second: get("second") };
+}
+
+function offsetMinutes(date: Date, timeZone: string) {
+  const p = zonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// Value for an <input type="datetime-local"> showing the instant in the zone.
+export function toZonedInput(iso: string | null, timeZone: string) {
+  if (!iso) return "";
+  const p = zonedParts(new Date(iso), timeZone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}`;
+}
+
+// Reads a wall-clock "YYYY-MM-DDTHH:mm" in the zone back into a UTC ISO string.
+// The offset is re-evaluated at the result so DST transitions resolve correctly.
+export function fromZonedInput(value: string, timeZone: string) {
+  const m = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/.exec(value);
+  if (!m) return null;
+  const wall = Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5]);
+  let instant = wall - offsetMinutes(new Date(wall), timeZone) * 60000;
+  instant = wall - offsetMinutes(new Date(instant), timeZone) * 60000;
+  return new Date(instant).toISOString();
+}
+
+export function formatZonedTime(iso: string, timeZone: string) {
+  return formatter(timeZone, { hour: "2-digit", minute: "2-digit", hourCycle: "h23" }).format(new Date(iso));
+}
+
+export function formatZonedDate(iso: string, timeZone: string) {
+  return formatter(timeZone, { month: "short", day: "numeric" }).format(new Date(iso));
+}
+
+// "Wednesday, July 1, 2026"
+export function formatZonedLongDate(iso: string, timeZone: string) {
+  return formatter(timeZone, { weekday: "long", year: "numeric", month: "long", day: "numeric" }).format(new Date(iso));
+}
+
+export function formatZonedDateTime(iso: string, timeZone: string, seconds = false) {
+  return formatter(timeZone, {
+    month: "short", day: "numeric", hour: "2-digit", minute: "2-digit", ...(seconds ? { second: "2-digit" } : {}), hourCycle: "h23",
+  }).format(new Date(iso));
+}
+
+// Short zone name such as "UTC", "EDT" or "GMT+4".
+export function zoneAbbreviation(timeZone: string, at = new Date()) {
+  if (timeZone === "UTC") return "UTC";
+  return formatter(timeZone, { timeZoneName: "short" }).formatToParts(at).find(p => p.type === "timeZoneName")?.value ?? timeZone;
+}
+
+export function zonedHour(iso: string, timeZone: string) {
+  return zonedParts(new Date(iso), timeZone).hour;
+}
+
+// "YYYY-MM-DD" of the instant in the zone.
+export function zonedDate(date: Date, timeZone: string) {
+  const p = zonedParts(date, timeZone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+}
@@ -1,18 +1,35 @@
 import { useEffect, useState } from "react";
 import AppLayout from "@/components/layout/AppLayout";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { useAuth } from "@/contexts/AuthContext";
 import { logActivity } from "@/lib/supabase";
+import { FlightStatus, RETURN_TO_STAND_STATUSES, canTransition, statusLabel, transitionError } from "@/lib/flightStatus";
+import { delayEstimates, departureDelayMinutes, formatDelay } from "@/lib/flightTimes";
+import { DelayCode, totalMinutes } from "@/lib/delayAnalysis";
+import { WakeCategory } from "@/lib/aircraft";
+import { SlotFlight, movementKind, runwayConflicts } from "@/lib/runwaySlots";
+import { AircraftPerformance, aircraftRunwayFit } from "@/lib/runwayPerformance";
+import { RunwayClosure, describeClosure, flightClosure } from "@/lib/runwayClosures";
+import { Metar, describeWind, parseMetar } from "@/lib/metar";
+import { describeEndWind, runwayWinds, suggestConfiguration, surfaceWind } from "@/lib/runwayWind";
 import { useToast } from "@/hooks/use-toast";
+import { useAirports } from "@/hooks/use-airports";
+import { useTimeZone } from "@/contexts/TimeZoneContext";
+import AirportCombobox from "@/components/flights/AirportCombobox";
+import RunwayConflictBadge from "@/components/flights/RunwayConflictBadge";
+import WeatherPanel from "@/components/atc/WeatherPanel";
+import AtisPanel from "@/components/atc/AtisPanel";
+import DepartureManager from "@/components/atc/DepartureManager";
+import ArrivalManager from "@/components/atc/ArrivalManager";
 import { Button } from "@/components/ui/button";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { Radio, PlaneLanding, PlaneTakeoff, Clock, XCircle, AlertTriangle, CheckCircle, Plane } from "lucide-react";
-
-type FlightStatus = "scheduled" | "boarding" | "delayed" | "departed" | "landed" | "cancelled" | "emergency";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Radio, Plus, Trash2, PlaneLanding, PlaneTakeoff, Clock, XCircle, AlertTriangle, CheckCircle, Plane, Undo2, Waypoints } from "lucide-react";
 
 interface Flight {
   id: string;
@@ -23,8 +40,22 @@ interface Flight {
   status: FlightStatus;
   scheduled_departure: string;
   scheduled_arrival: string;
+  estimated_departure: string | null;
+  estimated_arrival: string | null;
+  actual_departure: string | null;
+  actual_arrival: string | null;
   runway_id: string | null;
   gate: string | null;
+  aircraft_id: string | null;
+  aircraft_type: string;
+  diversion_airport: string | null;
+  departure_sequence: number | null;
+  holding_stack_id: string | null;
+  holding_level_ft: number | null;
+  holding_entered_at: string | null;
+  expected_approach_at: string | null;
+  fuel_endurance_minutes: number | null;
+  fuel_reported_at: string | null;
   notes: string | null;
 }
 
@@ -32,105 +63,169 @@ interface Runway {
   id: string;
   name: string;
   status: string;
+  length_meters: number;
+  surface_type: string;
+  heading_degrees: number | null;
+  crosswind_limit_kt: number;
+  tailwind_limit_kt: number;
 }
 
 const statusBadge: Record<string, string> = {
   scheduled: "bg-[hsl(var(--status-scheduled)/0.15)] text-[hsl(var(--status-scheduled))] border-[hsl(var(--status-scheduled)/0.3)]",
   boarding: "bg-[hsl(var(--status-boarding)/0.15)] text-[hsl(var(--status-boarding))] border-[hsl(var(--status-boarding)/0.3)]",
   delayed: "bg-[hsl(var(--status-delayed)/0.15)] text-[hsl(var(--status-delayed))] border-[hsl(var(--status-delayed)/0.3)]",
+  lined_up: "bg-[hsl(var(--status-lined-up)/0.15)] text-[hsl(var(--status-lined-up))] border-[hsl(var(--status-lined-up)/0.3)]",
+  cleared_for_takeoff: "bg-[hsl(var(--status-cleared)/0.15)] text-[hsl(var(--status-cleared))] border-[hsl(var(--status-cleared)/0.3)]",
   departed: "bg-[hsl(var(--status-departed)/0.15)] text-[hsl(var(--status-departed))] border-[hsl(var(--status-departed)/0.3)]",
   landed: "bg-[hsl(var(--status-landed)/0.15)] text-[hsl(var(--status-landed))] border-[hsl(var(--status-landed)/0.3)]",
   cancelled: "bg-[hsl(var(--status-cancelled)/0.15)] text-[hsl(var(--status-cancelled))] border-[hsl(var(--status-cancelled)/0.3)]",
+  diverted: "bg-[hsl(var(--status-diverted)/0.15)] text-[hsl(var(--status-diverted))] border-[hsl(var(--status-diverted)/0.3)]",
   emergency: "bg-[hsl(var(--status-emergency)/0.15)] text-[hsl(var(--status-emergency))] border-[hsl(var(--status-emergency)/0.3)] animate-pulse",
 };
 
+type ATCAction = "landing" | "takeoff" | "delay" | "cancel" | "emergency" | "divert" | "return";
+
 interface PendingAction {
   flightId: string;
   flightNumber: string;
-  action: "landing" | "takeoff" | "delay" | "cancel" | "emergency";
+  action: ATCAction;
   newStatus: FlightStatus;
   title: string;
   description: string;
 }
 
+interface DelayLine {
+  code: string;
+  minutes: number;
+}
+
+const defaultDelayLines: DelayLine[] = [{ code: "", minutes: 30 }];
+
+const actionStatus: Record<ATCAction, FlightStatus> = {
+  landing: "landed", takeoff: "departed", delay: "delayed", cancel: "cancelled", emergency: "emergency",
+  divert: "diverted", return: "delayed",
+};
+
 export default function ATCPanel() {
   const { user, isATC } = useAuth();
   const { toast } = useToast();
+  const { airports, city, home } = useAirports();
+  const { formatTime, formatDateTime, zoneLabel } = useTimeZone();
   const [flights, setFlights] = useState<Flight[]>([]);
   const [runways, setRunways] = useState<Runway[]>([]);
+  const [wakeByAircraft, setWakeByAircraft] = useState<Record<string, WakeCategory>>({});
+  const [closures, setClosures] = useState<RunwayClosure[]>([]);
+  const [performance, setPerformance] = useState<AircraftPerformance[]>([]);
+  const [metar, setMetar] = useState<Metar | null>(null);
+  const [metarId, setMetarId] = useState<string | null>(null);
+  const [metarStation, setMetarStation] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
-  const [emergencyNote, setEmergencyNote] = useState("");
-  const [emergencyFlightId, setEmergencyFlightId] = useState<string | null>(null);
-  const [delayMinutes, setDelayMinutes] = useState(30);
+  const [actionNote, setActionNote] = useState("");
+  const [delayCodes, setDelayCodes] = useState<DelayCode[]>([]);
+  const [delayLines, setDelayLines] = useState<DelayLine[]>(defaultDelayLines);
   const [delayReason, setDelayReason] = useState("");
   const [showDelay, setShowDelay] = useState<Flight | null>(null);
+  const [showDivert, setShowDivert] = useState<Flight | null>(null);
+  const [diversion, setDiversion] = useState({ airport: "", reason: "" });
 
   const fetchData = async () => {
-    const [fRes, rRes] = await Promise.all([
-      supabase.from("flights").select("*").not("status", "in", '("landed","cancelled","departed")').order("scheduled_departure"),
-      supabase.from("runways").select("id, name, status"),
+    const [fRes, rRes, cRes] = await Promise.all([
+      supabase.from("flights").select("*").not("status", "in", '("landed","cancelled")').order("scheduled_departure"),
+      supabase.from("runways").select("id, name, status, length_meters, surface_type, heading_degrees, crosswind_limit_kt, tailwind_limit_kt").order("name"),
+      supabase.from("runway_closures").select("*").gt("ends_at", new Date().toISOString()),
     ]);
     setFlights((fRes.data || []) as Flight[]);
     setRunways(rRes.data || []);
+    setClosures((cRes.data || []) as RunwayClosure[]);
     setLoading(false);
   };
 
   useEffect(() => {
     fetchData();
+    supabase.from("delay_codes").select("*").order("code").then(({ data }) => setDelayCodes(data || []));
+    supabase.from("aircraft_performance").select("*").then(({ data }) => setPerformance(data || []));
+    supabase.from("aircraft").select("id, wake_category").then(({ data }) => {
+      const map: Record<string, WakeCategory> = {};
+      (data || []).forEach(a => { map[a.id] = a.wake_category; });
+      setWakeByAircraft(map);
+    });
     const channel = supabase.channel("atc-panel")
       .on("postgres_changes", { event: "*", schema: "public", table: "flights" }, fetchData)
       .on("postgres_changes", { event: "*", schema: "public", table: "runways" }, fetchData)
+      .on("postgres_changes", { event: "*", schema: "public", table: "runway_closures" }, fetchData)
       .subscribe();
     return () => { supabase.removeChannel(channel); };
   }, []);
 
+  // Only the home station's METAR drives the wind checks and the ATIS; a dropped
+  // file may hold reports for other airports. Without an ICAO code there is none.
+  const homeIcao = home ? home.icao ?? "" : null;
+  useEffect(() => {
+    if (homeIcao === null) return;
+    if (!homeIcao) {
+      setMetar(null);
+      setMetarId(null);
+      setMetarStation("");
+      return;
+    }
+    const fetchMetar = async () => {
+      const { data } = await supabase.from("weather_observations").select("id, raw_text, observed_at")
+        .eq("kind", "metar").eq("station", homeIcao)
+        .order("observed_at", { ascending: false }).limit(1).maybeSingle();
+      setMetar(data ? parseMetar(data.raw_text, new Date(data.observed_at)) : null);
+      setMetarId(data?.id ?? null);
+      setMetarStation(homeIcao);
+    };
+    fetchMetar();
+    const channel = supabase.channel("atc-metar")
+      .on("postgres_changes", { event: "*", schema: "public", table: "weather_observations" }, fetchMetar)
+      .subscribe();
+    return () => { supabase.removeChannel(channel); };
+  }, [homeIcao]);
+
   const executeAction = async () => {
     if (!pendingAction) return;
     const { flightId, flightNumber, action, newStatus, title } = pendingAction;
-
-    let updates: Record<string, unknown> = { status: newStatus };
-    if (newStatus === "departed") updates.actual_departure = new Date().toISOString();
-    if (newStatus === "landed") updates.actual_arrival = new Date().toISOString();
-
-    // Release runway on landing/cancel
-    if (["landed", "cancelled", "departed"].includes(newStatus)) {
-      const f = flights.find(fl => fl.id === flightId);
-      if (f?.runway_id) {
-        await supabase.from("runways").update({ status: "available" }).eq("id", f.runway_id);
-        updates.runway_id = null;
-      }
+    const f = flights.find(fl => fl.id === flightId);
+    if (f && !canTransition(f.status, newStatus)) {
+      toast({ title: "Invalid Status", description: transitionError(f.status, newStatus), variant: "destructive" });
+      setPendingAction(null);
+      return;
     }
 
-    const { error } = await supabase.from("flights").update(updates).eq("id", flightId);
+    // Clearances update the flight, free its runway and settle its alerts in one transaction.
+    const { error } =
+      action === "takeoff" ? await supabase.rpc("approve_takeoff", { _flight_id: flightId })
+      : action === "landing" ? await supabase.rpc("approve_landing", { _flight_id: flightId })
+      : action === "cancel" ? await supabase.rpc("cancel_flight", { _flight_id: flightId, _note: actionNote || undefined })
+      : action === "return" ? await supabase.rpc("return_to_stand", { _flight_id: flightId, _reason: actionNote || undefined })
+      : await supabase.from("flights").update({ status: newStatus }).eq("id", flightId);
     if (error) { toast({ title: "Error", description: error.message, variant: "destructive" }); }
     else {
       toast({ title, description: `${flightNumber} status updated.` });
       await logActivity(user!.id, `ATC: ${title} for ${flightNumber}`, "flight", flightId, { action });
 
-      // Create alert for significant events
-      if (["emergency", "cancelled"].includes(newStatus)) {
+      // Create alert for significant events; cancel_flight and return_to_stand raise their own.
+      if (newStatus === "emergency") {
         await supabase.from("alerts").insert([{
-          title: newStatus === "emergency" ? `EMERGENCY: ${flightNumber}` : `Flight Cancelled: ${flightNumber}`,
-          message: emergencyNote || `${flightNumber} status changed to ${newStatus}`,
-          severity: newStatus === "emergency" ? "emergency" : "critical",
+          title: `EMERGENCY: ${flightNumber}`,
+          message: actionNote || `${flightNumber} status changed to ${newStatus}`,
+          severity: "emergency",
           flight_id: flightId,
           created_by: user!.id,
         }]);
       }
     }
     setPendingAction(null);
-    setEmergencyNote("");
+    setActionNote("");
     fetchData();
   };
 
-  const confirmAction = (flight: Flight, action: "landing" | "takeoff" | "delay" | "cancel" | "emergency") => {
-    const statusMap: Record<string, FlightStatus> = {
-      landing: "landed", takeoff: "departed", delay: "delayed", cancel: "cancelled", emergency: "emergency",
-    };
+  const confirmAction = (flight: Flight, action: ATCAction) => {
     const titleMap: Record<string, string> = {
       landing: "Approve Landing", takeoff: "Approve Takeoff", delay: "Delay Flight",
-      cancel: "Cancel Flight", emergency: "Activate Emergency",
+      cancel: "Cancel Flight", emergency: "Activate Emergency", return: "Return to Stand",
     };
     const descMap: Record<string, string> = {
       landing: `Approve landing clearance for ${flight.flight_number}?`,
@@ -138,49 +233,105 @@ export default function ATCPanel() {
       delay: `Mark ${flight.flight_number} as delayed?`,
       cancel: `Cancel flight ${flight.flight_number}? This will release the runway.`,
       emergency: `Declare EMERGENCY for ${flight.flight_number}? This will trigger alerts.`,
+      return: `Return ${flight.flight_number} to stand? It will be marked delayed and can depart again.`,
     };
     if (action === "delay") { setShowDelay(flight); return; }
-    setPendingAction({ flightId: flight.id, flightNumber: flight.flight_number, action, newStatus: statusMap[action] as FlightStatus, title: titleMap[action], description: descMap[action] });
-    if (action === "emergency") setEmergencyFlightId(flight.id);
+    if (action === "divert") { setDiversion({ airport: "", reason: "" }); setShowDivert(flight); return; }
+    setPendingAction({ flightId: flight.id, flightNumber: flight.flight_number, action, newStatus: actionStatus[action], title: titleMap[action], description: descMap[action] });
+  };
+
+  const handleDivert = async () => {
+    if (!showDivert) return;
+    const f = showDivert;
+    if (!diversion.airport || !diversion.reason.trim()) {
+      toast({ title: "Validation Error", description: "A diversion needs an airport and a reason.", variant: "destructive" });
+      return;
+    }
+    if (diversion.airport === f.destination) {
+      toast({ title: "Validation Error", description: `${f.flight_number} is already bound for ${f.destination}.`, variant: "destructive" });
+      return;
+    }
+    if (!canTransition(f.status, "diverted")) {
+      toast({ title: "Invalid Status", description: transitionError(f.status, "diverted"), variant: "destructive" });
+      return;
+    }
+    // The database frees the runway, raises the diversion alert and flags passengers for rebooking.
+    const { error } = await supabase.rpc("divert_flight", {
+      _flight_id: f.id,
+      _airport: diversion.airport,
+      _reason: diversion.reason.trim(),
+    });
+    if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
+    else {
+      toast({ title: "Flight Diverted", description: `${f.flight_number} diverted to ${city(diversion.airport)} (${diversion.airport}).` });
+      await logActivity(user!.id, `ATC: Diverted ${f.flight_number} to ${diversion.airport}`, "flight", f.id, { action: "divert", airport: diversion.airport, reason: diversion.reason.trim() });
+    }
+    setShowDivert(null);
+    fetchData();
   };
 
   const handleDelay = async () => {
     if (!showDelay) return;
     const f = showDelay;
-    const newDep = new Date(new Date(f.scheduled_departure).getTime() + delayMinutes * 60000);
-    const newArr = new Date(new Date(f.scheduled_arrival).getTime() + delayMinutes * 60000);
-    const { error } = await supabase.from("flights").update({
-      status: "delayed",
-      scheduled_departure: newDep.toISOString(),
-      scheduled_arrival: newArr.toISOString(),
-      notes: delayReason || f.notes,
-    }).eq("id", f.id);
-    if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
-    else {
-      toast({ title: "Flight Delayed", description: `${f.flight_number} delayed by ${delayMinutes} minutes.` });
-      await logActivity(user!.id, `Delayed ${f.flight_number} by ${delayMinutes} min: ${delayReason}`, "flight", f.id);
-      await supabase.from("alerts").insert([{
-        title: `Flight Delayed: ${f.flight_number}`,
-        message: `${f.flight_number} delayed by ${delayMinutes} minutes. Reason: ${delayReason || "Not specified"}`,
-        severity: "warning",
-        flight_id: f.id,
-        created_by: user!.id,
-      }]);
+    if (delayLines.some(l => !l.code || l.minutes <= 0)) {
+      toast({ title: "Validation Error", description: "Every delay line needs a code and a positive number of minutes.", variant: "destructive" });
+      return;
     }
+    const { data, error } = await supabase.rpc("delay_flight", {
+      _flight_id: f.id,
+      _delays: delayLines as unknown as Json,
+      _remarks: delayReason || undefined,
+    });
+    if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
+    else toast({ title: "Flight Delayed", description: `${f.flight_number} delayed by ${data} minutes.` });
     setShowDelay(null);
     setDelayReason("");
-    setDelayMinutes(30);
+    setDelayLines(defaultDelayLines);
     fetchData();
   };
 
+  const updateDelayLine = (index: number, patch: Partial<DelayLine>) =>
+    setDelayLines(lines => lines.map((l, i) => (i === index ? { ...l, ...patch } : l)));
+
   const runwayName = (id: string | null) => runways.find(r => r.id === id)?.name || "—";
 
+  const wind = metar?.wind ? surfaceWind(metar.wind) : null;
+  const endWinds = wind ? runwayWinds(runways, wind) : [];
+  const configuration = wind ? suggestConfiguration(runways, wind) : null;
+  const suggested = (designator: string, runwayId: string) =>
+    !!configuration?.ends.some(e => e.end.runwayId === runwayId && e.end.designator === designator);
+
+  const slotFlight = (f: Flight): SlotFlight => ({ ...f, wake_category: f.aircraft_id ? wakeByAircraft[f.aircraft_id] : null });
+  const slotFlights = flights.map(slotFlight);
+  const conflictsOn = (f: Flight, runwayId: string) => runwayConflicts(slotFlight(f), runwayId, slotFlights, home?.iata);
+
+  const assignRunway = async (f: Flight, runwayId: string | null) => {
+    const { error } = await supabase.rpc("assign_runway", { _flight_id: f.id, _runway_id: runwayId });
+    if (error) { toast({ title: "Error", description: error.message, variant: "destructive" }); return; }
+    const name = runwayId ? runwayName(runwayId) : null;
+    toast({ title: "Runway Assigned", description: name ? `${f.flight_number} assigned to ${name}.` : `${f.flight_number} runway cleared.` });
+    await logActivity(user!.id, name ? `ATC: Assigned ${name} to ${f.flight_number}` : `ATC: Cleared runway for ${f.flight_number}`, "flight", f.id, { runway_id: runwayId });
+    fetchData();
+  };
+
+  // A delayed flight may be delayed again; every other action needs an actual status change.
+  // Only a flight cleared through the departure queue may take off, and only
+  // one that has not taken off may return to the stand.
+  const actionEnabled = (f: Flight, action: ATCAction) => {
+    if (action === "takeoff") return f.status === "cleared_for_takeoff";
+    if (action === "return") return RETURN_TO_STAND_STATUSES.includes(f.status);
+    const target = actionStatus[action];
+    return canTransition(f.status, target) && (action === "delay" || f.status !== target);
+  };
+
   const atcActions = [
-    { action: "landing" as const, icon: PlaneLanding, label: "Approve Landing", color: "bg-[hsl(var(--status-landed)/0.1)] text-[hsl(var(--status-landed))] border-[hsl(var(--status-landed)/0.3)] hover:bg-[hsl(var(--status-landed)/0.2)]", validStatuses: ["boarding", "scheduled"] },
-    { action: "takeoff" as const, icon: PlaneTakeoff, label: "Approve Takeoff", color: "bg-[hsl(var(--status-departed)/0.1)] text-[hsl(var(--status-departed))] border-[hsl(var(--status-departed)/0.3)] hover:bg-[hsl(var(--status-departed)/0.2)]", validStatuses: ["boarding", "scheduled"] },
-    { action: "delay" as const, icon: Clock, label: "Delay", color: "bg-[hsl(var(--status-delayed)/0.1)] text-[hsl(var(--status-delayed))] border-[hsl(var(--status-delayed)/0.3)] hover:bg-[hsl(var(--status-delayed)/0.2)]", validStatuses: ["scheduled", "boarding"] },
-    { action: "cancel" as const, icon: XCircle, label: "Cancel", color: "bg-[hsl(var(--status-cancelled)/0.1)] text-[hsl(var(--status-cancelled))] border-[hsl(var(--status-cancelled)/0.3)] hover:bg-[hsl(var(--status-cancelled)/0.2)]", validStatuses: ["scheduled", "boarding", "delayed"] },
-    { action: "emergency" as const, icon: AlertTriangle, label: "Emergency", color: "bg-[hsl(var(--status-emergency)/0.1)] text-[hsl(var(--status-emergency))] border-[hsl(var(--status-emergency)/0.3)] hover:bg-[hsl(var(--status-emergency)/0.2)]", validStatuses: ["scheduled", "boarding", "delayed", "landed"] },
+    { action: "landing" as const, icon: PlaneLanding, label: "Approve Landing", color: "bg-[hsl(var(--status-landed)/0.1)] text-[hsl(var(--status-landed))] border-[hsl(var(--status-landed)/0.3)] hover:bg-[hsl(var(--status-landed)/0.2)]" },
+    { action: "takeoff" as const, icon: PlaneTakeoff, label: "Approve Takeoff", color: "bg-[hsl(var(--status-departed)/0.1)] text-[hsl(var(--status-departed))] border-[hsl(var(--status-departed)/0.3)] hover:bg-[hsl(var(--status-departed)/0.2)]" },
+    { action: "delay" as const, icon: Clock, label: "Delay", color: "bg-[hsl(var(--status-delayed)/0.1)] text-[hsl(var(--status-delayed))] border-[hsl(var(--status-delayed)/0.3)] hover:bg-[hsl(var(--status-delayed)/0.2)]" },
+    { action: "cancel" as const, icon: XCircle, label: "Cancel", color: "bg-[hsl(var(--status-cancelled)/0.1)] text-[hsl(var(--status-cancelled))] border-[hsl(var(--status-cancelled)/0.3)] hover:bg-[hsl(var(--status-cancelled)/0.2)]" },
+    { action: "divert" as const, icon: Waypoints, label: "Divert", color: "bg-[hsl(var(--status-diverted)/0.1)] text-[hsl(var(--status-diverted))] border-[hsl(var(--status-diverted)/0.3)] hover:bg-[hsl(var(--status-diverted)/0.2)]" },
+    { action: "return" as const, icon: Undo2, label: "Return to Stand", color: "bg-[hsl(var(--status-scheduled)/0.1)] text-[hsl(var(--status-scheduled))] border-[hsl(var(--status-scheduled)/0.3)] hover:bg-[hsl(var(--status-scheduled)/0.2)]" },
+    { action: "emergency" as const, icon: AlertTriangle, label: "Emergency", color: "bg-[hsl(var(--status-emergency)/0.1)] text-[hsl(var(--status-emergency))] border-[hsl(var(--status-emergency)/0.3)] hover:bg-[hsl(var(--status-emergency)/0.2)]" },
   ];
 
   return (
@@ -201,6 +352,15 @@ export default function ATCPanel() {
             <Radio className="w-4 h-4 text-primary" />
             Runway Status — Live
           </h3>
+          {metar?.wind && (
+            <p className="text-xs text-muted-foreground mb-2">
+              Wind {describeWind(metar.wind)} at {formatTime(metar.observedAt, home?.iata)}
+              {" · "}
+              {configuration
+                ? <span className="text-primary font-semibold">Suggested: {configuration.ends.map(e => e.end.designator).join(", ")} ({describeEndWind(configuration.ends[0])})</span>
+                : <span className="text-destructive font-semibold">No runway end is within its wind limits</span>}
+            </p>
+          )}
           <div className="flex flex-wrap gap-2">
             {runways.map(r => (
               <div key={r.id} className={`px-3 py-1.5 rounded-lg border text-xs font-semibold ${
@@ -210,11 +370,53 @@ export default function ATCPanel() {
                 "bg-[hsl(var(--runway-closed)/0.1)] border-[hsl(var(--runway-closed)/0.3)] text-[hsl(var(--runway-closed))]"
               }`}>
                 {r.name} — {r.status}
+                {endWinds.filter(e => e.end.runwayId === r.id).map(e => {
+                  const exceeded = e.crosswindExceeded || e.tailwindExceeded;
+                  return (
+                    <p
+                      key={e.end.designator}
+                      title={`Limits: crosswind ${r.crosswind_limit_kt} kt, tailwind ${r.tailwind_limit_kt} kt. Worst case: crosswind ${e.maxCrosswind} kt, tailwind ${e.maxTailwind} kt.`}
+                      className={`font-mono font-normal text-[10px] ${exceeded ? "text-destructive font-semibold" : suggested(e.end.designator, r.id) ? "text-primary font-semibold" : "text-muted-foreground"}`}
+                    >
+                      {e.end.designator} {e.end.heading.toString().padStart(3, "0")}° · {describeEndWind(e)}
+                      {e.crosswindExceeded && " · crosswind limit"}
+                      {e.tailwindExceeded && " · tailwind limit"}
+                    </p>
+                  );
+                })}
               </div>
             ))}
           </div>
         </div>
 
+        <WeatherPanel canEdit={isATC()} />
+
+        <AtisPanel runways={runways} closures={closures} metar={metar} observationId={metarId} loaded={!loading && metarStation === homeIcao} canEdit={isATC()} />
+
+        <DepartureManager
+          runways={runways}
+          flights={flights.map(f => ({ ...slotFlight(f), departure_sequence: f.departure_sequence }))}
+          home={home?.iata}
+          canEdit={isATC()}
+          onChange={fetchData}
+        />
+
+        <ArrivalManager
+          runways={runways}
+          flights={flights.map(f => ({
+            ...slotFlight(f),
+            holding_stack_id: f.holding_stack_id,
+            holding_level_ft: f.holding_level_ft,
+            holding_entered_at: f.holding_entered_at,
+            expected_approach_at: f.expected_approach_at,
+            fuel_endurance_minutes: f.fuel_endurance_minutes,
+            fuel_reported_at: f.fuel_reported_at,
+          }))}
+          home={home?.iata}
+          canEdit={isATC()}
+          onChange={fetchData}
+        />
+
         {/* Flights Control */}
         <div className="glass-card rounded-xl overflow-hidden">
           <div className="px-4 py-3 border-b border-border flex items-center justify-between">
@@ -242,27 +444,56 @@ export default function ATCPanel() {
                         <div className="flex items-center gap-2">
                           <span className="font-mono font-bold text-primary">{f.flight_number}</span>
                           <span className={`text-xs font-semibold px-2 py-0.5 rounded border capitalize ${statusBadge[f.status]}`}>
-                            {f.status}
+                            {statusLabel(f.status)}
                           </span>
                         </div>
                         <p className="text-sm text-muted-foreground">{f.airline}</p>
                       </div>
                       <div className="hidden md:block">
-                        <p className="text-sm font-medium text-foreground">{f.origin} → {f.destination}</p>
+                        <p className="text-sm font-medium text-foreground">{f.origin} → {f.destination} <span className="text-xs font-normal text-muted-foreground">{city(f.origin)} → {city(f.destination)}</span></p>
+                        {f.diversion_airport && (
+                          <p className="text-xs font-semibold text-[hsl(var(--status-diverted))]">Diverting to {f.diversion_airport} · {city(f.diversion_airport)}</p>
+                        )}
                         <p className="text-xs text-muted-foreground">
-                          Dep: {new Date(f.scheduled_departure).toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit" })} · Gate: {f.gate || "—"} · {runwayName(f.runway_id)}
+                          STD: {formatTime(f.scheduled_departure, f.origin)} {zoneLabel(f.origin)}
+                          {f.estimated_departure && (
+                            <> · ETD: {formatTime(f.estimated_departure, f.origin)} ({formatDelay(departureDelayMinutes(f))})</>
+                          )}
+                          {" "}· Gate: {f.gate || "—"} · {runwayName(f.runway_id)}
                         </p>
+                        {f.runway_id && <RunwayConflictBadge conflicts={conflictsOn(f, f.runway_id)} flightId={f.id} />}
                       </div>
                     </div>
 
                     {/* Action buttons */}
                     {isATC() && (
                       <div className="flex flex-wrap gap-1.5">
+                        <Select value={f.runway_id || "none"} onValueChange={v => assignRunway(f, v === "none" ? null : v)}>
+                          <SelectTrigger className="w-40 h-[30px] text-xs bg-muted border-border"><SelectValue placeholder="Runway" /></SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">No runway</SelectItem>
+                            {runways.filter(r => ["available", "occupied"].includes(r.status) || r.id === f.runway_id).map(r => {
+                              const conflicts = r.id === f.runway_id ? [] : conflictsOn(f, r.id);
+                              const closure = r.id === f.runway_id ? null : flightClosure(slotFlight(f), r.id, closures, home?.iata);
+                              const fit = r.id === f.runway_id ? null : aircraftRunwayFit(f.aircraft_type, performance, r, movementKind(f, home?.iata));
+                              return (
+                                <SelectItem key={r.id} value={r.id} disabled={!!closure || fit?.level === "block"}>
+                                  {r.name}
+                                  {closure
+                                    ? <span className="text-destructive"> · {describeClosure(closure, iso => formatDateTime(iso, home?.iata))}</span>
+                                    : fit?.level === "block"
+                                      ? <span className="text-destructive"> · unsuitable</span>
+                                      : conflicts.length > 0 && <span className="text-[hsl(var(--status-delayed))]"> · {conflicts.length} conflict{conflicts.length > 1 ? "s" : ""}</span>}
+                                </SelectItem>
+                              );
+                            })}
+                          </SelectContent>
+                        </Select>
                         {atcActions.map(a => (
                           <button
                             key={a.action}
                             onClick={() => confirmAction(f, a.action)}
-                            disabled={!a.validStatuses.includes(f.status)}
+                            disabled={!actionEnabled(f, a.action)}
                             className={`flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg border text-xs font-semibold transition-all disabled:opacity-30 disabled:cursor-not-allowed ${a.color}`}
                           >
                             <a.icon className="w-3 h-3" />
@@ -288,13 +519,13 @@ export default function ATCPanel() {
             </AlertDialogTitle>
             <AlertDialogDescription>{pendingAction?.description}</AlertDialogDescription>
           </AlertDialogHeader>
-          {pendingAction?.action === "emergency" && (
+          {(pendingAction?.action === "emergency" || pendingAction?.action === "return") && (
             <div className="space-y-1.5">
-              <Label className="text-xs">Emergency Notes</Label>
+              <Label className="text-xs">{pendingAction.action === "emergency" ? "Emergency Notes" : "Reason"}</Label>
               <Textarea
-                value={emergencyNote}
-                onChange={e => setEmergencyNote(e.target.value)}
-                placeholder="Describe the emergency situation..."
+                value={actionNote}
+                onChange={e => setActionNote(e.target.value)}
+                placeholder={pendingAction.action === "emergency" ? "Describe the emergency situation..." : "Why is the flight returning to stand?"}
                 className="bg-muted border-border resize-none h-20"
               />
             </div>
@@ -314,20 +545,87 @@ export default function ATCPanel() {
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Divert dialog */}
+      <Dialog open={!!showDivert} onOpenChange={() => setShowDivert(null)}>
+        <DialogContent className="bg-card border-border max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Divert Flight {showDivert?.flight_number}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3 py-2">
+            {showDivert && (
+              <p className="text-xs text-muted-foreground">
+                Planned route {showDivert.origin} → {showDivert.destination} ({city(showDivert.origin)} → {city(showDivert.destination)})
+              </p>
+            )}
+            <div className="space-y-1.5">
+              <Label className="text-xs">Diversion Airport *</Label>
+              <AirportCombobox airports={airports} value={diversion.airport} onChange={v => setDiversion(d => ({ ...d, airport: v }))} placeholder="Select alternate..." />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Reason *</Label>
+              <Textarea
+                value={diversion.reason}
+                onChange={e => setDiversion(d => ({ ...d, reason: e.target.value }))}
+                placeholder="Weather at destination, medical, technical..."
+                className="bg-muted border-border resize-none h-20"
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">A critical alert is raised and passengers on this flight are flagged for rebooking.</p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDivert(null)}>Cancel</Button>
+            <Button onClick={handleDivert} className="bg-[hsl(var(--status-diverted))] text-white hover:opacity-90">
+              Confirm Diversion
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Delay dialog */}
       <Dialog open={!!showDelay} onOpenChange={() => setShowDelay(null)}>
-        <DialogContent className="bg-card border-border">
+        <DialogContent className="bg-card border-border max-w-lg">
           <DialogHeader>
             <DialogTitle>Delay Flight {showDelay?.flight_number}</DialogTitle>
           </DialogHeader>
           <div className="space-y-3 py-2">
             <div className="space-y-1.5">
-              <Label className="text-xs">Delay Duration (minutes)</Label>
-              <Input type="number" value={delayMinutes} onChange={e => setDelayMinutes(Number(e.target.value))} min={5} step={5} className="bg-muted border-border" />
+              <Label className="text-xs">IATA Delay Codes</Label>
+              {delayLines.map((l, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <Select value={l.code} onValueChange={v => updateDelayLine(i, { code: v })}>
+                    <SelectTrigger className="flex-1 bg-muted border-border"><SelectValue placeholder="Select code..." /></SelectTrigger>
+                    <SelectContent>
+                      {delayCodes.map(c => (
+                        <SelectItem key={c.code} value={c.code}>{c.code} — {c.description}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input type="number" value={l.minutes} onChange={e => updateDelayLine(i, { minutes: Number(e.target.value) })} min={1} step={5} className="w-24 bg-muted border-border" />
+                  <button
+                    onClick={() => setDelayLines(lines => lines.filter((_, j) => j !== i))}
+                    disabled={delayLines.length === 1}
+                    className="p-1.5 rounded hover:bg-destructive/10 text-muted-foreground hover:text-destructive transition-colors disabled:opacity-30"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => setDelayLines(lines => [...lines, { code: "", minutes: 15 }])}
+                className="flex items-center gap-1.5 text-xs text-primary hover:underline"
+              >
+                <Plus className="w-3 h-3" /> Add code
+              </button>
+              {showDelay && (
+                <p className="text-xs text-muted-foreground font-mono">
+                  Total: {totalMinutes(delayLines)} min · New ETD: {formatTime(delayEstimates(showDelay, totalMinutes(delayLines)).estimated_departure, showDelay.origin)}
+                  {" "}(STD {formatTime(showDelay.scheduled_departure, showDelay.origin)} {zoneLabel(showDelay.origin)})
+                </p>
+              )}
             </div>
             <div className="space-y-1.5">
-              <Label className="text-xs">Reason</Label>
-              <Input value={delayReason} onChange={e => setDelayReason(e.target.value)} placeholder="Weather, technical, traffic..." className="bg-muted border-border" />
+              <Label className="text-xs">Remarks</Label>
+              <Input value={delayReason} onChange={e => setDelayReason(e.target.value)} placeholder="Optional details..." className="bg-muted border-border" />
             </div>
           </div>
           <DialogFooter>
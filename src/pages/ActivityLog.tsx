@@ -1,6 +1,7 @@
 import { useEffect, useState } from "react";
 import AppLayout from "@/components/layout/AppLayout";
 import { supabase } from "@/integrations/supabase/client";
+import { useTimeZone } from "@/contexts/TimeZoneContext";
 import { Activity, Plane, Wind, Users, Bell, Radio } from "lucide-react";
 
 interface ActivityEntry {
@@ -29,6 +30,7 @@ const entityColors: Record<string, string> = {
 };
 
 export default function ActivityLog() {
+  const { formatDateTime } = useTimeZone();
   const [activities, setActivities] = useState<ActivityEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState("all");
@@ -104,7 +106,7 @@ export default function ActivityLog() {
                       {a.entity_type}
                     </div>
                     <span className="text-xs text-muted-foreground font-mono whitespace-nowrap">
-                      {new Date(a.created_at).toLocaleString("en-US", { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit", second: "2-digit" })}
+                      {formatDateTime(a.created_at, null, true)}
                     </span>
                   </div>
                 );
@@ -2,9 +2,11 @@ import { useEffect, useState } from "react";
 import AppLayout from "@/components/layout/AppLayout";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { refreshAirports, useAirports } from "@/hooks/use-airports";
+import AirportCombobox from "@/components/flights/AirportCombobox";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Shield, Users, Check } from "lucide-react";
+import { Shield, Users, Check, MapPin } from "lucide-react";
 
 interface User {
   id: string;
@@ -15,6 +17,7 @@ interface User {
 
 export default function Admin() {
   const { toast } = useToast();
+  const { airports, home } = useAirports();
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -42,6 +45,15 @@ export default function Admin() {
     }
   };
 
+  const handleHomeAirport = async (iata: string) => {
+    const { error } = await supabase.rpc("set_home_airport", { _iata: iata });
+    if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
+    else {
+      toast({ title: "Home Airport Updated", description: `Airport time now follows ${iata}.` });
+      await refreshAirports();
+    }
+  };
+
   const roleColors: Record<string, string> = {
     admin: "text-[hsl(var(--status-emergency))]",
     atc: "text-primary",
@@ -51,6 +63,21 @@ export default function Admin() {
   return (
     <AppLayout title="Admin Panel">
       <div className="space-y-4 animate-fade-in-up">
+        <div className="glass-card rounded-xl p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+          <div className="flex items-center gap-2 flex-1">
+            <MapPin className="w-4 h-4 text-primary" />
+            <div>
+              <h3 className="text-sm font-semibold text-foreground">Home Airport</h3>
+              <p className="text-xs text-muted-foreground">
+                Sets the zone for airport time and for day boundaries on operational pages{home ? ` · currently ${home.timezone}` : ""}.
+              </p>
+            </div>
+          </div>
+          <div className="w-full sm:w-72">
+            <AirportCombobox airports={airports} value={home?.iata ?? ""} onChange={handleHomeAirport} placeholder="Not set — UTC is used" />
+          </div>
+        </div>
+
         <div className="glass-card rounded-xl overflow-hidden">
           <div className="px-4 py-3 border-b border-border flex items-center gap-2">
             <Shield className="w-4 h-4 text-primary" />
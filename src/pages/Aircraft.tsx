@@ -0,0 +1,310 @@
+import { useEffect, useState } from "react";
+import AppLayout from "@/components/layout/AppLayout";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { logActivity } from "@/lib/supabase";
+import { WAKE_CATEGORIES, WakeCategory, formatSeatConfig, seatCapacity, wakeCategoryForMtow } from "@/lib/aircraft";
+import { useToast } from "@/hooks/use-toast";
+import PerformanceTable from "@/components/aircraft/PerformanceTable";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Search, Edit, Trash2, PlaneTakeoff } from "lucide-react";
+
+interface Aircraft {
+  id: string;
+  registration: string;
+  aircraft_type: string;
+  airline: string | null;
+  seats_first: number;
+  seats_business: number;
+  seats_economy: number;
+  capacity: number;
+  mtow_kg: number | null;
+  wake_category: WakeCategory;
+  notes: string | null;
+}
+
+const wakeBadge: Record<WakeCategory, string> = {
+  L: "bg-[hsl(var(--status-landed)/0.1)] text-[hsl(var(--status-landed))] border-[hsl(var(--status-landed)/0.3)]",
+  M: "bg-[hsl(var(--status-scheduled)/0.1)] text-[hsl(var(--status-scheduled))] border-[hsl(var(--status-scheduled)/0.3)]",
+  H: "bg-[hsl(var(--status-delayed)/0.1)] text-[hsl(var(--status-delayed))] border-[hsl(var(--status-delayed)/0.3)]",
+  J: "bg-[hsl(var(--status-emergency)/0.1)] text-[hsl(var(--status-emergency))] border-[hsl(var(--status-emergency)/0.3)]",
+};
+
+const defaultForm = {
+  registration: "", aircraft_type: "", airline: "",
+  seats_first: 0, seats_business: 0, seats_economy: 180,
+  mtow_kg: "", wake_category: "M" as WakeCategory, notes: "",
+};
+
+export default function Aircraft() {
+  const { user, canManageFlights } = useAuth();
+  const { toast } = useToast();
+  const [aircraft, setAircraft] = useState<Aircraft[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const [form, setForm] = useState(defaultForm);
+  const [editId, setEditId] = useState<string | null>(null);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const fetchAircraft = async () => {
+    const { data } = await supabase.from("aircraft").select("*").order("registration");
+    setAircraft((data || []) as Aircraft[]);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchAircraft();
+    const channel = supabase.channel("aircraft-page")
+      .on("postgres_changes", { event: "*", schema: "public", table: "aircraft" }, fetchAircraft)
+      .subscribe();
+    return () => { supabase.removeChannel(channel); };
+  }, []);
+
+  const filtered = aircraft.filter(a => {
+    const q = search.toLowerCase();
+    return a.registration.toLowerCase().includes(q) ||
+      a.aircraft_type.toLowerCase().includes(q) ||
+      (a.airline || "").toLowerCase().includes(q);
+  });
+
+  const openAdd = () => { setForm(defaultForm); setEditId(null); setShowForm(true); };
+  const openEdit = (a: Aircraft) => {
+    setForm({
+      registration: a.registration, aircraft_type: a.aircraft_type, airline: a.airline || "",
+      seats_first: a.seats_first, seats_business: a.seats_business, seats_economy: a.seats_economy,
+      mtow_kg: a.mtow_kg?.toString() || "", wake_category: a.wake_category, notes: a.notes || "",
+    });
+    setEditId(a.id);
+    setShowForm(true);
+  };
+
+  // Entering a take-off mass suggests the matching wake category; it can still be overridden.
+  const setMtow = (value: string) => {
+    setForm(p => ({
+      ...p,
+      mtow_kg: value,
+      wake_category: Number(value) > 0 ? wakeCategoryForMtow(Number(value), p.aircraft_type) : p.wake_category,
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!form.registration || !form.aircraft_type) {
+      toast({ title: "Validation Error", description: "Registration and type are required.", variant: "destructive" });
+      return;
+    }
+    if (seatCapacity(form) <= 0) {
+      toast({ title: "Validation Error", description: "The seat configuration must have at least one seat.", variant: "destructive" });
+      return;
+    }
+    setSaving(true);
+    const payload = {
+      registration: form.registration.trim().toUpperCase(),
+      aircraft_type: form.aircraft_type.trim(),
+      airline: form.airline.trim() || null,
+      seats_first: Number(form.seats_first),
+      seats_business: Number(form.seats_business),
+      seats_economy: Number(form.seats_economy),
+      mtow_kg: form.mtow_kg ? Number(form.mtow_kg) : null,
+      wake_category: form.wake_category,
+      notes: form.notes || null,
+    };
+    if (editId) {
+      const { error } = await supabase.from("aircraft").update(payload).eq("id", editId);
+      if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
+      else {
+        toast({ title: "Aircraft Updated", description: `${payload.registration} updated. Upcoming flights follow the new configuration.` });
+        await logActivity(user!.id, `Updated aircraft ${payload.registration}`, "aircraft", editId);
+      }
+    } else {
+      const { error } = await supabase.from("aircraft").insert([payload]);
+      if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
+      else {
+        toast({ title: "Aircraft Added", description: `${payload.registration} added to the registry.` });
+        await logActivity(user!.id, `Added aircraft ${payload.registration} (${payload.aircraft_type})`, "aircraft");
+      }
+    }
+    setSaving(false);
+    setShowForm(false);
+    fetchAircraft();
+  };
+
+  const handleDelete = async () => {
+    if (!deleteId) return;
+    const a = aircraft.find(a => a.id === deleteId);
+    const { error } = await supabase.from("aircraft").delete().eq("id", deleteId);
+    if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
+    else {
+      toast({ title: "Aircraft Deleted", description: `${a?.registration} removed.` });
+      await logActivity(user!.id, `Deleted aircraft ${a?.registration}`, "aircraft", deleteId);
+      fetchAircraft();
+    }
+    setDeleteId(null);
+  };
+
+  return (
+    <AppLayout title="Aircraft Registry">
+      <div className="space-y-4 animate-fade-in-up">
+        <div className="flex flex-col sm:flex-row gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              placeholder="Search registration, type, airline..."
+              value={search}
+              onChange={e => setSearch(e.target.value)}
+              className="pl-9 bg-card border-border"
+            />
+          </div>
+          {canManageFlights() && (
+            <Button onClick={openAdd} className="bg-primary text-primary-foreground hover:bg-primary/90 gap-2">
+              <Plus className="w-4 h-4" /> Add Aircraft
+            </Button>
+          )}
+        </div>
+
+        <div className="glass-card rounded-xl overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border bg-muted/30">
+                  <th className="text-left px-4 py-3 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Registration</th>
+                  <th className="text-left px-4 py-3 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Type</th>
+                  <th className="text-left px-4 py-3 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Seats</th>
+                  <th className="text-left px-4 py-3 text-xs font-semibold text-muted-foreground uppercase tracking-wider">MTOW</th>
+                  <th className="text-left px-4 py-3 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Wake</th>
+                  <th className="text-right px-4 py-3 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {loading ? (
+                  <tr><td colSpan={6} className="text-center py-12 text-muted-foreground">Loading aircraft...</td></tr>
+                ) : filtered.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="text-center py-12">
+                      <PlaneTakeoff className="w-8 h-8 text-muted-foreground mx-auto mb-2" />
+                      <p className="text-muted-foreground">No aircraft registered</p>
+                    </td>
+                  </tr>
+                ) : filtered.map(a => (
+                  <tr key={a.id} className="border-b border-border/50 hover:bg-muted/30 transition-colors">
+                    <td className="px-4 py-3">
+                      <p className="font-mono font-bold text-primary">{a.registration}</p>
+                      <p className="text-xs text-muted-foreground">{a.airline || "—"}</p>
+                    </td>
+                    <td className="px-4 py-3 text-foreground">{a.aircraft_type}</td>
+                    <td className="px-4 py-3">
+                      <p className="text-foreground font-medium">{a.capacity}</p>
+                      <p className="text-xs font-mono text-muted-foreground">{formatSeatConfig(a)}</p>
+                    </td>
+                    <td className="px-4 py-3 text-muted-foreground text-xs font-mono">{a.mtow_kg ? `${a.mtow_kg.toLocaleString()} kg` : "—"}</td>
+                    <td className="px-4 py-3">
+                      <span className={`text-xs font-semibold px-2 py-1 rounded border font-mono ${wakeBadge[a.wake_category]}`}>{a.wake_category}</span>
+                    </td>
+                    <td className="px-4 py-3">
+                      {canManageFlights() && (
+                        <div className="flex items-center justify-end gap-1">
+                          <button onClick={() => openEdit(a)} className="p-1.5 rounded hover:bg-primary/10 text-muted-foreground hover:text-primary transition-colors">
+                            <Edit className="w-3.5 h-3.5" />
+                          </button>
+                          <button onClick={() => setDeleteId(a.id)} className="p-1.5 rounded hover:bg-destructive/10 text-muted-foreground hover:text-destructive transition-colors">
+                            <Trash2 className="w-3.5 h-3.5" />
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="px-4 py-2 border-t border-border/50 text-xs text-muted-foreground">
+            Showing {filtered.length} of {aircraft.length} aircraft
+          </div>
+        </div>
+
+        <PerformanceTable canManage={canManageFlights()} />
+      </div>
+
+      {/* Add/Edit Dialog */}
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent className="bg-card border-border max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editId ? "Edit Aircraft" : "Add Aircraft"}</DialogTitle>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4 py-2">
+            <div className="space-y-1.5">
+              <Label className="text-xs">Registration *</Label>
+              <Input value={form.registration} onChange={e => setForm(p => ({ ...p, registration: e.target.value }))} placeholder="N123AA" className="bg-muted border-border font-mono" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Type *</Label>
+              <Input value={form.aircraft_type} onChange={e => setForm(p => ({ ...p, aircraft_type: e.target.value }))} placeholder="Boeing 737-800" className="bg-muted border-border" />
+            </div>
+            <div className="space-y-1.5 col-span-2">
+              <Label className="text-xs">Operator</Label>
+              <Input value={form.airline} onChange={e => setForm(p => ({ ...p, airline: e.target.value }))} placeholder="American Airlines" className="bg-muted border-border" />
+            </div>
+            <div className="col-span-2 space-y-1.5">
+              <Label className="text-xs">Seat Configuration</Label>
+              <div className="grid grid-cols-3 gap-2">
+                {([["seats_first", "First"], ["seats_business", "Business"], ["seats_economy", "Economy"]] as const).map(([key, label]) => (
+                  <div key={key} className="space-y-1">
+                    <p className="text-[10px] text-muted-foreground">{label}</p>
+                    <Input type="number" min={0} value={form[key]} onChange={e => setForm(p => ({ ...p, [key]: Number(e.target.value) }))} className="bg-muted border-border" />
+                  </div>
+                ))}
+              </div>
+              <p className="text-[10px] text-muted-foreground">
+                {formatSeatConfig(form)} · {seatCapacity(form)} seats. Flights on this tail take their capacity from here.
+              </p>
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">MTOW (kg)</Label>
+              <Input type="number" min={0} value={form.mtow_kg} onChange={e => setMtow(e.target.value)} placeholder="79000" className="bg-muted border-border" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Wake Category</Label>
+              <Select value={form.wake_category} onValueChange={v => setForm(p => ({ ...p, wake_category: v as WakeCategory }))}>
+                <SelectTrigger className="bg-muted border-border"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {WAKE_CATEGORIES.map(c => (
+                    <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5 col-span-2">
+              <Label className="text-xs">Notes</Label>
+              <Input value={form.notes} onChange={e => setForm(p => ({ ...p, notes: e.target.value }))} placeholder="Optional notes..." className="bg-muted border-border" />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowForm(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving} className="bg-primary text-primary-foreground">
+              {saving ? "Saving..." : (editId ? "Update Aircraft" : "Add Aircraft")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
+        <AlertDialogContent className="bg-card border-border">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Aircraft</AlertDialogTitle>
+            <AlertDialogDescription>Flights flown by this aircraft keep their type and capacity but lose the tail assignment. This cannot be undone.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground">Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </AppLayout>
+  );
+}
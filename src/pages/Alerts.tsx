@@ -2,6 +2,7 @@ import { useEffect, useState } from "react";
 import AppLayout from "@/components/layout/AppLayout";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
+import { useTimeZone } from "@/contexts/TimeZoneContext";
 import { logActivity } from "@/lib/supabase";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
@@ -42,6 +43,7 @@ const severityConfig: Record<AlertSeverity, { icon: React.FC<{className?: string
 export default function Alerts() {
   const { user, isATC } = useAuth();
   const { toast } = useToast();
+  const { formatDateTime } = useTimeZone();
   const [alerts, setAlerts] = useState<Alert[]>([]);
   const [flights, setFlights] = useState<Flight[]>([]);
   const [loading, setLoading] = useState(true);
@@ -207,8 +209,8 @@ export default function Alerts() {
                         </div>
                         <p className="text-sm text-muted-foreground">{a.message}</p>
                         <p className="text-xs text-muted-foreground mt-1">
-                          {new Date(a.created_at).toLocaleString()}
-                          {a.acknowledged_at && ` · Acknowledged: ${new Date(a.acknowledged_at).toLocaleString()}`}
+                          {formatDateTime(a.created_at)}
+                          {a.acknowledged_at && ` · Acknowledged: ${formatDateTime(a.acknowledged_at)}`}
                         </p>
                       </div>
                     </div>
@@ -2,6 +2,11 @@ import { useEffect, useState } from "react";
 import AppLayout from "@/components/layout/AppLayout";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
+import ScheduleTimes from "@/components/flights/ScheduleTimes";
+import { departureDelayMinutes } from "@/lib/flightTimes";
+import { statusLabel } from "@/lib/flightStatus";
+import { useAirports } from "@/hooks/use-airports";
+import { useTimeZone } from "@/contexts/TimeZoneContext";
 import { Plane, Wind, Users, Bell, AlertTriangle, TrendingUp, Clock, CheckCircle } from "lucide-react";
 
 interface Stats {
@@ -41,20 +46,30 @@ interface Flight {
   destination: string;
   status: string;
   scheduled_departure: string;
+  scheduled_arrival: string;
+  estimated_departure: string | null;
+  estimated_arrival: string | null;
+  actual_departure: string | null;
+  actual_arrival: string | null;
 }
 
 const statusBadgeMap: Record<string, string> = {
   scheduled: "bg-[hsl(var(--status-scheduled)/0.15)] text-[hsl(var(--status-scheduled))] border-[hsl(var(--status-scheduled)/0.3)]",
   boarding: "bg-[hsl(var(--status-boarding)/0.15)] text-[hsl(var(--status-boarding))] border-[hsl(var(--status-boarding)/0.3)]",
   delayed: "bg-[hsl(var(--status-delayed)/0.15)] text-[hsl(var(--status-delayed))] border-[hsl(var(--status-delayed)/0.3)]",
+  lined_up: "bg-[hsl(var(--status-lined-up)/0.15)] text-[hsl(var(--status-lined-up))] border-[hsl(var(--status-lined-up)/0.3)]",
+  cleared_for_takeoff: "bg-[hsl(var(--status-cleared)/0.15)] text-[hsl(var(--status-cleared))] border-[hsl(var(--status-cleared)/0.3)]",
   departed: "bg-[hsl(var(--status-departed)/0.15)] text-[hsl(var(--status-departed))] border-[hsl(var(--status-departed)/0.3)]",
   landed: "bg-[hsl(var(--status-landed)/0.15)] text-[hsl(var(--status-landed))] border-[hsl(var(--status-landed)/0.3)]",
   cancelled: "bg-[hsl(var(--status-cancelled)/0.15)] text-[hsl(var(--status-cancelled))] border-[hsl(var(--status-cancelled)/0.3)]",
+  diverted: "bg-[hsl(var(--status-diverted)/0.15)] text-[hsl(var(--status-diverted))] border-[hsl(var(--status-diverted)/0.3)]",
   emergency: "bg-[hsl(var(--status-emergency)/0.15)] text-[hsl(var(--status-emergency))] border-[hsl(var(--status-emergency)/0.3)]",
 };
 
 export default function Dashboard() {
   const { profile } = useAuth();
+  const { city } = useAirports();
+  const { formatTime, formatLongDate, hourOf } = useTimeZone();
   const [stats, setStats] = useState<Stats>({
     totalFlights: 0, activeFlights: 0, delayedFlights: 0, emergencies: 0,
     totalPassengers: 0, availableRunways: 0, scheduledFlights: 0, cancelledFlights: 0,
@@ -75,7 +90,7 @@ export default function Dashboard() {
     const f = flightsRes.data || [];
     setStats({
       totalFlights: f.length,
-      activeFlights: f.filter(x => ["boarding", "departed"].includes(x.status)).length,
+      activeFlights: f.filter(x => ["boarding", "lined_up", "cleared_for_takeoff", "departed", "diverted"].includes(x.status)).length,
       delayedFlights: f.filter(x => x.status === "delayed").length,
       emergencies: f.filter(x => x.status === "emergency").length,
       totalPassengers: passengersRes.count || 0,
@@ -117,6 +132,10 @@ export default function Dashboard() {
     emergency: "text-[hsl(var(--severity-emergency))] animate-pulse",
   };
 
+  // In the selected display zone, like every time on the page.
+  const today = new Date().toISOString();
+  const hour = hourOf(today);
+
   return (
     <AppLayout title="Dashboard">
       <div className="space-y-6 animate-fade-in-up">
@@ -124,11 +143,11 @@ export default function Dashboard() {
         <div className="flex items-center justify-between">
           <div>
             <h2 className="text-xl font-semibold text-foreground">
-              Good {new Date().getHours() < 12 ? "morning" : new Date().getHours() < 17 ? "afternoon" : "evening"},{" "}
+              Good {hour < 12 ? "morning" : hour < 17 ? "afternoon" : "evening"},{" "}
               {profile?.full_name?.split(" ")[0] || "Controller"}
             </h2>
             <p className="text-muted-foreground text-sm mt-0.5">
-              {new Date().toLocaleDateString("en-US", { weekday: "long", year: "numeric", month: "long", day: "numeric" })}
+              {formatLongDate(today)}
             </p>
           </div>
           {stats.emergencies > 0 && (
@@ -176,9 +195,10 @@ export default function Dashboard() {
                       <span className="text-sm text-muted-foreground">{f.airline}</span>
                     </div>
                     <div className="flex items-center gap-3">
-                      <span className="text-sm text-muted-foreground">{f.origin} → {f.destination}</span>
+                      <ScheduleTimes scheduled={f.scheduled_departure} estimated={f.estimated_departure} actual={f.actual_departure} delayMinutes={departureDelayMinutes(f)} airport={f.origin} />
+                      <span className="text-sm text-muted-foreground" title={`${f.origin} → ${f.destination}`}>{city(f.origin)} → {city(f.destination)}</span>
                       <span className={`text-xs font-semibold px-2 py-0.5 rounded border capitalize ${statusBadgeMap[f.status] || ""}`}>
-                        {f.status}
+                        {statusLabel(f.status)}
                       </span>
                     </div>
                   </div>
@@ -229,7 +249,7 @@ export default function Dashboard() {
               activities.map(a => (
                 <div key={a.id} className="flex items-center gap-4 py-2 px-3 rounded-lg hover:bg-muted/50 transition-colors">
                   <span className="text-xs text-muted-foreground font-mono whitespace-nowrap">
-                    {new Date(a.created_at).toLocaleTimeString()}
+                    {formatTime(a.created_at)}
                   </span>
                   <span className="text-xs bg-primary/10 text-primary px-2 py-0.5 rounded font-medium capitalize">
                     {a.entity_type}
@@ -0,0 +1,204 @@
+import { useEffect, useState } from "react";
+import AppLayout from "@/components/layout/AppLayout";
+import { supabase } from "@/integrations/supabase/client";
+import { useTimeZone } from "@/contexts/TimeZoneContext";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import {
+  DelayCode, DelayEntry, minutesByAirline, minutesByCategory, minutesByCode, minutesByHour, totalMinutes,
+} from "@/lib/delayAnalysis";
+import { BarChart3, Clock, Plane, Hash, Filter } from "lucide-react";
+
+interface DelayRow {
+  code: string;
+  minutes: number;
+  flight_id: string;
+  flights: { airline: string; scheduled_departure: string } | null;
+}
+
+const chartConfig = {
+  minutes: { label: "Delay minutes", color: "hsl(var(--status-delayed))" },
+} satisfies ChartConfig;
+
+export default function DelayAnalysis() {
+  const { zone, zoneLabel } = useTimeZone();
+  const [entries, setEntries] = useState<DelayEntry[]>([]);
+  const [flightCount, setFlightCount] = useState(0);
+  const [codes, setCodes] = useState<DelayCode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [days, setDays] = useState("30");
+
+  useEffect(() => {
+    supabase.from("delay_codes").select("*").order("code").then(({ data }) => setCodes(data || []));
+  }, []);
+
+  useEffect(() => {
+    const fetchDelays = async () => {
+      const since = new Date(Date.now() - Number(days) * 86400000).toISOString();
+      const { data } = await supabase
+        .from("flight_delays")
+        .select("code, minutes, flight_id, flights!inner(airline, scheduled_departure)")
+        .gte("flights.scheduled_departure", since);
+      const rows = (data || []) as unknown as DelayRow[];
+      setEntries(rows.filter(r => r.flights).map(r => ({
+        code: r.code,
+        minutes: r.minutes,
+        airline: r.flights!.airline,
+        scheduled_departure: r.flights!.scheduled_departure,
+      })));
+      setFlightCount(new Set(rows.map(r => r.flight_id)).size);
+      setLoading(false);
+    };
+
+    fetchDelays();
+    const channel = supabase.channel("delay-analysis")
+      .on("postgres_changes", { event: "*", schema: "public", table: "flight_delays" }, fetchDelays)
+      .subscribe();
+    return () => { supabase.removeChannel(channel); };
+  }, [days]);
+
+  const codeDescription = (code: string) => codes.find(c => c.code === code)?.description || "";
+  const byCode = minutesByCode(entries);
+  const byAirline = minutesByAirline(entries);
+  const byCategory = minutesByCategory(entries, codes);
+  const byHour = minutesByHour(entries, zone());
+  const total = totalMinutes(entries);
+
+  const statCards = [
+    { label: "Total Delay Minutes", value: total.toLocaleString(), icon: Clock },
+    { label: "Delayed Flights", value: flightCount, icon: Plane },
+    { label: "Avg per Flight", value: flightCount ? `${Math.round(total / flightCount)}m` : "—", icon: BarChart3 },
+    { label: "Top Code", value: byCode[0]?.key || "—", icon: Hash },
+  ];
+
+  return (
+    <AppLayout title="Delay Analysis">
+      <div className="space-y-4 animate-fade-in-up">
+        <div className="flex items-center justify-between">
+          <h2 className="text-sm font-semibold text-foreground">Root causes by IATA delay code</h2>
+          <div className="flex items-center gap-2">
+            <Filter className="w-4 h-4 text-muted-foreground" />
+            <Select value={days} onValueChange={setDays}>
+              <SelectTrigger className="w-36 bg-card border-border"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="7">Last 7 days</SelectItem>
+                <SelectItem value="30">Last 30 days</SelectItem>
+                <SelectItem value="90">Last 90 days</SelectItem>
+                <SelectItem value="365">Last year</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {statCards.map(card => (
+            <div key={card.label} className="glass-card rounded-xl p-4 border border-[hsl(var(--status-delayed)/0.2)]">
+              <div className="flex items-start justify-between">
+                <div>
+                  <p className="text-xs text-muted-foreground font-medium">{card.label}</p>
+                  <p className="text-3xl font-bold mt-1 text-[hsl(var(--status-delayed))]">{card.value}</p>
+                </div>
+                <div className="p-2 rounded-lg bg-[hsl(var(--status-delayed)/0.1)] border border-[hsl(var(--status-delayed)/0.2)]">
+                  <card.icon className="w-4 h-4 text-[hsl(var(--status-delayed))]" />
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {loading ? (
+          <div className="p-8 text-center text-muted-foreground">Loading delays...</div>
+        ) : entries.length === 0 ? (
+          <div className="glass-card rounded-xl p-8 text-center">
+            <BarChart3 className="w-8 h-8 text-muted-foreground mx-auto mb-2" />
+            <p className="text-muted-foreground">No coded delays in this period</p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <div className="glass-card rounded-xl p-4">
+                <h3 className="text-sm font-semibold text-foreground mb-3">Minutes by Delay Code</h3>
+                <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+                  <BarChart data={byCode.slice(0, 15)}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="key" tickLine={false} axisLine={false} />
+                    <YAxis tickLine={false} axisLine={false} width={40} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="minutes" fill="var(--color-minutes)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </div>
+              <div className="glass-card rounded-xl p-4">
+                <h3 className="text-sm font-semibold text-foreground mb-3">Minutes by Hour of Day (scheduled departure, {zoneLabel()})</h3>
+                <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+                  <BarChart data={byHour}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="key" tickLine={false} axisLine={false} />
+                    <YAxis tickLine={false} axisLine={false} width={40} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="minutes" fill="var(--color-minutes)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+              <div className="lg:col-span-2 glass-card rounded-xl overflow-hidden">
+                <div className="px-4 py-3 border-b border-border">
+                  <h3 className="text-sm font-semibold text-foreground">Delay Codes</h3>
+                </div>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-border bg-muted/30">
+                      <th className="text-left px-4 py-2 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Code</th>
+                      <th className="text-left px-4 py-2 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Description</th>
+                      <th className="text-right px-4 py-2 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Occurrences</th>
+                      <th className="text-right px-4 py-2 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Minutes</th>
+                      <th className="text-right px-4 py-2 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Share</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {byCode.map(b => (
+                      <tr key={b.key} className="border-b border-border/50 hover:bg-muted/30 transition-colors">
+                        <td className="px-4 py-2 font-mono font-bold text-primary">{b.key}</td>
+                        <td className="px-4 py-2 text-muted-foreground">{codeDescription(b.key)}</td>
+                        <td className="px-4 py-2 text-right font-mono">{b.count}</td>
+                        <td className="px-4 py-2 text-right font-mono">{b.minutes}</td>
+                        <td className="px-4 py-2 text-right font-mono text-muted-foreground">{Math.round((b.minutes / total) * 100)}%</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="space-y-4">
+                {[
+                  { title: "By Airline", buckets: byAirline },
+                  { title: "By Category", buckets: byCategory },
+                ].map(({ title, buckets }) => (
+                  <div key={title} className="glass-card rounded-xl p-4">
+                    <h3 className="text-sm font-semibold text-foreground mb-3">{title}</h3>
+                    <div className="space-y-2">
+                      {buckets.map(b => (
+                        <div key={b.key}>
+                          <div className="flex items-center justify-between text-xs mb-1">
+                            <span className="text-foreground">{b.key}</span>
+                            <span className="font-mono text-muted-foreground">{b.minutes}m</span>
+                          </div>
+                          <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+                            <div className="h-full bg-[hsl(var(--status-delayed))]" style={{ width: `${(b.minutes / total) * 100}%` }} />
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </AppLayout>
+  );
+}
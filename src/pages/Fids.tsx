@@ -0,0 +1,149 @@
+import { useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useAirports } from "@/hooks/use-airports";
+import {
+  FIDS_COLUMNS, FIDS_REFRESH_MINUTES, FidsBoard, FidsFlight, RemarkTone,
+  applyBoardChange, boardFlights, boardTime, boardWindowFilter, fidsRemark, paginate,
+} from "@/lib/fids";
+import { RowChange } from "@/lib/flightQuery";
+import { formatZonedTime } from "@/lib/timeZones";
+import { PlaneLanding, PlaneTakeoff } from "lucide-react";
+
+interface Gate { id: string; terminal: string; }
+
+// Height of the header and column titles, and of one flight row, in pixels.
+const CHROME_HEIGHT = 200;
+const ROW_HEIGHT = 64;
+const DEFAULT_PAGE_SECONDS = 10;
+
+const toneClass: Record<RemarkTone, string> = {
+  normal: "text-foreground",
+  good: "text-[hsl(var(--status-departed))]",
+  warn: "text-[hsl(var(--status-delayed))]",
+  bad: "text-[hsl(var(--status-cancelled))]",
+};
+
+const rowsForViewport = () => Math.max(1, Math.floor((window.innerHeight - CHROME_HEIGHT) / ROW_HEIGHT));
+
+// Public kiosk board. Configured through the URL, e.g.
+// /fids/departures?terminal=T1&rows=12&interval=15
+export default function Fids({ board }: { board: FidsBoard }) {
+  const [params] = useSearchParams();
+  const terminal = params.get("terminal");
+  const fixedRows = Number(params.get("rows")) || null;
+  const pageSeconds = Number(params.get("interval")) || DEFAULT_PAGE_SECONDS;
+
+  const { airport, city, home } = useAirports();
+  const [flights, setFlights] = useState<FidsFlight[]>([]);
+  const [gates, setGates] = useState<Gate[]>([]);
+  const [now, setNow] = useState(() => new Date());
+  const [viewportRows, setViewportRows] = useState(rowsForViewport);
+  const [page, setPage] = useState(0);
+
+  useEffect(() => {
+    // Only the board's window is fetched: a signed-in kiosk is not limited by the
+    // anon policy and would otherwise get the oldest rows of the whole table.
+    const fetchFlights = async () => {
+      const { data } = await supabase.from("flights").select(FIDS_COLUMNS)
+        .or(boardWindowFilter(board))
+        .order("scheduled_departure");
+      setFlights((data || []) as FidsFlight[]);
+    };
+    fetchFlights();
+    supabase.from("gates").select("id, terminal").then(({ data }) => setGates(data || []));
+    const channel = supabase.channel(`fids-${board}`)
+      .on("postgres_changes", { event: "*", schema: "public", table: "flights" },
+        (payload: RowChange<FidsFlight>) => setFlights(rows => applyBoardChange(rows, payload)))
+      .subscribe();
+    // The board window moves with the clock even when no flight changes.
+    const clock = setInterval(() => setNow(new Date()), 30000);
+    const refresh = setInterval(fetchFlights, FIDS_REFRESH_MINUTES * 60000);
+    const onResize = () => setViewportRows(rowsForViewport());
+    window.addEventListener("resize", onResize);
+    return () => {
+      supabase.removeChannel(channel);
+      clearInterval(clock);
+      clearInterval(refresh);
+      window.removeEventListener("resize", onResize);
+    };
+  }, [board]);
+
+  const terminalGates = terminal
+    ? new Set(gates.filter(g => g.terminal.toLowerCase() === terminal.toLowerCase()).map(g => g.id))
+    : null;
+  const rows = boardFlights(flights, board, { home: home?.iata, terminalGates, now });
+  const pages = paginate(rows, fixedRows ?? viewportRows);
+
+  useEffect(() => {
+    if (pages.length <= 1) { setPage(0); return; }
+    const timer = setInterval(() => setPage(p => (p + 1) % pages.length), pageSeconds * 1000);
+    return () => clearInterval(timer);
+  }, [pages.length, pageSeconds]);
+
+  // Departure times are shown in the origin's time, arrival times in the destination's.
+  const localCode = (f: FidsFlight) => (board === "departures" ? f.origin : f.destination);
+  const otherEnd = (f: FidsFlight) => (board === "departures" ? f.destination : f.origin);
+  const timeAt = (code: string) => (iso: string) => formatZonedTime(iso, airport(code)?.timezone ?? "UTC");
+  const homeZone = home?.timezone ?? "UTC";
+  const Icon = board === "departures" ? PlaneTakeoff : PlaneLanding;
+  const current = pages[Math.min(page, pages.length - 1)];
+
+  return (
+    <div className="min-h-screen bg-background text-foreground flex flex-col">
+      <header className="flex items-center justify-between px-8 py-5 border-b border-border">
+        <div className="flex items-center gap-4">
+          <Icon className="w-10 h-10 text-primary" />
+          <div>
+            <h1 className="text-4xl font-bold tracking-wide uppercase">{board}</h1>
+            <p className="text-sm text-muted-foreground">
+              {home ? `${home.city} (${home.iata})` : "All airports"}{terminal && ` · Terminal ${terminal}`}
+            </p>
+          </div>
+        </div>
+        <div className="text-right">
+          <p className="text-4xl font-mono font-bold">{formatZonedTime(now.toISOString(), homeZone)}</p>
+          {pages.length > 1 && <p className="text-sm text-muted-foreground">Page {page + 1} of {pages.length}</p>}
+        </div>
+      </header>
+
+      <table className="w-full">
+        <thead>
+          <tr className="border-b border-border bg-muted/30">
+            <th className="text-left px-8 py-3 text-sm font-semibold text-muted-foreground uppercase tracking-wider">Time</th>
+            <th className="text-left px-4 py-3 text-sm font-semibold text-muted-foreground uppercase tracking-wider">Flight</th>
+            <th className="text-left px-4 py-3 text-sm font-semibold text-muted-foreground uppercase tracking-wider">{board === "departures" ? "Destination" : "From"}</th>
+            <th className="text-left px-4 py-3 text-sm font-semibold text-muted-foreground uppercase tracking-wider">Gate</th>
+            <th className="text-left px-4 py-3 text-sm font-semibold text-muted-foreground uppercase tracking-wider">Estimated</th>
+            <th className="text-left px-8 py-3 text-sm font-semibold text-muted-foreground uppercase tracking-wider">Remarks</th>
+          </tr>
+        </thead>
+        <tbody>
+          {current.length === 0 ? (
+            <tr><td colSpan={6} className="text-center py-16 text-xl text-muted-foreground">No {board} to display</td></tr>
+          ) : current.map(f => {
+            const formatTime = timeAt(localCode(f));
+            const remark = fidsRemark(f, board, formatTime, city);
+            const scheduled = board === "departures" ? f.scheduled_departure : f.scheduled_arrival;
+            const estimated = boardTime(f, board);
+            return (
+              <tr key={f.id} className="border-b border-border/50 text-2xl" style={{ height: ROW_HEIGHT }}>
+                <td className="px-8 font-mono font-semibold">{formatTime(scheduled)}</td>
+                <td className="px-4">
+                  <span className="font-mono font-bold text-primary">{f.flight_number}</span>
+                  <span className="ml-3 text-base text-muted-foreground">{f.airline}</span>
+                </td>
+                <td className="px-4 font-semibold">
+                  {city(otherEnd(f))} <span className="text-base font-normal text-muted-foreground font-mono">{otherEnd(f)}</span>
+                </td>
+                <td className="px-4 font-mono font-semibold">{f.gate || "—"}</td>
+                <td className="px-4 font-mono">{new Date(estimated).getTime() !== new Date(scheduled).getTime() ? formatTime(estimated) : ""}</td>
+                <td className={`px-8 font-semibold ${toneClass[remark.tone]}`}>{remark.text}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -1,9 +1,32 @@
 import { useEffect, useState } from "react";
 import AppLayout from "@/components/layout/AppLayout";
+import FlightImportDialog from "@/components/flights/FlightImportDialog";
+import FlightTimeline from "@/components/flights/FlightTimeline";
+import RotationBadge from "@/components/flights/RotationBadge";
+import AirportCombobox from "@/components/flights/AirportCombobox";
+import ZonedDateTimeInput from "@/components/flights/ZonedDateTimeInput";
+import ScheduleTimes from "@/components/flights/ScheduleTimes";
+import RunwayConflictBadge from "@/components/flights/RunwayConflictBadge";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { useAuth } from "@/contexts/AuthContext";
+import { useTimeZone } from "@/contexts/TimeZoneContext";
 import { logActivity } from "@/lib/supabase";
+import { FlightStatus, FLIGHT_STATUSES, ACTION_ONLY_STATUSES, canTransition, statusLabel, statusOptions, transitionError } from "@/lib/flightStatus";
+import { arrivalDelayMinutes, departureDelayMinutes, formatDelay } from "@/lib/flightTimes";
+import { gateConflicts } from "@/lib/gates";
+import { SlotFlight, movementKind, runwayConflicts } from "@/lib/runwaySlots";
+import { AircraftPerformance, aircraftRunwayFit } from "@/lib/runwayPerformance";
+import { RunwayClosure, describeClosure, flightClosure } from "@/lib/runwayClosures";
+import { WakeCategory, formatTurnaround, inboundCandidates, rotationState, turnaroundMinutes } from "@/lib/aircraft";
+import { routeError } from "@/lib/airports";
+import { TIME_DISPLAY_MODES, TimeDisplayMode } from "@/lib/timeZones";
+import {
+  DEFAULT_FLIGHT_SORT, FLIGHT_PAGE_SIZES, FlightSort, FlightSortColumn, RowChange,
+  applyRowChange, matchesFlightFilter, pageCount, pageRange, searchFilter, toggleSort,
+} from "@/lib/flightQuery";
 import { useToast } from "@/hooks/use-toast";
+import { useAirports } from "@/hooks/use-airports";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -16,11 +39,18 @@ import {
   AlertDialogHeader, AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Plus, Search, Edit, Trash2, Eye, Plane, Filter } from "lucide-react";
-
-type FlightStatus = "scheduled" | "boarding" | "delayed" | "departed" | "landed" | "cancelled" | "emergency";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar } from "@/components/ui/calendar";
+import { addDays, format } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import {
+  Plus, Search, Edit, Trash2, Eye, Plane, Filter, Repeat, FileSpreadsheet,
+  CalendarDays, ArrowUp, ArrowDown, ArrowUpDown, ChevronLeft, ChevronRight, X,
+} from "lucide-react";
 
-interface Runway { id: string; name: string; status: string; }
+interface Runway { id: string; name: string; status: string; length_meters: number; surface_type: string; }
+interface Gate { id: string; name: string; terminal: string; status: string; }
+interface Aircraft { id: string; registration: string; aircraft_type: string; capacity: number; wake_category: WakeCategory; }
 interface Flight {
   id: string;
   flight_number: string;
@@ -30,13 +60,23 @@ interface Flight {
   status: FlightStatus;
   scheduled_departure: string;
   scheduled_arrival: string;
+  estimated_departure: string | null;
+  estimated_arrival: string | null;
   actual_departure: string | null;
   actual_arrival: string | null;
   runway_id: string | null;
   gate: string | null;
+  gate_id: string | null;
+  aircraft_id: string | null;
   aircraft_type: string;
   capacity: number;
+  inbound_flight_id: string | null;
+  diversion_airport: string | null;
+  diversion_reason: string | null;
+  diverted_at: string | null;
   notes: string | null;
+  schedule_id: string | null;
+  is_schedule_override: boolean;
   created_at: string;
 }
 
@@ -44,23 +84,45 @@ const statusBadge: Record<FlightStatus, string> = {
   scheduled: "bg-[hsl(var(--status-scheduled)/0.15)] text-[hsl(var(--status-scheduled))] border-[hsl(var(--status-scheduled)/0.3)]",
   boarding: "bg-[hsl(var(--status-boarding)/0.15)] text-[hsl(var(--status-boarding))] border-[hsl(var(--status-boarding)/0.3)]",
   delayed: "bg-[hsl(var(--status-delayed)/0.15)] text-[hsl(var(--status-delayed))] border-[hsl(var(--status-delayed)/0.3)]",
+  lined_up: "bg-[hsl(var(--status-lined-up)/0.15)] text-[hsl(var(--status-lined-up))] border-[hsl(var(--status-lined-up)/0.3)]",
+  cleared_for_takeoff: "bg-[hsl(var(--status-cleared)/0.15)] text-[hsl(var(--status-cleared))] border-[hsl(var(--status-cleared)/0.3)]",
   departed: "bg-[hsl(var(--status-departed)/0.15)] text-[hsl(var(--status-departed))] border-[hsl(var(--status-departed)/0.3)]",
   landed: "bg-[hsl(var(--status-landed)/0.15)] text-[hsl(var(--status-landed))] border-[hsl(var(--status-landed)/0.3)]",
   cancelled: "bg-[hsl(var(--status-cancelled)/0.15)] text-[hsl(var(--status-cancelled))] border-[hsl(var(--status-cancelled)/0.3)]",
+  diverted: "bg-[hsl(var(--status-diverted)/0.15)] text-[hsl(var(--status-diverted))] border-[hsl(var(--status-diverted)/0.3)]",
   emergency: "bg-[hsl(var(--status-emergency)/0.15)] text-[hsl(var(--status-emergency))] border-[hsl(var(--status-emergency)/0.3)] animate-pulse",
 };
 
 const defaultForm = {
   flight_number: "", airline: "", origin: "", destination: "",
   status: "scheduled" as FlightStatus, scheduled_departure: "", scheduled_arrival: "",
-  runway_id: "", gate: "", aircraft_type: "Boeing 737", capacity: 180, notes: "",
+  estimated_departure: "", estimated_arrival: "",
+  runway_id: "", gate_id: "", aircraft_id: "", inbound_flight_id: "",
+  aircraft_type: "Boeing 737", capacity: 180, notes: "",
 };
 
 export default function Flights() {
   const { user, canManageFlights } = useAuth();
   const { toast } = useToast();
+  const { airports, city, home } = useAirports();
+  const { mode, formatDate, formatDateTime, fromInput } = useTimeZone();
+  // The current page, flights linked to it by rotation, and flights near the time being edited.
   const [flights, setFlights] = useState<Flight[]>([]);
+  const [linked, setLinked] = useState<Flight[]>([]);
+  const [nearby, setNearby] = useState<Flight[]>([]);
+  // Every flight currently holding a runway, for slot conflict checks.
+  const [runwayTraffic, setRunwayTraffic] = useState<Flight[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [pageSize, setPageSize] = useState(FLIGHT_PAGE_SIZES[0]);
+  const [sort, setSort] = useState<FlightSort>(DEFAULT_FLIGHT_SORT);
+  const [dateRange, setDateRange] = useState<DateRange | undefined>();
+  const [reloadToken, setReloadToken] = useState(0);
   const [runways, setRunways] = useState<Runway[]>([]);
+  const [closures, setClosures] = useState<RunwayClosure[]>([]);
+  const [performance, setPerformance] = useState<AircraftPerformance[]>([]);
+  const [gates, setGates] = useState<Gate[]>([]);
+  const [aircraft, setAircraft] = useState<Aircraft[]>([]);
   const [loading, setLoading] = useState(true);
   const [search, setSearch] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
@@ -70,39 +132,141 @@ export default function Flights() {
   const [deleteId, setDeleteId] = useState<string | null>(null);
   const [showForm, setShowForm] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [entryMode, setEntryMode] = useState<TimeDisplayMode>(mode);
 
-  const fetchFlights = async () => {
-    const { data } = await supabase.from("flights").select("*").order("scheduled_departure");
-    setFlights((data || []) as Flight[]);
-    setLoading(false);
+  const reload = () => setReloadToken(t => t + 1);
+
+  // Day boundaries follow the time display mode, like the dates shown in the table.
+  const dayStart = (d: Date) => fromInput(`${format(d, "yyyy-MM-dd")}T00:00`);
+  const rangeFrom = dateRange?.from ? dayStart(dateRange.from) : null;
+  const rangeTo = dateRange?.from ? dayStart(addDays(dateRange.to ?? dateRange.from, 1)) : null;
+
+  const fetchRunwayTraffic = async () => {
+    const { data } = await supabase.from("flights").select("*")
+      .not("runway_id", "is", null)
+      .not("status", "in", '("cancelled","diverted")')
+      .gte("scheduled_arrival", addDays(new Date(), -1).toISOString());
+    setRunwayTraffic((data || []) as Flight[]);
   };
 
   const fetchRunways = async () => {
-    const { data } = await supabase.from("runways").select("id, name, status");
+    const { data } = await supabase.from("runways").select("id, name, status, length_meters, surface_type");
     setRunways(data || []);
   };
 
+  const fetchClosures = async () => {
+    const { data } = await supabase.from("runway_closures").select("*").gt("ends_at", new Date().toISOString());
+    setClosures((data || []) as RunwayClosure[]);
+  };
+
+  const fetchGates = async () => {
+    const { data } = await supabase.from("gates").select("id, name, terminal, status").order("name");
+    setGates(data || []);
+  };
+
+  const fetchAircraft = async () => {
+    const { data } = await supabase.from("aircraft").select("id, registration, aircraft_type, capacity, wake_category").order("registration");
+    setAircraft(data || []);
+  };
+
   useEffect(() => {
-    fetchFlights();
     fetchRunways();
+    fetchClosures();
+    supabase.from("aircraft_performance").select("*").then(({ data }) => setPerformance(data || []));
+    fetchGates();
+    fetchAircraft();
+    fetchRunwayTraffic();
+    // Updates and deletes patch the rows on screen; inserts refetch the current page.
+    const onChange = (payload: RowChange<Flight>) => {
+      if (payload.eventType === "INSERT") { reload(); return; }
+      setFlights(rows => applyRowChange(rows, payload));
+      setLinked(rows => applyRowChange(rows, payload));
+      setNearby(rows => applyRowChange(rows, payload));
+      setRunwayTraffic(rows => {
+        const rest = rows.filter(r => r.id !== (payload.new.id ?? payload.old.id));
+        return payload.eventType !== "DELETE" && payload.new.runway_id ? [...rest, payload.new as Flight] : rest;
+      });
+      setViewFlight(f => (f ? applyRowChange([f], payload)[0] ?? null : f));
+      if (payload.eventType === "DELETE") setTotal(t => Math.max(0, t - 1));
+    };
     const channel = supabase.channel("flights-page")
-      .on("postgres_changes", { event: "*", schema: "public", table: "flights" }, fetchFlights)
+      .on("postgres_changes", { event: "*", schema: "public", table: "flights" }, onChange)
+      .on("postgres_changes", { event: "*", schema: "public", table: "runway_closures" }, fetchClosures)
       .subscribe();
     return () => { supabase.removeChannel(channel); };
   }, []);
 
-  const filtered = flights.filter(f => {
-    const matchSearch = f.flight_number.toLowerCase().includes(search.toLowerCase()) ||
-      f.airline.toLowerCase().includes(search.toLowerCase()) ||
-      f.origin.toLowerCase().includes(search.toLowerCase()) ||
-      f.destination.toLowerCase().includes(search.toLowerCase());
-    const matchStatus = statusFilter === "all" || f.status === statusFilter;
-    return matchSearch && matchStatus;
-  });
+  // Deferred so typing in the search box and bursts of inserts cost one request.
+  useEffect(() => {
+    const fetchFlights = async () => {
+      const term = search.trim().toLowerCase();
+      const cityCodes = term
+        ? airports.filter(a => a.city.toLowerCase().includes(term) || a.name.toLowerCase().includes(term)).map(a => a.iata)
+        : [];
+      const [from, to] = pageRange(page, pageSize);
+      let query = supabase.from("flights").select("*", { count: "exact" });
+      const or = searchFilter(search, cityCodes);
+      if (or) query = query.or(or);
+      if (statusFilter !== "all") query = query.eq("status", statusFilter as FlightStatus);
+      if (rangeFrom && rangeTo) query = query.gte("scheduled_departure", rangeFrom).lt("scheduled_departure", rangeTo);
+      const { data, count, error } = await query
+        .order(sort.column, { ascending: sort.ascending })
+        .order("flight_number")
+        .range(from, to);
+      if (error) {
+        toast({ title: "Error", description: error.message, variant: "destructive" });
+        setLoading(false);
+        return;
+      }
+      const rows = (data || []) as Flight[];
+      setFlights(rows);
+      setTotal(count ?? 0);
+      setLoading(false);
+
+      // Rotation badges need each row's inbound flight and any flight continuing from it.
+      const inboundIds = rows.map(f => f.inbound_flight_id).filter(Boolean);
+      const links = [
+        inboundIds.length ? `id.in.(${inboundIds.join(",")})` : null,
+        rows.length ? `inbound_flight_id.in.(${rows.map(f => f.id).join(",")})` : null,
+      ].filter(Boolean);
+      if (links.length) {
+        const { data: related } = await supabase.from("flights").select("*").or(links.join(","));
+        setLinked((related || []) as Flight[]);
+      } else {
+        setLinked([]);
+      }
+    };
+    const timer = setTimeout(fetchFlights, 250);
+    return () => clearTimeout(timer);
+  }, [page, pageSize, sort, statusFilter, rangeFrom, rangeTo, search, airports, reloadToken, toast]);
+
+  // A realtime update can move a row on the page out of the status or date
+  // filter; refetching the page drops it and backfills from the next one.
+  const leftFilter = flights.some(f => !matchesFlightFilter(f, { status: statusFilter, from: rangeFrom, to: rangeTo }));
+  useEffect(() => {
+    if (leftFilter) setReloadToken(t => t + 1);
+  }, [leftFilter]);
+
+  useEffect(() => { setPage(0); }, [pageSize, sort, statusFilter, dateRange, search]);
+
+  // Gate conflicts and inbound candidates are checked against flights within a day of the form's departure.
+  useEffect(() => {
+    if (!showForm || !form.scheduled_departure) { setNearby([]); return; }
+    const dep = new Date(form.scheduled_departure);
+    supabase.from("flights").select("*")
+      .gte("scheduled_departure", addDays(dep, -1).toISOString())
+      .lte("scheduled_departure", addDays(dep, 1).toISOString())
+      .then(({ data }) => setNearby((data || []) as Flight[]));
+  }, [showForm, form.scheduled_departure]);
+
+  // Every flight loaded for this page, for lookups by id.
+  const known = [...flights, ...linked, ...nearby].filter((f, i, all) => all.findIndex(o => o.id === f.id) === i);
 
   const openAdd = () => {
     setForm(defaultForm);
     setEditId(null);
+    setEntryMode(mode);
     setShowForm(true);
   };
 
@@ -113,15 +277,20 @@ export default function Flights() {
       origin: f.origin,
       destination: f.destination,
       status: f.status,
-      scheduled_departure: f.scheduled_departure.slice(0, 16),
-      scheduled_arrival: f.scheduled_arrival.slice(0, 16),
+      scheduled_departure: f.scheduled_departure,
+      scheduled_arrival: f.scheduled_arrival,
+      estimated_departure: f.estimated_departure || "",
+      estimated_arrival: f.estimated_arrival || "",
       runway_id: f.runway_id || "",
-      gate: f.gate || "",
+      gate_id: f.gate_id || "",
+      aircraft_id: f.aircraft_id || "",
+      inbound_flight_id: f.inbound_flight_id || "",
       aircraft_type: f.aircraft_type,
       capacity: f.capacity,
       notes: f.notes || "",
     });
     setEditId(f.id);
+    setEntryMode(mode);
     setShowForm(true);
   };
 
@@ -131,6 +300,25 @@ export default function Flights() {
       toast({ title: "Validation Error", description: "Please fill all required fields.", variant: "destructive" });
       return;
     }
+    const invalidRoute = routeError(airports, form.origin, form.destination);
+    if (invalidRoute) {
+      toast({ title: "Invalid Route", description: invalidRoute, variant: "destructive" });
+      return;
+    }
+    const original = editId ? known.find(f => f.id === editId) : null;
+    if (original && !canTransition(original.status, form.status)) {
+      toast({ title: "Invalid Status", description: transitionError(original.status, form.status), variant: "destructive" });
+      return;
+    }
+    const conflict = form.gate_id && form.gate_id !== original?.gate_id ? gateConflict(form.gate_id) : null;
+    if (conflict) {
+      toast({ title: "Gate Conflict", description: `The gate is in use by ${conflict.flight_number} at that time.`, variant: "destructive" });
+      return;
+    }
+    if (formFit?.level === "block" && form.runway_id !== original?.runway_id) {
+      toast({ title: "Runway Unsuitable", description: `${formFit.message}.`, variant: "destructive" });
+      return;
+    }
     setSaving(true);
     const payload = {
       flight_number: form.flight_number.toUpperCase(),
@@ -138,25 +326,35 @@ export default function Flights() {
       origin: form.origin.toUpperCase(),
       destination: form.destination.toUpperCase(),
       status: form.status,
-      scheduled_departure: new Date(form.scheduled_departure).toISOString(),
-      scheduled_arrival: new Date(form.scheduled_arrival).toISOString(),
+      scheduled_departure: form.scheduled_departure,
+      scheduled_arrival: form.scheduled_arrival,
+      estimated_departure: form.estimated_departure || null,
+      estimated_arrival: form.estimated_arrival || null,
       runway_id: form.runway_id || null,
-      gate: form.gate || null,
+      gate_id: form.gate_id || null,
+      aircraft_id: form.aircraft_id || null,
+      inbound_flight_id: form.inbound_flight_id || null,
       aircraft_type: form.aircraft_type,
       capacity: Number(form.capacity),
       notes: form.notes || null,
-      created_by: user?.id,
     };
 
     if (editId) {
-      const { error } = await supabase.from("flights").update(payload).eq("id", editId);
+      // The fields and a new runway are saved together, or not at all; editing a
+      // generated instance detaches it from future schedule syncs.
+      const { runway_id, ...changes } = payload;
+      const { error } = await supabase.rpc("update_flight", {
+        _flight_id: editId,
+        _changes: changes as unknown as Json,
+        _runway_id: runway_id,
+      });
       if (error) { toast({ title: "Error", description: error.message, variant: "destructive" }); }
       else {
         toast({ title: "Flight Updated", description: `${payload.flight_number} updated successfully.` });
         await logActivity(user!.id, `Updated flight ${payload.flight_number}`, "flight", editId);
       }
     } else {
-      const { error } = await supabase.from("flights").insert([payload]);
+      const { error } = await supabase.from("flights").insert([{ ...payload, created_by: user?.id }]);
       if (error) { toast({ title: "Error", description: error.message, variant: "destructive" }); }
       else {
         toast({ title: "Flight Added", description: `${payload.flight_number} added successfully.` });
@@ -165,7 +363,7 @@ export default function Flights() {
     }
     setSaving(false);
     setShowForm(false);
-    fetchFlights();
+    reload();
   };
 
   const handleDelete = async () => {
@@ -176,23 +374,116 @@ export default function Flights() {
     else {
       toast({ title: "Flight Deleted", description: `${f?.flight_number} removed.` });
       await logActivity(user!.id, `Deleted flight ${f?.flight_number}`, "flight", deleteId);
-      fetchFlights();
+      reload();
     }
     setDeleteId(null);
   };
 
   const handleStatusChange = async (flightId: string, newStatus: FlightStatus) => {
     const f = flights.find(fl => fl.id === flightId);
+    if (f && !canTransition(f.status, newStatus)) {
+      toast({ title: "Invalid Status", description: transitionError(f.status, newStatus), variant: "destructive" });
+      return;
+    }
     const { error } = await supabase.from("flights").update({ status: newStatus }).eq("id", flightId);
     if (error) { toast({ title: "Error", description: error.message, variant: "destructive" }); }
     else {
       toast({ title: "Status Updated", description: `${f?.flight_number} is now ${newStatus}.` });
       await logActivity(user!.id, `Changed ${f?.flight_number} status to ${newStatus}`, "flight", flightId);
-      fetchFlights();
+      reload();
     }
   };
 
+  // First flight already holding the gate around the departure entered in the form.
+  const gateConflict = (gateId: string) => {
+    if (!form.scheduled_departure) return null;
+    const times = {
+      id: editId ?? undefined,
+      scheduled_departure: form.scheduled_departure,
+      scheduled_arrival: form.scheduled_arrival,
+      estimated_departure: form.estimated_departure || null,
+      estimated_arrival: null,
+      actual_departure: null,
+      actual_arrival: null,
+    };
+    return gateConflicts(times, gateId, nearby)[0] ?? null;
+  };
+
+  // Picking a tail fixes type and capacity; a rotation only holds while the tail is unchanged.
+  const selectAircraft = (id: string) => {
+    const a = aircraft.find(a => a.id === id);
+    setForm(p => ({
+      ...p,
+      aircraft_id: a?.id ?? "",
+      inbound_flight_id: a?.id === p.aircraft_id ? p.inbound_flight_id : "",
+      aircraft_type: a?.aircraft_type ?? p.aircraft_type,
+      capacity: a?.capacity ?? p.capacity,
+    }));
+  };
+
+  const formOutbound = {
+    scheduled_departure: form.scheduled_departure,
+    scheduled_arrival: form.scheduled_arrival,
+    estimated_departure: form.estimated_departure || null,
+    estimated_arrival: null,
+    actual_departure: null,
+    actual_arrival: null,
+  };
+  const linkedInbounds = new Set(nearby.filter(f => f.id !== editId && f.inbound_flight_id).map(f => f.inbound_flight_id!));
+  const inboundOptions = form.scheduled_departure
+    ? inboundCandidates({ id: editId ?? undefined, aircraft_id: form.aircraft_id || null, origin: form.origin, scheduled_departure: formOutbound.scheduled_departure }, nearby, linkedInbounds)
+    : [];
+  const formInbound = known.find(f => f.id === form.inbound_flight_id);
+
+  const wakeOf = (aircraftId: string | null) => aircraft.find(a => a.id === aircraftId)?.wake_category ?? null;
+  const slotFlight = (f: Flight): SlotFlight => ({ ...f, wake_category: wakeOf(f.aircraft_id) });
+  const trafficSlots = runwayTraffic.map(slotFlight);
+  const flightRunwayConflicts = (f: Flight) =>
+    f.runway_id ? runwayConflicts(slotFlight(f), f.runway_id, trafficSlots, home?.iata) : [];
+  // The flight in the form as it would use the given runway.
+  const formSlotFlight = (runwayId: string): SlotFlight | null => form.scheduled_departure && form.scheduled_arrival
+    ? {
+      ...formOutbound,
+      id: editId ?? "new",
+      flight_number: form.flight_number || "This flight",
+      origin: form.origin,
+      destination: form.destination,
+      status: form.status,
+      runway_id: runwayId,
+      aircraft_type: form.aircraft_type,
+      wake_category: wakeOf(form.aircraft_id || null),
+    }
+    : null;
+  const formRunwayConflicts = (runwayId: string) => {
+    const f = formSlotFlight(runwayId);
+    return f ? runwayConflicts(f, runwayId, trafficSlots, home?.iata) : [];
+  };
+  const formRunwayClosure = (runwayId: string) => {
+    const f = formSlotFlight(runwayId);
+    return f ? flightClosure(f, runwayId, closures, home?.iata) : null;
+  };
+  const formClosure = form.runway_id ? formRunwayClosure(form.runway_id) : null;
+  // Length and surface checks need only the type and which way the flight uses the runway.
+  const formRunwayFit = (r: Runway) => aircraftRunwayFit(form.aircraft_type, performance, r, movementKind(form, home?.iata));
+  const formFitRunway = runways.find(r => r.id === form.runway_id);
+  const formFit = formFitRunway ? formRunwayFit(formFitRunway) : null;
+  if (formInbound && !inboundOptions.includes(formInbound)) inboundOptions.unshift(formInbound);
+  const formTurnaround = formInbound && form.scheduled_departure ? turnaroundMinutes(formInbound, formOutbound) : null;
+
+  const flightById = (id: string | null) => known.find(f => f.id === id);
+  const registration = (id: string | null) => aircraft.find(a => a.id === id)?.registration;
   const runwayName = (id: string | null) => runways.find(r => r.id === id)?.name || "—";
+  const editStatus = editId ? known.find(f => f.id === editId)?.status : undefined;
+  const pages = pageCount(total, pageSize);
+
+  const sortHeader = (label: string, column: FlightSortColumn) => (
+    <th className="text-left px-4 py-3 text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+      <button onClick={() => setSort(s => toggleSort(s, column))} className="flex items-center gap-1 uppercase tracking-wider hover:text-foreground transition-colors">
+        {label}
+        {sort.column !== column ? <ArrowUpDown className="w-3 h-3 opacity-40" /> : sort.ascending ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />}
+      </button>
+    </th>
+  );
 
   return (
     <AppLayout title="Flight Management">
@@ -219,17 +510,47 @@ export default function Flights() {
                 <SelectItem value="scheduled">Scheduled</SelectItem>
                 <SelectItem value="boarding">Boarding</SelectItem>
                 <SelectItem value="delayed">Delayed</SelectItem>
+                <SelectItem value="lined_up">Lined Up</SelectItem>
+                <SelectItem value="cleared_for_takeoff">Cleared for Takeoff</SelectItem>
                 <SelectItem value="departed">Departed</SelectItem>
                 <SelectItem value="landed">Landed</SelectItem>
                 <SelectItem value="cancelled">Cancelled</SelectItem>
+                <SelectItem value="diverted">Diverted</SelectItem>
                 <SelectItem value="emergency">Emergency</SelectItem>
               </SelectContent>
             </Select>
           </div>
+          <div className="flex items-center gap-1">
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="gap-2 bg-card border-border font-normal">
+                  <CalendarDays className="w-4 h-4 text-muted-foreground" />
+                  {dateRange?.from
+                    ? dateRange.to && dateRange.to.getTime() !== dateRange.from.getTime()
+                      ? `${format(dateRange.from, "MMM d")} – ${format(dateRange.to, "MMM d, yyyy")}`
+                      : format(dateRange.from, "MMM d, yyyy")
+                    : "All dates"}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="end">
+                <Calendar mode="range" selected={dateRange} onSelect={setDateRange} numberOfMonths={2} initialFocus />
+              </PopoverContent>
+            </Popover>
+            {dateRange && (
+              <button onClick={() => setDateRange(undefined)} aria-label="Clear dates" className="p-1.5 rounded hover:bg-muted text-muted-foreground hover:text-foreground transition-colors">
+                <X className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
           {canManageFlights() && (
-            <Button onClick={openAdd} className="bg-primary text-primary-foreground hover:bg-primary/90 gap-2">
-              <Plus className="w-4 h-4" /> Add Flight
-            </Button>
+            <>
+              <Button variant="outline" onClick={() => setShowImport(true)} className="gap-2">
+                <FileSpreadsheet className="w-4 h-4" /> Import
+              </Button>
+              <Button onClick={openAdd} className="bg-primary text-primary-foreground hover:bg-primary/90 gap-2">
+                <Plus className="w-4 h-4" /> Add Flight
+              </Button>
+            </>
           )}
         </div>
 
@@ -239,35 +560,56 @@ export default function Flights() {
             <table className="w-full text-sm">
               <thead>
                 <tr className="border-b border-border bg-muted/30">
-                  <th className="text-left px-4 py-3 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Flight</th>
-                  <th className="text-left px-4 py-3 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Route</th>
-                  <th className="text-left px-4 py-3 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Status</th>
-                  <th className="text-left px-4 py-3 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Departure</th>
+                  {sortHeader("Flight", "flight_number")}
+                  {sortHeader("Route", "origin")}
+                  {sortHeader("Status", "status")}
+                  {sortHeader("Departure", "scheduled_departure")}
+                  {sortHeader("Arrival", "scheduled_arrival")}
                   <th className="text-left px-4 py-3 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Runway</th>
-                  <th className="text-left px-4 py-3 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Gate</th>
+                  {sortHeader("Gate", "gate")}
                   <th className="text-right px-4 py-3 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Actions</th>
                 </tr>
               </thead>
               <tbody>
                 {loading ? (
-                  <tr><td colSpan={7} className="text-center py-12 text-muted-foreground">Loading flights...</td></tr>
-                ) : filtered.length === 0 ? (
+                  <tr><td colSpan={8} className="text-center py-12 text-muted-foreground">Loading flights...</td></tr>
+                ) : flights.length === 0 ? (
                   <tr>
-                    <td colSpan={7} className="text-center py-12">
+                    <td colSpan={8} className="text-center py-12">
                       <Plane className="w-8 h-8 text-muted-foreground mx-auto mb-2" />
                       <p className="text-muted-foreground">No flights found</p>
                     </td>
                   </tr>
                 ) : (
-                  filtered.map(f => (
+                  flights.map(f => (
                     <tr key={f.id} className="border-b border-border/50 hover:bg-muted/30 transition-colors">
                       <td className="px-4 py-3">
                         <div>
-                          <p className="font-mono font-bold text-primary">{f.flight_number}</p>
-                          <p className="text-xs text-muted-foreground">{f.airline}</p>
+                          <p className="font-mono font-bold text-primary flex items-center gap-1.5">
+                            {f.flight_number}
+                            {f.schedule_id && (
+                              <Repeat
+                                className={`w-3 h-3 ${f.is_schedule_override ? "text-[hsl(var(--status-delayed))]" : "text-muted-foreground"}`}
+                                aria-label={f.is_schedule_override ? "Recurring flight (modified)" : "Recurring flight"}
+                              />
+                            )}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {f.airline}
+                            {registration(f.aircraft_id) && <span className="font-mono"> · {registration(f.aircraft_id)}</span>}
+                          </p>
+                          {flightById(f.inbound_flight_id) && (
+                            <div className="mt-1"><RotationBadge inbound={flightById(f.inbound_flight_id)!} outbound={f} compact /></div>
+                          )}
                         </div>
                       </td>
-                      <td className="px-4 py-3 text-foreground font-medium">{f.origin} → {f.destination}</td>
+                      <td className="px-4 py-3">
+                        <p className="text-foreground font-medium">{f.origin} → {f.destination}</p>
+                        <p className="text-xs text-muted-foreground">{city(f.origin)} → {city(f.destination)}</p>
+                        {f.diversion_airport && (
+                          <p className="text-xs font-semibold text-[hsl(var(--status-diverted))]">Diverted to {f.diversion_airport} · {city(f.diversion_airport)}</p>
+                        )}
+                      </td>
                       <td className="px-4 py-3">
                         {canManageFlights() ? (
                           <Select value={f.status} onValueChange={(v) => handleStatusChange(f.id, v as FlightStatus)}>
@@ -275,21 +617,33 @@ export default function Flights() {
                               <SelectValue />
                             </SelectTrigger>
                             <SelectContent>
-                              {(["scheduled","boarding","delayed","departed","landed","cancelled","emergency"] as FlightStatus[]).map(s => (
-                                <SelectItem key={s} value={s} className="capitalize">{s}</SelectItem>
+                              {statusOptions(f.status).map(s => (
+                                <SelectItem key={s} value={s} className="capitalize">{statusLabel(s)}</SelectItem>
                               ))}
                             </SelectContent>
                           </Select>
                         ) : (
                           <span className={`text-xs font-semibold px-2 py-1 rounded border capitalize ${statusBadge[f.status]}`}>
-                            {f.status}
+                            {statusLabel(f.status)}
                           </span>
                         )}
                       </td>
-                      <td className="px-4 py-3 text-muted-foreground font-mono text-xs">
-                        {new Date(f.scheduled_departure).toLocaleString("en-US", { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })}
+                      <td className="px-4 py-3">
+                        <p className="text-[10px] text-muted-foreground font-mono mb-0.5">
+                          {formatDate(f.scheduled_departure, f.origin)}
+                        </p>
+                        <ScheduleTimes scheduled={f.scheduled_departure} estimated={f.estimated_departure} actual={f.actual_departure} delayMinutes={departureDelayMinutes(f)} airport={f.origin} />
+                      </td>
+                      <td className="px-4 py-3">
+                        <p className="text-[10px] text-muted-foreground font-mono mb-0.5">
+                          {formatDate(f.scheduled_arrival, f.destination)}
+                        </p>
+                        <ScheduleTimes scheduled={f.scheduled_arrival} estimated={f.estimated_arrival} actual={f.actual_arrival} delayMinutes={arrivalDelayMinutes(f)} airport={f.destination} />
+                      </td>
+                      <td className="px-4 py-3 text-muted-foreground text-xs">
+                        {runwayName(f.runway_id)}
+                        {f.runway_id && <div className="mt-1"><RunwayConflictBadge conflicts={flightRunwayConflicts(f)} flightId={f.id} compact /></div>}
                       </td>
-                      <td className="px-4 py-3 text-muted-foreground text-xs">{runwayName(f.runway_id)}</td>
                       <td className="px-4 py-3 text-muted-foreground text-xs">{f.gate || "—"}</td>
                       <td className="px-4 py-3">
                         <div className="flex items-center justify-end gap-1">
@@ -314,8 +668,35 @@ export default function Flights() {
               </tbody>
             </table>
           </div>
-          <div className="px-4 py-2 border-t border-border/50 text-xs text-muted-foreground">
-            Showing {filtered.length} of {flights.length} flights
+          <div className="px-4 py-2 border-t border-border/50 text-xs text-muted-foreground flex items-center justify-between gap-3">
+            <span>
+              {total === 0 ? "No flights" : `Showing ${page * pageSize + 1}–${page * pageSize + flights.length} of ${total} flights`}
+            </span>
+            <div className="flex items-center gap-2">
+              <Select value={String(pageSize)} onValueChange={v => setPageSize(Number(v))}>
+                <SelectTrigger className="w-24 h-7 text-xs bg-card border-border"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {FLIGHT_PAGE_SIZES.map(n => <SelectItem key={n} value={String(n)}>{n} / page</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <button
+                onClick={() => setPage(p => p - 1)}
+                disabled={page === 0}
+                aria-label="Previous page"
+                className="p-1 rounded hover:bg-muted hover:text-foreground transition-colors disabled:opacity-30"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <span className="font-mono">{page + 1} / {pages}</span>
+              <button
+                onClick={() => setPage(p => p + 1)}
+                disabled={page + 1 >= pages}
+                aria-label="Next page"
+                className="p-1 rounded hover:bg-muted hover:text-foreground transition-colors disabled:opacity-30"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
           </div>
         </div>
       </div>
@@ -337,27 +718,46 @@ export default function Flights() {
             </div>
             <div className="space-y-1.5">
               <Label className="text-xs">Origin *</Label>
-              <Input value={form.origin} onChange={e => setForm(p => ({ ...p, origin: e.target.value }))} placeholder="JFK" className="bg-muted border-border" />
+              <AirportCombobox airports={airports} value={form.origin} onChange={v => setForm(p => ({ ...p, origin: v }))} placeholder="Origin airport" />
             </div>
             <div className="space-y-1.5">
               <Label className="text-xs">Destination *</Label>
-              <Input value={form.destination} onChange={e => setForm(p => ({ ...p, destination: e.target.value }))} placeholder="LAX" className="bg-muted border-border" />
+              <AirportCombobox airports={airports} value={form.destination} onChange={v => setForm(p => ({ ...p, destination: v }))} placeholder="Destination airport" />
+            </div>
+            <div className="space-y-1.5 col-span-2">
+              <Label className="text-xs">Enter Times In</Label>
+              <Select value={entryMode} onValueChange={v => setEntryMode(v as TimeDisplayMode)}>
+                <SelectTrigger className="bg-muted border-border"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {TIME_DISPLAY_MODES.map(m => (
+                    <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
             <div className="space-y-1.5">
               <Label className="text-xs">Scheduled Departure *</Label>
-              <Input type="datetime-local" value={form.scheduled_departure} onChange={e => setForm(p => ({ ...p, scheduled_departure: e.target.value }))} className="bg-muted border-border" />
+              <ZonedDateTimeInput value={form.scheduled_departure} onChange={v => setForm(p => ({ ...p, scheduled_departure: v }))} airport={form.origin} mode={entryMode} />
             </div>
             <div className="space-y-1.5">
               <Label className="text-xs">Scheduled Arrival *</Label>
-              <Input type="datetime-local" value={form.scheduled_arrival} onChange={e => setForm(p => ({ ...p, scheduled_arrival: e.target.value }))} className="bg-muted border-border" />
+              <ZonedDateTimeInput value={form.scheduled_arrival} onChange={v => setForm(p => ({ ...p, scheduled_arrival: v }))} airport={form.destination} mode={entryMode} />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Estimated Departure</Label>
+              <ZonedDateTimeInput value={form.estimated_departure} onChange={v => setForm(p => ({ ...p, estimated_departure: v }))} airport={form.origin} mode={entryMode} />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Estimated Arrival</Label>
+              <ZonedDateTimeInput value={form.estimated_arrival} onChange={v => setForm(p => ({ ...p, estimated_arrival: v }))} airport={form.destination} mode={entryMode} />
             </div>
             <div className="space-y-1.5">
               <Label className="text-xs">Status</Label>
               <Select value={form.status} onValueChange={v => setForm(p => ({ ...p, status: v as FlightStatus }))}>
                 <SelectTrigger className="bg-muted border-border"><SelectValue /></SelectTrigger>
                 <SelectContent>
-                  {["scheduled","boarding","delayed","departed","landed","cancelled","emergency"].map(s => (
-                    <SelectItem key={s} value={s} className="capitalize">{s}</SelectItem>
+                  {(editStatus ? statusOptions(editStatus) : FLIGHT_STATUSES.filter(s => !ACTION_ONLY_STATUSES.includes(s))).map(s => (
+                    <SelectItem key={s} value={s} className="capitalize">{statusLabel(s)}</SelectItem>
                   ))}
                 </SelectContent>
               </Select>
@@ -368,24 +768,97 @@ export default function Flights() {
                 <SelectTrigger className="bg-muted border-border"><SelectValue placeholder="None" /></SelectTrigger>
                 <SelectContent>
                   <SelectItem value="none">None</SelectItem>
-                  {runways.filter(r => r.status === "available" || r.id === form.runway_id).map(r => (
-                    <SelectItem key={r.id} value={r.id}>{r.name}</SelectItem>
-                  ))}
+                  {runways.filter(r => ["available", "occupied"].includes(r.status) || r.id === form.runway_id).map(r => {
+                    const conflicts = formRunwayConflicts(r.id);
+                    const closure = formRunwayClosure(r.id);
+                    const fit = formRunwayFit(r);
+                    return (
+                      <SelectItem key={r.id} value={r.id} disabled={(!!closure || fit?.level === "block") && r.id !== form.runway_id}>
+                        {r.name}
+                        <span className="text-muted-foreground"> · {r.length_meters.toLocaleString()} m</span>
+                        {closure
+                          ? <span className="text-destructive"> · {describeClosure(closure, iso => formatDateTime(iso, home?.iata))}</span>
+                          : fit?.level === "block"
+                            ? <span className="text-destructive"> · unsuitable</span>
+                            : fit?.level === "warn"
+                              ? <span className="text-[hsl(var(--status-delayed))]"> · short margin</span>
+                              : conflicts.length > 0 && <span className="text-[hsl(var(--status-delayed))]"> · {conflicts.length} slot conflict{conflicts.length > 1 ? "s" : ""}</span>}
+                      </SelectItem>
+                    );
+                  })}
                 </SelectContent>
               </Select>
+              {formFit && formFit.level !== "ok" && (
+                <p className={`text-xs ${formFit.level === "block" ? "text-destructive" : "text-[hsl(var(--status-delayed))]"}`}>{formFit.message}</p>
+              )}
+              {formClosure && (
+                <p className="text-xs text-destructive">{describeClosure(formClosure, iso => formatDateTime(iso, home?.iata))}: {formClosure.reason}</p>
+              )}
+              {form.runway_id && <RunwayConflictBadge conflicts={formRunwayConflicts(form.runway_id)} flightId={editId ?? "new"} />}
             </div>
             <div className="space-y-1.5">
               <Label className="text-xs">Gate</Label>
-              <Input value={form.gate} onChange={e => setForm(p => ({ ...p, gate: e.target.value }))} placeholder="A12" className="bg-muted border-border" />
+              <Select value={form.gate_id || "none"} onValueChange={v => setForm(p => ({ ...p, gate_id: v === "none" ? "" : v }))}>
+                <SelectTrigger className="bg-muted border-border"><SelectValue placeholder="None" /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  {gates.filter(g => g.status === "available" || g.id === form.gate_id).map(g => {
+                    const conflict = gateConflict(g.id);
+                    return (
+                      <SelectItem key={g.id} value={g.id} disabled={!!conflict && g.id !== form.gate_id}>
+                        {g.name} <span className="text-muted-foreground">· {g.terminal}</span>
+                        {conflict && <span className="text-destructive"> · in use by {conflict.flight_number}</span>}
+                      </SelectItem>
+                    );
+                  })}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5 col-span-2">
+              <Label className="text-xs">Aircraft</Label>
+              <Select value={form.aircraft_id || "none"} onValueChange={v => selectAircraft(v === "none" ? "" : v)}>
+                <SelectTrigger className="bg-muted border-border"><SelectValue placeholder="Not assigned" /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Not assigned — enter type manually</SelectItem>
+                  {aircraft.map(a => (
+                    <SelectItem key={a.id} value={a.id}>
+                      <span className="font-mono">{a.registration}</span> <span className="text-muted-foreground">· {a.aircraft_type} · {a.capacity} seats · Wake {a.wake_category}</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
             <div className="space-y-1.5">
               <Label className="text-xs">Aircraft Type</Label>
-              <Input value={form.aircraft_type} onChange={e => setForm(p => ({ ...p, aircraft_type: e.target.value }))} placeholder="Boeing 737" className="bg-muted border-border" />
+              <Input value={form.aircraft_type} disabled={!!form.aircraft_id} onChange={e => setForm(p => ({ ...p, aircraft_type: e.target.value }))} placeholder="Boeing 737" className="bg-muted border-border" />
             </div>
             <div className="space-y-1.5">
               <Label className="text-xs">Capacity</Label>
-              <Input type="number" value={form.capacity} onChange={e => setForm(p => ({ ...p, capacity: Number(e.target.value) }))} className="bg-muted border-border" />
+              <Input type="number" value={form.capacity} disabled={!!form.aircraft_id} onChange={e => setForm(p => ({ ...p, capacity: Number(e.target.value) }))} className="bg-muted border-border" />
             </div>
+            {form.aircraft_id && (
+              <div className="space-y-1.5 col-span-2">
+                <Label className="text-xs">Inbound Flight (rotation)</Label>
+                <Select value={form.inbound_flight_id || "none"} onValueChange={v => setForm(p => ({ ...p, inbound_flight_id: v === "none" ? "" : v }))}>
+                  <SelectTrigger className="bg-muted border-border"><SelectValue placeholder="None" /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None</SelectItem>
+                    {inboundOptions.map(f => (
+                      <SelectItem key={f.id} value={f.id}>
+                        <span className="font-mono">{f.flight_number}</span> <span className="text-muted-foreground">· {f.origin} → {f.destination} · arr {formatDateTime(f.scheduled_arrival, f.destination)}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {formTurnaround !== null ? (
+                  <p className={`text-[10px] ${rotationState(formTurnaround) === "ok" ? "text-muted-foreground" : rotationState(formTurnaround) === "tight" ? "text-[hsl(var(--status-delayed))]" : "text-destructive"}`}>
+                    {formInbound!.flight_number}: {formatTurnaround(formTurnaround)}
+                  </p>
+                ) : inboundOptions.length === 0 && (
+                  <p className="text-[10px] text-muted-foreground">No earlier flight on this tail arrives at {form.origin.toUpperCase() || "the origin"}.</p>
+                )}
+              </div>
+            )}
             <div className="space-y-1.5 col-span-2">
               <Label className="text-xs">Notes</Label>
               <Input value={form.notes} onChange={e => setForm(p => ({ ...p, notes: e.target.value }))} placeholder="Optional notes..." className="bg-muted border-border" />
@@ -403,43 +876,77 @@ export default function Flights() {
       {/* View Dialog */}
       {viewFlight && (
         <Dialog open={!!viewFlight} onOpenChange={() => setViewFlight(null)}>
-          <DialogContent className="bg-card border-border max-w-lg">
+          <DialogContent className="bg-card border-border max-w-lg max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle className="flex items-center gap-3">
                 <span className="font-mono text-primary text-xl">{viewFlight.flight_number}</span>
                 <span className={`text-xs font-semibold px-2 py-1 rounded border capitalize ${statusBadge[viewFlight.status]}`}>
-                  {viewFlight.status}
+                  {statusLabel(viewFlight.status)}
                 </span>
               </DialogTitle>
             </DialogHeader>
             <div className="grid grid-cols-2 gap-3 text-sm">
               {[
                 ["Airline", viewFlight.airline],
-                ["Route", `${viewFlight.origin} → ${viewFlight.destination}`],
-                ["Aircraft", viewFlight.aircraft_type],
+                ["Route", `${city(viewFlight.origin)} (${viewFlight.origin}) → ${city(viewFlight.destination)} (${viewFlight.destination})`],
+                ["Aircraft", registration(viewFlight.aircraft_id) ? `${registration(viewFlight.aircraft_id)} · ${viewFlight.aircraft_type}` : viewFlight.aircraft_type],
                 ["Capacity", viewFlight.capacity.toString()],
                 ["Gate", viewFlight.gate || "—"],
                 ["Runway", runwayName(viewFlight.runway_id)],
-                ["Departure", new Date(viewFlight.scheduled_departure).toLocaleString()],
-                ["Arrival", new Date(viewFlight.scheduled_arrival).toLocaleString()],
+                ["Scheduled Departure", formatDateTime(viewFlight.scheduled_departure, viewFlight.origin)],
+                ["Scheduled Arrival", formatDateTime(viewFlight.scheduled_arrival, viewFlight.destination)],
+                ["Estimated Departure", viewFlight.estimated_departure ? formatDateTime(viewFlight.estimated_departure, viewFlight.origin) : "—"],
+                ["Estimated Arrival", viewFlight.estimated_arrival ? formatDateTime(viewFlight.estimated_arrival, viewFlight.destination) : "—"],
+                ["Actual Departure", viewFlight.actual_departure ? formatDateTime(viewFlight.actual_departure, viewFlight.origin) : "—"],
+                ["Actual Arrival", viewFlight.actual_arrival ? formatDateTime(viewFlight.actual_arrival, viewFlight.destination) : "—"],
+                ["Departure Delay", formatDelay(departureDelayMinutes(viewFlight))],
+                ["Arrival Delay", formatDelay(arrivalDelayMinutes(viewFlight))],
               ].map(([l, v]) => (
                 <div key={l} className="bg-muted/50 rounded-lg p-2.5">
                   <p className="text-xs text-muted-foreground">{l}</p>
                   <p className="font-medium text-foreground mt-0.5">{v}</p>
                 </div>
               ))}
+              {(flightById(viewFlight.inbound_flight_id) || known.some(f => f.inbound_flight_id === viewFlight.id)) && (
+                <div className="col-span-2 bg-muted/50 rounded-lg p-2.5 space-y-1.5">
+                  <p className="text-xs text-muted-foreground">Rotation</p>
+                  <div className="flex flex-wrap gap-2">
+                    {flightById(viewFlight.inbound_flight_id) && (
+                      <RotationBadge inbound={flightById(viewFlight.inbound_flight_id)!} outbound={viewFlight} />
+                    )}
+                    {known.filter(f => f.inbound_flight_id === viewFlight.id).map(f => (
+                      <span key={f.id} className="text-xs text-foreground">
+                        Continues as <span className="font-mono font-semibold text-primary">{f.flight_number}</span> · {formatTurnaround(turnaroundMinutes(viewFlight, f))}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {viewFlight.diversion_airport && (
+                <div className="col-span-2 rounded-lg p-2.5 bg-[hsl(var(--status-diverted)/0.1)] border border-[hsl(var(--status-diverted)/0.3)]">
+                  <p className="text-xs text-muted-foreground">Diversion</p>
+                  <p className="font-medium text-foreground mt-0.5">
+                    {city(viewFlight.diversion_airport)} ({viewFlight.diversion_airport})
+                    {viewFlight.diverted_at && <> · {formatDateTime(viewFlight.diverted_at, viewFlight.diversion_airport)}</>}
+                  </p>
+                  {viewFlight.diversion_reason && <p className="text-xs text-muted-foreground mt-0.5">{viewFlight.diversion_reason}</p>}
+                </div>
+              )}
               {viewFlight.notes && (
                 <div className="col-span-2 bg-muted/50 rounded-lg p-2.5">
                   <p className="text-xs text-muted-foreground">Notes</p>
                   <p className="font-medium text-foreground mt-0.5">{viewFlight.notes}</p>
                 </div>
               )}
+              <FlightTimeline flightId={viewFlight.id} runwayName={runwayName} origin={viewFlight.origin} destination={viewFlight.destination} />
             </div>
           </DialogContent>
         </Dialog>
       )}
 
       {/* Delete Confirm */}
+      <FlightImportDialog open={showImport} onOpenChange={setShowImport} runways={runways} airports={airports} />
+
       <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
         <AlertDialogContent className="bg-card border-border">
           <AlertDialogHeader>
@@ -0,0 +1,360 @@
+import { useEffect, useState } from "react";
+import AppLayout from "@/components/layout/AppLayout";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useTimeZone } from "@/contexts/TimeZoneContext";
+import { logActivity } from "@/lib/supabase";
+import { zonedDate } from "@/lib/timeZones";
+import { GATE_SIZE_CLASSES, GateFlight, GateSizeClass, GateStatus, GateType, conflictingFlightIds, gateOccupancy } from "@/lib/gates";
+import GateAllocationDialog from "@/components/gates/GateAllocationDialog";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Edit, Trash2, DoorOpen, CheckCircle, XCircle, Wrench, AlertTriangle, Wand2 } from "lucide-react";
+
+interface Gate {
+  id: string;
+  name: string;
+  terminal: string;
+  gate_type: GateType;
+  size_class: GateSizeClass;
+  status: GateStatus;
+  preferred_airlines: string[];
+  notes: string | null;
+}
+
+const statusConfig: Record<GateStatus, { icon: React.FC<{ className?: string }>, label: string, color: string, bg: string, border: string }> = {
+  available: { icon: CheckCircle, label: "Available", color: "text-[hsl(var(--runway-available))]", bg: "bg-[hsl(var(--runway-available)/0.1)]", border: "border-[hsl(var(--runway-available)/0.3)]" },
+  maintenance: { icon: Wrench, label: "Maintenance", color: "text-[hsl(var(--runway-maintenance))]", bg: "bg-[hsl(var(--runway-maintenance)/0.1)]", border: "border-[hsl(var(--runway-maintenance)/0.3)]" },
+  closed: { icon: XCircle, label: "Closed", color: "text-[hsl(var(--runway-closed))]", bg: "bg-[hsl(var(--runway-closed)/0.1)]", border: "border-[hsl(var(--runway-closed)/0.3)]" },
+};
+
+const defaultForm = { name: "", terminal: "T1", gate_type: "contact" as GateType, size_class: "C" as GateSizeClass, status: "available" as GateStatus, preferred_airlines: "", notes: "" };
+
+const HOURS = Array.from({ length: 24 }, (_, h) => h);
+const DAY = 86400000;
+
+
+export default function Gates() {
+  const { user, canManageFlights } = useAuth();
+  const { toast } = useToast();
+  const { zone, formatTime, fromInput } = useTimeZone();
+  const [gates, setGates] = useState<Gate[]>([]);
+  const [flights, setFlights] = useState<GateFlight[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [day, setDay] = useState(() => zonedDate(new Date(), zone()));
+  const [form, setForm] = useState(defaultForm);
+  const [editId, setEditId] = useState<string | null>(null);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [showAllocation, setShowAllocation] = useState(false);
+
+  // Days run midnight to midnight in the display zone.
+  const dayStart = new Date(fromInput(`${day}T00:00`)!).getTime();
+  const fmtTime = (ms: number) => formatTime(new Date(ms).toISOString());
+
+  const fetchGates = async () => {
+    const { data } = await supabase.from("gates").select("*").order("terminal").order("name");
+    setGates((data || []) as Gate[]);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchGates();
+    const channel = supabase.channel("gates-page")
+      .on("postgres_changes", { event: "*", schema: "public", table: "gates" }, fetchGates)
+      .subscribe();
+    return () => { supabase.removeChannel(channel); };
+  }, []);
+
+  useEffect(() => {
+    // A day either side catches flights whose estimate moved them into this day.
+    const fetchFlights = async () => {
+      const { data } = await supabase
+        .from("flights")
+        .select("id, flight_number, gate_id, status, scheduled_departure, scheduled_arrival, estimated_departure, estimated_arrival, actual_departure, actual_arrival")
+        .not("gate_id", "is", null)
+        .gte("scheduled_departure", new Date(dayStart - DAY).toISOString())
+        .lt("scheduled_departure", new Date(dayStart + 2 * DAY).toISOString());
+      setFlights((data || []) as GateFlight[]);
+    };
+
+    fetchFlights();
+    const channel = supabase.channel("gates-page-flights")
+      .on("postgres_changes", { event: "*", schema: "public", table: "flights" }, fetchFlights)
+      .subscribe();
+    return () => { supabase.removeChannel(channel); };
+  }, [dayStart]);
+
+  const openAdd = () => { setForm(defaultForm); setEditId(null); setShowForm(true); };
+  const openEdit = (g: Gate) => {
+    setForm({
+      name: g.name, terminal: g.terminal, gate_type: g.gate_type, size_class: g.size_class, status: g.status,
+      preferred_airlines: g.preferred_airlines.join(", "), notes: g.notes || "",
+    });
+    setEditId(g.id);
+    setShowForm(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.name || !form.terminal) {
+      toast({ title: "Validation Error", description: "Name and terminal are required.", variant: "destructive" });
+      return;
+    }
+    setSaving(true);
+    const payload = {
+      ...form,
+      name: form.name.trim().toUpperCase(),
+      preferred_airlines: form.preferred_airlines.split(",").map(a => a.trim()).filter(Boolean),
+      notes: form.notes || null,
+    };
+    if (editId) {
+      const { error } = await supabase.from("gates").update(payload).eq("id", editId);
+      if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
+      else {
+        toast({ title: "Gate Updated" });
+        await logActivity(user!.id, `Updated gate ${payload.name}`, "gate", editId);
+      }
+    } else {
+      const { error } = await supabase.from("gates").insert([payload]);
+      if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
+      else {
+        toast({ title: "Gate Created", description: `${payload.name} added.` });
+        await logActivity(user!.id, `Created gate ${payload.name}`, "gate");
+      }
+    }
+    setSaving(false);
+    setShowForm(false);
+    fetchGates();
+  };
+
+  const handleDelete = async () => {
+    if (!deleteId) return;
+    const g = gates.find(g => g.id === deleteId);
+    const { error } = await supabase.from("gates").delete().eq("id", deleteId);
+    if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
+    else {
+      toast({ title: "Gate Deleted", description: `${g?.name} removed.` });
+      await logActivity(user!.id, `Deleted gate ${g?.name}`, "gate", deleteId);
+      fetchGates();
+    }
+    setDeleteId(null);
+  };
+
+  const conflicts = conflictingFlightIds(flights);
+  const occupancies = flights
+    .map(f => ({ flight: f, ...gateOccupancy(f) }))
+    .filter(o => o.flight.status !== "cancelled" && o.end > dayStart && o.start < dayStart + DAY);
+  const now = Date.now();
+  const inUse = new Set(occupancies.filter(o => o.start <= now && now < o.end).map(o => o.flight.gate_id));
+
+  const statCards = [
+    { label: "Gates", value: gates.length, icon: DoorOpen, color: "text-primary" },
+    { label: "Available", value: gates.filter(g => g.status === "available").length, icon: CheckCircle, color: statusConfig.available.color },
+    { label: "In Use Now", value: inUse.size, icon: DoorOpen, color: "text-[hsl(var(--status-boarding))]" },
+    { label: "Conflicts", value: occupancies.filter(o => conflicts.has(o.flight.id)).length, icon: AlertTriangle, color: "text-destructive" },
+  ];
+
+  return (
+    <AppLayout title="Gate Management">
+      <div className="space-y-4 animate-fade-in-up">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {statCards.map(card => (
+            <div key={card.label} className="glass-card rounded-xl p-4">
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-muted border border-border">
+                  <card.icon className={`w-4 h-4 ${card.color}`} />
+                </div>
+                <div>
+                  <p className={`text-2xl font-bold ${card.color}`}>{card.value}</p>
+                  <p className="text-xs text-muted-foreground">{card.label}</p>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-3">
+          <h2 className="text-sm font-semibold text-foreground flex-1">Gate Occupancy</h2>
+          <Input type="date" value={day} onChange={e => e.target.value && setDay(e.target.value)} className="w-40 bg-card border-border" />
+          {canManageFlights() && (
+            <Button variant="outline" onClick={() => setShowAllocation(true)} className="gap-2">
+              <Wand2 className="w-4 h-4" /> Suggest Allocation
+            </Button>
+          )}
+          {canManageFlights() && (
+            <Button onClick={openAdd} className="bg-primary text-primary-foreground hover:bg-primary/90 gap-2">
+              <Plus className="w-4 h-4" /> Add Gate
+            </Button>
+          )}
+        </div>
+
+        <div className="glass-card rounded-xl overflow-hidden">
+          <div className="overflow-x-auto">
+            <div className="min-w-[900px]">
+              <div className="flex border-b border-border bg-muted/30">
+                <div className="w-56 shrink-0 px-4 py-2 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Gate</div>
+                <div className="flex-1 flex">
+                  {HOURS.map(h => (
+                    <div key={h} className="flex-1 text-[10px] font-mono text-muted-foreground py-2 border-l border-border/50 pl-1">{String(h).padStart(2, "0")}</div>
+                  ))}
+                </div>
+              </div>
+
+              {loading ? (
+                <p className="text-muted-foreground py-8 text-center">Loading gates...</p>
+              ) : gates.length === 0 ? (
+                <div className="text-center py-12">
+                  <DoorOpen className="w-8 h-8 text-muted-foreground mx-auto mb-2" />
+                  <p className="text-muted-foreground">No gates defined</p>
+                </div>
+              ) : gates.map(g => {
+                const cfg = statusConfig[g.status];
+                return (
+                  <div key={g.id} className="flex border-b border-border/50 hover:bg-muted/20 transition-colors">
+                    <div className="w-56 shrink-0 px-4 py-2 flex items-center gap-2">
+                      <div className="flex-1 min-w-0">
+                        <p className="font-mono font-bold text-foreground">{g.name}</p>
+                        <p className="text-[10px] text-muted-foreground">
+                          {g.terminal} · {g.gate_type === "contact" ? "Contact" : "Remote"} · Code {g.size_class}
+                        </p>
+                        {g.preferred_airlines.length > 0 && (
+                          <p className="text-[10px] text-muted-foreground truncate" title={g.preferred_airlines.join(", ")}>
+                            Pref: {g.preferred_airlines.join(", ")}
+                          </p>
+                        )}
+                      </div>
+                      <span className={`px-1.5 py-0.5 rounded text-[10px] font-semibold border ${cfg.bg} ${cfg.border} ${cfg.color}`}>{cfg.label}</span>
+                      {canManageFlights() && (
+                        <div className="flex">
+                          <button onClick={() => openEdit(g)} className="p-1 rounded hover:bg-muted text-muted-foreground hover:text-foreground transition-colors">
+                            <Edit className="w-3 h-3" />
+                          </button>
+                          <button onClick={() => setDeleteId(g.id)} className="p-1 rounded hover:bg-destructive/10 text-muted-foreground hover:text-destructive transition-colors">
+                            <Trash2 className="w-3 h-3" />
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                    <div className={`flex-1 relative h-12 ${g.status === "available" ? "" : "bg-[repeating-linear-gradient(45deg,transparent,transparent_6px,hsl(var(--muted))_6px,hsl(var(--muted))_8px)]"}`}>
+                      {HOURS.map(h => (
+                        <div key={h} className="absolute top-0 bottom-0 border-l border-border/30" style={{ left: `${(h / 24) * 100}%` }} />
+                      ))}
+                      {now >= dayStart && now < dayStart + DAY && (
+                        <div className="absolute top-0 bottom-0 w-px bg-primary z-10" style={{ left: `${((now - dayStart) / DAY) * 100}%` }} />
+                      )}
+                      {occupancies.filter(o => o.flight.gate_id === g.id).map(o => {
+                        const start = Math.max(o.start, dayStart);
+                        const end = Math.min(o.end, dayStart + DAY);
+                        const conflict = conflicts.has(o.flight.id);
+                        return (
+                          <div
+                            key={o.flight.id}
+                            title={`${o.flight.flight_number} · ${fmtTime(o.start)}–${fmtTime(o.end)}${conflict ? " · CONFLICT" : ""}`}
+                            className={`absolute top-2 bottom-2 rounded px-1.5 flex items-center text-[10px] font-mono font-bold overflow-hidden whitespace-nowrap border ${
+                              conflict
+                                ? "bg-destructive/20 border-destructive text-destructive"
+                                : "bg-primary/15 border-primary/40 text-primary"
+                            }`}
+                            style={{ left: `${((start - dayStart) / DAY) * 100}%`, width: `${((end - start) / DAY) * 100}%` }}
+                          >
+                            {o.flight.flight_number}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Add/Edit Dialog */}
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent className="bg-card border-border max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editId ? "Edit Gate" : "Add Gate"}</DialogTitle>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4 py-2">
+            <div className="space-y-1.5">
+              <Label className="text-xs">Name *</Label>
+              <Input value={form.name} onChange={e => setForm(p => ({ ...p, name: e.target.value }))} placeholder="A12" className="bg-muted border-border" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Terminal *</Label>
+              <Input value={form.terminal} onChange={e => setForm(p => ({ ...p, terminal: e.target.value }))} placeholder="T1" className="bg-muted border-border" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Type</Label>
+              <Select value={form.gate_type} onValueChange={v => setForm(p => ({ ...p, gate_type: v as GateType }))}>
+                <SelectTrigger className="bg-muted border-border"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="contact">Contact (jet bridge)</SelectItem>
+                  <SelectItem value="remote">Remote stand</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Status</Label>
+              <Select value={form.status} onValueChange={v => setForm(p => ({ ...p, status: v as GateStatus }))}>
+                <SelectTrigger className="bg-muted border-border"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(statusConfig) as GateStatus[]).map(s => (
+                    <SelectItem key={s} value={s}>{statusConfig[s].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5 col-span-2">
+              <Label className="text-xs">Size Class</Label>
+              <Select value={form.size_class} onValueChange={v => setForm(p => ({ ...p, size_class: v as GateSizeClass }))}>
+                <SelectTrigger className="bg-muted border-border"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {GATE_SIZE_CLASSES.map(c => (
+                    <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5 col-span-2">
+              <Label className="text-xs">Preferred Airlines</Label>
+              <Input value={form.preferred_airlines} onChange={e => setForm(p => ({ ...p, preferred_airlines: e.target.value }))} placeholder="AA, Delta Air Lines" className="bg-muted border-border" />
+            </div>
+            <div className="space-y-1.5 col-span-2">
+              <Label className="text-xs">Notes</Label>
+              <Input value={form.notes} onChange={e => setForm(p => ({ ...p, notes: e.target.value }))} placeholder="Optional notes..." className="bg-muted border-border" />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowForm(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving} className="bg-primary text-primary-foreground">
+              {saving ? "Saving..." : (editId ? "Update Gate" : "Add Gate")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <GateAllocationDialog open={showAllocation} onOpenChange={setShowAllocation} dayStart={dayStart} gates={gates} assigned={flights} />
+
+      <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
+        <AlertDialogContent className="bg-card border-border">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Gate</AlertDialogTitle>
+            <AlertDialogDescription>Flights assigned to this gate will be left without a gate. This cannot be undone.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground">Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </AppLayout>
+  );
+}
@@ -4,13 +4,14 @@ import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
 import { logActivity } from "@/lib/supabase";
 import { useToast } from "@/hooks/use-toast";
+import { useAirports } from "@/hooks/use-airports";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Plus, Search, Edit, Trash2, Users, CheckCircle, XCircle } from "lucide-react";
+import { Plus, Search, Edit, Trash2, Users, CheckCircle, XCircle, ArrowRightLeft, Waypoints } from "lucide-react";
 
 type BoardingStatus = "checked_in" | "boarding" | "boarded" | "no_show";
 
@@ -21,6 +22,7 @@ interface Flight {
   origin: string;
   destination: string;
   status: string;
+  diversion_airport: string | null;
 }
 
 interface Passenger {
@@ -33,6 +35,7 @@ interface Passenger {
   ticket_id: string;
   boarding_status: BoardingStatus;
   nationality: string;
+  needs_rebooking: boolean;
   created_at: string;
 }
 
@@ -51,6 +54,7 @@ const defaultForm = {
 export default function Passengers() {
   const { user } = useAuth();
   const { toast } = useToast();
+  const { city } = useAirports();
   const [passengers, setPassengers] = useState<Passenger[]>([]);
   const [flights, setFlights] = useState<Flight[]>([]);
   const [loading, setLoading] = useState(true);
@@ -63,6 +67,9 @@ export default function Passengers() {
   const [deleteId, setDeleteId] = useState<string | null>(null);
   const [showForm, setShowForm] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [rebookOnly, setRebookOnly] = useState(false);
+  const [rebooking, setRebooking] = useState<Passenger | null>(null);
+  const [rebookFlightId, setRebookFlightId] = useState("");
 
   const fetchPassengers = async () => {
     const { data } = await supabase.from("passengers").select("*").order("created_at", { ascending: false });
@@ -71,7 +78,7 @@ export default function Passengers() {
   };
 
   const fetchFlights = async () => {
-    const { data } = await supabase.from("flights").select("id, flight_number, airline, origin, destination, status")
+    const { data } = await supabase.from("flights").select("id, flight_number, airline, origin, destination, status, diversion_airport")
       .not("status", "in", '("cancelled","landed")').order("scheduled_departure");
     setFlights(data || []);
   };
@@ -81,6 +88,7 @@ export default function Passengers() {
     fetchFlights();
     const channel = supabase.channel("passengers-page")
       .on("postgres_changes", { event: "*", schema: "public", table: "passengers" }, fetchPassengers)
+      .on("postgres_changes", { event: "UPDATE", schema: "public", table: "flights" }, fetchFlights)
       .subscribe();
     return () => { supabase.removeChannel(channel); };
   }, []);
@@ -88,7 +96,7 @@ export default function Passengers() {
   const filtered = passengers.filter(p => {
     const matchSearch = `${p.first_name} ${p.last_name} ${p.passport_number} ${p.ticket_id}`.toLowerCase().includes(search.toLowerCase());
     const matchFlight = flightFilter === "all" || p.flight_id === flightFilter;
-    return matchSearch && matchFlight;
+    return matchSearch && matchFlight && (!rebookOnly || p.needs_rebooking);
   });
 
   const openAdd = () => { setForm(defaultForm); setEditId(null); setShowForm(true); };
@@ -157,6 +165,34 @@ export default function Passengers() {
     }
   };
 
+  // Clearing the flag without a new flight keeps the passenger on their original (diverted) flight.
+  const handleRebook = async (newFlightId: string | null) => {
+    if (!rebooking) return;
+    const p = rebooking;
+    const updates = newFlightId
+      ? { flight_id: newFlightId, needs_rebooking: false, seat_number: null, boarding_status: "checked_in" as BoardingStatus }
+      : { needs_rebooking: false };
+    const { error } = await supabase.from("passengers").update(updates).eq("id", p.id);
+    if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
+    else {
+      const target = newFlightId ? flights.find(f => f.id === newFlightId)?.flight_number : null;
+      toast({ title: "Passenger Rebooked", description: target ? `${p.first_name} ${p.last_name} moved to ${target}.` : `${p.first_name} ${p.last_name} kept on their flight.` });
+      await logActivity(user!.id, target ? `Rebooked ${p.first_name} ${p.last_name} onto ${target}` : `Cleared rebooking flag for ${p.first_name} ${p.last_name}`, "passenger", p.id);
+      fetchPassengers();
+    }
+    setRebooking(null);
+  };
+
+  const openRebook = (p: Passenger) => { setRebookFlightId(""); setRebooking(p); };
+
+  // Flights still open for booking, with those serving the original destination first.
+  const rebookOptions = (p: Passenger) => {
+    const destination = flights.find(f => f.id === p.flight_id)?.destination;
+    return flights
+      .filter(f => f.id !== p.flight_id && ["scheduled", "boarding", "delayed"].includes(f.status))
+      .sort((a, b) => Number(b.destination === destination) - Number(a.destination === destination));
+  };
+
   const validateTicket = async () => {
     if (!ticketSearch.trim()) return;
     const { data } = await supabase.from("passengers").select("*").eq("ticket_id", ticketSearch.trim().toUpperCase()).single();
@@ -166,11 +202,13 @@ export default function Passengers() {
 
   const flightInfo = (id: string) => {
     const f = flights.find(f => f.id === id);
-    return f ? `${f.flight_number} (${f.origin}→${f.destination})` : "—";
+    return f ? `${f.flight_number} (${city(f.origin)} → ${city(f.destination)})` : "—";
   };
 
   const counts = { checked_in: 0, boarding: 0, boarded: 0, no_show: 0 };
   passengers.forEach(p => counts[p.boarding_status]++);
+  const rebookCount = passengers.filter(p => p.needs_rebooking).length;
+  const rebookFrom = rebooking ? flights.find(f => f.id === rebooking.flight_id) : undefined;
 
   return (
     <AppLayout title="Passenger Management">
@@ -235,6 +273,16 @@ export default function Passengers() {
               ))}
             </SelectContent>
           </Select>
+          <button
+            onClick={() => setRebookOnly(r => !r)}
+            className={`flex items-center gap-1.5 px-3 text-xs font-medium rounded-lg border transition-all ${
+              rebookOnly
+                ? "bg-[hsl(var(--status-diverted)/0.15)] text-[hsl(var(--status-diverted))] border-[hsl(var(--status-diverted)/0.3)]"
+                : "bg-card text-muted-foreground border-border hover:text-foreground"
+            }`}
+          >
+            <Waypoints className="w-3.5 h-3.5" /> Needs Rebooking ({rebookCount})
+          </button>
           <Button onClick={openAdd} className="bg-primary text-primary-foreground gap-2">
             <Plus className="w-4 h-4" /> Add Passenger
           </Button>
@@ -274,7 +322,14 @@ export default function Passengers() {
                         </div>
                       </td>
                       <td className="px-4 py-3 font-mono text-xs text-primary">{p.ticket_id}</td>
-                      <td className="px-4 py-3 text-sm text-muted-foreground">{flightInfo(p.flight_id)}</td>
+                      <td className="px-4 py-3 text-sm text-muted-foreground">
+                        {flightInfo(p.flight_id)}
+                        {p.needs_rebooking && (
+                          <span className="ml-2 text-[10px] font-semibold px-1.5 py-0.5 rounded border bg-[hsl(var(--status-diverted)/0.15)] text-[hsl(var(--status-diverted))] border-[hsl(var(--status-diverted)/0.3)]">
+                            REBOOK
+                          </span>
+                        )}
+                      </td>
                       <td className="px-4 py-3 text-sm text-muted-foreground">{p.seat_number || "—"}</td>
                       <td className="px-4 py-3">
                         <Select value={p.boarding_status} onValueChange={(v) => handleBoardingUpdate(p.id, v as BoardingStatus)}>
@@ -290,6 +345,11 @@ export default function Passengers() {
                       </td>
                       <td className="px-4 py-3">
                         <div className="flex items-center justify-end gap-1">
+                          {p.needs_rebooking && (
+                            <button onClick={() => openRebook(p)} aria-label="Rebook passenger" className="p-1.5 rounded hover:bg-[hsl(var(--status-diverted)/0.1)] text-[hsl(var(--status-diverted))] transition-colors">
+                              <ArrowRightLeft className="w-3.5 h-3.5" />
+                            </button>
+                          )}
                           <button onClick={() => openEdit(p)} className="p-1.5 rounded hover:bg-primary/10 text-muted-foreground hover:text-primary transition-colors">
                             <Edit className="w-3.5 h-3.5" />
                           </button>
@@ -354,7 +414,7 @@ export default function Passengers() {
                 <SelectTrigger className="bg-muted border-border"><SelectValue placeholder="Select flight..." /></SelectTrigger>
                 <SelectContent>
                   {flights.map(f => (
-                    <SelectItem key={f.id} value={f.id}>{f.flight_number} — {f.airline} ({f.origin}→{f.destination})</SelectItem>
+                    <SelectItem key={f.id} value={f.id}>{f.flight_number} — {f.airline} ({city(f.origin)} → {city(f.destination)})</SelectItem>
                   ))}
                 </SelectContent>
               </Select>
@@ -369,6 +429,40 @@ export default function Passengers() {
         </DialogContent>
       </Dialog>
 
+      {/* Rebook */}
+      <Dialog open={!!rebooking} onOpenChange={() => setRebooking(null)}>
+        <DialogContent className="bg-card border-border max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Rebook {rebooking?.first_name} {rebooking?.last_name}</DialogTitle>
+          </DialogHeader>
+          {rebooking && (
+            <div className="space-y-3 py-2">
+              <p className="text-xs text-muted-foreground">
+                Booked on {flightInfo(rebooking.flight_id)}
+                {rebookFrom?.diversion_airport && <>, diverted to {city(rebookFrom.diversion_airport)}</>}
+              </p>
+              <div className="space-y-1.5">
+                <Label className="text-xs">New Flight</Label>
+                <Select value={rebookFlightId} onValueChange={setRebookFlightId}>
+                  <SelectTrigger className="bg-muted border-border"><SelectValue placeholder="Select flight..." /></SelectTrigger>
+                  <SelectContent>
+                    {rebookOptions(rebooking).map(f => (
+                      <SelectItem key={f.id} value={f.id}>{f.flight_number} — {f.airline} ({city(f.origin)} → {city(f.destination)})</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => handleRebook(null)}>Keep on Flight</Button>
+            <Button onClick={() => handleRebook(rebookFlightId)} disabled={!rebookFlightId} className="bg-primary text-primary-foreground">
+              Rebook
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
         <AlertDialogContent className="bg-card border-border">
           <AlertDialogHeader>
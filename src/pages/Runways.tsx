@@ -4,13 +4,23 @@ import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
 import { logActivity } from "@/lib/supabase";
 import { useToast } from "@/hooks/use-toast";
+import { useAirports } from "@/hooks/use-airports";
+import { useTimeZone } from "@/contexts/TimeZoneContext";
+import { RunwaySlot, SlotFlight, describeConflict, runwayConflicts, runwaySlot } from "@/lib/runwaySlots";
+import { retimeSlot } from "@/lib/runwayTimeline";
+import { AircraftPerformance, aircraftRunwayFit } from "@/lib/runwayPerformance";
+import { ClosureKind, RunwayClosure, activeClosure, describeClosure, flightClosure } from "@/lib/runwayClosures";
+import RunwayConflictBadge from "@/components/flights/RunwayConflictBadge";
+import RunwayTimeline from "@/components/runways/RunwayTimeline";
+import RunwayFitBadge from "@/components/runways/RunwayFitBadge";
+import ZonedDateTimeInput from "@/components/flights/ZonedDateTimeInput";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Plus, Edit, Trash2, Wind, CheckCircle, AlertTriangle, XCircle, Wrench } from "lucide-react";
+import { Plus, Edit, Trash2, Wind, CheckCircle, AlertTriangle, XCircle, Wrench, PlaneLanding, PlaneTakeoff, CalendarClock } from "lucide-react";
 
 type RunwayStatus = "available" | "occupied" | "maintenance" | "closed";
 
@@ -20,15 +30,19 @@ interface Runway {
   length_meters: number;
   status: RunwayStatus;
   surface_type: string;
+  heading_degrees: number | null;
+  crosswind_limit_kt: number;
+  tailwind_limit_kt: number;
   notes: string | null;
   created_at: string;
 }
 
-interface AssignedFlight {
-  id: string;
-  flight_number: string;
-  airline: string;
-  status: string;
+// A slot move held for confirmation because it breaks separation.
+interface PendingMove {
+  slot: RunwaySlot;
+  runwayId: string;
+  start: number;
+  conflict: string;
 }
 
 const statusConfig: Record<RunwayStatus, { icon: React.FC<{className?: string}>, label: string, color: string, bg: string, border: string }> = {
@@ -38,13 +52,26 @@ const statusConfig: Record<RunwayStatus, { icon: React.FC<{className?: string}>,
   closed: { icon: XCircle, label: "Closed", color: "runway-closed text-[hsl(var(--runway-closed))]", bg: "bg-[hsl(var(--runway-closed)/0.1)]", border: "border-[hsl(var(--runway-closed)/0.3)]" },
 };
 
-const defaultForm = { name: "", length_meters: 3000, status: "available" as RunwayStatus, surface_type: "asphalt", notes: "" };
+const defaultForm = {
+  name: "", length_meters: 3000, status: "available" as RunwayStatus, surface_type: "asphalt", notes: "",
+  heading_degrees: "", crosswind_limit_kt: 25, tailwind_limit_kt: 5,
+};
+
+const defaultClosureForm = { runway_id: "", kind: "maintenance" as ClosureKind, starts_at: "", ends_at: "", reason: "", reference: "" };
 
 export default function Runways() {
   const { user, isATC } = useAuth();
   const { toast } = useToast();
   const [runways, setRunways] = useState<Runway[]>([]);
-  const [assignedFlights, setAssignedFlights] = useState<Record<string, AssignedFlight>>({});
+  const { home } = useAirports();
+  const { mode, formatTime, formatDateTime } = useTimeZone();
+  const [assignedFlights, setAssignedFlights] = useState<SlotFlight[]>([]);
+  const [closures, setClosures] = useState<RunwayClosure[]>([]);
+  const [performance, setPerformance] = useState<AircraftPerformance[]>([]);
+  const [closureForm, setClosureForm] = useState(defaultClosureForm);
+  const [showClosureForm, setShowClosureForm] = useState(false);
+  const [cancelClosureId, setCancelClosureId] = useState<string | null>(null);
+  const [pendingMove, setPendingMove] = useState<PendingMove | null>(null);
   const [loading, setLoading] = useState(true);
   const [form, setForm] = useState(defaultForm);
   const [editId, setEditId] = useState<string | null>(null);
@@ -61,37 +88,52 @@ export default function Runways() {
   const fetchAssignedFlights = async () => {
     const { data } = await supabase
       .from("flights")
-      .select("id, flight_number, airline, status, runway_id")
+      .select("id, flight_number, origin, destination, status, runway_id, aircraft_type, scheduled_departure, scheduled_arrival, estimated_departure, estimated_arrival, actual_departure, actual_arrival, aircraft(wake_category)")
       .not("runway_id", "is", null)
-      .not("status", "in", '("landed","cancelled","departed")');
-    const map: Record<string, AssignedFlight> = {};
-    (data || []).forEach((f: { id: string; flight_number: string; airline: string; status: string; runway_id: string }) => {
-      if (f.runway_id) map[f.runway_id] = { id: f.id, flight_number: f.flight_number, airline: f.airline, status: f.status };
-    });
-    setAssignedFlights(map);
+      .not("status", "in", '("landed","cancelled","diverted")');
+    setAssignedFlights((data || []).map(({ aircraft, ...f }) => ({ ...f, wake_category: aircraft?.wake_category ?? null })));
+  };
+
+  const fetchClosures = async () => {
+    const { data } = await supabase.from("runway_closures").select("*").gt("ends_at", new Date().toISOString()).order("starts_at");
+    setClosures((data || []) as RunwayClosure[]);
   };
 
   useEffect(() => {
     fetchRunways();
     fetchAssignedFlights();
+    fetchClosures();
+    supabase.from("aircraft_performance").select("*").then(({ data }) => setPerformance(data || []));
     const channel = supabase.channel("runways-page")
       .on("postgres_changes", { event: "*", schema: "public", table: "runways" }, fetchRunways)
       .on("postgres_changes", { event: "*", schema: "public", table: "flights" }, fetchAssignedFlights)
+      .on("postgres_changes", { event: "*", schema: "public", table: "runway_closures" }, fetchClosures)
       .subscribe();
     return () => { supabase.removeChannel(channel); };
   }, []);
 
   const openAdd = () => { setForm(defaultForm); setEditId(null); setShowForm(true); };
   const openEdit = (r: Runway) => {
-    setForm({ name: r.name, length_meters: r.length_meters, status: r.status, surface_type: r.surface_type, notes: r.notes || "" });
+    setForm({
+      name: r.name, length_meters: r.length_meters, status: r.status, surface_type: r.surface_type, notes: r.notes || "",
+      heading_degrees: r.heading_degrees?.toString() ?? "", crosswind_limit_kt: r.crosswind_limit_kt, tailwind_limit_kt: r.tailwind_limit_kt,
+    });
     setEditId(r.id);
     setShowForm(true);
   };
 
   const handleSave = async () => {
     if (!form.name) { toast({ title: "Validation Error", description: "Name is required.", variant: "destructive" }); return; }
+    const heading = form.heading_degrees ? Number(form.heading_degrees) : null;
+    if (heading !== null && !(heading >= 1 && heading <= 360)) {
+      toast({ title: "Validation Error", description: "Heading must be between 1° and 360°.", variant: "destructive" });
+      return;
+    }
     setSaving(true);
-    const payload = { name: form.name, length_meters: Number(form.length_meters), status: form.status, surface_type: form.surface_type, notes: form.notes || null };
+    const payload = {
+      name: form.name, length_meters: Number(form.length_meters), status: form.status, surface_type: form.surface_type, notes: form.notes || null,
+      heading_degrees: heading, crosswind_limit_kt: Number(form.crosswind_limit_kt), tailwind_limit_kt: Number(form.tailwind_limit_kt),
+    };
     if (editId) {
       const { error } = await supabase.from("runways").update(payload).eq("id", editId);
       if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
@@ -127,7 +169,7 @@ export default function Runways() {
 
   const handleStatusChange = async (runwayId: string, newStatus: RunwayStatus) => {
     const r = runways.find(r => r.id === runwayId);
-    if (newStatus === "available" && assignedFlights[runwayId]) {
+    if (newStatus === "available" && slotsByRunway(runwayId).length > 0) {
       toast({ title: "Cannot Set Available", description: "This runway has an active flight assignment.", variant: "destructive" });
       return;
     }
@@ -139,6 +181,109 @@ export default function Runways() {
     }
   };
 
+  const handleSaveClosure = async () => {
+    const { runway_id, kind, starts_at, ends_at, reason, reference } = closureForm;
+    if (!runway_id || !starts_at || !ends_at || !reason.trim()) {
+      toast({ title: "Validation Error", description: "Runway, start, end and reason are required.", variant: "destructive" });
+      return;
+    }
+    if (Date.parse(ends_at) <= Date.parse(starts_at)) {
+      toast({ title: "Validation Error", description: "The window must end after it starts.", variant: "destructive" });
+      return;
+    }
+    setSaving(true);
+    const payload = { runway_id, kind, starts_at, ends_at, reason: reason.trim(), reference: reference.trim() || null };
+    const { error } = await supabase.from("runway_closures").insert([{ ...payload, created_by: user!.id }]);
+    if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
+    else {
+      const r = runways.find(r => r.id === runway_id);
+      // The database raises an alert for each of these.
+      const affected = assignedFlights.filter(f => f.runway_id === runway_id && flightClosure(f, runway_id, [{ ...payload, id: "new" }], home?.iata));
+      toast({
+        title: "Closure Scheduled",
+        description: affected.length
+          ? `${r?.name}: ${affected.length} assigned flight${affected.length > 1 ? "s" : ""} alerted (${affected.map(f => f.flight_number).join(", ")}).`
+          : `${r?.name} ${kind} window added.`,
+      });
+      await logActivity(user!.id, `Scheduled ${kind} on ${r?.name}`, "runway", runway_id, { starts_at, ends_at, reference: payload.reference });
+      setShowClosureForm(false);
+    }
+    setSaving(false);
+  };
+
+  const handleCancelClosure = async () => {
+    if (!cancelClosureId) return;
+    const c = closures.find(c => c.id === cancelClosureId);
+    const r = runways.find(r => r.id === c?.runway_id);
+    const { error } = await supabase.from("runway_closures").delete().eq("id", cancelClosureId);
+    if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
+    else {
+      toast({ title: "Closure Cancelled", description: `${r?.name} ${c?.kind} window removed.` });
+      await logActivity(user!.id, `Cancelled ${c?.kind} on ${r?.name}`, "runway", c?.runway_id, { reference: c?.reference });
+    }
+    setCancelClosureId(null);
+  };
+
+  const slotMove = (slot: RunwaySlot, runwayId: string, start: number) => {
+    const f = slot.flight;
+    const retime = retimeSlot(slot, start);
+    const updates = { runway_id: runwayId, ...retime };
+    const r = runways.find(r => r.id === runwayId);
+    const at = formatTime(new Date(start).toISOString(), slot.kind === "departure" ? f.origin : f.destination);
+    const fit = r && runwayId !== slot.runwayId ? aircraftRunwayFit(f.aircraft_type, performance, r, slot.kind) : null;
+    return { f, retime, updates, r, at, fit };
+  };
+
+  // Closures and unsuitable runways block the move; a separation conflict is
+  // shown first and the move waits for the controller to confirm it.
+  const handleMoveSlot = (slot: RunwaySlot, runwayId: string, start: number) => {
+    const { f, retime, updates, r, at, fit } = slotMove(slot, runwayId, start);
+    if (!retime && runwayId === slot.runwayId) return;
+    const closure = flightClosure({ ...f, ...updates }, runwayId, closures, home?.iata);
+    if (closure) {
+      toast({ title: "Runway Closed", description: `${r?.name}: ${describeClosure(closure, iso => formatDateTime(iso, home?.iata))}.`, variant: "destructive" });
+      return;
+    }
+    if (fit?.level === "block") {
+      toast({ title: "Runway Unsuitable", description: `${fit.message}.`, variant: "destructive" });
+      return;
+    }
+    const conflicts = runwayConflicts({ ...f, ...updates }, runwayId, assignedFlights, home?.iata);
+    if (conflicts.length) {
+      setPendingMove({ slot, runwayId, start, conflict: `${f.flight_number} on ${r?.name} at ${at}: ${describeConflict(conflicts[0], f.id)}.` });
+      return;
+    }
+    moveSlot(slot, runwayId, start);
+  };
+
+  const moveSlot = async (slot: RunwaySlot, runwayId: string, start: number) => {
+    const { f, retime, updates, r, at, fit } = slotMove(slot, runwayId, start);
+    const { error } = await supabase.rpc("assign_runway", {
+      _flight_id: f.id,
+      _runway_id: runwayId,
+      _estimated_departure: retime?.estimated_departure,
+      _estimated_arrival: retime?.estimated_arrival,
+    });
+    if (error) { toast({ title: "Error", description: error.message, variant: "destructive" }); return; }
+    if (fit?.level === "warn") toast({ title: "Slot Moved", description: `${f.flight_number} moved to ${r?.name} at ${at}, but ${fit.message}.` });
+    else toast({ title: "Slot Moved", description: `${f.flight_number} moved to ${r?.name} at ${at}.` });
+    await logActivity(user!.id, `Moved ${f.flight_number} to ${r?.name} at ${at}`, "flight", f.id, updates);
+    fetchAssignedFlights();
+  };
+
+  const confirmMove = () => {
+    if (!pendingMove) return;
+    moveSlot(pendingMove.slot, pendingMove.runwayId, pendingMove.start);
+    setPendingMove(null);
+  };
+
+  // Every movement assigned to the runway, in time order.
+  const slotsByRunway = (runwayId: string) => assignedFlights
+    .filter(f => f.runway_id === runwayId)
+    .map(f => runwaySlot(f, runwayId, home?.iata))
+    .filter(Boolean)
+    .sort((a, b) => a!.start - b!.start);
+
   const counts = { available: 0, occupied: 0, maintenance: 0, closed: 0 };
   runways.forEach(r => counts[r.status]++);
 
@@ -165,6 +310,51 @@ export default function Runways() {
           })}
         </div>
 
+        {/* Occupancy timeline */}
+        <div className="space-y-2">
+          <h2 className="text-sm font-semibold text-foreground">Next 24 Hours</h2>
+          <RunwayTimeline runways={runways} flights={assignedFlights} closures={closures} home={home?.iata} canEdit={isATC()} onMove={handleMoveSlot} />
+        </div>
+
+        {/* Planned closures */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h2 className="text-sm font-semibold text-foreground">Planned Closures ({closures.length})</h2>
+            {isATC() && (
+              <Button variant="outline" onClick={() => { setClosureForm(defaultClosureForm); setShowClosureForm(true); }} className="gap-2">
+                <CalendarClock className="w-4 h-4" /> Schedule Closure
+              </Button>
+            )}
+          </div>
+          {closures.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No maintenance or closures planned.</p>
+          ) : (
+            <div className="glass-card rounded-xl border border-border divide-y divide-border/50">
+              {closures.map(c => {
+                const cfg = statusConfig[c.kind];
+                const active = Date.parse(c.starts_at) <= Date.now();
+                return (
+                  <div key={c.id} className="flex items-center gap-3 px-4 py-2.5 text-xs">
+                    <span className="font-bold text-foreground w-20 truncate">{runways.find(r => r.id === c.runway_id)?.name}</span>
+                    <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded border font-semibold ${cfg.bg} ${cfg.border} ${cfg.color}`}>
+                      <cfg.icon className="w-3 h-3" />{cfg.label}
+                    </span>
+                    {active && <span className="text-[10px] font-bold uppercase text-destructive">Active</span>}
+                    <span className="font-mono text-muted-foreground">{formatDateTime(c.starts_at, home?.iata)} – {formatDateTime(c.ends_at, home?.iata)}</span>
+                    <span className="text-foreground flex-1 truncate">{c.reason}</span>
+                    {c.reference && <span className="font-mono text-muted-foreground">{c.reference}</span>}
+                    {isATC() && (
+                      <button onClick={() => setCancelClosureId(c.id)} className="p-1.5 rounded hover:bg-destructive/10 transition-colors text-muted-foreground hover:text-destructive">
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
         {/* Header */}
         <div className="flex items-center justify-between">
           <h2 className="text-sm font-semibold text-foreground">All Runways ({runways.length})</h2>
@@ -181,7 +371,8 @@ export default function Runways() {
             <p className="text-muted-foreground col-span-3 py-8 text-center">Loading runways...</p>
           ) : runways.map(r => {
             const cfg = statusConfig[r.status];
-            const assigned = assignedFlights[r.id];
+            const slots = slotsByRunway(r.id);
+            const closure = activeClosure(r.id, closures, new Date());
             return (
               <div key={r.id} className={`glass-card rounded-xl p-4 border ${cfg.border} relative overflow-hidden`}>
                 {/* Status stripe */}
@@ -191,7 +382,9 @@ export default function Runways() {
                   <div className="flex items-start justify-between mb-3">
                     <div>
                       <p className="font-bold text-foreground text-lg">{r.name}</p>
-                      <p className="text-xs text-muted-foreground font-mono">{r.length_meters.toLocaleString()}m · {r.surface_type}</p>
+                      <p className="text-xs text-muted-foreground font-mono">
+                        {r.length_meters.toLocaleString()}m · {r.surface_type}{r.heading_degrees !== null && ` · ${r.heading_degrees.toString().padStart(3, "0")}°`}
+                      </p>
                     </div>
                     {isATC() && (
                       <div className="flex gap-1">
@@ -207,7 +400,7 @@ export default function Runways() {
 
                   {/* Status */}
                   {isATC() ? (
-                    <Select value={r.status} onValueChange={v => handleStatusChange(r.id, v as RunwayStatus)}>
+                    <Select value={r.status} onValueChange={v => handleStatusChange(r.id, v as RunwayStatus)} disabled={!!closure}>
                       <SelectTrigger className={`w-full h-8 text-xs font-semibold border ${cfg.bg} ${cfg.border} ${cfg.color}`}>
                         <div className="flex items-center gap-2">
                           <cfg.icon className="w-3.5 h-3.5" />
@@ -227,12 +420,30 @@ export default function Runways() {
                     </div>
                   )}
 
-                  {/* Assigned flight */}
-                  {assigned && (
-                    <div className="mt-2 p-2 rounded-lg bg-muted/50 border border-border/50">
-                      <p className="text-xs text-muted-foreground">Assigned Flight</p>
-                      <p className="text-sm font-mono font-bold text-primary">{assigned.flight_number}</p>
-                      <p className="text-xs text-muted-foreground">{assigned.airline} · <span className="capitalize">{assigned.status}</span></p>
+                  {closure && (
+                    <p className="text-xs text-muted-foreground mt-1.5">
+                      Until {formatDateTime(closure.ends_at, home?.iata)}{closure.reference && ` · ${closure.reference}`} · {closure.reason}
+                    </p>
+                  )}
+
+                  {/* Assigned slots */}
+                  {slots.length > 0 && (
+                    <div className="mt-2 p-2 rounded-lg bg-muted/50 border border-border/50 space-y-1">
+                      <p className="text-xs text-muted-foreground">Assigned Slots ({slots.length})</p>
+                      {slots.map(s => {
+                        const f = s!.flight;
+                        const MovementIcon = s!.kind === "departure" ? PlaneTakeoff : PlaneLanding;
+                        return (
+                          <div key={f.id} className="flex items-center gap-2 text-xs flex-wrap">
+                            <span className="font-mono text-muted-foreground">{formatTime(new Date(s!.start).toISOString(), s!.kind === "departure" ? f.origin : f.destination)}</span>
+                            <MovementIcon className="w-3 h-3 text-muted-foreground" />
+                            <span className="font-mono font-bold text-primary">{f.flight_number}</span>
+                            <span className="text-muted-foreground">{s!.wake}</span>
+                            <RunwayConflictBadge conflicts={runwayConflicts(f, r.id, assignedFlights, home?.iata)} flightId={f.id} compact />
+                            <RunwayFitBadge fit={aircraftRunwayFit(f.aircraft_type, performance, r, s!.kind)} />
+                          </div>
+                        );
+                      })}
                     </div>
                   )}
 
@@ -261,6 +472,21 @@ export default function Runways() {
               <Label className="text-xs">Length (meters)</Label>
               <Input type="number" value={form.length_meters} onChange={e => setForm(p => ({ ...p, length_meters: Number(e.target.value) }))} className="bg-muted border-border" />
             </div>
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-1.5">
+                <Label className="text-xs">Heading (°M)</Label>
+                <Input type="number" min={1} max={360} value={form.heading_degrees} onChange={e => setForm(p => ({ ...p, heading_degrees: e.target.value }))} placeholder="From name" className="bg-muted border-border" />
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs">Crosswind limit (kt)</Label>
+                <Input type="number" min={0} value={form.crosswind_limit_kt} onChange={e => setForm(p => ({ ...p, crosswind_limit_kt: Number(e.target.value) }))} className="bg-muted border-border" />
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs">Tailwind limit (kt)</Label>
+                <Input type="number" min={0} value={form.tailwind_limit_kt} onChange={e => setForm(p => ({ ...p, tailwind_limit_kt: Number(e.target.value) }))} className="bg-muted border-border" />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">Heading of the first threshold in the name; the other end is its reciprocal.</p>
             <div className="space-y-1.5">
               <Label className="text-xs">Surface Type</Label>
               <Select value={form.surface_type} onValueChange={v => setForm(p => ({ ...p, surface_type: v }))}>
@@ -298,6 +524,86 @@ export default function Runways() {
         </DialogContent>
       </Dialog>
 
+      {/* Schedule closure */}
+      <Dialog open={showClosureForm} onOpenChange={setShowClosureForm}>
+        <DialogContent className="bg-card border-border max-w-md">
+          <DialogHeader>
+            <DialogTitle>Schedule Closure</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3 py-2">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label className="text-xs">Runway *</Label>
+                <Select value={closureForm.runway_id} onValueChange={v => setClosureForm(p => ({ ...p, runway_id: v }))}>
+                  <SelectTrigger className="bg-muted border-border"><SelectValue placeholder="Select runway" /></SelectTrigger>
+                  <SelectContent>
+                    {runways.map(r => <SelectItem key={r.id} value={r.id}>{r.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs">Type</Label>
+                <Select value={closureForm.kind} onValueChange={v => setClosureForm(p => ({ ...p, kind: v as ClosureKind }))}>
+                  <SelectTrigger className="bg-muted border-border"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="maintenance">Maintenance</SelectItem>
+                    <SelectItem value="closed">Closed</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Starts *</Label>
+              <ZonedDateTimeInput value={closureForm.starts_at} onChange={v => setClosureForm(p => ({ ...p, starts_at: v }))} airport={home?.iata} mode={mode} />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Ends *</Label>
+              <ZonedDateTimeInput value={closureForm.ends_at} onChange={v => setClosureForm(p => ({ ...p, ends_at: v }))} airport={home?.iata} mode={mode} />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Reason *</Label>
+              <Input value={closureForm.reason} onChange={e => setClosureForm(p => ({ ...p, reason: e.target.value }))} placeholder="Rubber removal, lighting repair..." className="bg-muted border-border" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Reference</Label>
+              <Input value={closureForm.reference} onChange={e => setClosureForm(p => ({ ...p, reference: e.target.value }))} placeholder="NOTAM or work order number" className="bg-muted border-border font-mono" />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowClosureForm(false)}>Cancel</Button>
+            <Button onClick={handleSaveClosure} disabled={saving} className="bg-primary text-primary-foreground">
+              {saving ? "Saving..." : "Schedule"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingMove} onOpenChange={() => setPendingMove(null)}>
+        <AlertDialogContent className="bg-card border-border">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Slot Conflict</AlertDialogTitle>
+            <AlertDialogDescription>{pendingMove?.conflict} Move the slot anyway?</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmMove} className="bg-destructive text-destructive-foreground">Move Anyway</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!cancelClosureId} onOpenChange={() => setCancelClosureId(null)}>
+        <AlertDialogContent className="bg-card border-border">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel Closure</AlertDialogTitle>
+            <AlertDialogDescription>The window will be removed and, if it is active, the runway becomes available again.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep</AlertDialogCancel>
+            <AlertDialogAction onClick={handleCancelClosure} className="bg-destructive text-destructive-foreground">Cancel Closure</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
         <AlertDialogContent className="bg-card border-border">
           <AlertDialogHeader>
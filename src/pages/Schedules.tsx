@@ -0,0 +1,461 @@
+import { useEffect, useState } from "react";
+import AppLayout from "@/components/layout/AppLayout";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { logActivity } from "@/lib/supabase";
+import { WEEK_DAYS, addDays, formatDays, scheduleDates } from "@/lib/schedules";
+import { buildSsim } from "@/lib/ssim";
+import SsimImportDialog from "@/components/flights/SsimImportDialog";
+import AirportCombobox from "@/components/flights/AirportCombobox";
+import { routeError } from "@/lib/airports";
+import { useToast } from "@/hooks/use-toast";
+import { useAirports } from "@/hooks/use-airports";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Edit, Trash2, CalendarRange, RefreshCw, FileUp, FileDown } from "lucide-react";
+
+interface Runway { id: string; name: string; status: string; }
+interface Schedule {
+  id: string;
+  flight_number: string;
+  airline: string;
+  origin: string;
+  destination: string;
+  days_of_week: number[];
+  valid_from: string;
+  valid_to: string;
+  departure_time: string;
+  arrival_time: string;
+  arrival_day_offset: number;
+  aircraft_type: string;
+  capacity: number;
+  runway_id: string | null;
+  gate: string | null;
+  is_active: boolean;
+  notes: string | null;
+}
+
+const defaultForm = {
+  flight_number: "", airline: "", origin: "", destination: "",
+  days_of_week: [1, 2, 3, 4, 5, 6, 7], valid_from: "", valid_to: "",
+  departure_time: "", arrival_time: "", arrival_day_offset: 0,
+  aircraft_type: "Boeing 737", capacity: 180, runway_id: "", gate: "", is_active: true, notes: "",
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export default function Schedules() {
+  const { user, canManageFlights } = useAuth();
+  const { toast } = useToast();
+  const { airports } = useAirports();
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [runways, setRunways] = useState<Runway[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [windowDays, setWindowDays] = useState("14");
+  const [form, setForm] = useState(defaultForm);
+  const [editId, setEditId] = useState<string | null>(null);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [syncing, setSyncing] = useState<string | null>(null);
+  const [showImport, setShowImport] = useState(false);
+
+  const fetchSchedules = async () => {
+    const { data } = await supabase.from("flight_schedules").select("*").order("flight_number");
+    setSchedules((data || []) as Schedule[]);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchSchedules();
+    supabase.from("runways").select("id, name, status").then(({ data }) => setRunways(data || []));
+    const channel = supabase.channel("schedules-page")
+      .on("postgres_changes", { event: "*", schema: "public", table: "flight_schedules" }, fetchSchedules)
+      .subscribe();
+    return () => { supabase.removeChannel(channel); };
+  }, []);
+
+  const openAdd = () => {
+    setForm({ ...defaultForm, valid_from: today(), valid_to: addDays(today(), 180) });
+    setEditId(null);
+    setShowForm(true);
+  };
+
+  const openEdit = (s: Schedule) => {
+    setForm({
+      flight_number: s.flight_number,
+      airline: s.airline,
+      origin: s.origin,
+      destination: s.destination,
+      days_of_week: s.days_of_week,
+      valid_from: s.valid_from,
+      valid_to: s.valid_to,
+      departure_time: s.departure_time.slice(0, 5),
+      arrival_time: s.arrival_time.slice(0, 5),
+      arrival_day_offset: s.arrival_day_offset,
+      aircraft_type: s.aircraft_type,
+      capacity: s.capacity,
+      runway_id: s.runway_id || "",
+      gate: s.gate || "",
+      is_active: s.is_active,
+      notes: s.notes || "",
+    });
+    setEditId(s.id);
+    setShowForm(true);
+  };
+
+  const toggleDay = (day: number) => setForm(p => ({
+    ...p,
+    days_of_week: p.days_of_week.includes(day) ? p.days_of_week.filter(d => d !== day) : [...p.days_of_week, day].sort(),
+  }));
+
+  const syncSchedule = async (id: string, flightNumber: string) => {
+    setSyncing(id);
+    const { data, error } = await supabase.rpc("sync_schedule_flights", { _schedule_id: id, _window_days: Number(windowDays) });
+    setSyncing(null);
+    if (error) { toast({ title: "Generation Failed", description: error.message, variant: "destructive" }); return; }
+    const r = data?.[0];
+    toast({ title: "Schedule Synced", description: `${flightNumber}: ${r?.created ?? 0} created, ${r?.updated ?? 0} updated, ${r?.removed ?? 0} removed.` });
+    await logActivity(user!.id, `Generated flights for schedule ${flightNumber}`, "schedule", id, { ...r, window_days: Number(windowDays) });
+  };
+
+  const syncAll = async () => {
+    setSyncing("all");
+    const { data, error } = await supabase.rpc("sync_all_schedule_flights", { _window_days: Number(windowDays) });
+    setSyncing(null);
+    if (error) { toast({ title: "Generation Failed", description: error.message, variant: "destructive" }); return; }
+    const r = data?.[0];
+    toast({ title: "Schedules Synced", description: `${r?.created ?? 0} created, ${r?.updated ?? 0} updated, ${r?.removed ?? 0} removed.` });
+    await logActivity(user!.id, `Generated flights for all schedules (next ${windowDays} days)`, "schedule", undefined, { ...r });
+  };
+
+  const handleSave = async () => {
+    if (!form.flight_number || !form.airline || !form.origin || !form.destination ||
+      !form.valid_from || !form.valid_to || !form.departure_time || !form.arrival_time) {
+      toast({ title: "Validation Error", description: "Please fill all required fields.", variant: "destructive" });
+      return;
+    }
+    const invalidRoute = routeError(airports, form.origin, form.destination);
+    if (invalidRoute) {
+      toast({ title: "Invalid Route", description: invalidRoute, variant: "destructive" });
+      return;
+    }
+    if (form.days_of_week.length === 0) {
+      toast({ title: "Validation Error", description: "Select at least one day of operation.", variant: "destructive" });
+      return;
+    }
+    if (form.valid_to < form.valid_from) {
+      toast({ title: "Validation Error", description: "The validity period ends before it starts.", variant: "destructive" });
+      return;
+    }
+    setSaving(true);
+    const payload = {
+      flight_number: form.flight_number.toUpperCase(),
+      airline: form.airline,
+      origin: form.origin.toUpperCase(),
+      destination: form.destination.toUpperCase(),
+      days_of_week: form.days_of_week,
+      valid_from: form.valid_from,
+      valid_to: form.valid_to,
+      departure_time: form.departure_time,
+      arrival_time: form.arrival_time,
+      arrival_day_offset: Number(form.arrival_day_offset),
+      aircraft_type: form.aircraft_type,
+      capacity: Number(form.capacity),
+      runway_id: form.runway_id || null,
+      gate: form.gate || null,
+      is_active: form.is_active,
+      notes: form.notes || null,
+      created_by: user?.id,
+    };
+
+    const { data, error } = editId
+      ? await supabase.from("flight_schedules").update(payload).eq("id", editId).select("id").single()
+      : await supabase.from("flight_schedules").insert([payload]).select("id").single();
+    setSaving(false);
+    if (error) { toast({ title: "Error", description: error.message, variant: "destructive" }); return; }
+
+    await logActivity(user!.id, `${editId ? "Updated" : "Created"} schedule ${payload.flight_number} (${formatDays(payload.days_of_week)})`, "schedule", data.id);
+    setShowForm(false);
+    await syncSchedule(data.id, payload.flight_number);
+    fetchSchedules();
+  };
+
+  // Deactivating first lets the sync remove the untouched future instances
+  // before the schedule itself goes away.
+  const handleDelete = async () => {
+    if (!deleteId) return;
+    const s = schedules.find(s => s.id === deleteId);
+    await supabase.from("flight_schedules").update({ is_active: false }).eq("id", deleteId);
+    await supabase.rpc("sync_schedule_flights", { _schedule_id: deleteId, _window_days: 366 });
+    const { error } = await supabase.from("flight_schedules").delete().eq("id", deleteId);
+    if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
+    else {
+      toast({ title: "Schedule Deleted", description: `${s?.flight_number} removed.` });
+      await logActivity(user!.id, `Deleted schedule ${s?.flight_number}`, "schedule", deleteId);
+      fetchSchedules();
+    }
+    setDeleteId(null);
+  };
+
+  const handleExport = async () => {
+    const active = schedules.filter(s => s.is_active);
+    const { text, skipped } = buildSsim(active, new Date());
+    const url = URL.createObjectURL(new Blob([text], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `schedule-${today()}.ssim`;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    if (skipped.length > 0) {
+      toast({ title: "Some Schedules Skipped", description: `No airline designator in: ${skipped.join(", ")}`, variant: "destructive" });
+    }
+    await logActivity(user!.id, `Exported ${active.length - skipped.length} schedules as SSIM`, "schedule");
+  };
+
+  const runwayName = (id: string | null) => runways.find(r => r.id === id)?.name || "—";
+  const windowEnd = addDays(today(), Number(windowDays));
+
+  return (
+    <AppLayout title="Flight Schedules">
+      <div className="space-y-4 animate-fade-in-up">
+        <div className="flex flex-col sm:flex-row gap-3 sm:items-center">
+          <h2 className="text-sm font-semibold text-foreground flex-1">Seasonal Schedules ({schedules.length})</h2>
+          <div className="flex items-center gap-2">
+            <Label className="text-xs text-muted-foreground">Rolling window</Label>
+            <Select value={windowDays} onValueChange={setWindowDays}>
+              <SelectTrigger className="w-28 bg-card border-border"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="7">7 days</SelectItem>
+                <SelectItem value="14">14 days</SelectItem>
+                <SelectItem value="28">28 days</SelectItem>
+                <SelectItem value="90">90 days</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="outline" onClick={handleExport} disabled={schedules.length === 0} className="gap-2">
+            <FileDown className="w-4 h-4" /> Export SSIM
+          </Button>
+          {canManageFlights() && (
+            <>
+              <Button variant="outline" onClick={() => setShowImport(true)} className="gap-2">
+                <FileUp className="w-4 h-4" /> Import SSIM
+              </Button>
+              <Button variant="outline" onClick={syncAll} disabled={syncing !== null} className="gap-2">
+                <RefreshCw className={`w-4 h-4 ${syncing === "all" ? "animate-spin" : ""}`} /> Generate All
+              </Button>
+              <Button onClick={openAdd} className="bg-primary text-primary-foreground hover:bg-primary/90 gap-2">
+                <Plus className="w-4 h-4" /> Add Schedule
+              </Button>
+            </>
+          )}
+        </div>
+
+        <div className="glass-card rounded-xl overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border bg-muted/30">
+                  <th className="text-left px-4 py-3 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Flight</th>
+                  <th className="text-left px-4 py-3 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Route</th>
+                  <th className="text-left px-4 py-3 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Days</th>
+                  <th className="text-left px-4 py-3 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Validity</th>
+                  <th className="text-left px-4 py-3 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Times (UTC)</th>
+                  <th className="text-left px-4 py-3 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Defaults</th>
+                  <th className="text-left px-4 py-3 text-xs font-semibold text-muted-foreground uppercase tracking-wider">In Window</th>
+                  <th className="text-right px-4 py-3 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {loading ? (
+                  <tr><td colSpan={8} className="text-center py-12 text-muted-foreground">Loading schedules...</td></tr>
+                ) : schedules.length === 0 ? (
+                  <tr>
+                    <td colSpan={8} className="text-center py-12">
+                      <CalendarRange className="w-8 h-8 text-muted-foreground mx-auto mb-2" />
+                      <p className="text-muted-foreground">No schedules defined</p>
+                    </td>
+                  </tr>
+                ) : (
+                  schedules.map(s => (
+                    <tr key={s.id} className={`border-b border-border/50 hover:bg-muted/30 transition-colors ${s.is_active ? "" : "opacity-50"}`}>
+                      <td className="px-4 py-3">
+                        <p className="font-mono font-bold text-primary">{s.flight_number}</p>
+                        <p className="text-xs text-muted-foreground">{s.airline}</p>
+                      </td>
+                      <td className="px-4 py-3 text-foreground font-medium">{s.origin} → {s.destination}</td>
+                      <td className="px-4 py-3 font-mono text-xs tracking-widest text-foreground">{formatDays(s.days_of_week)}</td>
+                      <td className="px-4 py-3 font-mono text-xs text-muted-foreground">{s.valid_from} → {s.valid_to}</td>
+                      <td className="px-4 py-3 font-mono text-xs text-foreground">
+                        {s.departure_time.slice(0, 5)} – {s.arrival_time.slice(0, 5)}{s.arrival_day_offset > 0 && <sup>+{s.arrival_day_offset}</sup>}
+                      </td>
+                      <td className="px-4 py-3 text-xs text-muted-foreground">
+                        {s.aircraft_type} · {runwayName(s.runway_id)} · Gate {s.gate || "—"}
+                      </td>
+                      <td className="px-4 py-3 text-xs text-muted-foreground">
+                        {s.is_active ? `${scheduleDates(s, today(), windowEnd).length} flights` : "Inactive"}
+                      </td>
+                      <td className="px-4 py-3">
+                        {canManageFlights() && (
+                          <div className="flex items-center justify-end gap-1">
+                            <button onClick={() => syncSchedule(s.id, s.flight_number)} disabled={syncing !== null} title="Generate flights" className="p-1.5 rounded hover:bg-primary/10 text-muted-foreground hover:text-primary transition-colors disabled:opacity-30">
+                              <RefreshCw className={`w-3.5 h-3.5 ${syncing === s.id ? "animate-spin" : ""}`} />
+                            </button>
+                            <button onClick={() => openEdit(s)} className="p-1.5 rounded hover:bg-primary/10 text-muted-foreground hover:text-primary transition-colors">
+                              <Edit className="w-3.5 h-3.5" />
+                            </button>
+                            <button onClick={() => setDeleteId(s.id)} className="p-1.5 rounded hover:bg-destructive/10 text-muted-foreground hover:text-destructive transition-colors">
+                              <Trash2 className="w-3.5 h-3.5" />
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      {/* Add/Edit Dialog */}
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent className="bg-card border-border max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editId ? "Edit Schedule" : "Add Schedule"}</DialogTitle>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4 py-2">
+            <div className="space-y-1.5">
+              <Label className="text-xs">Flight Number *</Label>
+              <Input value={form.flight_number} onChange={e => setForm(p => ({ ...p, flight_number: e.target.value }))} placeholder="AA1234" className="bg-muted border-border" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Airline *</Label>
+              <Input value={form.airline} onChange={e => setForm(p => ({ ...p, airline: e.target.value }))} placeholder="American Airlines" className="bg-muted border-border" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Origin *</Label>
+              <AirportCombobox airports={airports} value={form.origin} onChange={v => setForm(p => ({ ...p, origin: v }))} placeholder="Origin airport" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Destination *</Label>
+              <AirportCombobox airports={airports} value={form.destination} onChange={v => setForm(p => ({ ...p, destination: v }))} placeholder="Destination airport" />
+            </div>
+            <div className="space-y-1.5 col-span-2">
+              <Label className="text-xs">Days of Operation *</Label>
+              <div className="flex gap-1.5">
+                {WEEK_DAYS.map(d => (
+                  <button
+                    key={d.value}
+                    type="button"
+                    title={d.label}
+                    onClick={() => toggleDay(d.value)}
+                    className={`w-10 h-8 rounded-md border text-xs font-semibold transition-all ${
+                      form.days_of_week.includes(d.value)
+                        ? "bg-primary/15 text-primary border-primary/30"
+                        : "bg-muted text-muted-foreground border-border hover:text-foreground"
+                    }`}
+                  >
+                    {d.short}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Valid From *</Label>
+              <Input type="date" value={form.valid_from} onChange={e => setForm(p => ({ ...p, valid_from: e.target.value }))} className="bg-muted border-border" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Valid To *</Label>
+              <Input type="date" value={form.valid_to} onChange={e => setForm(p => ({ ...p, valid_to: e.target.value }))} className="bg-muted border-border" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Departure Time (UTC) *</Label>
+              <Input type="time" value={form.departure_time} onChange={e => setForm(p => ({ ...p, departure_time: e.target.value }))} className="bg-muted border-border" />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1.5">
+                <Label className="text-xs">Arrival Time (UTC) *</Label>
+                <Input type="time" value={form.arrival_time} onChange={e => setForm(p => ({ ...p, arrival_time: e.target.value }))} className="bg-muted border-border" />
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs">Arrival Day</Label>
+                <Select value={String(form.arrival_day_offset)} onValueChange={v => setForm(p => ({ ...p, arrival_day_offset: Number(v) }))}>
+                  <SelectTrigger className="bg-muted border-border"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="0">Same day</SelectItem>
+                    <SelectItem value="1">+1 day</SelectItem>
+                    <SelectItem value="2">+2 days</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Aircraft Type</Label>
+              <Input value={form.aircraft_type} onChange={e => setForm(p => ({ ...p, aircraft_type: e.target.value }))} placeholder="Boeing 737" className="bg-muted border-border" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Capacity</Label>
+              <Input type="number" value={form.capacity} onChange={e => setForm(p => ({ ...p, capacity: Number(e.target.value) }))} className="bg-muted border-border" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Default Runway</Label>
+              <Select value={form.runway_id || "none"} onValueChange={v => setForm(p => ({ ...p, runway_id: v === "none" ? "" : v }))}>
+                <SelectTrigger className="bg-muted border-border"><SelectValue placeholder="None" /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  {runways.map(r => (
+                    <SelectItem key={r.id} value={r.id}>{r.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Default Gate</Label>
+              <Input value={form.gate} onChange={e => setForm(p => ({ ...p, gate: e.target.value }))} placeholder="A12" className="bg-muted border-border" />
+            </div>
+            <div className="space-y-1.5 col-span-2">
+              <Label className="text-xs">Notes</Label>
+              <Input value={form.notes} onChange={e => setForm(p => ({ ...p, notes: e.target.value }))} placeholder="Optional notes..." className="bg-muted border-border" />
+            </div>
+            <div className="flex items-center gap-2 col-span-2">
+              <Switch checked={form.is_active} onCheckedChange={v => setForm(p => ({ ...p, is_active: v }))} />
+              <Label className="text-xs">Active — generate flights from this schedule</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowForm(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving} className="bg-primary text-primary-foreground">
+              {saving ? "Saving..." : (editId ? "Update & Regenerate" : "Create & Generate")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <SsimImportDialog open={showImport} onOpenChange={setShowImport} airports={airports} />
+
+      <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
+        <AlertDialogContent className="bg-card border-border">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Schedule</AlertDialogTitle>
+            <AlertDialogDescription>
+              Future flights generated from this schedule that have not been edited or progressed will be removed
+              (or cancelled if passengers are booked). Past and individually edited flights are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground">Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </AppLayout>
+  );
+}
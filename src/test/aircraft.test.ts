@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { formatSeatConfig, formatTurnaround, inboundCandidates, rotationState, seatCapacity, turnaroundMinutes, wakeCategoryForMtow } from "@/lib/aircraft";
+
+const leg = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  flight_number: id,
+  aircraft_id: "tail-1",
+  origin: "JFK",
+  destination: "LAX",
+  status: "scheduled",
+  scheduled_departure: "2026-03-09T08:00:00.000Z",
+  scheduled_arrival: "2026-03-09T14:00:00.000Z",
+  estimated_departure: null,
+  estimated_arrival: null,
+  actual_departure: null,
+  actual_arrival: null,
+  ...overrides,
+});
+
+describe("seat configuration", () => {
+  it("sums the cabins and prints the populated ones", () => {
+    const config = { seats_first: 0, seats_business: 20, seats_economy: 150 };
+    expect(seatCapacity(config)).toBe(170);
+    expect(formatSeatConfig(config)).toBe("C20 Y150");
+  });
+});
+
+describe("wakeCategoryForMtow", () => {
+  it("applies the ICAO weight bands", () => {
+    expect(wakeCategoryForMtow(5700)).toBe("L");
+    expect(wakeCategoryForMtow(79000)).toBe("M");
+    expect(wakeCategoryForMtow(351500)).toBe("H");
+    expect(wakeCategoryForMtow(575000, "Airbus A380-800")).toBe("J");
+  });
+});
+
+describe("turnaround", () => {
+  const inbound = leg("IN");
+  it("measures from the inbound's best known arrival to the outbound's departure", () => {
+    const outbound = leg("OUT", { scheduled_departure: "2026-03-09T15:00:00.000Z" });
+    expect(turnaroundMinutes(inbound, outbound)).toBe(60);
+    expect(turnaroundMinutes({ ...inbound, estimated_arrival: "2026-03-09T14:40:00.000Z" }, outbound)).toBe(20);
+  });
+
+  it("classifies and describes the ground time", () => {
+    expect(rotationState(60)).toBe("ok");
+    expect(rotationState(20)).toBe("tight");
+    expect(rotationState(-15)).toBe("conflict");
+    expect(formatTurnaround(75)).toBe("1h 15m turnaround");
+    expect(formatTurnaround(-15)).toBe("departs 15m before inbound lands");
+  });
+});
+
+describe("inboundCandidates", () => {
+  it("offers earlier unlinked arrivals on the same tail at the outbound's origin", () => {
+    const flights = [
+      leg("IN1"),
+      leg("IN2", { scheduled_arrival: "2026-03-09T12:00:00.000Z" }),
+      leg("OTHER_TAIL", { aircraft_id: "tail-2" }),
+      leg("ELSEWHERE", { destination: "SFO" }),
+      leg("LATER", { scheduled_arrival: "2026-03-09T18:00:00.000Z" }),
+      leg("TAKEN"),
+    ];
+    const outbound = { aircraft_id: "tail-1", origin: "lax", scheduled_departure: "2026-03-09T15:00:00.000Z" };
+    expect(inboundCandidates(outbound, flights, new Set(["TAKEN"])).map(f => f.id)).toEqual(["IN1", "IN2"]);
+    expect(inboundCandidates({ ...outbound, aircraft_id: null }, flights, new Set())).toEqual([]);
+  });
+});
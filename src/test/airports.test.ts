@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { Airport, findAirport, routeError, searchAirports } from "@/lib/airports";
+
+const airport = (iata: string, icao: string, city: string, name: string): Airport =>
+  ({ iata, icao, city, name, country: "US", timezone: "America/New_York", latitude: 0, longitude: 0, is_home: false });
+
+const airports = [
+  airport("JFK", "KJFK", "New York", "John F. Kennedy International"),
+  airport("LGA", "KLGA", "New York", "LaGuardia"),
+  airport("LAX", "KLAX", "Los Angeles", "Los Angeles International"),
+  airport("BOS", "KBOS", "Boston", "Logan International"),
+];
+
+describe("airports", () => {
+  it("finds airports by IATA or ICAO code", () => {
+    expect(findAirport(airports, "jfk")?.iata).toBe("JFK");
+    expect(findAirport(airports, "KLAX")?.iata).toBe("LAX");
+    expect(findAirport(airports, "KBLL")).toBeUndefined();
+  });
+
+  it("ranks exact codes before city and name matches", () => {
+    expect(searchAirports(airports, "lax").map(a => a.iata)).toEqual(["LAX"]);
+    expect(searchAirports(airports, "new york").map(a => a.iata)).toEqual(["JFK", "LGA"]);
+    expect(searchAirports(airports, "logan").map(a => a.iata)).toEqual(["BOS"]);
+  });
+
+  it("rejects unknown codes and identical ends of a route", () => {
+    expect(routeError(airports, "JFK", "KLAX")).toBeNull();
+    expect(routeError(airports, "KBLL", "LAX")).toBe('Unknown origin airport "KBLL".');
+    expect(routeError(airports, "JFK", "KJFK")).toBe("Origin and destination must be different airports.");
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import { arrivalSequence, describeLevel, fuelRemainingMinutes, fuelState, holdingEnteredAt, nextFreeLevel, suggestedApproachTime } from "@/lib/arrivalSequence";
+
+const now = new Date("2026-03-14T10:00:00Z");
+
+const flight = (id: string, arrival: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  flight_number: id,
+  origin: "JFK",
+  destination: "LHR",
+  status: "departed",
+  runway_id: "r1",
+  aircraft_type: "A320",
+  wake_category: "M" as const,
+  scheduled_departure: "2026-03-14T03:00:00Z",
+  scheduled_arrival: arrival,
+  estimated_departure: null,
+  estimated_arrival: null,
+  actual_departure: null,
+  actual_arrival: null,
+  holding_stack_id: null,
+  holding_level_ft: null,
+  holding_entered_at: null,
+  expected_approach_at: null,
+  fuel_endurance_minutes: null,
+  fuel_reported_at: null,
+  ...overrides,
+});
+
+const stack = { id: "s1", name: "BNN", fix: "BNN", lowest_level_ft: 7000, highest_level_ft: 9000 };
+
+const at = (t: number) => new Date(t).toISOString().slice(11, 16);
+
+describe("arrival sequence", () => {
+  it("spaces landings by wake category behind the aircraft ahead", () => {
+    const sequence = arrivalSequence([
+      flight("B", "2026-03-14T10:10:00Z", { wake_category: "L" }),
+      flight("A", "2026-03-14T10:10:00Z", { wake_category: "J" }),
+      flight("C", "2026-03-14T10:30:00Z"),
+    ], "r1", now, "LHR");
+    expect(sequence.map(a => [a.flight.id, at(a.targetLanding), a.delayMinutes])).toEqual([
+      ["A", "10:10", 0],
+      ["B", "10:14", 4],
+      ["C", "10:30", 0],
+    ]);
+  });
+
+  it("lands emergencies first and leaves out departures and landed flights", () => {
+    const sequence = arrivalSequence([
+      flight("A", "2026-03-14T10:05:00Z"),
+      flight("B", "2026-03-14T10:20:00Z", { status: "emergency" }),
+      flight("C", "2026-03-14T10:05:00Z", { origin: "LHR", destination: "JFK" }),
+      flight("D", "2026-03-14T10:05:00Z", { status: "landed" }),
+    ], "r1", now, "LHR");
+    expect(sequence.map(a => a.flight.id)).toEqual(["B", "A"]);
+    expect(sequence[1].holdAdvised).toBe(true);
+  });
+
+  it("lands a holding flight after its expected approach time", () => {
+    const [a] = arrivalSequence([
+      flight("A", "2026-03-14T09:50:00Z", {
+        holding_stack_id: "s1", holding_level_ft: 7000, holding_entered_at: "2026-03-14T09:40:00Z",
+        expected_approach_at: "2026-03-14T10:05:00Z", fuel_endurance_minutes: 90, fuel_reported_at: "2026-03-14T09:40:00Z",
+      }),
+    ], "r1", now, "LHR");
+    expect(at(a.targetLanding)).toBe("10:20");
+    expect(a.holding).toBe(true);
+    expect(a.holdAdvised).toBe(false);
+    expect(a.fuelAtLanding).toBe(50);
+    expect(a.fuel).toBe("ok");
+  });
+
+  it("warns when the fuel on landing nears the final reserve", () => {
+    const holding = flight("A", "2026-03-14T09:50:00Z", {
+      holding_stack_id: "s1", holding_level_ft: 7000, holding_entered_at: "2026-03-14T09:30:00Z",
+      fuel_endurance_minutes: 70, fuel_reported_at: "2026-03-14T09:30:00Z",
+    });
+    expect(fuelRemainingMinutes(holding, now.getTime())).toBe(40);
+    const approaching = { ...holding, holding_stack_id: null, holding_level_ft: null, holding_entered_at: null };
+    expect(fuelRemainingMinutes(approaching, now.getTime())).toBe(40);
+    expect(fuelState(50)).toBe("ok");
+    expect(fuelState(40)).toBe("minimum");
+    expect(fuelState(25)).toBe("emergency");
+    expect(fuelRemainingMinutes(flight("B", "2026-03-14T10:00:00Z"), now.getTime())).toBeNull();
+  });
+
+  it("fills the stack from the lowest free level", () => {
+    const flights = [
+      flight("A", "2026-03-14T10:00:00Z", { holding_stack_id: "s1", holding_level_ft: 7000, holding_entered_at: "2026-03-14T09:40:00Z" }),
+      flight("B", "2026-03-14T10:00:00Z", { holding_stack_id: "s1", holding_level_ft: 9000, holding_entered_at: "2026-03-14T09:45:00Z" }),
+    ];
+    expect(nextFreeLevel(stack, flights)).toBe(8000);
+    expect(nextFreeLevel(stack, [...flights, flight("C", "2026-03-14T10:00:00Z", { holding_stack_id: "s1", holding_level_ft: 8000, holding_entered_at: "2026-03-14T09:50:00Z" })])).toBeNull();
+    expect(describeLevel(8000)).toBe("FL080");
+    expect(describeLevel(5000)).toBe("5000 ft");
+  });
+
+  it("keeps the hold entry time when a holding flight is re-cleared", () => {
+    const holding = flight("A", "2026-03-14T10:00:00Z", { holding_stack_id: "s1", holding_level_ft: 7000, holding_entered_at: "2026-03-14T09:40:00Z" });
+    expect(holdingEnteredAt(holding, now)).toBe("2026-03-14T09:40:00Z");
+    expect(holdingEnteredAt(flight("B", "2026-03-14T10:00:00Z"), now)).toBe("2026-03-14T10:00:00.000Z");
+  });
+
+  it("suggests an approach time that keeps the landing slot", () => {
+    const [, b] = arrivalSequence([
+      flight("A", "2026-03-14T10:30:00Z", { wake_category: "H" }),
+      flight("B", "2026-03-14T10:30:00Z", { wake_category: "L" }),
+    ], "r1", now, "LHR");
+    expect(suggestedApproachTime(b, now)).toBe("2026-03-14T10:18:00.000Z");
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { atisContent, atisRemarks, atisText, nextLetter, spokenAtis } from "@/lib/atis";
+import { parseMetar } from "@/lib/metar";
+
+const now = new Date("2026-03-20T11:55:00Z");
+
+const runway = (name: string, heading: number, status = "available") => ({
+  id: name, name, status, heading_degrees: heading, crosswind_limit_kt: 25, tailwind_limit_kt: 5,
+});
+
+const closure = (runwayId: string, startsAt: string, endsAt: string, reference: string | null = null) => ({
+  id: `${runwayId}-${startsAt}`, runway_id: runwayId, kind: "closed" as const,
+  starts_at: startsAt, ends_at: endsAt, reason: "Resurfacing", reference,
+});
+
+describe("ATIS", () => {
+  it("advances the letter and wraps after Zulu", () => {
+    expect(nextLetter(null)).toBe("A");
+    expect(nextLetter("C")).toBe("D");
+    expect(nextLetter("Z")).toBe("A");
+  });
+
+  it("announces the runways the wind favours and the weather in words", () => {
+    const metar = parseMetar("METAR EGLL 201150Z 20012G24KT 9999 -RA SCT014 BKN030 08/06 Q1008 NOSIG", now);
+    const runways = [runway("Runway 01L", 10), runway("Runway 19R", 190), runway("Runway 19L", 190)];
+    const { content, runways: inUse } = atisContent({ metar, runways, closures: [], now });
+    expect(inUse).toEqual(["19R", "19L"]);
+    expect(content).toBe(
+      "Time 1150 Zulu. Runways in use 19R and 19L. Wind 200 degrees 12 knots gusting 24. " +
+      "Visibility 10 kilometres or more. Light rain. Cloud scattered 1400 feet, broken 3000 feet. " +
+      "Temperature 8, dew point 6. QNH 1008. No significant change.",
+    );
+  });
+
+  it("falls back to the usable runways without a weather report", () => {
+    const runways = [runway("Runway 09", 90), runway("Runway 27", 270, "maintenance")];
+    const { content } = atisContent({ metar: null, runways, closures: [], now });
+    expect(content).toBe("Runway in use 09. Weather not available. Remarks. Runway 27 under maintenance.");
+  });
+
+  it("lists current and upcoming closures with their NOTAM", () => {
+    const runways = [runway("Runway 09", 90), runway("Runway 27", 270, "closed")];
+    const closures = [
+      closure("Runway 27", "2026-03-20T10:00:00Z", "2026-03-20T14:00:00Z", "A0123/26"),
+      closure("Runway 09", "2026-03-20T20:00:00Z", "2026-03-20T22:00:00Z"),
+      closure("Runway 09", "2026-03-21T08:00:00Z", "2026-03-21T09:00:00Z"),
+    ];
+    expect(atisRemarks({ runways, closures, now })).toEqual([
+      "Runway 27 closed until 1400 Zulu, NOTAM A0123/26: Resurfacing",
+      "Runway 09 closed from 2000 Zulu until 2200 Zulu: Resurfacing",
+    ]);
+  });
+
+  it("reads numbers digit by digit for speech", () => {
+    const text = atisText("EGLL", "B", "Runway in use 09R. QNH 1009.");
+    expect(text).toBe("EGLL information Bravo. Runway in use 09R. QNH 1009. Advise on initial contact you have information Bravo.");
+    expect(spokenAtis(text)).toContain("Runway in use zero niner right. Q N H one zero zero niner.");
+  });
+});
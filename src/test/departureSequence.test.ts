@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { departureQueue, earliestTakeoff, moveInQueue } from "@/lib/departureSequence";
+
+const now = new Date("2026-03-14T10:00:00Z");
+
+const flight = (id: string, departure: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  flight_number: id,
+  origin: "LHR",
+  destination: "JFK",
+  status: "scheduled",
+  runway_id: "r1",
+  aircraft_type: "A320",
+  wake_category: "M" as const,
+  departure_sequence: null,
+  scheduled_departure: departure,
+  scheduled_arrival: "2026-03-14T18:00:00Z",
+  estimated_departure: null,
+  estimated_arrival: null,
+  actual_departure: null,
+  actual_arrival: null,
+  ...overrides,
+});
+
+const at = (t: number) => new Date(t).toISOString().slice(11, 16);
+
+describe("departure sequence", () => {
+  it("cannot take off before start-up and taxi allow", () => {
+    expect(at(earliestTakeoff(flight("A", "2026-03-14T10:05:00Z"), now))).toBe("10:10");
+    expect(at(earliestTakeoff(flight("A", "2026-03-14T10:30:00Z"), now))).toBe("10:30");
+    expect(at(earliestTakeoff(flight("A", "2026-03-14T10:30:00Z", { status: "lined_up" }), now))).toBe("10:00");
+  });
+
+  it("orders by time and spaces departures by wake category", () => {
+    const queue = departureQueue([
+      flight("B", "2026-03-14T10:20:00Z", { wake_category: "L" }),
+      flight("A", "2026-03-14T10:20:00Z", { wake_category: "H" }),
+      flight("C", "2026-03-14T10:45:00Z"),
+    ], "r1", now, "LHR");
+    expect(queue.map(q => [q.flight.id, at(q.targetTakeoff), at(q.targetStartup!), q.delayMinutes])).toEqual([
+      ["A", "10:20", "10:10", 0],
+      ["B", "10:23", "10:13", 3],
+      ["C", "10:45", "10:35", 0],
+    ]);
+  });
+
+  it("puts flights on the runway first and leaves out arrivals and other runways", () => {
+    const queue = departureQueue([
+      flight("A", "2026-03-14T10:15:00Z"),
+      flight("B", "2026-03-14T10:40:00Z", { status: "lined_up" }),
+      flight("C", "2026-03-14T10:40:00Z", { status: "cleared_for_takeoff" }),
+      flight("D", "2026-03-14T10:15:00Z", { origin: "JFK", destination: "LHR" }),
+      flight("E", "2026-03-14T10:15:00Z", { runway_id: "r2" }),
+    ], "r1", now, "LHR");
+    expect(queue.map(q => q.flight.id)).toEqual(["C", "B", "A"]);
+    expect(queue[0].targetStartup).toBeNull();
+  });
+
+  it("keeps the controller's order and slots unsequenced flights in by time", () => {
+    const queue = departureQueue([
+      flight("A", "2026-03-14T10:15:00Z", { departure_sequence: 2 }),
+      flight("B", "2026-03-14T10:30:00Z", { departure_sequence: 1 }),
+      flight("C", "2026-03-14T10:20:00Z"),
+      flight("D", "2026-03-14T10:50:00Z"),
+    ], "r1", now, "LHR");
+    expect(queue.map(q => q.flight.id)).toEqual(["C", "B", "A", "D"]);
+    expect(queue.map(q => at(q.targetTakeoff))).toEqual(["10:20", "10:30", "10:32", "10:50"]);
+  });
+
+  it("moves a flight within the queue but not ahead of the runway", () => {
+    const queue = departureQueue([
+      flight("A", "2026-03-14T10:15:00Z", { status: "lined_up" }),
+      flight("B", "2026-03-14T10:20:00Z"),
+      flight("C", "2026-03-14T10:30:00Z"),
+    ], "r1", now, "LHR");
+    expect(moveInQueue(queue, "C", -1)).toEqual(["C", "B"]);
+    expect(moveInQueue(queue, "B", -1)).toBeNull();
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { FidsFlight, applyBoardChange, boardFlights, boardWindowFilter, fidsRemark, paginate } from "@/lib/fids";
+
+const now = new Date("2026-03-14T12:00:00Z");
+
+const flight = (overrides: Partial<FidsFlight> = {}): FidsFlight => ({
+  id: "f1",
+  flight_number: "AC101",
+  airline: "Air Canada",
+  origin: "YYZ",
+  destination: "LHR",
+  status: "scheduled",
+  gate: "A1",
+  gate_id: "g1",
+  diversion_airport: null,
+  scheduled_departure: "2026-03-14T13:00:00Z",
+  scheduled_arrival: "2026-03-14T20:00:00Z",
+  estimated_departure: null,
+  estimated_arrival: null,
+  actual_departure: null,
+  actual_arrival: null,
+  ...overrides,
+});
+
+const time = (iso: string) => iso.slice(11, 16);
+const city = (code: string) => ({ LHR: "London", MAN: "Manchester" })[code] ?? code;
+
+describe("boardFlights", () => {
+  it("keeps departures from the home airport only", () => {
+    const rows = boardFlights([flight(), flight({ id: "f2", origin: "LHR", destination: "YYZ" })], "departures", { home: "YYZ", now });
+    expect(rows.map(f => f.id)).toEqual(["f1"]);
+  });
+
+  it("filters by terminal but keeps flights without a gate", () => {
+    const rows = boardFlights(
+      [flight(), flight({ id: "f2", gate_id: "g9" }), flight({ id: "f3", gate_id: null })],
+      "departures",
+      { terminalGates: new Set(["g1"]), now },
+    );
+    expect(rows.map(f => f.id)).toEqual(["f1", "f3"]);
+  });
+
+  it("drops departed flights once they have lingered", () => {
+    const gone = flight({ id: "f2", status: "departed", actual_departure: "2026-03-14T11:30:00Z" });
+    const recent = flight({ id: "f3", status: "departed", actual_departure: "2026-03-14T11:50:00Z" });
+    expect(boardFlights([gone, recent], "departures", { now }).map(f => f.id)).toEqual(["f3"]);
+  });
+
+  it("hides flights beyond the lookahead and sorts by scheduled time", () => {
+    const later = flight({ id: "f2", scheduled_departure: "2026-03-14T12:30:00Z" });
+    const tomorrow = flight({ id: "f3", scheduled_departure: "2026-03-15T12:30:00Z" });
+    expect(boardFlights([flight(), later, tomorrow], "departures", { now }).map(f => f.id)).toEqual(["f2", "f1"]);
+  });
+});
+
+describe("board window", () => {
+  it("fetches the stale, linger and lookahead window of the board's times", () => {
+    expect(boardWindowFilter("arrivals", now)).toBe(
+      "and(or(scheduled_arrival.gte.2026-03-14T06:00:00.000Z,estimated_arrival.gte.2026-03-14T06:00:00.000Z,actual_arrival.gte.2026-03-14T11:45:00.000Z),"
+      + "or(scheduled_arrival.lte.2026-03-15T00:15:00.000Z,estimated_arrival.lte.2026-03-15T00:15:00.000Z))",
+    );
+  });
+
+  it("patches, adds and removes rows from realtime changes", () => {
+    const rows = [flight()];
+    expect(applyBoardChange(rows, { eventType: "UPDATE", new: { id: "f1", status: "boarding" }, old: {} })[0].status).toBe("boarding");
+    expect(applyBoardChange(rows, { eventType: "UPDATE", new: flight({ id: "f2" }), old: {} }).map(f => f.id)).toEqual(["f1", "f2"]);
+    expect(applyBoardChange(rows, { eventType: "INSERT", new: flight({ id: "f3" }), old: {} })).toHaveLength(2);
+    expect(applyBoardChange(rows, { eventType: "DELETE", new: {}, old: { id: "f1" } })).toEqual([]);
+  });
+});
+
+describe("fidsRemark", () => {
+  it("describes departures in passenger terms", () => {
+    expect(fidsRemark(flight(), "departures", time, city)).toEqual({ text: "On Time", tone: "normal" });
+    expect(fidsRemark(flight({ status: "boarding" }), "departures", time, city).text).toBe("Boarding");
+    expect(fidsRemark(flight({ status: "lined_up" }), "departures", time, city).text).toBe("Gate Closed");
+    expect(fidsRemark(flight({ estimated_departure: "2026-03-14T13:40:00Z" }), "departures", time, city))
+      .toEqual({ text: "Delayed 13:40", tone: "warn" });
+    expect(fidsRemark(flight({ status: "emergency" }), "departures", time, city).text).toBe("See Agent");
+  });
+
+  it("describes arrivals, including diversions", () => {
+    expect(fidsRemark(flight({ status: "landed", actual_arrival: "2026-03-14T19:52:00Z" }), "arrivals", time, city).text).toBe("Landed 19:52");
+    expect(fidsRemark(flight({ status: "departed", estimated_arrival: "2026-03-14T20:30:00Z" }), "arrivals", time, city).text).toBe("Expected 20:30");
+    expect(fidsRemark(flight({ status: "diverted", diversion_airport: "MAN" }), "arrivals", time, city))
+      .toEqual({ text: "Diverted to Manchester", tone: "bad" });
+  });
+});
+
+describe("paginate", () => {
+  it("splits rows into pages and always returns at least one", () => {
+    expect(paginate([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(paginate([], 10)).toEqual([[]]);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import { guessMapping, parseDateTime, validateRows } from "@/lib/flightImport";
+import { parseCsv, readXlsx } from "@/lib/spreadsheet";
+import { Airport } from "@/lib/airports";
+
+const csv = [
+  "Flight No;Carrier;From;To;STD;STA;Rwy;Seats",
+  'AA100;"American; Airlines";JFK;LAX;2026-03-01T10:00:00Z;2026-03-01T16:00:00Z;09L/27R;160',
+  "AA100;American Airlines;JFK;LAX;2026-03-01T12:00:00Z;2026-03-01T18:00:00Z;;",
+  "AA200;American Airlines;JFK;ORD;2026-03-01T12:00:00Z;2026-03-01T11:00:00Z;33;",
+  "DL300;Delta;ATL;;2026-03-01T12:00:00Z;2026-03-01T14:00:00Z;;0",
+  "UA400;United;SFO;DEN;2026-03-01T08:00:00Z;2026-03-01T10:00:00Z;;",
+].join("\r\n");
+
+const airports = [["JFK", "KJFK"], ["LAX", "KLAX"], ["ORD", "KORD"], ["ATL", "KATL"], ["SFO", "KSFO"], ["DEN", "KDEN"]]
+  .map(([iata, icao]) => ({ iata, icao, name: iata, city: iata, country: "US", timezone: "America/New_York", latitude: 0, longitude: 0, is_home: false }) as Airport);
+
+// Builds a ZIP with deflated entries; CRCs are not checked by the reader.
+async function zip(files: Record<string, string>) {
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(files)) {
+    const stream = new Response(new TextEncoder().encode(content)).body!.pipeThrough(new CompressionStream("deflate-raw"));
+    const data = new Uint8Array(await new Response(stream).arrayBuffer());
+    const nameBytes = new TextEncoder().encode(name);
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(8, 8, true);
+    local.setUint32(18, data.length, true);
+    local.setUint16(26, nameBytes.length, true);
+    const dir = new DataView(new ArrayBuffer(46));
+    dir.setUint32(0, 0x02014b50, true);
+    dir.setUint16(10, 8, true);
+    dir.setUint32(20, data.length, true);
+    dir.setUint16(28, nameBytes.length, true);
+    dir.setUint32(42, offset, true);
+    parts.push(new Uint8Array(local.buffer), nameBytes, data);
+    central.push(new Uint8Array(dir.buffer), nameBytes);
+    offset += 30 + nameBytes.length + data.length;
+  }
+  const eocd = new DataView(new ArrayBuffer(22));
+  eocd.setUint32(0, 0x06054b50, true);
+  eocd.setUint16(10, Object.keys(files).length, true);
+  eocd.setUint32(16, offset, true);
+  const all = [...parts, ...central, new Uint8Array(eocd.buffer)];
+  const out = new Uint8Array(all.reduce((n, p) => n + p.length, 0));
+  all.reduce((at, p) => { out.set(p, at); return at + p.length; }, 0);
+  return out.buffer;
+}
+
+describe("flight import", () => {
+  it("parses quoted CSV cells with a detected delimiter", () => {
+    const rows = parseCsv(csv);
+    expect(rows).toHaveLength(6);
+    expect(rows[1][1]).toBe("American; Airlines");
+  });
+
+  it("maps common header names to flight fields", () => {
+    expect(guessMapping(parseCsv(csv)[0])).toEqual({
+      flight_number: 0, airline: 1, origin: 2, destination: 3, scheduled_departure: 4, scheduled_arrival: 5, runway: 6, capacity: 7,
+    });
+  });
+
+  it("reports per-row errors and resolves runway names", () => {
+    const [headers, ...rows] = parseCsv(csv);
+    const result = validateRows(rows, guessMapping(headers), {
+      runways: [{ id: "rwy-1", name: "09L/27R", status: "available" }],
+      airports,
+      existingKeys: new Set(["UA400|2026-03-01"]),
+      entryMode: "utc",
+      homeZone: null,
+    });
+    expect(result[0].flight).toMatchObject({ flight_number: "AA100", runway_id: "rwy-1", capacity: 160 });
+    expect(result[1].errors).toEqual(["Duplicate of row 2"]);
+    expect(result[2].errors).toEqual(["Arrival must be after departure", 'Unknown runway "33"']);
+    expect(result[3].errors).toEqual(["Destination is required", "Capacity must be a positive whole number"]);
+    expect(result[4].errors).toEqual(["UA400 already exists on 2026-03-01"]);
+  });
+
+  it("checks airport codes and stores ICAO codes as IATA", () => {
+    const rows = [
+      ["AA500", "American", "KJFK", "kden", "2026-03-02T10:00:00Z", "2026-03-02T14:00:00Z"],
+      ["AA501", "American", "KBLL", "LAX", "2026-03-02T10:00:00Z", "2026-03-02T14:00:00Z"],
+      ["AA502", "American", "JFK", "KJFK", "2026-03-02T10:00:00Z", "2026-03-02T14:00:00Z"],
+    ];
+    const mapping = { flight_number: 0, airline: 1, origin: 2, destination: 3, scheduled_departure: 4, scheduled_arrival: 5 };
+    const result = validateRows(rows, mapping, { runways: [], airports, existingKeys: new Set(), entryMode: "utc", homeZone: null });
+    expect(result[0].flight).toMatchObject({ origin: "JFK", destination: "DEN" });
+    expect(result[1].errors).toEqual(['Unknown origin airport "KBLL"']);
+    expect(result[2].errors).toEqual(["Origin and destination must be different airports"]);
+  });
+
+  it("rejects ATC statuses and unavailable runways", () => {
+    const rows = [
+      ["AA600", "American", "JFK", "LAX", "2026-03-02T10:00:00Z", "2026-03-02T16:00:00Z", "departed", ""],
+      ["AA601", "American", "JFK", "LAX", "2026-03-02T11:00:00Z", "2026-03-02T17:00:00Z", "boarding", "04R/22L"],
+    ];
+    const mapping = { flight_number: 0, airline: 1, origin: 2, destination: 3, scheduled_departure: 4, scheduled_arrival: 5, status: 6, runway: 7 };
+    const result = validateRows(rows, mapping, {
+      runways: [{ id: "rwy-2", name: "04R/22L", status: "closed" }],
+      airports,
+      existingKeys: new Set(),
+      entryMode: "utc",
+      homeZone: null,
+    });
+    expect(result[0].errors).toEqual(["A flight is departed only through an ATC clearance"]);
+    expect(result[1].errors).toEqual(["Runway 04R/22L is closed"]);
+  });
+
+  it("reads times without an offset in the chosen entry zone", () => {
+    const rows = [["AA700", "American", "JFK", "LAX", "2026-03-02 10:00", "2026-03-02T18:30:00Z"]];
+    const mapping = { flight_number: 0, airline: 1, origin: 2, destination: 3, scheduled_departure: 4, scheduled_arrival: 5 };
+    const context = { runways: [], airports, existingKeys: new Set<string>(), homeZone: "Europe/London" };
+    expect(validateRows(rows, mapping, { ...context, entryMode: "local" })[0].flight)
+      .toMatchObject({ scheduled_departure: "2026-03-02T15:00:00.000Z", scheduled_arrival: "2026-03-02T18:30:00.000Z" });
+    expect(validateRows(rows, mapping, { ...context, entryMode: "airport" })[0].flight)
+      .toMatchObject({ scheduled_departure: "2026-03-02T10:00:00.000Z" });
+    expect(parseDateTime("46083.5", "America/New_York")).toBe("2026-03-02T17:00:00.000Z");
+    expect(parseDateTime("2026-13-01 10:00", "UTC")).toBeNull();
+  });
+
+  it("reads the first worksheet of an xlsx file", async () => {
+    const buffer = await zip({
+      "xl/sharedStrings.xml": '<sst xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><si><t>Flight</t></si><si><r><t>AA</t></r><r><t>100</t></r></si></sst>',
+      "xl/worksheets/sheet1.xml": '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>'
+        + '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="inlineStr"><is><t>Seats</t></is></c></row>'
+        + '<row r="2"><c r="A2" t="s"><v>1</v></c><c r="C2"><v>180</v></c></row>'
+        + "</sheetData></worksheet>",
+    });
+    expect(await readXlsx(buffer)).toEqual([["Flight", "", "Seats"], ["AA100", "", "180"]]);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_FLIGHT_SORT, applyRowChange, matchesFlightFilter, pageCount, pageRange, searchFilter, toggleSort } from "@/lib/flightQuery";
+
+describe("flight paging", () => {
+  it("maps pages to inclusive row ranges", () => {
+    expect(pageRange(0, 25)).toEqual([0, 24]);
+    expect(pageRange(2, 50)).toEqual([100, 149]);
+  });
+
+  it("always reports at least one page", () => {
+    expect(pageCount(0, 25)).toBe(1);
+    expect(pageCount(51, 25)).toBe(3);
+  });
+});
+
+describe("toggleSort", () => {
+  it("flips the sorted column and starts others ascending", () => {
+    expect(toggleSort(DEFAULT_FLIGHT_SORT, "scheduled_departure")).toEqual({ column: "scheduled_departure", ascending: false });
+    expect(toggleSort({ column: "gate", ascending: false }, "status")).toEqual({ column: "status", ascending: true });
+  });
+});
+
+describe("searchFilter", () => {
+  it("matches text columns and resolved city codes", () => {
+    expect(searchFilter("lon", ["LHR", "LGW"])).toBe(
+      "flight_number.ilike.%lon%,airline.ilike.%lon%,origin.ilike.%lon%,destination.ilike.%lon%,origin.in.(LHR,LGW),destination.in.(LHR,LGW)",
+    );
+  });
+
+  it("strips filter syntax and ignores blank terms", () => {
+    expect(searchFilter("a,b(c)")).toBe("flight_number.ilike.%abc%,airline.ilike.%abc%,origin.ilike.%abc%,destination.ilike.%abc%");
+    expect(searchFilter("  ")).toBeNull();
+  });
+});
+
+describe("matchesFlightFilter", () => {
+  const range = { from: "2026-03-14T00:00:00.000Z", to: "2026-03-15T00:00:00.000Z" };
+
+  it("checks the status and the departure date range", () => {
+    const f = { status: "delayed", scheduled_departure: "2026-03-14T10:00:00Z" };
+    expect(matchesFlightFilter(f, { status: "all", from: null, to: null })).toBe(true);
+    expect(matchesFlightFilter(f, { status: "delayed", ...range })).toBe(true);
+    expect(matchesFlightFilter(f, { status: "scheduled", ...range })).toBe(false);
+    expect(matchesFlightFilter({ ...f, scheduled_departure: "2026-03-15T00:00:00Z" }, { status: "all", ...range })).toBe(false);
+  });
+});
+
+describe("applyRowChange", () => {
+  const rows = [{ id: "a", status: "scheduled" }, { id: "b", status: "boarding" }];
+
+  it("patches updated rows in place", () => {
+    expect(applyRowChange(rows, { eventType: "UPDATE", new: { id: "b", status: "departed" }, old: { id: "b" } }))
+      .toEqual([{ id: "a", status: "scheduled" }, { id: "b", status: "departed" }]);
+  });
+
+  it("removes deleted rows and leaves inserts to the caller", () => {
+    expect(applyRowChange(rows, { eventType: "DELETE", new: {}, old: { id: "a" } })).toEqual([rows[1]]);
+    expect(applyRowChange(rows, { eventType: "INSERT", new: { id: "c", status: "scheduled" }, old: {} })).toBe(rows);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { canTransition, isTerminalStatus, statusOptions } from "@/lib/flightStatus";
+
+describe("flight status transitions", () => {
+  it("allows the normal departure lifecycle", () => {
+    expect(canTransition("scheduled", "boarding")).toBe(true);
+    expect(canTransition("boarding", "lined_up")).toBe(true);
+    expect(canTransition("cleared_for_takeoff", "departed")).toBe(true);
+    expect(canTransition("departed", "landed")).toBe(true);
+  });
+
+  it("rejects moving a finished flight back into the schedule", () => {
+    expect(canTransition("landed", "scheduled")).toBe(false);
+    expect(canTransition("cancelled", "boarding")).toBe(false);
+    expect(isTerminalStatus("landed")).toBe(true);
+  });
+
+  it("treats an unchanged status as valid", () => {
+    expect(canTransition("landed", "landed")).toBe(true);
+  });
+
+  it("offers the current status and its successors as picker options", () => {
+    expect(statusOptions("scheduled")).toEqual(["scheduled", "boarding", "delayed", "emergency"]);
+  });
+
+  it("lets airborne flights divert but not return to stand", () => {
+    expect(canTransition("departed", "diverted")).toBe(true);
+    expect(canTransition("emergency", "diverted")).toBe(true);
+    expect(canTransition("diverted", "landed")).toBe(true);
+    expect(canTransition("departed", "delayed")).toBe(false);
+    expect(canTransition("cleared_for_takeoff", "delayed")).toBe(true);
+    expect(canTransition("boarding", "diverted")).toBe(false);
+  });
+
+  it("keeps clearances and diversions out of plain status pickers", () => {
+    expect(statusOptions("emergency")).not.toContain("diverted");
+    expect(statusOptions("boarding")).toEqual(["boarding", "delayed", "emergency"]);
+    expect(statusOptions("departed")).toEqual(["departed", "emergency"]);
+    expect(statusOptions("diverted")).toEqual(["diverted", "emergency"]);
+  });
+
+  it("lines departures up and clears them before they depart", () => {
+    expect(canTransition("boarding", "lined_up")).toBe(true);
+    expect(canTransition("lined_up", "cleared_for_takeoff")).toBe(true);
+    expect(canTransition("cleared_for_takeoff", "departed")).toBe(true);
+    expect(canTransition("lined_up", "departed")).toBe(false);
+    expect(canTransition("scheduled", "departed")).toBe(false);
+    expect(canTransition("boarding", "departed")).toBe(false);
+    expect(canTransition("delayed", "departed")).toBe(false);
+    expect(statusOptions("lined_up")).toEqual(["delayed", "lined_up", "emergency"]);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { delayEstimates, departureDelayMinutes, formatDelay } from "@/lib/flightTimes";
+
+const flight = {
+  scheduled_departure: "2026-03-01T10:00:00.000Z",
+  scheduled_arrival: "2026-03-01T12:00:00.000Z",
+  estimated_departure: null,
+  estimated_arrival: null,
+  actual_departure: null,
+  actual_arrival: null,
+};
+
+describe("flight times", () => {
+  it("delays the estimates without touching the schedule", () => {
+    const once = { ...flight, ...delayEstimates(flight, 30) };
+    const twice = { ...once, ...delayEstimates(once, 15) };
+    expect(twice.scheduled_departure).toBe(flight.scheduled_departure);
+    expect(twice.estimated_departure).toBe("2026-03-01T10:45:00.000Z");
+    expect(departureDelayMinutes(twice)).toBe(45);
+  });
+
+  it("prefers the actual time over the estimate", () => {
+    const departed = { ...flight, estimated_departure: "2026-03-01T10:30:00.000Z", actual_departure: "2026-03-01T10:20:00.000Z" };
+    expect(departureDelayMinutes(departed)).toBe(20);
+  });
+
+  it("formats delays", () => {
+    expect(formatDelay(0)).toBe("On time");
+    expect(formatDelay(95)).toBe("+1h 35m");
+    expect(formatDelay(-5)).toBe("-5m");
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { aircraftSizeClass, conflictingFlightIds, gateConflicts } from "@/lib/gates";
+import { suggestAllocation } from "@/lib/gateAllocation";
+
+const flight = (id: string, departure: string, overrides = {}) => ({
+  id,
+  flight_number: id,
+  gate_id: "A1",
+  status: "scheduled",
+  scheduled_departure: departure,
+  scheduled_arrival: departure,
+  estimated_departure: null,
+  estimated_arrival: null,
+  actual_departure: null,
+  actual_arrival: null,
+  ...overrides,
+});
+
+describe("gates", () => {
+  it("requires a buffer between boarding periods", () => {
+    const first = flight("AA1", "2026-03-01T10:00:00Z");
+    expect(gateConflicts(flight("AA2", "2026-03-01T10:59:00Z"), "A1", [first])).toHaveLength(1);
+    expect(gateConflicts(flight("AA2", "2026-03-01T11:00:00Z"), "A1", [first])).toHaveLength(0);
+  });
+
+  it("uses the estimated departure and ignores cancelled flights and other gates", () => {
+    const flights = [
+      flight("AA1", "2026-03-01T10:00:00Z", { estimated_departure: "2026-03-01T11:30:00Z" }),
+      flight("AA2", "2026-03-01T12:00:00Z"),
+      flight("AA3", "2026-03-01T12:00:00Z", { status: "cancelled" }),
+      flight("AA4", "2026-03-01T12:00:00Z", { gate_id: "B1" }),
+    ];
+    expect(Array.from(conflictingFlightIds(flights))).toEqual(["AA1", "AA2"]);
+  });
+});
+
+describe("gate allocation", () => {
+  const gate = (id: string, size_class: "B" | "C" | "E", overrides = {}) => ({
+    id, name: id, gate_type: "contact" as const, size_class, status: "available" as const, preferred_airlines: [] as string[], ...overrides,
+  });
+  const unassigned = (id: string, departure: string, aircraft_type: string, airline = "Delta") =>
+    ({ ...flight(id, departure, { gate_id: null }), airline, aircraft_type });
+
+  it("matches aircraft size to gate size", () => {
+    expect(aircraftSizeClass("Boeing 737-400")).toBe("C");
+    expect(aircraftSizeClass("Boeing 777-300ER")).toBe("E");
+    expect(aircraftSizeClass("Airbus A380")).toBe("F");
+    expect(aircraftSizeClass("CRJ900")).toBe("B");
+  });
+
+  it("prefers airline gates, then the smallest gate that fits", () => {
+    const gates = [gate("E1", "E"), gate("C1", "C"), gate("C2", "C", { preferred_airlines: ["AA"] })];
+    const result = suggestAllocation([
+      unassigned("DL1", "2026-03-01T10:00:00Z", "Boeing 777"),
+      unassigned("DL2", "2026-03-01T10:00:00Z", "Airbus A320"),
+      unassigned("AA3", "2026-03-01T10:00:00Z", "Boeing 737", "American"),
+      unassigned("DL4", "2026-03-01T10:00:00Z", "Boeing 737"),
+    ], gates, []);
+    expect(result.map(r => [r.flight.id, r.gate?.id ?? null])).toEqual([["DL1", "E1"], ["DL2", "C1"], ["AA3", "C2"], ["DL4", null]]);
+    expect(result[2].preferred).toBe(true);
+  });
+
+  it("respects existing assignments and turnaround buffers", () => {
+    const result = suggestAllocation(
+      [unassigned("DL1", "2026-03-01T10:30:00Z", "Boeing 737"), unassigned("DL2", "2026-03-01T12:00:00Z", "Boeing 737")],
+      [gate("C1", "C")],
+      [flight("AA1", "2026-03-01T10:00:00Z", { gate_id: "C1" })],
+    );
+    expect(result.map(r => r.gate?.id ?? null)).toEqual([null, "C1"]);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import {
+  ceilingFt, describeWeather, describeWind, flightCategory, observationColumns, parseMetar, parseTaf, parseWeatherReport, resolveDayTime, splitReports, toKnots, uniqueReports,
+} from "@/lib/metar";
+
+const reference = new Date("2026-03-19T12:10:00Z");
+
+describe("metar", () => {
+  it("decodes wind, visibility, RVR, weather, cloud, temperature and QNH", () => {
+    const m = parseMetar("METAR EGLL 191150Z 24012G25KT 210V270 0800 R27L/P1500U R09R/0600V1000FT/D +TSRA BKN008 OVC020CB M01/M03 Q0998 RERA NOSIG=", reference)!;
+    expect(m.station).toBe("EGLL");
+    expect(m.observedAt).toBe("2026-03-19T11:50:00.000Z");
+    expect(m.wind).toEqual({ direction: 240, speed: 12, gust: 25, unit: "KT", variableFrom: 210, variableTo: 270 });
+    expect(m.visibilityM).toBe(800);
+    expect(m.rvr).toEqual([
+      { runway: "27L", meters: 1500, qualifier: "P", variableMeters: null, tendency: "U" },
+      { runway: "09R", meters: 183, qualifier: null, variableMeters: 305, tendency: "D" },
+    ]);
+    expect(m.weather).toEqual(["+TSRA"]);
+    expect(m.recentWeather).toEqual(["RA"]);
+    expect(m.clouds).toEqual([{ cover: "BKN", baseFt: 800, type: null }, { cover: "OVC", baseFt: 2000, type: "CB" }]);
+    expect([m.temperature, m.dewpoint, m.qnhHpa]).toEqual([-1, -3, 998]);
+    expect(m.nosig).toBe(true);
+    expect(m.unparsed).toEqual([]);
+    expect(flightCategory(m)).toBe("LIFR");
+  });
+
+  it("reads US statute miles and altimeter settings", () => {
+    const m = parseMetar("KJFK 191151Z 31008KT 1 1/2SM BR FEW006 SCT015 12/11 A2992 RMK AO2 SLP132", reference)!;
+    expect(m.visibilityM).toBe(2414);
+    expect(m.qnhHpa).toBe(1013);
+    expect(m.remarks).toBe("AO2 SLP132");
+    expect(ceilingFt(m)).toBeNull();
+    expect(flightCategory(m)).toBe("IFR");
+  });
+
+  it("keeps trend groups with their own conditions", () => {
+    const m = parseMetar("EDDF 191150Z AUTO VRB03KT CAVOK 15/08 Q1021 TEMPO FM1300 TL1500 4000 -SHRA BKN012", reference)!;
+    expect(m.auto).toBe(true);
+    expect(m.cavok).toBe(true);
+    expect(describeWind(m.wind)).toBe("Variable 3 kt");
+    expect(m.trends).toHaveLength(1);
+    expect(m.trends[0]).toMatchObject({ kind: "TEMPO", from: "2026-03-19T13:00:00.000Z", until: "2026-03-19T15:00:00.000Z" });
+    expect(m.trends[0].conditions.visibilityM).toBe(4000);
+    expect(m.trends[0].conditions.weather).toEqual(["-SHRA"]);
+    expect(flightCategory(m)).toBe("VFR");
+  });
+
+  it("rejects text without a station and observation time", () => {
+    expect(parseMetar("hello world")).toBeNull();
+    expect(parseMetar("EGLL 24012KT")).toBeNull();
+  });
+});
+
+describe("taf", () => {
+  it("decodes the validity period and change groups", () => {
+    const t = parseTaf("TAF AMD EGLL 191100Z 1912/2018 24015KT 9999 SCT030 TX14/1914Z TEMPO 1912/1916 25020G35KT 3000 SHRA BKN012CB PROB30 TEMPO 2003/2007 0800 FG FM200900 27010KT CAVOK", reference)!;
+    expect(t.amended).toBe(true);
+    expect([t.validFrom, t.validTo]).toEqual(["2026-03-19T12:00:00.000Z", "2026-03-20T18:00:00.000Z"]);
+    expect(t.conditions.wind?.speed).toBe(15);
+    expect(t.changes.map(c => c.kind)).toEqual(["TEMPO", "PROB", "FM"]);
+    expect(t.changes[1]).toMatchObject({ probability: 30, temporary: true, from: "2026-03-20T03:00:00.000Z" });
+    expect(t.changes[1].conditions.weather).toEqual(["FG"]);
+    expect(t.changes[2].from).toBe("2026-03-20T09:00:00.000Z");
+    expect(t.changes[2].conditions.cavok).toBe(true);
+    expect(t.unparsed).toEqual([]);
+  });
+
+  it("is picked by parseWeatherReport from its header", () => {
+    expect(parseWeatherReport("TAF EGLL 191100Z 1912/2018 24015KT 9999 SCT030", reference)?.kind).toBe("taf");
+    expect(parseWeatherReport("EGLL 191150Z 24012KT 9999 SCT030 12/08 Q1012", reference)?.kind).toBe("metar");
+  });
+});
+
+describe("weather helpers", () => {
+  it("places a day-of-month time in the closest month", () => {
+    expect(resolveDayTime(31, 23, 50, new Date("2026-04-01T00:10:00Z"))).toBe("2026-03-31T23:50:00.000Z");
+    expect(resolveDayTime(1, 0, 0, new Date("2026-03-31T23:00:00Z"))).toBe("2026-04-01T00:00:00.000Z");
+    expect(resolveDayTime(20, 24, 0, reference)).toBe("2026-03-21T00:00:00.000Z");
+  });
+
+  it("splits files by terminator or by line", () => {
+    expect(splitReports("EGLL 191150Z 24012KT=\nEGKK 191150Z\n 20005KT=")).toEqual(["EGLL 191150Z 24012KT", "EGKK 191150Z 20005KT"]);
+    expect(splitReports("2026/03/19 11:50\nEGLL 191150Z 24012KT\nTAF EGLL 191100Z 1912/2018 24015KT\n  TEMPO 1912/1916 3000\nBECMG 1918/1920 SCT040"))
+      .toEqual(["EGLL 191150Z 24012KT", "TAF EGLL 191100Z 1912/2018 24015KT TEMPO 1912/1916 3000 BECMG 1918/1920 SCT040"]);
+  });
+
+  it("keeps the last of reports for the same station and time", () => {
+    const reports = [
+      "EGLL 191150Z 24012KT 9999 FEW030 10/05 Q1012",
+      "EGKK 191150Z 20005KT 9999 FEW030 10/05 Q1012",
+      "EGLL 191150Z 25014KT 9999 FEW030 10/05 Q1011",
+    ].map(r => parseMetar(r, reference)!);
+    expect(uniqueReports(reports).map(r => r.raw)).toEqual([reports[1].raw, reports[2].raw]);
+  });
+
+  it("describes weather codes in words and converts wind units", () => {
+    expect(describeWeather("+TSRA")).toBe("heavy thunderstorm with rain");
+    expect(describeWeather("VCSH")).toBe("showers in the vicinity");
+    expect(describeWeather("FZFG")).toBe("freezing fog");
+    expect(toKnots(10, "MPS")).toBe(19);
+    expect(toKnots(37, "KMH")).toBe(20);
+  });
+
+  it("maps a report to its stored columns in knots", () => {
+    const m = parseMetar("EGLL 191150Z 24010G15MPS 3000 BKN004 08/07 Q1002", reference)!;
+    expect(observationColumns(m)).toMatchObject({
+      kind: "metar", station: "EGLL", observed_at: "2026-03-19T11:50:00.000Z",
+      wind_direction: 240, wind_speed_kt: 19, wind_gust_kt: 29, visibility_m: 3000, ceiling_ft: 400, qnh_hpa: 1002, flight_category: "LIFR",
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { RunwayClosure, activeClosure, describeClosure, flightClosure } from "@/lib/runwayClosures";
+import { SlotFlight } from "@/lib/runwaySlots";
+
+const closure = (overrides: Partial<RunwayClosure> = {}): RunwayClosure => ({
+  id: "c1",
+  runway_id: "r1",
+  kind: "maintenance",
+  starts_at: "2026-03-15T12:00:00Z",
+  ends_at: "2026-03-15T14:00:00Z",
+  reason: "Rubber removal",
+  reference: "WO-118",
+  ...overrides,
+});
+
+const flight = (departure: string): SlotFlight => ({
+  id: "f1",
+  flight_number: "AC101",
+  origin: "YYZ",
+  destination: "LHR",
+  status: "scheduled",
+  runway_id: "r1",
+  aircraft_type: "A320",
+  scheduled_departure: departure,
+  scheduled_arrival: "2026-03-15T21:00:00Z",
+  estimated_departure: null,
+  estimated_arrival: null,
+  actual_departure: null,
+  actual_arrival: null,
+});
+
+describe("flightClosure", () => {
+  it("catches slots that touch the window on the same runway", () => {
+    expect(flightClosure(flight("2026-03-15T13:00:00Z"), "r1", [closure()], "YYZ")?.id).toBe("c1");
+    expect(flightClosure(flight("2026-03-15T11:59:00Z"), "r1", [closure()], "YYZ")?.id).toBe("c1");
+  });
+
+  it("allows movements clear of the window or on another runway", () => {
+    expect(flightClosure(flight("2026-03-15T11:58:00Z"), "r1", [closure()], "YYZ")).toBeNull();
+    expect(flightClosure(flight("2026-03-15T14:00:00Z"), "r1", [closure()], "YYZ")).toBeNull();
+    expect(flightClosure(flight("2026-03-15T13:00:00Z"), "r2", [closure()], "YYZ")).toBeNull();
+  });
+});
+
+describe("activeClosure", () => {
+  it("prefers a full closure over maintenance", () => {
+    const closed = closure({ id: "c2", kind: "closed", starts_at: "2026-03-15T13:00:00Z" });
+    expect(activeClosure("r1", [closure(), closed], new Date("2026-03-15T13:30:00Z"))?.id).toBe("c2");
+    expect(activeClosure("r1", [closure(), closed], new Date("2026-03-15T12:30:00Z"))?.id).toBe("c1");
+    expect(activeClosure("r1", [closure()], new Date("2026-03-15T14:00:00Z"))).toBeNull();
+  });
+});
+
+describe("describeClosure", () => {
+  it("names the kind, window and reference", () => {
+    expect(describeClosure(closure(), iso => iso.slice(11, 16))).toBe("Maintenance 12:00–14:00 (WO-118)");
+  });
+});
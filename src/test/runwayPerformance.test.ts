@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { AircraftPerformance, aircraftRunwayFit, performanceFor, runwayFit } from "@/lib/runwayPerformance";
+
+const perf = (aircraft_type: string, takeoff_distance_m: number, landing_distance_m: number, unpaved_ok = false): AircraftPerformance => ({
+  id: aircraft_type, aircraft_type, takeoff_distance_m, landing_distance_m, unpaved_ok, notes: null,
+});
+
+const table = [perf("A320", 2100, 1500), perf("737-800", 2300, 1650), perf("737 MAX 8", 2500, 1600), perf("ATR 72", 1350, 1050, true)];
+const runway = (length_meters: number, surface_type = "asphalt") => ({ name: "09L", length_meters, surface_type });
+
+describe("performanceFor", () => {
+  it("matches the longest entry the type starts with", () => {
+    expect(performanceFor("A320neo", table)?.aircraft_type).toBe("A320");
+    expect(performanceFor("Boeing 737-800", table)?.aircraft_type).toBe("737-800");
+    expect(performanceFor("737 MAX 8", table)?.aircraft_type).toBe("737 MAX 8");
+    expect(performanceFor("A380", table)).toBeNull();
+  });
+});
+
+describe("runwayFit", () => {
+  it("blocks runways shorter than the distance for the movement", () => {
+    expect(runwayFit(table[0], runway(2000), "departure")).toEqual({ level: "block", message: "09L is 2,000 m; A320 needs 2,100 m to take off" });
+    expect(runwayFit(table[0], runway(2000), "arrival").level).toBe("ok");
+  });
+
+  it("warns when the spare length is under the margin", () => {
+    expect(runwayFit(table[0], runway(2200), "departure").level).toBe("warn");
+    expect(runwayFit(table[0], runway(2400), "departure").level).toBe("ok");
+  });
+
+  it("keeps paved-only types off gravel and grass", () => {
+    expect(runwayFit(table[0], runway(3000, "grass"), "arrival").level).toBe("block");
+    expect(runwayFit(table[3], runway(1600, "gravel"), "arrival").level).toBe("ok");
+  });
+
+  it("skips types without performance data", () => {
+    expect(aircraftRunwayFit("A380-800", table, runway(1000), "departure")).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { SlotFlight, conflictingRunwayFlightIds, describeConflict, movementKind, runwayConflicts, runwaySlot, wakeCategoryForType } from "@/lib/runwaySlots";
+
+const flight = (overrides: Partial<SlotFlight> = {}): SlotFlight => ({
+  id: "f1",
+  flight_number: "AC101",
+  origin: "YYZ",
+  destination: "LHR",
+  status: "scheduled",
+  runway_id: "r1",
+  aircraft_type: "A320",
+  scheduled_departure: "2026-03-15T12:00:00Z",
+  scheduled_arrival: "2026-03-15T19:00:00Z",
+  estimated_departure: null,
+  estimated_arrival: null,
+  actual_departure: null,
+  actual_arrival: null,
+  ...overrides,
+});
+
+describe("wakeCategoryForType", () => {
+  it("guesses the wake category from the aircraft type", () => {
+    expect(wakeCategoryForType("A380-800")).toBe("J");
+    expect(wakeCategoryForType("Boeing 777-300ER")).toBe("H");
+    expect(wakeCategoryForType("A320")).toBe("M");
+  });
+});
+
+describe("runwaySlot", () => {
+  it("uses the departure time leaving home and the arrival time landing there", () => {
+    expect(movementKind(flight(), "YYZ")).toBe("departure");
+    expect(movementKind(flight(), "LHR")).toBe("arrival");
+    expect(runwaySlot(flight(), "r1", "LHR")!.start).toBe(new Date("2026-03-15T19:00:00Z").getTime());
+  });
+
+  it("prefers the aircraft's wake category and skips cancelled flights", () => {
+    expect(runwaySlot(flight({ wake_category: "H" }))!.wake).toBe("H");
+    expect(runwaySlot(flight({ status: "cancelled" }))).toBeNull();
+    expect(runwaySlot(flight({ runway_id: null }))).toBeNull();
+  });
+});
+
+describe("runwayConflicts", () => {
+  const heavy = flight({ id: "f2", flight_number: "BA92", aircraft_type: "777-300ER", scheduled_departure: "2026-03-15T11:59:00Z" });
+
+  it("flags movements closer than the runway occupancy as overlaps", () => {
+    const [c] = runwayConflicts(flight(), "r1", [heavy], "YYZ");
+    expect(c.kind).toBe("overlap");
+    expect(describeConflict(c, "f1")).toBe("Overlaps BA92 (1 min apart)");
+  });
+
+  it("flags a light follower inside the heavy leader's wake minimum", () => {
+    const light = flight({ aircraft_type: "C172", wake_category: "L", scheduled_departure: "2026-03-15T12:01:30Z" });
+    const [c] = runwayConflicts(light, "r1", [heavy], "YYZ");
+    expect(c.kind).toBe("wake");
+    expect(describeConflict(c, "f1")).toBe("2.5 min behind BA92 (H→L needs 3 min)");
+  });
+
+  it("ignores other runways and well-spaced movements", () => {
+    expect(runwayConflicts(flight(), "r2", [heavy], "YYZ")).toEqual([]);
+    const later = flight({ id: "f3", scheduled_departure: "2026-03-15T12:05:00Z" });
+    expect(conflictingRunwayFlightIds([flight(), heavy, later], "YYZ")).toEqual(new Set(["f1", "f2"]));
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { retimeSlot, timelinePosition, timelineStart, timelineTime } from "@/lib/runwayTimeline";
+import { SlotFlight, runwaySlot } from "@/lib/runwaySlots";
+
+const start = timelineStart(new Date("2026-03-15T10:42:00Z"));
+
+describe("timeline geometry", () => {
+  it("opens at the start of the hour and spans 24 hours", () => {
+    expect(new Date(start).toISOString()).toBe("2026-03-15T10:00:00.000Z");
+    expect(timelinePosition(Date.parse("2026-03-15T22:00:00Z"), start)).toBe(50);
+  });
+
+  it("snaps dropped points to five minutes within the chart", () => {
+    expect(new Date(timelineTime(0.5 + 2 / 1440, start)).toISOString()).toBe("2026-03-15T22:00:00.000Z");
+    expect(new Date(timelineTime(0.5 + 3 / 1440, start)).toISOString()).toBe("2026-03-15T22:05:00.000Z");
+    expect(timelineTime(-0.2, start)).toBe(start);
+  });
+});
+
+describe("retimeSlot", () => {
+  const flight: SlotFlight = {
+    id: "f1",
+    flight_number: "AC101",
+    origin: "YYZ",
+    destination: "LHR",
+    status: "scheduled",
+    runway_id: "r1",
+    aircraft_type: "A320",
+    scheduled_departure: "2026-03-15T12:00:00Z",
+    scheduled_arrival: "2026-03-15T19:00:00Z",
+    estimated_departure: null,
+    estimated_arrival: null,
+    actual_departure: null,
+    actual_arrival: null,
+  };
+  const slot = runwaySlot(flight, "r1", "YYZ")!;
+
+  it("shifts both estimates by the move", () => {
+    expect(retimeSlot(slot, Date.parse("2026-03-15T12:25:00Z"))).toEqual({
+      estimated_departure: "2026-03-15T12:25:00.000Z",
+      estimated_arrival: "2026-03-15T19:25:00.000Z",
+    });
+  });
+
+  it("leaves the times alone when only the runway changes", () => {
+    expect(retimeSlot(slot, slot.start)).toBeNull();
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { endWind, runwayEnds, suggestConfiguration, surfaceWind, windComponents } from "@/lib/runwayWind";
+
+const runway = (name: string, heading: number | null = null, status = "available") => ({
+  id: name, name, status, heading_degrees: heading, crosswind_limit_kt: 25, tailwind_limit_kt: 5,
+});
+
+const wind = (direction: number | null, speedKt: number, gustKt: number | null = null) =>
+  ({ direction, speedKt, gustKt, variableFrom: null, variableTo: null });
+
+describe("runway wind", () => {
+  it("finds both thresholds in the name, using the surveyed heading when set", () => {
+    expect(runwayEnds(runway("09L/27R", 93))).toEqual([
+      { runwayId: "09L/27R", designator: "09L", heading: 93 },
+      { runwayId: "09L/27R", designator: "27R", heading: 273 },
+    ]);
+    expect(runwayEnds(runway("Runway 36"))).toEqual([{ runwayId: "Runway 36", designator: "36", heading: 360 }]);
+    expect(runwayEnds(runway("North strip"))).toEqual([]);
+  });
+
+  it("splits the wind into headwind and crosswind from the right", () => {
+    const c = windComponents(300, 20, 270);
+    expect(c.headwind).toBeCloseTo(17.32, 2);
+    expect(c.crosswind).toBeCloseTo(10, 5);
+  });
+
+  it("checks limits against the gust and the reported variation", () => {
+    const [end] = runwayEnds(runway("Runway 27"));
+    const gusty = endWind(end, wind(360, 15, 30), { crosswind_limit_kt: 25, tailwind_limit_kt: 5 });
+    expect(gusty).toMatchObject({ headwind: 0, crosswind: 15, side: "right", maxCrosswind: 30, crosswindExceeded: true });
+
+    const varying = endWind(end, { ...wind(270, 10), variableFrom: 60, variableTo: 120 }, { crosswind_limit_kt: 25, tailwind_limit_kt: 5 });
+    expect(varying.headwind).toBe(10);
+    expect(varying.maxTailwind).toBe(10);
+    expect(varying.tailwindExceeded).toBe(true);
+  });
+
+  it("treats variable wind as possibly from any side", () => {
+    const [end] = runwayEnds(runway("Runway 09"));
+    expect(endWind(end, wind(null, 8), { crosswind_limit_kt: 25, tailwind_limit_kt: 5 }))
+      .toMatchObject({ side: null, maxCrosswind: 8, maxTailwind: 8, tailwindExceeded: true });
+  });
+
+  it("suggests the parallel ends with the most headwind on usable runways", () => {
+    const runways = [runway("Runway 01L", 10), runway("Runway 01R", 10), runway("Runway 19L", 190), runway("Runway 19R", 190, "closed")];
+    const config = suggestConfiguration(runways, wind(200, 12));
+    expect(config?.ends.map(e => e.end.designator)).toEqual(["19L"]);
+    expect(suggestConfiguration(runways, wind(20, 12))?.ends.map(e => e.end.designator)).toEqual(["01L", "01R"]);
+    expect(suggestConfiguration(runways, wind(100, 40))).toBeNull();
+  });
+
+  it("converts a decoded METAR wind to knots", () => {
+    expect(surfaceWind({ direction: 240, speed: 10, gust: 15, unit: "MPS", variableFrom: null, variableTo: null }))
+      .toEqual({ direction: 240, speedKt: 19, gustKt: 29, variableFrom: null, variableTo: null });
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, it, expect } from "vitest";
+import { addDays, formatDays, scheduleDates } from "@/lib/schedules";
+
+describe("schedules", () => {
+  it("formats operating days like a timetable", () => {
+    expect(formatDays([1, 3, 5, 7])).toBe("1.3.5.7");
+  });
+
+  it("clips generated dates to the validity period", () => {
+    // 2026-03-02 is a Monday
+    const pattern = { days_of_week: [1, 5], valid_from: "2026-03-04", valid_to: "2026-03-20" };
+    expect(scheduleDates(pattern, "2026-03-01", "2026-03-16")).toEqual(["2026-03-06", "2026-03-09", "2026-03-13", "2026-03-16"]);
+  });
+
+  it("adds days across month ends", () => {
+    expect(addDays("2026-02-27", 3)).toBe("2026-03-02");
+  });
+});
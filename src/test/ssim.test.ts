@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { buildSsim, diffFlights, parseSsim, ssimFlights } from "@/lib/ssim";
+
+const schedule = {
+  flight_number: "AA100",
+  origin: "JFK",
+  destination: "LHR",
+  days_of_week: [1, 3],
+  valid_from: "2026-03-02",
+  valid_to: "2026-03-15",
+  departure_time: "22:30:00",
+  arrival_time: "10:15:00",
+  arrival_day_offset: 1,
+  aircraft_type: "Boeing 777",
+  capacity: 300,
+};
+
+describe("ssim", () => {
+  it("exports fixed-width records padded to blocks of five", () => {
+    const { text, skipped } = buildSsim([schedule, { ...schedule, flight_number: "???" }], new Date("2026-03-01T00:00:00Z"));
+    const lines = text.trimEnd().split("\n");
+    expect(skipped).toEqual(["???"]);
+    expect(lines.every(l => l.length === 200)).toBe(true);
+    expect(lines.length % 5).toBe(0);
+    expect(lines.map(l => l[0]).filter(t => t !== "0")).toEqual(["1", "2", "3", "5"]);
+  });
+
+  it("round-trips an exported schedule into dated flights", () => {
+    const { legs, errors } = parseSsim(buildSsim([schedule], new Date()).text);
+    expect(errors).toEqual([]);
+    const { flights } = ssimFlights(legs);
+    expect(flights.map(f => f.scheduled_departure)).toEqual([
+      "2026-03-02T22:30:00.000Z", "2026-03-04T22:30:00.000Z", "2026-03-09T22:30:00.000Z", "2026-03-11T22:30:00.000Z",
+    ]);
+    expect(flights[0]).toMatchObject({ flight_number: "AA100", scheduled_arrival: "2026-03-03T10:15:00.000Z", aircraft_type: "777", capacity: 300 });
+  });
+
+  it("converts local times using the UTC variation", () => {
+    const line = "3 BA 01170101J01JUN2601JUN261234567 LHR08300830+01002 JFK11051105-04001 777".padEnd(200, " ");
+    const { flights } = ssimFlights(parseSsim(line).legs);
+    expect(flights[0].scheduled_departure).toBe("2026-06-01T07:30:00.000Z");
+    expect(flights[0].scheduled_arrival).toBe("2026-06-01T15:05:00.000Z");
+  });
+
+  it("reports malformed legs with their line number", () => {
+    const { legs, errors } = parseSsim("\n3 AA 01000101J32MAR2601APR261234567");
+    expect(legs).toEqual([]);
+    expect(errors[0].line).toBe(2);
+  });
+
+  it("classifies incoming flights against existing rows", () => {
+    const { flights } = ssimFlights(parseSsim(buildSsim([schedule], new Date()).text).legs);
+    const existing = (departure: string, status: string) => ({
+      id: departure, flight_number: "AA100", status, airline: "American Airlines", origin: "JFK", destination: "LHR",
+      scheduled_departure: departure, scheduled_arrival: "2026-03-05T11:00:00.000Z", aircraft_type: "Boeing 777", capacity: 300, schedule_id: null,
+    });
+    const diff = diffFlights(flights, [
+      { ...existing("2026-03-02T22:30:00.000Z", "scheduled"), scheduled_arrival: "2026-03-03T10:15:00.000Z" },
+      existing("2026-03-04T20:00:00.000Z", "scheduled"),
+      existing("2026-03-09T20:00:00.000Z", "departed"),
+    ]);
+    expect(diff.map(d => d.kind)).toEqual(["unchanged", "update", "locked", "create"]);
+    expect(diff[1].changes).toEqual(["scheduled_departure", "scheduled_arrival"]);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { formatZonedDateTime, formatZonedLongDate, fromZonedInput, toZonedInput, zoneAbbreviation, zoneFor, zonedHour } from "@/lib/timeZones";
+import { minutesByHour } from "@/lib/delayAnalysis";
+
+describe("time zones", () => {
+  it("picks the zone for each display mode", () => {
+    expect(zoneFor("utc", "Europe/London", "America/New_York")).toBe("UTC");
+    expect(zoneFor("airport", "Europe/London", "America/New_York")).toBe("Europe/London");
+    expect(zoneFor("local", "Europe/London", "America/New_York")).toBe("America/New_York");
+    expect(zoneFor("local", null, null)).toBe("UTC");
+  });
+
+  it("round-trips datetime-local values through a zone", () => {
+    expect(toZonedInput("2026-07-01T12:30:00.000Z", "America/New_York")).toBe("2026-07-01T08:30");
+    expect(fromZonedInput("2026-07-01T08:30", "America/New_York")).toBe("2026-07-01T12:30:00.000Z");
+    expect(fromZonedInput("2026-01-15T08:30", "America/New_York")).toBe("2026-01-15T13:30:00.000Z");
+    expect(fromZonedInput("2026-03-10T23:15", "Asia/Kolkata")).toBe("2026-03-10T17:45:00.000Z");
+    expect(fromZonedInput("not a date", "UTC")).toBeNull();
+  });
+
+  it("resolves wall times on either side of a DST change", () => {
+    // Clocks in New York go forward at 02:00 on 8 March 2026.
+    expect(fromZonedInput("2026-03-08T01:30", "America/New_York")).toBe("2026-03-08T06:30:00.000Z");
+    expect(fromZonedInput("2026-03-08T03:30", "America/New_York")).toBe("2026-03-08T07:30:00.000Z");
+  });
+
+  it("formats in the zone", () => {
+    expect(formatZonedDateTime("2026-07-01T23:30:00.000Z", "Asia/Tokyo")).toBe("Jul 2, 08:30");
+    expect(zonedHour("2026-07-01T23:30:00.000Z", "Asia/Tokyo")).toBe(8);
+    expect(formatZonedLongDate("2026-07-01T23:30:00.000Z", "Asia/Tokyo")).toBe("Thursday, July 2, 2026");
+    expect(zoneAbbreviation("UTC")).toBe("UTC");
+  });
+
+  it("buckets delays by the hour in the chosen zone", () => {
+    const entry = { scheduled_departure: "2026-07-01T23:30:00.000Z", minutes: 20 };
+    const hours = minutesByHour([entry] as Parameters<typeof minutesByHour>[0], "Asia/Tokyo");
+    expect(hours[8]).toMatchObject({ minutes: 20, count: 1 });
+  });
+});
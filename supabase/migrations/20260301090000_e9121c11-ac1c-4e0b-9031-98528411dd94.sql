@@ -0,0 +1,62 @@
+-- ============================================
+-- FLIGHT STATUS STATE MACHINE
+-- ============================================
+-- Mirrored in src/lib/flightStatus.ts; keep both in sync.
+CREATE TABLE public.flight_status_transitions (
+  from_status flight_status NOT NULL,
+  to_status flight_status NOT NULL,
+  PRIMARY KEY (from_status, to_status),
+  CHECK (from_status <> to_status)
+);
+
+ALTER TABLE public.flight_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All authenticated can view status transitions" ON public.flight_status_transitions
+  FOR SELECT TO authenticated USING (true);
+
+INSERT INTO public.flight_status_transitions (from_status, to_status) VALUES
+  ('scheduled', 'boarding'),
+  ('scheduled', 'delayed'),
+  ('scheduled', 'departed'),
+  ('scheduled', 'landed'),
+  ('scheduled', 'cancelled'),
+  ('scheduled', 'emergency'),
+  ('boarding', 'delayed'),
+  ('boarding', 'departed'),
+  ('boarding', 'cancelled'),
+  ('boarding', 'emergency'),
+  ('delayed', 'scheduled'),
+  ('delayed', 'boarding'),
+  ('delayed', 'departed'),
+  ('delayed', 'landed'),
+  ('delayed', 'cancelled'),
+  ('delayed', 'emergency'),
+  ('departed', 'landed'),
+  ('departed', 'emergency'),
+  ('emergency', 'landed'),
+  ('emergency', 'cancelled');
+
+-- ============================================
+-- TRIGGER: Reject invalid status transitions
+-- ============================================
+CREATE OR REPLACE FUNCTION public.enforce_flight_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status AND NOT EXISTS (
+    SELECT 1 FROM public.flight_status_transitions
+    WHERE from_status = OLD.status AND to_status = NEW.status
+  ) THEN
+    RAISE EXCEPTION 'Invalid flight status transition: % → %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation',
+            HINT = 'See public.flight_status_transitions for allowed transitions.';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_flights_status_transition BEFORE UPDATE OF status ON public.flights
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_flight_status_transition();
@@ -0,0 +1,81 @@
+-- ============================================
+-- FLIGHT EVENTS (per-flight change history)
+-- ============================================
+CREATE TYPE public.flight_event_type AS ENUM (
+  'created', 'status_change', 'delay', 'schedule_change', 'runway_change', 'gate_change'
+);
+
+CREATE TABLE public.flight_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  flight_id UUID NOT NULL REFERENCES public.flights(id) ON DELETE CASCADE,
+  event_type flight_event_type NOT NULL,
+  field TEXT,
+  old_value TEXT,
+  new_value TEXT,
+  actor_id UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX flight_events_flight_id_created_at_idx ON public.flight_events (flight_id, created_at);
+
+ALTER TABLE public.flight_events ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written only by the record_flight_events trigger, never by clients
+CREATE POLICY "All authenticated can view flight events" ON public.flight_events
+  FOR SELECT TO authenticated USING (true);
+
+-- ============================================
+-- TRIGGER: Record flight changes
+-- ============================================
+CREATE OR REPLACE FUNCTION public.record_flight_events()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor UUID := auth.uid();
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.flight_events (flight_id, event_type, field, new_value, actor_id)
+    VALUES (NEW.id, 'created', 'status', NEW.status::TEXT, COALESCE(_actor, NEW.created_by));
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.flight_events (flight_id, event_type, field, old_value, new_value, actor_id)
+    VALUES (NEW.id, 'status_change', 'status', OLD.status::TEXT, NEW.status::TEXT, _actor);
+  END IF;
+
+  IF NEW.scheduled_departure IS DISTINCT FROM OLD.scheduled_departure THEN
+    INSERT INTO public.flight_events (flight_id, event_type, field, old_value, new_value, actor_id)
+    VALUES (
+      NEW.id,
+      CASE WHEN NEW.scheduled_departure > OLD.scheduled_departure THEN 'delay' ELSE 'schedule_change' END::flight_event_type,
+      'scheduled_departure', OLD.scheduled_departure::TEXT, NEW.scheduled_departure::TEXT, _actor
+    );
+  END IF;
+
+  IF NEW.scheduled_arrival IS DISTINCT FROM OLD.scheduled_arrival THEN
+    INSERT INTO public.flight_events (flight_id, event_type, field, old_value, new_value, actor_id)
+    VALUES (NEW.id, 'schedule_change', 'scheduled_arrival', OLD.scheduled_arrival::TEXT, NEW.scheduled_arrival::TEXT, _actor);
+  END IF;
+
+  IF NEW.runway_id IS DISTINCT FROM OLD.runway_id THEN
+    INSERT INTO public.flight_events (flight_id, event_type, field, old_value, new_value, actor_id)
+    VALUES (NEW.id, 'runway_change', 'runway_id', OLD.runway_id::TEXT, NEW.runway_id::TEXT, _actor);
+  END IF;
+
+  IF NEW.gate IS DISTINCT FROM OLD.gate THEN
+    INSERT INTO public.flight_events (flight_id, event_type, field, old_value, new_value, actor_id)
+    VALUES (NEW.id, 'gate_change', 'gate', OLD.gate, NEW.gate, _actor);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_flights_events AFTER INSERT OR UPDATE ON public.flights
+  FOR EACH ROW EXECUTE FUNCTION public.record_flight_events();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.flight_events;
@@ -0,0 +1,70 @@
+-- ============================================
+-- ESTIMATED TIMES (ETD / ETA)
+-- ============================================
+-- Delays move the estimates; scheduled_* stay as published.
+ALTER TABLE public.flights
+  ADD COLUMN estimated_departure TIMESTAMPTZ,
+  ADD COLUMN estimated_arrival TIMESTAMPTZ;
+
+-- ============================================
+-- TRIGGER: Record flight changes (estimates)
+-- ============================================
+CREATE OR REPLACE FUNCTION public.record_flight_events()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor UUID := auth.uid();
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.flight_events (flight_id, event_type, field, new_value, actor_id)
+    VALUES (NEW.id, 'created', 'status', NEW.status::TEXT, COALESCE(_actor, NEW.created_by));
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.flight_events (flight_id, event_type, field, old_value, new_value, actor_id)
+    VALUES (NEW.id, 'status_change', 'status', OLD.status::TEXT, NEW.status::TEXT, _actor);
+  END IF;
+
+  IF NEW.scheduled_departure IS DISTINCT FROM OLD.scheduled_departure THEN
+    INSERT INTO public.flight_events (flight_id, event_type, field, old_value, new_value, actor_id)
+    VALUES (NEW.id, 'schedule_change', 'scheduled_departure', OLD.scheduled_departure::TEXT, NEW.scheduled_departure::TEXT, _actor);
+  END IF;
+
+  IF NEW.scheduled_arrival IS DISTINCT FROM OLD.scheduled_arrival THEN
+    INSERT INTO public.flight_events (flight_id, event_type, field, old_value, new_value, actor_id)
+    VALUES (NEW.id, 'schedule_change', 'scheduled_arrival', OLD.scheduled_arrival::TEXT, NEW.scheduled_arrival::TEXT, _actor);
+  END IF;
+
+  -- A later estimate than the previously expected time is a delay
+  IF NEW.estimated_departure IS DISTINCT FROM OLD.estimated_departure THEN
+    INSERT INTO public.flight_events (flight_id, event_type, field, old_value, new_value, actor_id)
+    VALUES (
+      NEW.id,
+      CASE WHEN NEW.estimated_departure > COALESCE(OLD.estimated_departure, OLD.scheduled_departure)
+        THEN 'delay' ELSE 'schedule_change' END::flight_event_type,
+      'estimated_departure', OLD.estimated_departure::TEXT, NEW.estimated_departure::TEXT, _actor
+    );
+  END IF;
+
+  IF NEW.estimated_arrival IS DISTINCT FROM OLD.estimated_arrival THEN
+    INSERT INTO public.flight_events (flight_id, event_type, field, old_value, new_value, actor_id)
+    VALUES (NEW.id, 'schedule_change', 'estimated_arrival', OLD.estimated_arrival::TEXT, NEW.estimated_arrival::TEXT, _actor);
+  END IF;
+
+  IF NEW.runway_id IS DISTINCT FROM OLD.runway_id THEN
+    INSERT INTO public.flight_events (flight_id, event_type, field, old_value, new_value, actor_id)
+    VALUES (NEW.id, 'runway_change', 'runway_id', OLD.runway_id::TEXT, NEW.runway_id::TEXT, _actor);
+  END IF;
+
+  IF NEW.gate IS DISTINCT FROM OLD.gate THEN
+    INSERT INTO public.flight_events (flight_id, event_type, field, old_value, new_value, actor_id)
+    VALUES (NEW.id, 'gate_change', 'gate', OLD.gate, NEW.gate, _actor);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,109 @@
+-- ============================================
+-- IATA DELAY CODES (reference data)
+-- ============================================
+CREATE TABLE public.delay_codes (
+  code TEXT PRIMARY KEY,
+  category TEXT NOT NULL,
+  description TEXT NOT NULL
+);
+
+ALTER TABLE public.delay_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All authenticated can view delay codes" ON public.delay_codes
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage delay codes" ON public.delay_codes
+  FOR ALL TO authenticated USING (public.has_role(auth.uid(), 'admin'));
+
+INSERT INTO public.delay_codes (code, category, description) VALUES
+  ('11', 'Passenger and baggage', 'Late check-in, acceptance after deadline'),
+  ('12', 'Passenger and baggage', 'Late check-in, congestion in check-in area'),
+  ('13', 'Passenger and baggage', 'Check-in error'),
+  ('14', 'Passenger and baggage', 'Oversales, booking errors'),
+  ('15', 'Passenger and baggage', 'Boarding discrepancies and paging'),
+  ('16', 'Passenger and baggage', 'Commercial publicity, passenger convenience, VIP'),
+  ('17', 'Passenger and baggage', 'Catering order late or incorrect'),
+  ('18', 'Passenger and baggage', 'Baggage processing, sorting'),
+  ('21', 'Cargo and mail', 'Documentation errors, cargo'),
+  ('25', 'Cargo and mail', 'Oversales, cargo booking errors'),
+  ('27', 'Cargo and mail', 'Mail documentation and packing'),
+  ('31', 'Aircraft and ramp handling', 'Aircraft documentation late or inaccurate'),
+  ('32', 'Aircraft and ramp handling', 'Loading and unloading, bulky or special load'),
+  ('33', 'Aircraft and ramp handling', 'Loading equipment, lack of or breakdown'),
+  ('34', 'Aircraft and ramp handling', 'Servicing equipment, lack of or breakdown'),
+  ('35', 'Aircraft and ramp handling', 'Aircraft cleaning'),
+  ('36', 'Aircraft and ramp handling', 'Fuelling and defuelling'),
+  ('37', 'Aircraft and ramp handling', 'Catering, late delivery or loading'),
+  ('38', 'Aircraft and ramp handling', 'ULD, lack of or serviceability'),
+  ('39', 'Aircraft and ramp handling', 'Technical equipment, lack of or breakdown'),
+  ('41', 'Technical and aircraft equipment', 'Aircraft defects'),
+  ('42', 'Technical and aircraft equipment', 'Scheduled maintenance, late release'),
+  ('43', 'Technical and aircraft equipment', 'Non-scheduled maintenance'),
+  ('44', 'Technical and aircraft equipment', 'Spares and maintenance equipment'),
+  ('45', 'Technical and aircraft equipment', 'AOG spares'),
+  ('46', 'Technical and aircraft equipment', 'Aircraft change for technical reasons'),
+  ('47', 'Technical and aircraft equipment', 'Standby aircraft, lack of'),
+  ('51', 'Damage to aircraft', 'Damage during flight operations'),
+  ('52', 'Damage to aircraft', 'Damage during ground operations'),
+  ('55', 'Automated equipment failure', 'Departure control system'),
+  ('57', 'Automated equipment failure', 'Flight plans'),
+  ('61', 'Flight operations and crewing', 'Flight plan, late completion or change'),
+  ('62', 'Flight operations and crewing', 'Operational requirements, fuel, load alteration'),
+  ('63', 'Flight operations and crewing', 'Late crew boarding or departure procedures'),
+  ('64', 'Flight operations and crewing', 'Flight deck crew shortage'),
+  ('65', 'Flight operations and crewing', 'Flight deck crew special request'),
+  ('66', 'Flight operations and crewing', 'Late cabin crew boarding'),
+  ('67', 'Flight operations and crewing', 'Cabin crew shortage'),
+  ('68', 'Flight operations and crewing', 'Cabin crew error or special request'),
+  ('69', 'Flight operations and crewing', 'Captain request for security check'),
+  ('71', 'Weather', 'Departure station'),
+  ('72', 'Weather', 'Destination station'),
+  ('73', 'Weather', 'En route or alternate'),
+  ('75', 'Weather', 'De-icing of aircraft'),
+  ('76', 'Weather', 'Removal of snow, ice, water or sand from airport'),
+  ('77', 'Weather', 'Ground handling impaired by adverse weather'),
+  ('81', 'ATFM and airport', 'ATFM due to ATC en-route demand/capacity'),
+  ('82', 'ATFM and airport', 'ATFM due to ATC staff or equipment en route'),
+  ('83', 'ATFM and airport', 'ATFM due to restriction at destination airport'),
+  ('84', 'ATFM and airport', 'ATFM due to weather at destination'),
+  ('85', 'ATFM and airport', 'Mandatory security'),
+  ('86', 'ATFM and airport', 'Immigration, customs, health'),
+  ('87', 'ATFM and airport', 'Airport facilities'),
+  ('88', 'ATFM and airport', 'Restrictions at airport of destination'),
+  ('89', 'ATFM and airport', 'Restrictions at airport of departure'),
+  ('91', 'Reactionary', 'Load connection, awaiting load from another flight'),
+  ('92', 'Reactionary', 'Through check-in error'),
+  ('93', 'Reactionary', 'Aircraft rotation, late arrival from another flight'),
+  ('94', 'Reactionary', 'Cabin crew rotation'),
+  ('95', 'Reactionary', 'Crew rotation'),
+  ('96', 'Reactionary', 'Operations control, rerouting, diversion'),
+  ('97', 'Miscellaneous', 'Industrial action within own airline'),
+  ('98', 'Miscellaneous', 'Industrial action outside own airline'),
+  ('99', 'Miscellaneous', 'Other reason not matching any code above');
+
+-- ============================================
+-- FLIGHT DELAYS (minutes attributed per code)
+-- ============================================
+CREATE TABLE public.flight_delays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  flight_id UUID NOT NULL REFERENCES public.flights(id) ON DELETE CASCADE,
+  code TEXT NOT NULL REFERENCES public.delay_codes(code),
+  minutes INTEGER NOT NULL CHECK (minutes > 0),
+  remarks TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX flight_delays_flight_id_idx ON public.flight_delays (flight_id);
+
+ALTER TABLE public.flight_delays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All authenticated can view flight delays" ON public.flight_delays
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and ATC can manage flight delays" ON public.flight_delays
+  FOR ALL TO authenticated USING (
+    public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'atc')
+  );
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.flight_delays;
@@ -0,0 +1,164 @@
+-- ============================================
+-- FLIGHT SCHEDULES (recurring seasonal patterns)
+-- ============================================
+-- Times are UTC. days_of_week uses ISO numbering (1 = Monday … 7 = Sunday).
+CREATE TABLE public.flight_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  flight_number TEXT NOT NULL,
+  airline TEXT NOT NULL,
+  origin TEXT NOT NULL,
+  destination TEXT NOT NULL,
+  days_of_week SMALLINT[] NOT NULL CHECK (days_of_week <@ ARRAY[1,2,3,4,5,6,7]::SMALLINT[] AND cardinality(days_of_week) > 0),
+  valid_from DATE NOT NULL,
+  valid_to DATE NOT NULL,
+  departure_time TIME NOT NULL,
+  arrival_time TIME NOT NULL,
+  arrival_day_offset SMALLINT NOT NULL DEFAULT 0 CHECK (arrival_day_offset BETWEEN 0 AND 2),
+  aircraft_type TEXT NOT NULL DEFAULT 'Boeing 737',
+  capacity INTEGER NOT NULL DEFAULT 180,
+  runway_id UUID REFERENCES public.runways(id) ON DELETE SET NULL,
+  gate TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (valid_to >= valid_from)
+);
+
+ALTER TABLE public.flight_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All authenticated can view schedules" ON public.flight_schedules
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and ATC can manage schedules" ON public.flight_schedules
+  FOR ALL TO authenticated USING (
+    public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'atc')
+  );
+
+CREATE TRIGGER update_flight_schedules_updated_at BEFORE UPDATE ON public.flight_schedules
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- ============================================
+-- FLIGHTS: link instances to their schedule
+-- ============================================
+-- A flight number now repeats once per day instead of being globally unique.
+ALTER TABLE public.flights DROP CONSTRAINT flights_flight_number_key;
+
+CREATE UNIQUE INDEX flights_flight_number_departure_date_key
+  ON public.flights (flight_number, ((scheduled_departure AT TIME ZONE 'UTC')::date));
+
+ALTER TABLE public.flights
+  ADD COLUMN schedule_id UUID REFERENCES public.flight_schedules(id) ON DELETE SET NULL,
+  ADD COLUMN schedule_date DATE,
+  ADD COLUMN is_schedule_override BOOLEAN NOT NULL DEFAULT false;
+
+CREATE UNIQUE INDEX flights_schedule_instance_key
+  ON public.flights (schedule_id, schedule_date) WHERE schedule_id IS NOT NULL;
+
+-- ============================================
+-- FUNCTION: Materialize a schedule into flights
+-- ============================================
+CREATE OR REPLACE FUNCTION public.is_stale_schedule_instance(f public.flights, _s public.flight_schedules, _from DATE)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT f.schedule_id = _s.id
+    AND f.schedule_date >= _from
+    AND f.status = 'scheduled'
+    AND NOT f.is_schedule_override
+    AND (NOT _s.is_active
+      OR f.schedule_date NOT BETWEEN _s.valid_from AND _s.valid_to
+      OR NOT (extract(isodow FROM f.schedule_date)::SMALLINT = ANY (_s.days_of_week)))
+$$;
+
+-- Keeps instances in [today, today + _window_days] in line with the pattern.
+-- Instances that were edited individually (is_schedule_override) or have moved
+-- past 'scheduled' are never touched, so single-day changes survive a resync.
+CREATE OR REPLACE FUNCTION public.sync_schedule_flights(_schedule_id UUID, _window_days INTEGER DEFAULT 14)
+RETURNS TABLE (created INTEGER, updated INTEGER, removed INTEGER)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _s public.flight_schedules%ROWTYPE;
+  _from DATE := (now() AT TIME ZONE 'UTC')::date;
+  _to DATE := (now() AT TIME ZONE 'UTC')::date + _window_days;
+  _cancelled INTEGER;
+BEGIN
+  SELECT * INTO _s FROM public.flight_schedules WHERE id = _schedule_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Schedule % not found', _schedule_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Instances that no longer fit: cancel them if passengers are booked, otherwise delete them
+  UPDATE public.flights f SET status = 'cancelled'
+  WHERE public.is_stale_schedule_instance(f, _s, _from)
+    AND EXISTS (SELECT 1 FROM public.passengers p WHERE p.flight_id = f.id);
+  GET DIAGNOSTICS _cancelled = ROW_COUNT;
+
+  DELETE FROM public.flights f
+  WHERE public.is_stale_schedule_instance(f, _s, _from);
+  GET DIAGNOSTICS removed = ROW_COUNT;
+  removed := removed + _cancelled;
+
+  UPDATE public.flights f SET
+    flight_number = _s.flight_number,
+    airline = _s.airline,
+    origin = _s.origin,
+    destination = _s.destination,
+    scheduled_departure = (f.schedule_date + _s.departure_time) AT TIME ZONE 'UTC',
+    scheduled_arrival = ((f.schedule_date + _s.arrival_day_offset) + _s.arrival_time) AT TIME ZONE 'UTC',
+    aircraft_type = _s.aircraft_type,
+    capacity = _s.capacity,
+    runway_id = _s.runway_id,
+    gate = _s.gate
+  WHERE f.schedule_id = _s.id
+    AND f.schedule_date >= _from
+    AND f.status = 'scheduled'
+    AND NOT f.is_schedule_override
+    AND (f.flight_number, f.airline, f.origin, f.destination, f.scheduled_departure, f.scheduled_arrival,
+         f.aircraft_type, f.capacity, f.runway_id, f.gate)
+      IS DISTINCT FROM
+        (_s.flight_number, _s.airline, _s.origin, _s.destination,
+         (f.schedule_date + _s.departure_time) AT TIME ZONE 'UTC',
+         ((f.schedule_date + _s.arrival_day_offset) + _s.arrival_time) AT TIME ZONE 'UTC',
+         _s.aircraft_type, _s.capacity, _s.runway_id, _s.gate);
+  GET DIAGNOSTICS updated = ROW_COUNT;
+
+  created := 0;
+  IF _s.is_active THEN
+    INSERT INTO public.flights (
+      flight_number, airline, origin, destination, scheduled_departure, scheduled_arrival,
+      aircraft_type, capacity, runway_id, gate, notes, created_by, schedule_id, schedule_date
+    )
+    SELECT
+      _s.flight_number, _s.airline, _s.origin, _s.destination,
+      (d::date + _s.departure_time) AT TIME ZONE 'UTC',
+      ((d::date + _s.arrival_day_offset) + _s.arrival_time) AT TIME ZONE 'UTC',
+      _s.aircraft_type, _s.capacity, _s.runway_id, _s.gate, _s.notes, auth.uid(), _s.id, d::date
+    FROM generate_series(GREATEST(_from, _s.valid_from), LEAST(_to, _s.valid_to), interval '1 day') AS d
+    WHERE extract(isodow FROM d)::SMALLINT = ANY (_s.days_of_week)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.flights f WHERE f.schedule_id = _s.id AND f.schedule_date = d::date
+      )
+    ON CONFLICT DO NOTHING;
+    GET DIAGNOSTICS created = ROW_COUNT;
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_all_schedule_flights(_window_days INTEGER DEFAULT 14)
+RETURNS TABLE (created INTEGER, updated INTEGER, removed INTEGER)
+LANGUAGE sql
+SET search_path = public
+AS $$
+  SELECT COALESCE(sum(r.created), 0)::INTEGER, COALESCE(sum(r.updated), 0)::INTEGER, COALESCE(sum(r.removed), 0)::INTEGER
+  FROM public.flight_schedules s
+  CROSS JOIN LATERAL public.sync_schedule_flights(s.id, _window_days) r
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.flight_schedules;
@@ -0,0 +1,39 @@
+-- ============================================
+-- FUNCTION: Bulk flight import
+-- ============================================
+-- Inserts every row or none, and records one activity_log summary entry in the
+-- same transaction. Runs as the caller, so the flights RLS policies still apply.
+CREATE OR REPLACE FUNCTION public.import_flights(_flights JSONB, _source TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _count INTEGER;
+BEGIN
+  INSERT INTO public.flights (
+    flight_number, airline, origin, destination, status, scheduled_departure, scheduled_arrival,
+    runway_id, gate, aircraft_type, capacity, notes, created_by
+  )
+  SELECT
+    r.flight_number, r.airline, r.origin, r.destination, COALESCE(r.status, 'scheduled'),
+    r.scheduled_departure, r.scheduled_arrival, r.runway_id, r.gate,
+    COALESCE(r.aircraft_type, 'Boeing 737'), COALESCE(r.capacity, 180), r.notes, auth.uid()
+  FROM jsonb_to_recordset(_flights) AS r(
+    flight_number TEXT, airline TEXT, origin TEXT, destination TEXT, status flight_status,
+    scheduled_departure TIMESTAMPTZ, scheduled_arrival TIMESTAMPTZ, runway_id UUID, gate TEXT,
+    aircraft_type TEXT, capacity INTEGER, notes TEXT
+  );
+  GET DIAGNOSTICS _count = ROW_COUNT;
+
+  INSERT INTO public.activity_log (user_id, action, entity_type, details)
+  VALUES (
+    auth.uid(),
+    format('Imported %s flights from %s', _count, _source),
+    'flight',
+    jsonb_build_object('source', _source, 'count', _count)
+  );
+
+  RETURN _count;
+END;
+$$;
@@ -0,0 +1,124 @@
+-- ============================================
+-- ENUMS
+-- ============================================
+CREATE TYPE public.gate_type AS ENUM ('contact', 'remote');
+-- ICAO aerodrome reference code letter: the largest wingspan the stand accepts
+CREATE TYPE public.gate_size_class AS ENUM ('A', 'B', 'C', 'D', 'E', 'F');
+CREATE TYPE public.gate_status AS ENUM ('available', 'maintenance', 'closed');
+
+-- ============================================
+-- GATES TABLE
+-- ============================================
+CREATE TABLE public.gates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  terminal TEXT NOT NULL,
+  gate_type gate_type NOT NULL DEFAULT 'contact',
+  size_class gate_size_class NOT NULL DEFAULT 'C',
+  status gate_status NOT NULL DEFAULT 'available',
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.gates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All authenticated can view gates" ON public.gates
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and ATC can manage gates" ON public.gates
+  FOR ALL TO authenticated USING (
+    public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'atc')
+  );
+
+CREATE TRIGGER update_gates_updated_at BEFORE UPDATE ON public.gates
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- Existing free-text gates become gate records in a default terminal
+INSERT INTO public.gates (name, terminal)
+SELECT DISTINCT upper(trim(gate)), 'T1' FROM public.flights WHERE coalesce(trim(gate), '') <> ''
+ON CONFLICT (name) DO NOTHING;
+
+-- ============================================
+-- FLIGHTS: gate assignment
+-- ============================================
+-- flights.gate stays as the display name and is kept in sync with gate_id.
+ALTER TABLE public.flights ADD COLUMN gate_id UUID REFERENCES public.gates(id) ON DELETE SET NULL;
+
+UPDATE public.flights f SET gate_id = g.id
+FROM public.gates g WHERE g.name = upper(trim(f.gate));
+
+CREATE INDEX idx_flights_gate_id ON public.flights (gate_id) WHERE gate_id IS NOT NULL;
+
+-- ============================================
+-- FUNCTION: Resolve and check gate assignments
+-- ============================================
+-- A flight occupies its gate for the 45 minutes before its best known departure
+-- time; two occupancies on one gate must be at least 15 minutes apart.
+CREATE OR REPLACE FUNCTION public.gate_conflict(_flight_id UUID, _gate_id UUID, _departure TIMESTAMPTZ)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT o.flight_number FROM public.flights o
+  WHERE o.gate_id = _gate_id
+    AND o.id <> _flight_id
+    AND o.status <> 'cancelled'
+    AND abs(extract(epoch FROM COALESCE(o.actual_departure, o.estimated_departure, o.scheduled_departure) - _departure))
+      < (45 + 15) * 60
+  ORDER BY o.scheduled_departure
+  LIMIT 1
+$$;
+
+-- Assigning gate_id is checked against gate status and overlaps. Gates given only
+-- by name (imports, schedule generation) are linked when the name is known but
+-- not rejected; later delays are not rejected either. Both show up as conflicts
+-- on the Gates page instead.
+CREATE OR REPLACE FUNCTION public.resolve_flight_gate()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _gate public.gates%ROWTYPE;
+  _conflict TEXT;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.gate_id IS NOT DISTINCT FROM OLD.gate_id THEN
+    IF NEW.gate IS DISTINCT FROM OLD.gate THEN
+      NEW.gate_id := (SELECT id FROM public.gates WHERE name = upper(trim(NEW.gate)));
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.gate_id IS NULL THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.gate_id := (SELECT id FROM public.gates WHERE name = upper(trim(NEW.gate)));
+    ELSE
+      NEW.gate := NULL;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _gate FROM public.gates WHERE id = NEW.gate_id;
+  NEW.gate := _gate.name;
+
+  IF _gate.status <> 'available' AND NEW.status NOT IN ('departed', 'landed', 'cancelled') THEN
+    RAISE EXCEPTION 'Gate % is %', _gate.name, _gate.status USING ERRCODE = 'check_violation';
+  END IF;
+
+  _conflict := public.gate_conflict(NEW.id, NEW.gate_id,
+    COALESCE(NEW.actual_departure, NEW.estimated_departure, NEW.scheduled_departure));
+  IF _conflict IS NOT NULL AND NEW.status <> 'cancelled' THEN
+    RAISE EXCEPTION 'Gate % is already in use by % at that time', _gate.name, _conflict USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER resolve_flights_gate
+  BEFORE INSERT OR UPDATE OF gate, gate_id ON public.flights
+  FOR EACH ROW EXECUTE FUNCTION public.resolve_flight_gate();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.gates;
@@ -0,0 +1,6 @@
+-- ============================================
+-- GATES: preferred airlines for allocation
+-- ============================================
+-- Airline names or designators; the allocator tries these gates first for
+-- matching flights but may still use them for other airlines.
+ALTER TABLE public.gates ADD COLUMN preferred_airlines TEXT[] NOT NULL DEFAULT '{}';
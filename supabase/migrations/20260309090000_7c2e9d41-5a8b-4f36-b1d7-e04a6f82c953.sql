@@ -0,0 +1,119 @@
+-- ============================================
+-- ENUMS
+-- ============================================
+-- ICAO wake turbulence category: Light, Medium, Heavy, Super (A380)
+CREATE TYPE public.wake_category AS ENUM ('L', 'M', 'H', 'J');
+
+-- ============================================
+-- AIRCRAFT TABLE (registry of tails)
+-- ============================================
+CREATE TABLE public.aircraft (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  registration TEXT NOT NULL UNIQUE,
+  aircraft_type TEXT NOT NULL,
+  airline TEXT,
+  seats_first INTEGER NOT NULL DEFAULT 0 CHECK (seats_first >= 0),
+  seats_business INTEGER NOT NULL DEFAULT 0 CHECK (seats_business >= 0),
+  seats_economy INTEGER NOT NULL DEFAULT 0 CHECK (seats_economy >= 0),
+  capacity INTEGER GENERATED ALWAYS AS (seats_first + seats_business + seats_economy) STORED,
+  mtow_kg INTEGER CHECK (mtow_kg > 0),
+  wake_category wake_category NOT NULL DEFAULT 'M',
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.aircraft ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All authenticated can view aircraft" ON public.aircraft
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and ATC can manage aircraft" ON public.aircraft
+  FOR ALL TO authenticated USING (
+    public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'atc')
+  );
+
+CREATE TRIGGER update_aircraft_updated_at BEFORE UPDATE ON public.aircraft
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- ============================================
+-- FLIGHTS: tail assignment and rotations
+-- ============================================
+-- An outbound flight points at the inbound flight that brings its aircraft in.
+ALTER TABLE public.flights
+  ADD COLUMN aircraft_id UUID REFERENCES public.aircraft(id) ON DELETE SET NULL,
+  ADD COLUMN inbound_flight_id UUID REFERENCES public.flights(id) ON DELETE SET NULL,
+  ADD CONSTRAINT flights_inbound_not_self CHECK (inbound_flight_id <> id);
+
+CREATE UNIQUE INDEX flights_inbound_flight_id_key
+  ON public.flights (inbound_flight_id) WHERE inbound_flight_id IS NOT NULL;
+
+CREATE INDEX idx_flights_aircraft_id ON public.flights (aircraft_id) WHERE aircraft_id IS NOT NULL;
+
+-- ============================================
+-- FUNCTION: Keep flights in line with their aircraft
+-- ============================================
+-- Type and capacity follow the assigned tail, and a rotation may only link two
+-- flights flown by the same aircraft.
+CREATE OR REPLACE FUNCTION public.sync_flight_aircraft()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _aircraft public.aircraft%ROWTYPE;
+  _inbound_aircraft UUID;
+BEGIN
+  IF NEW.aircraft_id IS NOT NULL THEN
+    SELECT * INTO _aircraft FROM public.aircraft WHERE id = NEW.aircraft_id;
+    NEW.aircraft_type := _aircraft.aircraft_type;
+    NEW.capacity := _aircraft.capacity;
+  END IF;
+
+  IF NEW.inbound_flight_id IS NOT NULL THEN
+    SELECT aircraft_id INTO _inbound_aircraft FROM public.flights WHERE id = NEW.inbound_flight_id;
+    IF NEW.aircraft_id IS NULL OR _inbound_aircraft IS DISTINCT FROM NEW.aircraft_id THEN
+      -- Swapping or removing the tail breaks an existing rotation rather than failing
+      IF TG_OP = 'UPDATE' AND NEW.inbound_flight_id IS NOT DISTINCT FROM OLD.inbound_flight_id THEN
+        NEW.inbound_flight_id := NULL;
+      ELSE
+        RAISE EXCEPTION 'A rotation must link two flights on the same aircraft' USING ERRCODE = 'check_violation';
+      END IF;
+    END IF;
+  END IF;
+
+  -- Likewise for the outbound flight this one feeds
+  IF TG_OP = 'UPDATE' AND NEW.aircraft_id IS DISTINCT FROM OLD.aircraft_id THEN
+    UPDATE public.flights SET inbound_flight_id = NULL WHERE inbound_flight_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_flights_aircraft
+  BEFORE INSERT OR UPDATE OF aircraft_id, inbound_flight_id ON public.flights
+  FOR EACH ROW EXECUTE FUNCTION public.sync_flight_aircraft();
+
+-- Editing a tail updates the flights that have not flown yet
+CREATE OR REPLACE FUNCTION public.propagate_aircraft_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.flights
+  SET aircraft_type = NEW.aircraft_type, capacity = NEW.capacity
+  WHERE aircraft_id = NEW.id
+    AND status IN ('scheduled', 'delayed', 'boarding')
+    AND (aircraft_type, capacity) IS DISTINCT FROM (NEW.aircraft_type, NEW.capacity);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER propagate_aircraft_to_flights
+  AFTER UPDATE OF aircraft_type, seats_first, seats_business, seats_economy ON public.aircraft
+  FOR EACH ROW EXECUTE FUNCTION public.propagate_aircraft_changes();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.aircraft;
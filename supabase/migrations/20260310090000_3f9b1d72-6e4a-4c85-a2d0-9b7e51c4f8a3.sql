@@ -0,0 +1,122 @@
+-- ============================================
+-- AIRPORTS REFERENCE TABLE
+-- ============================================
+CREATE TABLE public.airports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  iata TEXT NOT NULL UNIQUE CHECK (iata ~ '^[A-Z]{3}$'),
+  icao TEXT UNIQUE CHECK (icao ~ '^[A-Z0-9]{4}$'),
+  name TEXT NOT NULL,
+  city TEXT NOT NULL,
+  country TEXT NOT NULL CHECK (country ~ '^[A-Z]{2}$'),
+  timezone TEXT NOT NULL,
+  latitude DOUBLE PRECISION NOT NULL CHECK (latitude BETWEEN -90 AND 90),
+  longitude DOUBLE PRECISION NOT NULL CHECK (longitude BETWEEN -180 AND 180),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.airports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All authenticated can view airports" ON public.airports
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin can manage airports" ON public.airports
+  FOR ALL TO authenticated USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_airports_updated_at BEFORE UPDATE ON public.airports
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- Time zone names must be known to the database so local times can be derived.
+CREATE OR REPLACE FUNCTION public.validate_airport_timezone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+    RAISE EXCEPTION 'Unknown time zone %', NEW.timezone USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_airports_timezone
+  BEFORE INSERT OR UPDATE OF timezone ON public.airports
+  FOR EACH ROW EXECUTE FUNCTION public.validate_airport_timezone();
+
+INSERT INTO public.airports (iata, icao, name, city, country, timezone, latitude, longitude) VALUES
+  ('ATL', 'KATL', 'Hartsfield-Jackson Atlanta International', 'Atlanta', 'US', 'America/New_York', 33.6367, -84.4281),
+  ('BOS', 'KBOS', 'Logan International', 'Boston', 'US', 'America/New_York', 42.3643, -71.0052),
+  ('DCA', 'KDCA', 'Ronald Reagan Washington National', 'Washington', 'US', 'America/New_York', 38.8521, -77.0377),
+  ('IAD', 'KIAD', 'Washington Dulles International', 'Washington', 'US', 'America/New_York', 38.9445, -77.4558),
+  ('JFK', 'KJFK', 'John F. Kennedy International', 'New York', 'US', 'America/New_York', 40.6398, -73.7789),
+  ('LGA', 'KLGA', 'LaGuardia', 'New York', 'US', 'America/New_York', 40.7772, -73.8726),
+  ('EWR', 'KEWR', 'Newark Liberty International', 'Newark', 'US', 'America/New_York', 40.6925, -74.1687),
+  ('MIA', 'KMIA', 'Miami International', 'Miami', 'US', 'America/New_York', 25.7932, -80.2906),
+  ('MCO', 'KMCO', 'Orlando International', 'Orlando', 'US', 'America/New_York', 28.4294, -81.3090),
+  ('CLT', 'KCLT', 'Charlotte Douglas International', 'Charlotte', 'US', 'America/New_York', 35.2140, -80.9431),
+  ('ORD', 'KORD', 'O''Hare International', 'Chicago', 'US', 'America/Chicago', 41.9786, -87.9048),
+  ('DFW', 'KDFW', 'Dallas/Fort Worth International', 'Dallas', 'US', 'America/Chicago', 32.8968, -97.0380),
+  ('IAH', 'KIAH', 'George Bush Intercontinental', 'Houston', 'US', 'America/Chicago', 29.9844, -95.3414),
+  ('MSP', 'KMSP', 'Minneapolis-Saint Paul International', 'Minneapolis', 'US', 'America/Chicago', 44.8820, -93.2218),
+  ('DEN', 'KDEN', 'Denver International', 'Denver', 'US', 'America/Denver', 39.8617, -104.6731),
+  ('PHX', 'KPHX', 'Phoenix Sky Harbor International', 'Phoenix', 'US', 'America/Phoenix', 33.4343, -112.0116),
+  ('LAS', 'KLAS', 'Harry Reid International', 'Las Vegas', 'US', 'America/Los_Angeles', 36.0801, -115.1522),
+  ('LAX', 'KLAX', 'Los Angeles International', 'Los Angeles', 'US', 'America/Los_Angeles', 33.9425, -118.4081),
+  ('SFO', 'KSFO', 'San Francisco International', 'San Francisco', 'US', 'America/Los_Angeles', 37.6190, -122.3749),
+  ('SEA', 'KSEA', 'Seattle-Tacoma International', 'Seattle', 'US', 'America/Los_Angeles', 47.4490, -122.3093),
+  ('HNL', 'PHNL', 'Daniel K. Inouye International', 'Honolulu', 'US', 'Pacific/Honolulu', 21.3187, -157.9225),
+  ('ANC', 'PANC', 'Ted Stevens Anchorage International', 'Anchorage', 'US', 'America/Anchorage', 61.1744, -149.9964),
+  ('YYZ', 'CYYZ', 'Toronto Pearson International', 'Toronto', 'CA', 'America/Toronto', 43.6772, -79.6306),
+  ('YVR', 'CYVR', 'Vancouver International', 'Vancouver', 'CA', 'America/Vancouver', 49.1939, -123.1844),
+  ('MEX', 'MMMX', 'Mexico City International', 'Mexico City', 'MX', 'America/Mexico_City', 19.4363, -99.0721),
+  ('GRU', 'SBGR', 'São Paulo/Guarulhos International', 'São Paulo', 'BR', 'America/Sao_Paulo', -23.4356, -46.4731),
+  ('EZE', 'SAEZ', 'Ministro Pistarini International', 'Buenos Aires', 'AR', 'America/Argentina/Buenos_Aires', -34.8222, -58.5358),
+  ('BOG', 'SKBO', 'El Dorado International', 'Bogotá', 'CO', 'America/Bogota', 4.7016, -74.1469),
+  ('LHR', 'EGLL', 'Heathrow', 'London', 'GB', 'Europe/London', 51.4706, -0.4619),
+  ('LGW', 'EGKK', 'Gatwick', 'London', 'GB', 'Europe/London', 51.1481, -0.1903),
+  ('DUB', 'EIDW', 'Dublin', 'Dublin', 'IE', 'Europe/Dublin', 53.4213, -6.2701),
+  ('CDG', 'LFPG', 'Charles de Gaulle', 'Paris', 'FR', 'Europe/Paris', 49.0097, 2.5479),
+  ('AMS', 'EHAM', 'Amsterdam Schiphol', 'Amsterdam', 'NL', 'Europe/Amsterdam', 52.3086, 4.7639),
+  ('FRA', 'EDDF', 'Frankfurt', 'Frankfurt', 'DE', 'Europe/Berlin', 50.0333, 8.5706),
+  ('MUC', 'EDDM', 'Munich', 'Munich', 'DE', 'Europe/Berlin', 48.3538, 11.7861),
+  ('ZRH', 'LSZH', 'Zurich', 'Zurich', 'CH', 'Europe/Zurich', 47.4647, 8.5492),
+  ('MAD', 'LEMD', 'Adolfo Suárez Madrid-Barajas', 'Madrid', 'ES', 'Europe/Madrid', 40.4719, -3.5626),
+  ('BCN', 'LEBL', 'Josep Tarradellas Barcelona-El Prat', 'Barcelona', 'ES', 'Europe/Madrid', 41.2971, 2.0785),
+  ('FCO', 'LIRF', 'Leonardo da Vinci-Fiumicino', 'Rome', 'IT', 'Europe/Rome', 41.8045, 12.2508),
+  ('CPH', 'EKCH', 'Copenhagen Kastrup', 'Copenhagen', 'DK', 'Europe/Copenhagen', 55.6179, 12.6560),
+  ('IST', 'LTFM', 'Istanbul', 'Istanbul', 'TR', 'Europe/Istanbul', 41.2753, 28.7519),
+  ('DXB', 'OMDB', 'Dubai International', 'Dubai', 'AE', 'Asia/Dubai', 25.2528, 55.3644),
+  ('DOH', 'OTHH', 'Hamad International', 'Doha', 'QA', 'Asia/Qatar', 25.2731, 51.6081),
+  ('JNB', 'FAOR', 'O. R. Tambo International', 'Johannesburg', 'ZA', 'Africa/Johannesburg', -26.1392, 28.2460),
+  ('CAI', 'HECA', 'Cairo International', 'Cairo', 'EG', 'Africa/Cairo', 30.1219, 31.4056),
+  ('DEL', 'VIDP', 'Indira Gandhi International', 'Delhi', 'IN', 'Asia/Kolkata', 28.5665, 77.1031),
+  ('BOM', 'VABB', 'Chhatrapati Shivaji Maharaj International', 'Mumbai', 'IN', 'Asia/Kolkata', 19.0887, 72.8679),
+  ('SIN', 'WSSS', 'Singapore Changi', 'Singapore', 'SG', 'Asia/Singapore', 1.3502, 103.9940),
+  ('HKG', 'VHHH', 'Hong Kong International', 'Hong Kong', 'HK', 'Asia/Hong_Kong', 22.3080, 113.9185),
+  ('PEK', 'ZBAA', 'Beijing Capital International', 'Beijing', 'CN', 'Asia/Shanghai', 40.0801, 116.5846),
+  ('PVG', 'ZSPD', 'Shanghai Pudong International', 'Shanghai', 'CN', 'Asia/Shanghai', 31.1434, 121.8052),
+  ('ICN', 'RKSI', 'Incheon International', 'Seoul', 'KR', 'Asia/Seoul', 37.4691, 126.4505),
+  ('NRT', 'RJAA', 'Narita International', 'Tokyo', 'JP', 'Asia/Tokyo', 35.7647, 140.3864),
+  ('HND', 'RJTT', 'Haneda', 'Tokyo', 'JP', 'Asia/Tokyo', 35.5523, 139.7798),
+  ('BKK', 'VTBS', 'Suvarnabhumi', 'Bangkok', 'TH', 'Asia/Bangkok', 13.6811, 100.7473),
+  ('SYD', 'YSSY', 'Sydney Kingsford Smith', 'Sydney', 'AU', 'Australia/Sydney', -33.9461, 151.1772),
+  ('MEL', 'YMML', 'Melbourne', 'Melbourne', 'AU', 'Australia/Melbourne', -37.6733, 144.8433),
+  ('AKL', 'NZAA', 'Auckland', 'Auckland', 'NZ', 'Pacific/Auckland', -37.0081, 174.7917);
+
+-- ============================================
+-- FLIGHTS AND SCHEDULES: airport codes must exist
+-- ============================================
+-- NOT VALID keeps rows entered before the reference table existed, but every
+-- new or edited code is checked.
+ALTER TABLE public.flights
+  ADD CONSTRAINT flights_origin_fkey FOREIGN KEY (origin) REFERENCES public.airports(iata) ON UPDATE CASCADE NOT VALID,
+  ADD CONSTRAINT flights_destination_fkey FOREIGN KEY (destination) REFERENCES public.airports(iata) ON UPDATE CASCADE NOT VALID,
+  ADD CONSTRAINT flights_origin_differs_from_destination CHECK (origin <> destination) NOT VALID;
+
+ALTER TABLE public.flight_schedules
+  ADD CONSTRAINT flight_schedules_origin_fkey FOREIGN KEY (origin) REFERENCES public.airports(iata) ON UPDATE CASCADE NOT VALID,
+  ADD CONSTRAINT flight_schedules_destination_fkey FOREIGN KEY (destination) REFERENCES public.airports(iata) ON UPDATE CASCADE NOT VALID,
+  ADD CONSTRAINT flight_schedules_origin_differs_from_destination CHECK (origin <> destination) NOT VALID;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.airports;
@@ -0,0 +1,26 @@
+-- ============================================
+-- HOME AIRPORT
+-- ============================================
+-- The airport this installation operates at; its zone is used for "airport
+-- time" display and for day boundaries on the operational pages.
+ALTER TABLE public.airports ADD COLUMN is_home BOOLEAN NOT NULL DEFAULT false;
+
+CREATE UNIQUE INDEX airports_single_home ON public.airports ((true)) WHERE is_home;
+
+CREATE OR REPLACE FUNCTION public.set_home_airport(_iata TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only administrators can change the home airport' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.airports WHERE iata = _iata) THEN
+    RAISE EXCEPTION 'Unknown airport %', _iata USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  UPDATE public.airports SET is_home = false WHERE is_home AND iata <> _iata;
+  UPDATE public.airports SET is_home = true WHERE iata = _iata AND NOT is_home;
+END;
+$$;
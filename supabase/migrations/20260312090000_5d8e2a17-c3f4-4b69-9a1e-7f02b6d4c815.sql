@@ -0,0 +1,6 @@
+-- ============================================
+-- FLIGHT STATUS: diverted
+-- ============================================
+-- A new enum value cannot be used in the transaction that adds it, so the
+-- transitions and diversion handling live in the following migration.
+ALTER TYPE public.flight_status ADD VALUE IF NOT EXISTS 'diverted' AFTER 'cancelled';
@@ -0,0 +1,85 @@
+-- ============================================
+-- DIVERSIONS
+-- ============================================
+ALTER TABLE public.flights
+  ADD COLUMN diversion_airport TEXT REFERENCES public.airports(iata) ON UPDATE CASCADE,
+  ADD COLUMN diversion_reason TEXT,
+  ADD COLUMN diverted_at TIMESTAMPTZ,
+  ADD CONSTRAINT flights_diversion_airport_check
+    CHECK (status <> 'diverted' OR diversion_airport IS NOT NULL),
+  ADD CONSTRAINT flights_diversion_not_destination
+    CHECK (diversion_airport IS NULL OR diversion_airport <> destination);
+
+ALTER TABLE public.passengers
+  ADD COLUMN needs_rebooking BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX idx_passengers_needs_rebooking ON public.passengers(flight_id) WHERE needs_rebooking;
+
+-- Airborne flights may divert; a diverted flight lands at (or is cancelled
+-- at) its diversion airport. departed → delayed is a return to stand.
+INSERT INTO public.flight_status_transitions (from_status, to_status) VALUES
+  ('departed', 'diverted'),
+  ('departed', 'delayed'),
+  ('emergency', 'diverted'),
+  ('diverted', 'landed'),
+  ('diverted', 'cancelled'),
+  ('diverted', 'emergency');
+
+-- ============================================
+-- TRIGGER: Stamp diversions, reset returns to stand
+-- ============================================
+CREATE OR REPLACE FUNCTION public.apply_diversion_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'diverted' AND OLD.status <> 'diverted' THEN
+    NEW.diverted_at := now();
+  ELSIF OLD.status = 'departed' AND NEW.status = 'delayed' THEN
+    -- Returned to stand: the flight will depart again later.
+    NEW.actual_departure := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_flights_diversion_status BEFORE UPDATE OF status ON public.flights
+  FOR EACH ROW EXECUTE FUNCTION public.apply_diversion_status();
+
+-- ============================================
+-- TRIGGER: Alert and flag passengers on diversion
+-- ============================================
+CREATE OR REPLACE FUNCTION public.handle_flight_diversion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _flagged INTEGER;
+BEGIN
+  UPDATE public.passengers
+  SET needs_rebooking = true
+  WHERE flight_id = NEW.id AND boarding_status <> 'no_show';
+  GET DIAGNOSTICS _flagged = ROW_COUNT;
+
+  INSERT INTO public.alerts (title, message, severity, flight_id, created_by)
+  VALUES (
+    'DIVERSION: ' || NEW.flight_number,
+    format('%s (%s → %s) diverted to %s%s. %s passenger(s) flagged for rebooking.',
+      NEW.flight_number, NEW.origin, NEW.destination, NEW.diversion_airport,
+      COALESCE(': ' || NULLIF(NEW.diversion_reason, ''), ''), _flagged),
+    'critical',
+    NEW.id,
+    auth.uid()
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_flight_diverted
+  AFTER UPDATE OF status ON public.flights
+  FOR EACH ROW
+  WHEN (NEW.status = 'diverted' AND OLD.status IS DISTINCT FROM 'diverted')
+  EXECUTE FUNCTION public.handle_flight_diversion();
@@ -0,0 +1,28 @@
+-- ============================================
+-- PUBLIC FLIGHT INFORMATION DISPLAY (FIDS)
+-- ============================================
+-- /fids/departures and /fids/arrivals run on kiosks without signing in.
+-- The anon role only sees the columns a passenger board shows, and only
+-- flights around the current time. Realtime applies the same policy and
+-- column privileges to the change events it sends.
+REVOKE SELECT ON public.flights FROM anon;
+GRANT SELECT (
+  id, flight_number, airline, origin, destination, status, gate, gate_id, diversion_airport,
+  scheduled_departure, scheduled_arrival, estimated_departure, estimated_arrival,
+  actual_departure, actual_arrival
+) ON public.flights TO anon;
+
+CREATE POLICY "Public can view flights on the board" ON public.flights
+  FOR SELECT TO anon
+  USING (scheduled_departure < now() + interval '1 day' AND scheduled_arrival > now() - interval '1 day');
+
+-- Gates map flights to terminals for per-terminal boards.
+REVOKE SELECT ON public.gates FROM anon;
+GRANT SELECT (id, name, terminal) ON public.gates TO anon;
+
+CREATE POLICY "Public can view gates" ON public.gates
+  FOR SELECT TO anon USING (true);
+
+-- Airport names and time zones are reference data.
+CREATE POLICY "Public can view airports" ON public.airports
+  FOR SELECT TO anon USING (true);
@@ -0,0 +1,192 @@
+-- ============================================
+-- RUNWAY CLOSURES TABLE
+-- ============================================
+-- Planned maintenance and closure windows. While a window is open the runway
+-- takes its status, overriding manual changes; when the last window ends the
+-- runway is available again.
+CREATE TABLE public.runway_closures (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  runway_id UUID NOT NULL REFERENCES public.runways(id) ON DELETE CASCADE,
+  kind runway_status NOT NULL DEFAULT 'maintenance',
+  starts_at TIMESTAMPTZ NOT NULL,
+  ends_at TIMESTAMPTZ NOT NULL,
+  reason TEXT NOT NULL,
+  reference TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT runway_closures_kind_check CHECK (kind IN ('maintenance', 'closed')),
+  CONSTRAINT runway_closures_window_check CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX idx_runway_closures_runway ON public.runway_closures (runway_id, starts_at);
+
+ALTER TABLE public.runway_closures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All authenticated can view runway closures" ON public.runway_closures
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and ATC can manage runway closures" ON public.runway_closures
+  FOR ALL TO authenticated USING (
+    public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'atc')
+  );
+
+-- Set while the status comes from a closure window rather than by hand, so the
+-- end of the window knows it may hand the runway back.
+ALTER TABLE public.runways ADD COLUMN status_from_closure BOOLEAN NOT NULL DEFAULT false;
+
+-- ============================================
+-- FUNCTION: Runway movement time
+-- ============================================
+-- Mirrors movementKind() in src/lib/runwaySlots.ts: a flight uses the home
+-- airport's runway to depart from it or to land at it.
+CREATE OR REPLACE FUNCTION public.runway_movement_time(_f public.flights)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _f.origin = h.iata THEN COALESCE(_f.actual_departure, _f.estimated_departure, _f.scheduled_departure)
+    WHEN _f.destination = h.iata OR (h.iata IS NULL AND _f.status IN ('departed', 'emergency', 'diverted'))
+      THEN COALESCE(_f.actual_arrival, _f.estimated_arrival, _f.scheduled_arrival)
+    ELSE COALESCE(_f.actual_departure, _f.estimated_departure, _f.scheduled_departure)
+  END
+  FROM (SELECT (SELECT iata FROM public.airports WHERE is_home) AS iata) h
+$$;
+
+-- ============================================
+-- FUNCTION: Apply closure windows to runway status
+-- ============================================
+-- Run every minute by pg_cron and whenever a window changes.
+CREATE OR REPLACE FUNCTION public.apply_runway_closures()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- A full closure outranks maintenance when windows overlap.
+  UPDATE public.runways r
+  SET status = c.kind, status_from_closure = true
+  FROM (
+    SELECT DISTINCT ON (runway_id) runway_id, kind
+    FROM public.runway_closures
+    WHERE starts_at <= now() AND ends_at > now()
+    ORDER BY runway_id, (kind = 'closed') DESC, starts_at
+  ) c
+  WHERE r.id = c.runway_id
+    AND (r.status <> c.kind OR NOT r.status_from_closure);
+
+  UPDATE public.runways r
+  SET status = 'available', status_from_closure = false
+  WHERE r.status_from_closure
+    AND NOT EXISTS (
+      SELECT 1 FROM public.runway_closures c
+      WHERE c.runway_id = r.id AND c.starts_at <= now() AND c.ends_at > now()
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_runway_closures()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.apply_runway_closures();
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_runway_closures
+  AFTER INSERT OR UPDATE OR DELETE ON public.runway_closures
+  FOR EACH STATEMENT EXECUTE FUNCTION public.sync_runway_closures();
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('apply-runway-closures', '* * * * *', 'SELECT public.apply_runway_closures()');
+
+-- ============================================
+-- FLIGHTS: no runway movements inside a window
+-- ============================================
+-- Checked when the runway is assigned or a flight is moved on its runway; later
+-- delays are not rejected and show up as conflicts on the Runways page instead.
+CREATE OR REPLACE FUNCTION public.check_runway_closure()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _at TIMESTAMPTZ;
+  _closure public.runway_closures%ROWTYPE;
+BEGIN
+  IF NEW.runway_id IS NULL OR NEW.status IN ('landed', 'cancelled', 'diverted') THEN
+    RETURN NEW;
+  END IF;
+  _at := public.runway_movement_time(NEW);
+  IF TG_OP = 'UPDATE' AND NEW.runway_id IS NOT DISTINCT FROM OLD.runway_id
+    AND _at IS NOT DISTINCT FROM public.runway_movement_time(OLD) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _closure FROM public.runway_closures
+  WHERE runway_id = NEW.runway_id
+    AND starts_at < _at + interval '2 minutes'
+    AND ends_at > _at
+  ORDER BY starts_at
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Runway % is % from % to %',
+      (SELECT name FROM public.runways WHERE id = NEW.runway_id), _closure.kind,
+      to_char(_closure.starts_at AT TIME ZONE 'UTC', 'DD Mon HH24:MI'),
+      to_char(_closure.ends_at AT TIME ZONE 'UTC', 'DD Mon HH24:MI "UTC"') || COALESCE(' (' || _closure.reference || ')', '')
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_flights_runway_closure
+  BEFORE INSERT OR UPDATE OF runway_id ON public.flights
+  FOR EACH ROW EXECUTE FUNCTION public.check_runway_closure();
+
+-- ============================================
+-- TRIGGER: Alert flights caught by a new window
+-- ============================================
+CREATE OR REPLACE FUNCTION public.handle_runway_closure_created()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.alerts (title, message, severity, flight_id, runway_id, created_by)
+  SELECT
+    'RUNWAY CLOSURE: ' || f.flight_number,
+    format('%s is assigned to %s at %s UTC, inside the %s window %s–%s UTC%s: %s. Reassign the runway or retime the flight.',
+      f.flight_number, r.name,
+      to_char(public.runway_movement_time(f) AT TIME ZONE 'UTC', 'DD Mon HH24:MI'),
+      NEW.kind,
+      to_char(NEW.starts_at AT TIME ZONE 'UTC', 'DD Mon HH24:MI'),
+      to_char(NEW.ends_at AT TIME ZONE 'UTC', 'DD Mon HH24:MI'),
+      COALESCE(' (' || NEW.reference || ')', ''), NEW.reason),
+    'warning',
+    f.id,
+    NEW.runway_id,
+    auth.uid()
+  FROM public.flights f
+  JOIN public.runways r ON r.id = f.runway_id
+  WHERE f.runway_id = NEW.runway_id
+    AND f.status NOT IN ('landed', 'cancelled', 'diverted')
+    AND NEW.starts_at < public.runway_movement_time(f) + interval '2 minutes'
+    AND NEW.ends_at > public.runway_movement_time(f);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_runway_closure_created
+  AFTER INSERT ON public.runway_closures
+  FOR EACH ROW EXECUTE FUNCTION public.handle_runway_closure_created();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.runway_closures;
@@ -0,0 +1,152 @@
+-- ============================================
+-- AIRCRAFT PERFORMANCE TABLE
+-- ============================================
+-- Take-off and landing distance required per aircraft type at maximum weight,
+-- sea level and ISA. Flight types match the longest entry their type starts
+-- with, ignoring manufacturer names, spaces and hyphens.
+CREATE TABLE public.aircraft_performance (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  aircraft_type TEXT NOT NULL UNIQUE,
+  takeoff_distance_m INTEGER NOT NULL CHECK (takeoff_distance_m > 0),
+  landing_distance_m INTEGER NOT NULL CHECK (landing_distance_m > 0),
+  unpaved_ok BOOLEAN NOT NULL DEFAULT false,
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.aircraft_performance ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All authenticated can view aircraft performance" ON public.aircraft_performance
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and ATC can manage aircraft performance" ON public.aircraft_performance
+  FOR ALL TO authenticated USING (
+    public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'atc')
+  );
+
+CREATE TRIGGER update_aircraft_performance_updated_at BEFORE UPDATE ON public.aircraft_performance
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+INSERT INTO public.aircraft_performance (aircraft_type, takeoff_distance_m, landing_distance_m, unpaved_ok) VALUES
+  ('A319', 1850, 1470, false),
+  ('A320', 2100, 1500, false),
+  ('A321', 2500, 1600, false),
+  ('A330-300', 2500, 1750, false),
+  ('A350-900', 2600, 1800, false),
+  ('A380-800', 2950, 2000, false),
+  ('737-700', 1800, 1450, false),
+  ('737-800', 2300, 1650, false),
+  ('737 MAX 8', 2500, 1600, false),
+  ('747-400', 3300, 2150, false),
+  ('757-200', 2100, 1550, false),
+  ('767-300ER', 2650, 1750, false),
+  ('777-300ER', 3050, 1850, false),
+  ('787-9', 2800, 1800, false),
+  ('E190', 1650, 1250, false),
+  ('CRJ900', 1800, 1600, false),
+  ('ATR 72', 1350, 1050, true),
+  ('Q400', 1400, 1300, false),
+  ('C172', 500, 400, true);
+
+-- ============================================
+-- FUNCTIONS: Performance lookup and movement kind
+-- ============================================
+-- Mirrors normalizeAircraftType() in src/lib/gates.ts.
+CREATE OR REPLACE FUNCTION public.normalize_aircraft_type(_type TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT regexp_replace(upper(_type), 'BOEING|AIRBUS|EMBRAER|BOMBARDIER|[[:space:]-]', '', 'g')
+$$;
+
+CREATE OR REPLACE FUNCTION public.aircraft_performance_for(_type TEXT)
+RETURNS public.aircraft_performance
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT p.* FROM public.aircraft_performance p
+  WHERE public.normalize_aircraft_type(_type) LIKE public.normalize_aircraft_type(p.aircraft_type) || '%'
+    AND public.normalize_aircraft_type(p.aircraft_type) <> ''
+  ORDER BY length(public.normalize_aircraft_type(p.aircraft_type)) DESC
+  LIMIT 1
+$$;
+
+-- Split out of runway_movement_time(), which now builds on it.
+CREATE OR REPLACE FUNCTION public.runway_movement_kind(_f public.flights)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _f.origin = h.iata THEN 'departure'
+    WHEN _f.destination = h.iata OR (h.iata IS NULL AND _f.status IN ('departed', 'emergency', 'diverted')) THEN 'arrival'
+    ELSE 'departure'
+  END
+  FROM (SELECT (SELECT iata FROM public.airports WHERE is_home) AS iata) h
+$$;
+
+CREATE OR REPLACE FUNCTION public.runway_movement_time(_f public.flights)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE public.runway_movement_kind(_f)
+    WHEN 'arrival' THEN COALESCE(_f.actual_arrival, _f.estimated_arrival, _f.scheduled_arrival)
+    ELSE COALESCE(_f.actual_departure, _f.estimated_departure, _f.scheduled_departure)
+  END
+$$;
+
+-- ============================================
+-- FLIGHTS: runway must suit the aircraft
+-- ============================================
+-- Checked when the runway is assigned. Types without a performance entry are not
+-- checked, and later type changes are not rejected. Named to run after
+-- sync_flights_aircraft, so a tail assigned in the same statement is used.
+CREATE OR REPLACE FUNCTION public.check_runway_performance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _perf public.aircraft_performance%ROWTYPE;
+  _runway public.runways%ROWTYPE;
+  _departure BOOLEAN;
+  _required INTEGER;
+BEGIN
+  IF NEW.runway_id IS NULL OR NEW.status IN ('landed', 'cancelled', 'diverted')
+    OR (TG_OP = 'UPDATE' AND NEW.runway_id IS NOT DISTINCT FROM OLD.runway_id) THEN
+    RETURN NEW;
+  END IF;
+
+  _perf := public.aircraft_performance_for(NEW.aircraft_type);
+  IF _perf.id IS NULL THEN
+    RETURN NEW;
+  END IF;
+  SELECT * INTO _runway FROM public.runways WHERE id = NEW.runway_id;
+
+  IF _runway.surface_type IN ('gravel', 'grass') AND NOT _perf.unpaved_ok THEN
+    RAISE EXCEPTION '% needs a paved runway; % is %', _perf.aircraft_type, _runway.name, _runway.surface_type
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  _departure := public.runway_movement_kind(NEW) = 'departure';
+  _required := CASE WHEN _departure THEN _perf.takeoff_distance_m ELSE _perf.landing_distance_m END;
+  IF _runway.length_meters < _required THEN
+    RAISE EXCEPTION '% is % m; % needs % m to %', _runway.name, _runway.length_meters, _perf.aircraft_type, _required,
+      CASE WHEN _departure THEN 'take off' ELSE 'land' END
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_flights_runway_performance
+  BEFORE INSERT OR UPDATE OF runway_id ON public.flights
+  FOR EACH ROW EXECUTE FUNCTION public.check_runway_performance();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.aircraft_performance;
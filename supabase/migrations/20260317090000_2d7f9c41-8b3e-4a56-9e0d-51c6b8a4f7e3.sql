@@ -0,0 +1,349 @@
+-- ============================================
+-- RUNWAY OCCUPANCY
+-- ============================================
+-- A runway is occupied while a flight that has yet to use it is assigned to it.
+CREATE OR REPLACE FUNCTION public.runway_has_traffic(_runway_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.flights
+    WHERE runway_id = _runway_id AND status NOT IN ('landed', 'cancelled', 'diverted')
+  )
+$$;
+
+-- Maintenance and closed runways keep their status; apply_runway_closures()
+-- hands them back once their window ends.
+CREATE OR REPLACE FUNCTION public.refresh_runway_occupancy(_runway_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _status public.runway_status;
+BEGIN
+  _status := CASE WHEN public.runway_has_traffic(_runway_id) THEN 'occupied' ELSE 'available' END;
+  UPDATE public.runways
+  SET status = _status
+  WHERE id = _runway_id AND status IN ('available', 'occupied') AND status <> _status;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_runway_occupancy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' AND OLD.runway_id IS NOT NULL THEN
+    PERFORM public.refresh_runway_occupancy(OLD.runway_id);
+  END IF;
+  IF TG_OP <> 'DELETE' AND NEW.runway_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.runway_id IS DISTINCT FROM OLD.runway_id) THEN
+    PERFORM public.refresh_runway_occupancy(NEW.runway_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_flights_runway_occupancy
+  AFTER INSERT OR DELETE OR UPDATE OF runway_id, status ON public.flights
+  FOR EACH ROW EXECUTE FUNCTION public.handle_runway_occupancy();
+
+-- Ending windows now return the runway to occupied when traffic is assigned.
+CREATE OR REPLACE FUNCTION public.apply_runway_closures()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- A full closure outranks maintenance when windows overlap.
+  UPDATE public.runways r
+  SET status = c.kind, status_from_closure = true
+  FROM (
+    SELECT DISTINCT ON (runway_id) runway_id, kind
+    FROM public.runway_closures
+    WHERE starts_at <= now() AND ends_at > now()
+    ORDER BY runway_id, (kind = 'closed') DESC, starts_at
+  ) c
+  WHERE r.id = c.runway_id
+    AND (r.status <> c.kind OR NOT r.status_from_closure);
+
+  UPDATE public.runways r
+  SET status = CASE WHEN public.runway_has_traffic(r.id) THEN 'occupied'::public.runway_status ELSE 'available' END,
+    status_from_closure = false
+  WHERE r.status_from_closure
+    AND NOT EXISTS (
+      SELECT 1 FROM public.runway_closures c
+      WHERE c.runway_id = r.id AND c.starts_at <= now() AND c.ends_at > now()
+    );
+END;
+$$;
+
+UPDATE public.runways r
+SET status = CASE WHEN public.runway_has_traffic(r.id) THEN 'occupied'::public.runway_status ELSE 'available' END
+WHERE r.status IN ('available', 'occupied');
+
+-- ============================================
+-- FLIGHTS: clearances only through the functions below
+-- ============================================
+-- The clearance functions set app.runway_clearance for their transaction; any
+-- other update may not move a flight's runway or clear it off the ground.
+CREATE OR REPLACE FUNCTION public.guard_runway_clearance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_setting('app.runway_clearance', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+  IF NEW.runway_id IS DISTINCT FROM OLD.runway_id THEN
+    RAISE EXCEPTION 'Runways are assigned with assign_runway()' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  IF NEW.status IS DISTINCT FROM OLD.status AND NEW.status IN ('departed', 'landed', 'cancelled', 'diverted') THEN
+    RAISE EXCEPTION 'A flight is % only through an ATC clearance', NEW.status USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_flights_runway_clearance
+  BEFORE UPDATE OF runway_id, status ON public.flights
+  FOR EACH ROW EXECUTE FUNCTION public.guard_runway_clearance();
+
+-- ============================================
+-- FUNCTIONS: ATC clearances
+-- ============================================
+-- Each runs in one transaction: the flight, the runway it leaves (through
+-- sync_flights_runway_occupancy) and its alerts change together or not at all.
+CREATE OR REPLACE FUNCTION public.begin_runway_clearance(_flight_id UUID)
+RETURNS public.flights
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _f public.flights%ROWTYPE;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'atc')) THEN
+    RAISE EXCEPTION 'Only ATC and administrators can issue clearances' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  SELECT * INTO _f FROM public.flights WHERE id = _flight_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Flight % not found', _flight_id USING ERRCODE = 'no_data_found';
+  END IF;
+  PERFORM set_config('app.runway_clearance', 'on', true);
+  RETURN _f;
+END;
+$$;
+
+-- Alerts raised about a flight's slot on a runway lapse when it leaves that runway.
+CREATE OR REPLACE FUNCTION public.release_runway_alerts(_flight_id UUID, _runway_id UUID)
+RETURNS void
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.alerts SET is_active = false
+  WHERE flight_id = _flight_id AND runway_id = _runway_id AND is_active
+$$;
+
+CREATE OR REPLACE FUNCTION public.approve_takeoff(_flight_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _f public.flights%ROWTYPE;
+BEGIN
+  _f := public.begin_runway_clearance(_flight_id);
+  UPDATE public.flights
+  SET status = 'departed', actual_departure = now(), runway_id = NULL
+  WHERE id = _flight_id;
+  PERFORM public.release_runway_alerts(_flight_id, _f.runway_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.approve_landing(_flight_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _f public.flights%ROWTYPE;
+BEGIN
+  _f := public.begin_runway_clearance(_flight_id);
+  UPDATE public.flights
+  SET status = 'landed', actual_arrival = now(), runway_id = NULL
+  WHERE id = _flight_id;
+  PERFORM public.release_runway_alerts(_flight_id, _f.runway_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_flight(_flight_id UUID, _note TEXT DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _f public.flights%ROWTYPE;
+BEGIN
+  _f := public.begin_runway_clearance(_flight_id);
+  UPDATE public.flights SET status = 'cancelled', runway_id = NULL WHERE id = _flight_id;
+  PERFORM public.release_runway_alerts(_flight_id, _f.runway_id);
+
+  INSERT INTO public.alerts (title, message, severity, flight_id, created_by)
+  VALUES (
+    'Flight Cancelled: ' || _f.flight_number,
+    COALESCE(NULLIF(trim(_note), ''), _f.flight_number || ' status changed to cancelled'),
+    'critical',
+    _flight_id,
+    auth.uid()
+  );
+END;
+$$;
+
+-- on_flight_diverted raises the diversion alert and flags passengers.
+CREATE OR REPLACE FUNCTION public.divert_flight(_flight_id UUID, _airport TEXT, _reason TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _f public.flights%ROWTYPE;
+BEGIN
+  _f := public.begin_runway_clearance(_flight_id);
+  UPDATE public.flights
+  SET status = 'diverted', diversion_airport = _airport, diversion_reason = NULLIF(trim(_reason), ''), runway_id = NULL
+  WHERE id = _flight_id;
+  PERFORM public.release_runway_alerts(_flight_id, _f.runway_id);
+END;
+$$;
+
+-- Moves the flight to a runway, or off its runway when _runway_id is null. The
+-- estimates, when given, retime the slot in the same statement so the closure
+-- and performance checks see the new time.
+CREATE OR REPLACE FUNCTION public.assign_runway(
+  _flight_id UUID,
+  _runway_id UUID,
+  _estimated_departure TIMESTAMPTZ DEFAULT NULL,
+  _estimated_arrival TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _f public.flights%ROWTYPE;
+  _runway public.runways%ROWTYPE;
+BEGIN
+  _f := public.begin_runway_clearance(_flight_id);
+  IF _f.status IN ('landed', 'cancelled', 'diverted') THEN
+    RAISE EXCEPTION 'A % flight cannot be given a runway', _f.status USING ERRCODE = 'check_violation';
+  END IF;
+  IF _runway_id IS NOT NULL THEN
+    SELECT * INTO _runway FROM public.runways WHERE id = _runway_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Runway % not found', _runway_id USING ERRCODE = 'foreign_key_violation';
+    END IF;
+    -- Windows are checked against the slot time by check_runway_closure().
+    IF _runway.status IN ('maintenance', 'closed') AND NOT _runway.status_from_closure
+      AND _runway_id IS DISTINCT FROM _f.runway_id THEN
+      RAISE EXCEPTION 'Runway % is %', _runway.name, _runway.status USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  UPDATE public.flights
+  SET runway_id = _runway_id,
+    estimated_departure = COALESCE(_estimated_departure, estimated_departure),
+    estimated_arrival = COALESCE(_estimated_arrival, estimated_arrival)
+  WHERE id = _flight_id;
+
+  IF _f.runway_id IS DISTINCT FROM _runway_id THEN
+    PERFORM public.release_runway_alerts(_flight_id, _f.runway_id);
+  END IF;
+END;
+$$;
+
+-- ============================================
+-- SCHEDULES: sync plans runways and cancels stale instances
+-- ============================================
+-- Unchanged apart from taking the clearance flag for its transaction.
+CREATE OR REPLACE FUNCTION public.sync_schedule_flights(_schedule_id UUID, _window_days INTEGER DEFAULT 14)
+RETURNS TABLE (created INTEGER, updated INTEGER, removed INTEGER)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _s public.flight_schedules%ROWTYPE;
+  _from DATE := (now() AT TIME ZONE 'UTC')::date;
+  _to DATE := (now() AT TIME ZONE 'UTC')::date + _window_days;
+  _cancelled INTEGER;
+BEGIN
+  SELECT * INTO _s FROM public.flight_schedules WHERE id = _schedule_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Schedule % not found', _schedule_id USING ERRCODE = 'no_data_found';
+  END IF;
+  PERFORM set_config('app.runway_clearance', 'on', true);
+
+  -- Instances that no longer fit: cancel them if passengers are booked, otherwise delete them
+  UPDATE public.flights f SET status = 'cancelled'
+  WHERE public.is_stale_schedule_instance(f, _s, _from)
+    AND EXISTS (SELECT 1 FROM public.passengers p WHERE p.flight_id = f.id);
+  GET DIAGNOSTICS _cancelled = ROW_COUNT;
+
+  DELETE FROM public.flights f
+  WHERE public.is_stale_schedule_instance(f, _s, _from);
+  GET DIAGNOSTICS removed = ROW_COUNT;
+  removed := removed + _cancelled;
+
+  UPDATE public.flights f SET
+    flight_number = _s.flight_number,
+    airline = _s.airline,
+    origin = _s.origin,
+    destination = _s.destination,
+    scheduled_departure = (f.schedule_date + _s.departure_time) AT TIME ZONE 'UTC',
+    scheduled_arrival = ((f.schedule_date + _s.arrival_day_offset) + _s.arrival_time) AT TIME ZONE 'UTC',
+    aircraft_type = _s.aircraft_type,
+    capacity = _s.capacity,
+    runway_id = _s.runway_id,
+    gate = _s.gate
+  WHERE f.schedule_id = _s.id
+    AND f.schedule_date >= _from
+    AND f.status = 'scheduled'
+    AND NOT f.is_schedule_override
+    AND (f.flight_number, f.airline, f.origin, f.destination, f.scheduled_departure, f.scheduled_arrival,
+         f.aircraft_type, f.capacity, f.runway_id, f.gate)
+      IS DISTINCT FROM
+        (_s.flight_number, _s.airline, _s.origin, _s.destination,
+         (f.schedule_date + _s.departure_time) AT TIME ZONE 'UTC',
+         ((f.schedule_date + _s.arrival_day_offset) + _s.arrival_time) AT TIME ZONE 'UTC',
+         _s.aircraft_type, _s.capacity, _s.runway_id, _s.gate);
+  GET DIAGNOSTICS updated = ROW_COUNT;
+
+  created := 0;
+  IF _s.is_active THEN
+    INSERT INTO public.flights (
+      flight_number, airline, origin, destination, scheduled_departure, scheduled_arrival,
+      aircraft_type, capacity, runway_id, gate, notes, created_by, schedule_id, schedule_date
+    )
+    SELECT
+      _s.flight_number, _s.airline, _s.origin, _s.destination,
+      (d::date + _s.departure_time) AT TIME ZONE 'UTC',
+      ((d::date + _s.arrival_day_offset) + _s.arrival_time) AT TIME ZONE 'UTC',
+      _s.aircraft_type, _s.capacity, _s.runway_id, _s.gate, _s.notes, auth.uid(), _s.id, d::date
+    FROM generate_series(GREATEST(_from, _s.valid_from), LEAST(_to, _s.valid_to), interval '1 day') AS d
+    WHERE extract(isodow FROM d)::SMALLINT = ANY (_s.days_of_week)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.flights f WHERE f.schedule_id = _s.id AND f.schedule_date = d::date
+      )
+    ON CONFLICT DO NOTHING;
+    GET DIAGNOSTICS created = ROW_COUNT;
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
@@ -0,0 +1,41 @@
+-- ============================================
+-- WEATHER OBSERVATIONS TABLE
+-- ============================================
+-- METARs and TAFs as received. The raw text is authoritative and decoded in
+-- the app; the decoded columns hold the headline values for queries and are
+-- taken from the base forecast for a TAF. observed_at is the issue time of a TAF.
+CREATE TABLE public.weather_observations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind TEXT NOT NULL CHECK (kind IN ('metar', 'taf')),
+  station TEXT NOT NULL,
+  observed_at TIMESTAMPTZ NOT NULL,
+  raw_text TEXT NOT NULL,
+  wind_direction INTEGER CHECK (wind_direction BETWEEN 0 AND 360),
+  wind_speed_kt INTEGER CHECK (wind_speed_kt >= 0),
+  wind_gust_kt INTEGER CHECK (wind_gust_kt >= 0),
+  visibility_m INTEGER CHECK (visibility_m >= 0),
+  ceiling_ft INTEGER CHECK (ceiling_ft >= 0),
+  temperature_c INTEGER,
+  dewpoint_c INTEGER,
+  qnh_hpa INTEGER CHECK (qnh_hpa > 0),
+  flight_category TEXT CHECK (flight_category IN ('VFR', 'MVFR', 'IFR', 'LIFR')),
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'file')),
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- A corrected report replaces the one it corrects.
+  UNIQUE (kind, station, observed_at)
+);
+
+ALTER TABLE public.weather_observations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All authenticated can view weather observations" ON public.weather_observations
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and ATC can manage weather observations" ON public.weather_observations
+  FOR ALL TO authenticated USING (
+    public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'atc')
+  );
+
+CREATE INDEX idx_weather_observations_latest ON public.weather_observations(kind, observed_at DESC);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.weather_observations;
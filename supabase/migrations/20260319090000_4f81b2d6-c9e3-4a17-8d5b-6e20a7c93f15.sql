@@ -0,0 +1,16 @@
+-- ============================================
+-- RUNWAYS: headings and wind limits
+-- ============================================
+-- A runway is named after its thresholds, one ("Runway 01L") or both ("09L/27R").
+-- heading_degrees is the magnetic heading from the first threshold in the name;
+-- the other end is the reciprocal. The limits are for the steady wind or gust,
+-- whichever is higher.
+ALTER TABLE public.runways
+  ADD COLUMN heading_degrees INTEGER CHECK (heading_degrees BETWEEN 1 AND 360),
+  ADD COLUMN crosswind_limit_kt INTEGER NOT NULL DEFAULT 25 CHECK (crosswind_limit_kt >= 0),
+  ADD COLUMN tailwind_limit_kt INTEGER NOT NULL DEFAULT 5 CHECK (tailwind_limit_kt >= 0);
+
+-- Until surveyed, take the heading from the designator: 01 → 010°, 36 → 360°.
+UPDATE public.runways
+SET heading_degrees = substring(name FROM '(\d{2})[LCR]?')::INTEGER * 10
+WHERE substring(name FROM '(\d{2})[LCR]?')::INTEGER BETWEEN 1 AND 36;
@@ -0,0 +1,74 @@
+-- ============================================
+-- ATIS BROADCASTS TABLE
+-- ============================================
+-- Every ATIS information issued, newest last. The text is generated in the app
+-- from the active runways, the latest METAR and the runway closure windows;
+-- content is everything after the letter, so a broadcast is only reissued
+-- when what it says changes.
+CREATE TABLE public.atis_broadcasts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  letter CHAR(1) NOT NULL CHECK (letter BETWEEN 'A' AND 'Z'),
+  station TEXT NOT NULL,
+  content TEXT NOT NULL,
+  runways TEXT[] NOT NULL DEFAULT '{}',
+  observation_id UUID REFERENCES public.weather_observations(id) ON DELETE SET NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('weather', 'runway', 'manual')),
+  issued_by UUID REFERENCES auth.users(id),
+  issued_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.atis_broadcasts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All authenticated can view ATIS broadcasts" ON public.atis_broadcasts
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and ATC can manage ATIS broadcasts" ON public.atis_broadcasts
+  FOR ALL TO authenticated USING (
+    public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'atc')
+  );
+
+CREATE INDEX idx_atis_broadcasts_issued_at ON public.atis_broadcasts(issued_at DESC);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.atis_broadcasts;
+
+-- ============================================
+-- ISSUE ATIS
+-- ============================================
+-- Several controller screens generate the same text when runways or weather
+-- change; the lock serialises them and identical content is not reissued, so
+-- the letter advances once per change. _force issues a new letter regardless.
+CREATE OR REPLACE FUNCTION public.issue_atis(
+  _station TEXT,
+  _content TEXT,
+  _runways TEXT[],
+  _observation_id UUID,
+  _reason TEXT,
+  _force BOOLEAN DEFAULT false
+)
+RETURNS public.atis_broadcasts
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _current public.atis_broadcasts%ROWTYPE;
+  _issued public.atis_broadcasts%ROWTYPE;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'atc')) THEN
+    RAISE EXCEPTION 'Only ATC and administrators can issue ATIS' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  PERFORM pg_advisory_xact_lock(hashtext('atis_broadcasts'));
+
+  SELECT * INTO _current FROM public.atis_broadcasts ORDER BY issued_at DESC, letter DESC LIMIT 1;
+  IF FOUND AND NOT _force AND _current.station = _station AND _current.content = _content THEN
+    RETURN _current;
+  END IF;
+
+  INSERT INTO public.atis_broadcasts (letter, station, content, runways, observation_id, reason, issued_by)
+  VALUES (
+    CASE WHEN _current.letter IS NULL OR _current.letter = 'Z' THEN 'A' ELSE chr(ascii(_current.letter) + 1) END,
+    _station, _content, COALESCE(_runways, '{}'), _observation_id, _reason, auth.uid()
+  )
+  RETURNING * INTO _issued;
+  RETURN _issued;
+END;
+$$;
@@ -0,0 +1,7 @@
+-- ============================================
+-- FLIGHT STATUS: lined_up, cleared_for_takeoff
+-- ============================================
+-- A new enum value cannot be used in the transaction that adds it, so the
+-- transitions and departure sequencing live in the following migration.
+ALTER TYPE public.flight_status ADD VALUE IF NOT EXISTS 'lined_up' BEFORE 'departed';
+ALTER TYPE public.flight_status ADD VALUE IF NOT EXISTS 'cleared_for_takeoff' BEFORE 'departed';
@@ -0,0 +1,153 @@
+-- ============================================
+-- DEPARTURE SEQUENCING
+-- ============================================
+-- departure_sequence is the controller's order for the flight's runway, lowest
+-- first. Unsequenced flights are slotted in by their departure time; the
+-- target start-up and take-off times are worked out in the app
+-- (src/lib/departureSequence.ts) from this order and wake separation.
+ALTER TABLE public.flights
+  ADD COLUMN departure_sequence INTEGER CHECK (departure_sequence > 0);
+
+CREATE INDEX idx_flights_departure_sequence ON public.flights(runway_id, departure_sequence)
+  WHERE departure_sequence IS NOT NULL;
+
+-- A flight lines up on its runway, is cleared for take-off, then departs. A
+-- lined-up flight may be sent back to the stand (delayed), and a take-off
+-- clearance may be cancelled, leaving the flight lined up.
+INSERT INTO public.flight_status_transitions (from_status, to_status) VALUES
+  ('scheduled', 'lined_up'),
+  ('boarding', 'lined_up'),
+  ('delayed', 'lined_up'),
+  ('lined_up', 'cleared_for_takeoff'),
+  ('lined_up', 'delayed'),
+  ('lined_up', 'cancelled'),
+  ('lined_up', 'emergency'),
+  ('cleared_for_takeoff', 'departed'),
+  ('cleared_for_takeoff', 'lined_up'),
+  ('cleared_for_takeoff', 'delayed'),
+  ('cleared_for_takeoff', 'emergency');
+
+-- ============================================
+-- TRIGGER: Re-sequence delayed flights
+-- ============================================
+-- A flight that is delayed, retimed later or moved to another runway loses its
+-- place and is slotted in again by its new time.
+CREATE OR REPLACE FUNCTION public.reset_departure_sequence()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.departure_sequence IS NOT NULL AND (
+    NEW.runway_id IS DISTINCT FROM OLD.runway_id
+    OR (NEW.status = 'delayed' AND OLD.status <> 'delayed')
+    OR COALESCE(NEW.estimated_departure, NEW.scheduled_departure) > COALESCE(OLD.estimated_departure, OLD.scheduled_departure)
+  ) THEN
+    NEW.departure_sequence := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_flights_departure_sequence
+  BEFORE UPDATE OF runway_id, status, estimated_departure, scheduled_departure ON public.flights
+  FOR EACH ROW EXECUTE FUNCTION public.reset_departure_sequence();
+
+-- ============================================
+-- FLIGHTS: line-up and take-off clearance only through ATC
+-- ============================================
+CREATE OR REPLACE FUNCTION public.guard_runway_clearance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_setting('app.runway_clearance', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+  IF NEW.runway_id IS DISTINCT FROM OLD.runway_id THEN
+    RAISE EXCEPTION 'Runways are assigned with assign_runway()' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND NEW.status IN ('lined_up', 'cleared_for_takeoff', 'departed', 'landed', 'cancelled', 'diverted') THEN
+    RAISE EXCEPTION 'A flight is % only through an ATC clearance', NEW.status USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================
+-- FUNCTIONS: Departure clearances
+-- ============================================
+-- The flight's runway must be open and not held by another departure.
+CREATE OR REPLACE FUNCTION public.check_departure_runway(_f public.flights)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _runway public.runways%ROWTYPE;
+  _holding TEXT;
+BEGIN
+  IF _f.runway_id IS NULL THEN
+    RAISE EXCEPTION '% has no runway assigned', _f.flight_number USING ERRCODE = 'check_violation';
+  END IF;
+  SELECT * INTO _runway FROM public.runways WHERE id = _f.runway_id FOR UPDATE;
+  IF _runway.status IN ('maintenance', 'closed') THEN
+    RAISE EXCEPTION 'Runway % is %', _runway.name, _runway.status USING ERRCODE = 'check_violation';
+  END IF;
+  SELECT flight_number INTO _holding FROM public.flights
+  WHERE runway_id = _f.runway_id AND id <> _f.id AND status IN ('lined_up', 'cleared_for_takeoff')
+  LIMIT 1;
+  IF _holding IS NOT NULL THEN
+    RAISE EXCEPTION '% is already on runway %', _holding, _runway.name USING ERRCODE = 'check_violation';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.line_up(_flight_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _f public.flights%ROWTYPE;
+BEGIN
+  _f := public.begin_runway_clearance(_flight_id);
+  PERFORM public.check_departure_runway(_f);
+  UPDATE public.flights SET status = 'lined_up' WHERE id = _flight_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.clear_for_takeoff(_flight_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _f public.flights%ROWTYPE;
+BEGIN
+  _f := public.begin_runway_clearance(_flight_id);
+  PERFORM public.check_departure_runway(_f);
+  UPDATE public.flights SET status = 'cleared_for_takeoff' WHERE id = _flight_id;
+END;
+$$;
+
+-- Stores the controller's order for a runway's departure queue; flights not on
+-- the runway are ignored.
+CREATE OR REPLACE FUNCTION public.sequence_departures(_runway_id UUID, _flight_ids UUID[])
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'atc')) THEN
+    RAISE EXCEPTION 'Only ATC and administrators can sequence departures' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  UPDATE public.flights f
+  SET departure_sequence = o.seq::INTEGER
+  FROM unnest(_flight_ids) WITH ORDINALITY AS o(flight_id, seq)
+  WHERE f.id = o.flight_id AND f.runway_id = _runway_id
+    AND f.departure_sequence IS DISTINCT FROM o.seq::INTEGER;
+END;
+$$;
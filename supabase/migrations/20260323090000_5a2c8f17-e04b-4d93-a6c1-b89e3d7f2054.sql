@@ -0,0 +1,70 @@
+-- ============================================
+-- HOLDING STACKS TABLE
+-- ============================================
+-- Holding patterns over a fix, flown at 1000 ft intervals from the lowest level
+-- up to the highest.
+CREATE TABLE public.holding_stacks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  fix TEXT,
+  lowest_level_ft INTEGER NOT NULL DEFAULT 7000 CHECK (lowest_level_ft > 0),
+  highest_level_ft INTEGER NOT NULL DEFAULT 15000,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (highest_level_ft >= lowest_level_ft)
+);
+
+ALTER TABLE public.holding_stacks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All authenticated can view holding stacks" ON public.holding_stacks
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admin and ATC can manage holding stacks" ON public.holding_stacks
+  FOR ALL TO authenticated USING (
+    public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'atc')
+  );
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.holding_stacks;
+
+-- ============================================
+-- FLIGHTS: holding
+-- ============================================
+-- An arrival in a stack has a level, the time it entered and the expected
+-- approach time (EAT) at which it leaves for the runway. fuel_endurance_minutes
+-- is the endurance the crew reported on entering the hold.
+ALTER TABLE public.flights
+  ADD COLUMN holding_stack_id UUID REFERENCES public.holding_stacks(id) ON DELETE RESTRICT,
+  ADD COLUMN holding_level_ft INTEGER,
+  ADD COLUMN holding_entered_at TIMESTAMPTZ,
+  ADD COLUMN expected_approach_at TIMESTAMPTZ,
+  ADD COLUMN fuel_endurance_minutes INTEGER CHECK (fuel_endurance_minutes >= 0),
+  ADD CONSTRAINT flights_holding_check CHECK (
+    (holding_stack_id IS NULL) = (holding_entered_at IS NULL)
+    AND (holding_stack_id IS NULL) = (holding_level_ft IS NULL)
+  );
+
+-- One aircraft per level in a stack.
+CREATE UNIQUE INDEX idx_flights_holding_level ON public.flights(holding_stack_id, holding_level_ft)
+  WHERE holding_stack_id IS NOT NULL;
+
+-- ============================================
+-- TRIGGER: Leave the stack on landing
+-- ============================================
+CREATE OR REPLACE FUNCTION public.clear_holding()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.holding_stack_id IS NOT NULL AND NEW.status IN ('landed', 'cancelled', 'diverted') THEN
+    NEW.holding_stack_id := NULL;
+    NEW.holding_level_ft := NULL;
+    NEW.holding_entered_at := NULL;
+    NEW.expected_approach_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER clear_flights_holding
+  BEFORE UPDATE OF status ON public.flights
+  FOR EACH ROW EXECUTE FUNCTION public.clear_holding();
@@ -0,0 +1,57 @@
+-- ============================================
+-- FLIGHTS: release flights from a deleted runway
+-- ============================================
+-- Deleting a runway sets runway_id to NULL on its flights (ON DELETE SET NULL).
+-- That update comes from the foreign key, not from a controller, and the
+-- runway it leaves no longer exists, so the guard lets it through.
+CREATE OR REPLACE FUNCTION public.guard_runway_clearance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_setting('app.runway_clearance', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+  IF NEW.runway_id IS DISTINCT FROM OLD.runway_id
+    AND NOT (NEW.runway_id IS NULL AND NOT EXISTS (SELECT 1 FROM public.runways WHERE id = OLD.runway_id)) THEN
+    RAISE EXCEPTION 'Runways are assigned with assign_runway()' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND NEW.status IN ('lined_up', 'cleared_for_takeoff', 'departed', 'landed', 'cancelled', 'diverted') THEN
+    RAISE EXCEPTION 'A flight is % only through an ATC clearance', NEW.status USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================
+-- CHECK: a runway with flights can be deleted
+-- ============================================
+-- Runs against throwaway rows and rolls them back; the migration fails if the
+-- delete is rejected or leaves the flight pointing at the runway.
+DO $$
+DECLARE
+  _runway_id UUID;
+  _flight_id UUID;
+BEGIN
+  BEGIN
+    INSERT INTO public.airports (iata, name, city, country, timezone, latitude, longitude) VALUES
+      ('ZZA', 'Runway delete check A', 'Check', 'ZZ', 'UTC', 0, 0),
+      ('ZZB', 'Runway delete check B', 'Check', 'ZZ', 'UTC', 0, 1);
+    INSERT INTO public.runways (name) VALUES ('ZZ delete check') RETURNING id INTO _runway_id;
+    INSERT INTO public.flights (flight_number, airline, origin, destination, scheduled_departure, scheduled_arrival, runway_id)
+    VALUES ('ZZ0001', 'Check', 'ZZA', 'ZZB', now() + interval '1 day', now() + interval '1 day 2 hours', _runway_id)
+    RETURNING id INTO _flight_id;
+
+    DELETE FROM public.runways WHERE id = _runway_id;
+    IF (SELECT runway_id FROM public.flights WHERE id = _flight_id) IS NOT NULL THEN
+      RAISE EXCEPTION 'Deleting a runway left its flights assigned to it';
+    END IF;
+
+    RAISE EXCEPTION USING ERRCODE = 'ZZ001';
+  EXCEPTION WHEN SQLSTATE 'ZZ001' THEN
+    NULL;
+  END;
+END;
+$$;
@@ -0,0 +1,83 @@
+-- ============================================
+-- FUNCTION: SSIM import
+-- ============================================
+-- Applies a previewed SSIM file in one transaction: every new flight and every
+-- reschedule is written, or none is, together with one activity_log entry.
+-- SSIM only carries the airline designator; new flights take the airline name
+-- last used with that designator by a flight or schedule, else the designator.
+-- Flights that started operating since the preview fail the whole import.
+-- Runs as the caller, so the flights RLS policies still apply.
+CREATE OR REPLACE FUNCTION public.airline_name(_designator TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT airline FROM public.flights
+     WHERE flight_number ~ ('^' || _designator || '[0-9]') AND airline <> _designator
+     ORDER BY scheduled_departure DESC LIMIT 1),
+    (SELECT airline FROM public.flight_schedules
+     WHERE flight_number ~ ('^' || _designator || '[0-9]') AND airline <> _designator
+     ORDER BY valid_to DESC LIMIT 1),
+    _designator
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.import_ssim(_creates JSONB, _updates JSONB, _source TEXT, _details JSONB DEFAULT '{}'::jsonb)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _created INTEGER;
+  _updated INTEGER;
+  _locked TEXT;
+BEGIN
+  SELECT string_agg(f.flight_number, ', ') INTO _locked
+  FROM public.flights f
+  JOIN jsonb_to_recordset(_updates) AS u(id UUID) ON u.id = f.id
+  WHERE f.status NOT IN ('scheduled', 'delayed');
+  IF _locked IS NOT NULL THEN
+    RAISE EXCEPTION 'Flights have started operating since the preview: %', _locked USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.flights f
+  SET origin = u.origin,
+    destination = u.destination,
+    scheduled_departure = u.scheduled_departure,
+    scheduled_arrival = u.scheduled_arrival,
+    aircraft_type = u.aircraft_type,
+    capacity = COALESCE(u.capacity, f.capacity),
+    is_schedule_override = f.is_schedule_override OR f.schedule_id IS NOT NULL
+  FROM jsonb_to_recordset(_updates) AS u(
+    id UUID, origin TEXT, destination TEXT, scheduled_departure TIMESTAMPTZ, scheduled_arrival TIMESTAMPTZ,
+    aircraft_type TEXT, capacity INTEGER
+  )
+  WHERE f.id = u.id;
+  GET DIAGNOSTICS _updated = ROW_COUNT;
+
+  INSERT INTO public.flights (
+    flight_number, airline, origin, destination, scheduled_departure, scheduled_arrival,
+    aircraft_type, capacity, created_by
+  )
+  SELECT
+    r.flight_number, public.airline_name(r.airline), r.origin, r.destination, r.scheduled_departure, r.scheduled_arrival,
+    r.aircraft_type, COALESCE(r.capacity, 180), auth.uid()
+  FROM jsonb_to_recordset(_creates) AS r(
+    flight_number TEXT, airline TEXT, origin TEXT, destination TEXT,
+    scheduled_departure TIMESTAMPTZ, scheduled_arrival TIMESTAMPTZ, aircraft_type TEXT, capacity INTEGER
+  );
+  GET DIAGNOSTICS _created = ROW_COUNT;
+
+  INSERT INTO public.activity_log (user_id, action, entity_type, details)
+  VALUES (
+    auth.uid(),
+    format('Imported SSIM file %s', _source),
+    'flight',
+    _details || jsonb_build_object('source', _source, 'created', _created, 'updated', _updated)
+  );
+
+  RETURN jsonb_build_object('created', _created, 'updated', _updated);
+END;
+$$;
@@ -0,0 +1,60 @@
+-- ============================================
+-- FUNCTION: Delay a flight with IATA delay codes
+-- ============================================
+-- The status, the retimed estimates, the minutes per code, the alert and the
+-- activity entry are written in one transaction, so the delay analysis never
+-- misses a delay the flight shows. _delays is [{ "code": "93", "minutes": 20 }].
+CREATE OR REPLACE FUNCTION public.delay_flight(_flight_id UUID, _delays JSONB, _remarks TEXT DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _f public.flights%ROWTYPE;
+  _minutes INTEGER;
+  _codes TEXT;
+  _remark TEXT := NULLIF(trim(_remarks), '');
+BEGIN
+  SELECT * INTO _f FROM public.flights WHERE id = _flight_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Flight % not found', _flight_id USING ERRCODE = 'no_data_found';
+  END IF;
+  IF jsonb_typeof(_delays) <> 'array' OR jsonb_array_length(_delays) = 0 THEN
+    RAISE EXCEPTION 'A delay needs at least one delay code' USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.flight_delays (flight_id, code, minutes, remarks, created_by)
+  SELECT _flight_id, d.code, d.minutes, _remark, auth.uid()
+  FROM jsonb_to_recordset(_delays) AS d(code TEXT, minutes INTEGER);
+
+  SELECT sum(d.minutes), string_agg(format('%s (%sm)', d.code, d.minutes), ', ')
+  INTO _minutes, _codes
+  FROM jsonb_to_recordset(_delays) AS d(code TEXT, minutes INTEGER);
+
+  UPDATE public.flights
+  SET status = 'delayed',
+    estimated_departure = COALESCE(estimated_departure, scheduled_departure) + make_interval(mins => _minutes),
+    estimated_arrival = COALESCE(estimated_arrival, scheduled_arrival) + make_interval(mins => _minutes)
+  WHERE id = _flight_id;
+
+  INSERT INTO public.alerts (title, message, severity, flight_id, created_by)
+  VALUES (
+    'Flight Delayed: ' || _f.flight_number,
+    format('%s delayed by %s minutes. Codes: %s', _f.flight_number, _minutes, _codes) || COALESCE('. ' || _remark, ''),
+    'warning',
+    _flight_id,
+    auth.uid()
+  );
+
+  INSERT INTO public.activity_log (user_id, action, entity_type, entity_id, details)
+  VALUES (
+    auth.uid(),
+    format('Delayed %s by %s min: %s', _f.flight_number, _minutes, _codes),
+    'flight',
+    _flight_id,
+    jsonb_build_object('codes', _delays, 'remarks', _remark)
+  );
+
+  RETURN _minutes;
+END;
+$$;
@@ -0,0 +1,36 @@
+-- ============================================
+-- FLIGHTS: fuel report time
+-- ============================================
+-- fuel_endurance_minutes counts down from the time the crew reported it, which
+-- is kept on its own so the report outlives the hold: a flight leaving the stack
+-- for its approach still carries its fuel state to the runway.
+ALTER TABLE public.flights ADD COLUMN fuel_reported_at TIMESTAMPTZ;
+
+UPDATE public.flights
+SET fuel_reported_at = COALESCE(holding_entered_at, now())
+WHERE fuel_endurance_minutes IS NOT NULL;
+
+ALTER TABLE public.flights
+  ADD CONSTRAINT flights_fuel_report_check CHECK ((fuel_endurance_minutes IS NULL) = (fuel_reported_at IS NULL));
+
+-- ============================================
+-- TRIGGER: Leave the stack on landing
+-- ============================================
+-- The fuel report lapses with the flight too.
+CREATE OR REPLACE FUNCTION public.clear_holding()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IN ('landed', 'cancelled', 'diverted') THEN
+    NEW.holding_stack_id := NULL;
+    NEW.holding_level_ft := NULL;
+    NEW.holding_entered_at := NULL;
+    NEW.expected_approach_at := NULL;
+    NEW.fuel_endurance_minutes := NULL;
+    NEW.fuel_reported_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
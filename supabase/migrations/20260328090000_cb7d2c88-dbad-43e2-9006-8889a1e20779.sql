@@ -0,0 +1,30 @@
+-- ============================================
+-- FLIGHT STATUS: departures go through the runway
+-- ============================================
+-- A departure lines up and is cleared for take-off before it departs; the
+-- shortcuts straight to departed from the stand are gone.
+DELETE FROM public.flight_status_transitions
+WHERE to_status = 'departed' AND from_status IN ('scheduled', 'boarding', 'delayed');
+
+-- ============================================
+-- FUNCTION: Take-off only after a take-off clearance
+-- ============================================
+CREATE OR REPLACE FUNCTION public.approve_takeoff(_flight_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _f public.flights%ROWTYPE;
+BEGIN
+  _f := public.begin_runway_clearance(_flight_id);
+  IF _f.status <> 'cleared_for_takeoff' THEN
+    RAISE EXCEPTION '% is % and not cleared for take-off', _f.flight_number, replace(_f.status::TEXT, '_', ' ')
+      USING ERRCODE = 'check_violation';
+  END IF;
+  UPDATE public.flights
+  SET status = 'departed', actual_departure = now(), runway_id = NULL
+  WHERE id = _flight_id;
+  PERFORM public.release_runway_alerts(_flight_id, _f.runway_id);
+END;
+$$;
@@ -0,0 +1,46 @@
+-- ============================================
+-- FLIGHTS: new flights go through the same guard
+-- ============================================
+-- A plain insert may not create a flight already cleared by ATC, and may only
+-- plan it on a runway that assign_runway() would accept. Windows are checked
+-- against the slot time by check_runway_closure(), as for assign_runway().
+CREATE OR REPLACE FUNCTION public.guard_runway_clearance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _runway public.runways%ROWTYPE;
+BEGIN
+  IF current_setting('app.runway_clearance', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status IN ('lined_up', 'cleared_for_takeoff', 'departed', 'landed', 'cancelled', 'diverted') THEN
+      RAISE EXCEPTION 'A flight is % only through an ATC clearance', NEW.status USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    IF NEW.runway_id IS NOT NULL THEN
+      SELECT * INTO _runway FROM public.runways WHERE id = NEW.runway_id;
+      IF _runway.status IN ('maintenance', 'closed') AND NOT _runway.status_from_closure THEN
+        RAISE EXCEPTION 'Runway % is %', _runway.name, _runway.status USING ERRCODE = 'check_violation';
+      END IF;
+    END IF;
+    RETURN NEW;
+  END IF;
+  IF NEW.runway_id IS DISTINCT FROM OLD.runway_id
+    AND NOT (NEW.runway_id IS NULL AND NOT EXISTS (SELECT 1 FROM public.runways WHERE id = OLD.runway_id)) THEN
+    RAISE EXCEPTION 'Runways are assigned with assign_runway()' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND NEW.status IN ('lined_up', 'cleared_for_takeoff', 'departed', 'landed', 'cancelled', 'diverted') THEN
+    RAISE EXCEPTION 'A flight is % only through an ATC clearance', NEW.status USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER guard_flights_runway_clearance ON public.flights;
+
+CREATE TRIGGER guard_flights_runway_clearance
+  BEFORE INSERT OR UPDATE OF runway_id, status ON public.flights
+  FOR EACH ROW EXECUTE FUNCTION public.guard_runway_clearance();
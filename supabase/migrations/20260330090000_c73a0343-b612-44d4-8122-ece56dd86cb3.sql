@@ -0,0 +1,38 @@
+-- ============================================
+-- FUNCTION: Edit a flight
+-- ============================================
+-- Saves the flight form in one transaction: the field changes, then a new
+-- runway through assign_runway(), so a rejected runway leaves the flight as it
+-- was. Keys missing from _changes keep their value; editing a generated
+-- instance detaches it from future schedule syncs. Runs as the caller, so the
+-- flights RLS policies and the status guards still apply.
+CREATE OR REPLACE FUNCTION public.update_flight(_flight_id UUID, _changes JSONB, _runway_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _f public.flights%ROWTYPE;
+BEGIN
+  SELECT * INTO _f FROM public.flights WHERE id = _flight_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Flight % not found', _flight_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  UPDATE public.flights f
+  SET (
+    flight_number, airline, origin, destination, status, scheduled_departure, scheduled_arrival,
+    estimated_departure, estimated_arrival, gate_id, aircraft_id, inbound_flight_id, aircraft_type, capacity, notes
+  ) = (
+    SELECT c.flight_number, c.airline, c.origin, c.destination, c.status, c.scheduled_departure, c.scheduled_arrival,
+      c.estimated_departure, c.estimated_arrival, c.gate_id, c.aircraft_id, c.inbound_flight_id, c.aircraft_type, c.capacity, c.notes
+    FROM jsonb_populate_record(f, _changes) AS c
+  ),
+    is_schedule_override = f.is_schedule_override OR f.schedule_id IS NOT NULL
+  WHERE f.id = _flight_id;
+
+  IF _runway_id IS DISTINCT FROM _f.runway_id THEN
+    PERFORM public.assign_runway(_flight_id, _runway_id);
+  END IF;
+END;
+$$;
@@ -0,0 +1,53 @@
+-- ============================================
+-- FLIGHT STATUS: departed is not undone
+-- ============================================
+-- Return to stand is for flights that have not taken off; it goes through
+-- return_to_stand() below instead of a departed → delayed transition.
+DELETE FROM public.flight_status_transitions
+WHERE from_status = 'departed' AND to_status = 'delayed';
+
+CREATE OR REPLACE FUNCTION public.apply_diversion_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'diverted' AND OLD.status <> 'diverted' THEN
+    NEW.diverted_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================
+-- FUNCTION: Return to stand
+-- ============================================
+-- A flight taxiing out or holding its runway goes back to the stand as
+-- delayed, and may line up again later. The alert is raised in the same
+-- transaction.
+CREATE OR REPLACE FUNCTION public.return_to_stand(_flight_id UUID, _reason TEXT DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _f public.flights%ROWTYPE;
+  _note TEXT := NULLIF(trim(_reason), '');
+BEGIN
+  _f := public.begin_runway_clearance(_flight_id);
+  IF _f.status NOT IN ('boarding', 'lined_up', 'cleared_for_takeoff') THEN
+    RAISE EXCEPTION 'A % flight cannot return to stand', replace(_f.status::TEXT, '_', ' ')
+      USING ERRCODE = 'check_violation';
+  END IF;
+  UPDATE public.flights SET status = 'delayed' WHERE id = _flight_id;
+
+  INSERT INTO public.alerts (title, message, severity, flight_id, created_by)
+  VALUES (
+    'Return to Stand: ' || _f.flight_number,
+    _f.flight_number || ' returned to stand' || COALESCE(': ' || _note, '.'),
+    'warning',
+    _flight_id,
+    auth.uid()
+  );
+END;
+$$;
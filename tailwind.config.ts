@@ -60,9 +60,12 @@ export default {
           scheduled: "hsl(var(--status-scheduled))",
           boarding: "hsl(var(--status-boarding))",
           delayed: "hsl(var(--status-delayed))",
+          "lined-up": "hsl(var(--status-lined-up))",
+          cleared: "hsl(var(--status-cleared))",
           departed: "hsl(var(--status-departed))",
           landed: "hsl(var(--status-landed))",
           cancelled: "hsl(var(--status-cancelled))",
+          diverted: "hsl(var(--status-diverted))",
           emergency: "hsl(var(--status-emergency))",
         },
       },